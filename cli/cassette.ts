@@ -0,0 +1,166 @@
+#!/usr/bin/env -S npx tsx
+/**
+ * Cassettes
+ *
+ * Records a wdk-candide command's traffic with the node, bundler, paymaster
+ * and recovery service into a cassette file (lib/cassette.ts), or replays a
+ * cassette with no network and checks the command makes the same calls:
+ *
+ *   npm run cassette -- record cassettes/send-erc20.json -- send --gas erc20 --yes
+ *   npm run cassette -- replay cassettes/send-erc20.json
+ *
+ * Recording runs against the services in .env (or --profile), so it needs
+ * a funded Safe and real OTPs, like the command on its own. Secrets, service
+ * URLs, email addresses and phone numbers are redacted before the cassette is
+ * written.
+ *
+ * Replaying runs the recorded command again (or the one after `--`) with the
+ * same .env — the seed phrase decides the Safe address the requests carry —
+ * and answers from the cassette: OTP prompts are answered, and polling is
+ * fast, as every poll gets the next recorded answer. It exits 0 when the
+ * command made exactly the recorded calls and exited as it did when recorded,
+ * and 1 when it made a call the cassette does not have, skipped one it does
+ * or exited differently — the sign that abstractionkit, WDK or the SDK now
+ * talk to the services differently.
+ *
+ * Libraries used:
+ *   - node:http, fetch: the recording and replaying proxy
+ *
+ * Required env vars (recording): NODE_URL, BUNDLER_URL, and PAYMASTER_URL /
+ * RECOVERY_SERVICE_URL where the command uses them
+ *
+ * Run: npm run cassette -- record <file> -- <wdk-candide command>
+ *      npm run cassette -- replay <file> [-- <wdk-candide command>]
+ */
+
+import * as dotenv from 'dotenv'
+
+import { getPositionalArgs, printSection, runMain, runWdkCandide } from '../lib/cli.js'
+import {
+    CASSETTE_SERVICES,
+    Cassette,
+    CassetteService,
+    createRedactor,
+    loadCassette,
+    saveCassette,
+    startCassetteServer,
+} from '../lib/cassette.js'
+import { loadConfig } from '../lib/config.js'
+import { UsageError } from '../lib/errors.js'
+
+const USAGE = 'Usage: cassette record <file> -- <wdk-candide command> | cassette replay <file> [-- <wdk-candide command>]'
+
+/** Polling settings for replay: every poll is answered at once from the cassette */
+const REPLAY_POLLING = {
+    POLL_INTERVAL_SECONDS: '0.05',
+    POLL_BACKOFF: '1',
+    USEROP_POLL_INTERVAL_SECONDS: '0.05',
+}
+
+// Everything after `--` is the command to run; only the options before it are ours
+const separator = process.argv.indexOf('--')
+const command = separator < 0 ? [] : process.argv.slice(separator + 1)
+if (separator >= 0) {
+    process.argv = process.argv.slice(0, separator)
+}
+
+/**
+ * The service URLs for the command: the proxy's for the services of the
+ * recording, and empty (unset) for the others, so a replay does not reach a
+ * service that .env happens to configure
+ */
+function serviceEnv(urls: Record<CassetteService, string>, services: CassetteService[]): Record<string, string> {
+    return Object.fromEntries(
+        (Object.keys(CASSETTE_SERVICES) as CassetteService[])
+            .map(service => [CASSETTE_SERVICES[service], services.includes(service) ? urls[service] : ''])
+    )
+}
+
+async function record(file: string) {
+    if (command.length === 0) {
+        throw new UsageError(`Give the command to record after --\n${USAGE}`)
+    }
+    // The command's own --profile picks the services to record, as it would without us
+    const profileFlag = command.indexOf('--profile')
+    if (profileFlag >= 0) {
+        process.env.PROFILE = command[profileFlag + 1]
+    }
+    const config = loadConfig(['CHAIN_ID', 'NODE_URL', 'BUNDLER_URL'], ['PAYMASTER_URL', 'RECOVERY_SERVICE_URL'])
+    const upstreams: Partial<Record<CassetteService, string>> = {
+        node: config.NODE_URL,
+        bundler: config.BUNDLER_URL,
+        paymaster: config.PAYMASTER_URL,
+        'recovery-service': config.RECOVERY_SERVICE_URL,
+    }
+
+    const cassette: Cassette = {
+        version: 1,
+        recordedAt: new Date().toISOString(),
+        chainId: config.CHAIN_ID,
+        command,
+        services: (Object.keys(upstreams) as CassetteService[]).filter(service => upstreams[service]),
+        exchanges: [],
+    }
+    const server = await startCassetteServer({ mode: 'record', cassette, upstreams, redact: createRedactor(process.env) })
+
+    printSection('Recording')
+    console.log(`Running: wdk-candide ${command.join(' ')}\n`)
+    const exitCode = await runWdkCandide(command, serviceEnv(server.urls, cassette.services))
+    await server.close()
+    cassette.exitCode = exitCode
+    saveCassette(file, cassette)
+
+    console.log(`\nRecorded ${cassette.exchanges.length} exchanges to ${file} (command exited ${exitCode})`)
+    process.exitCode = exitCode
+    return { file, command, exchanges: cassette.exchanges.length, exitCode }
+}
+
+async function replay(file: string) {
+    const cassette = loadCassette(file)
+    const replayed = command.length > 0 ? command : cassette.command
+    const server = await startCassetteServer({ mode: 'replay', cassette })
+
+    printSection('Replaying')
+    console.log(`${file}: ${cassette.exchanges.length} exchanges recorded ${cassette.recordedAt}`)
+    console.log(`Running: wdk-candide ${replayed.join(' ')}\n`)
+    const env: Record<string, string> = {
+        ...serviceEnv(server.urls, cassette.services),
+        ...(cassette.chainId !== undefined && { CHAIN_ID: String(cassette.chainId) }),
+        OTP_HOOK_URL: server.otpHookUrl,
+    }
+    for (const [name, value] of Object.entries(REPLAY_POLLING)) {
+        env[name] = process.env[name] ?? value
+    }
+    const exitCode = await runWdkCandide(replayed, env)
+    await server.close()
+
+    const unused = server.unused()
+    printSection('Replay Result')
+    for (const mismatch of server.mismatches) {
+        console.log(`  ✗ ${mismatch}`)
+    }
+    for (const exchange of unused) {
+        console.log(`  ✗ Recorded but not requested: ${exchange.service} ${exchange.call}`)
+    }
+    if (exitCode !== cassette.exitCode) {
+        console.log(`  ✗ The command exited ${exitCode}, it exited ${cassette.exitCode} when recorded`)
+    }
+    const matched = server.mismatches.length === 0 && unused.length === 0 && exitCode === cassette.exitCode
+    if (matched) {
+        console.log(`  ✓ Every call matched the cassette, and the command exited ${exitCode} as recorded`)
+    }
+    process.exitCode = matched ? 0 : 1
+    return { file, command: replayed, exitCode, mismatches: server.mismatches, unused: unused.map(e => `${e.service} ${e.call}`) }
+}
+
+async function main() {
+    dotenv.config()
+
+    const [mode, file] = getPositionalArgs()
+    if (!file || (mode !== 'record' && mode !== 'replay')) {
+        throw new UsageError(USAGE)
+    }
+    return mode === 'record' ? record(file) : replay(file)
+}
+
+runMain(main)
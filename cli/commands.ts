@@ -0,0 +1,253 @@
+/**
+ * wdk-candide Command Table
+ *
+ * Every subcommand of the CLI maps onto one of the example flows. The CLI
+ * passes the remaining arguments through, prefixed with `args`, so the
+ * examples keep their own argument handling and stay runnable on their own.
+ */
+
+import { UsageError } from '../lib/errors.js'
+
+export type CommandSpec = {
+    /** Words after `wdk-candide`, e.g. ['guardians', 'remove'] */
+    path: string[]
+    summary: string
+    /** Arguments shown in the usage line */
+    usage?: string
+    /** Command-specific options, one help line each */
+    options?: string[]
+    /** The example to run, relative to the repository root */
+    flow: string | ((options: Record<string, string | undefined>) => string)
+    /** Arguments inserted before the user's, e.g. the example's own subcommand */
+    args?: string[]
+    /** Options this command consumes itself (their values pick the flow) */
+    consumes?: string[]
+}
+
+const PERSONAL = 'recovery/personal-guardian'
+const EMAIL_SMS = 'recovery/email-sms'
+const SHARED = 'recovery/shared'
+
+const GAS_FLOWS: Record<string, string> = {
+    sponsored: 'send-userop/01-sponsored-gas/index.ts',
+    erc20: 'send-userop/02-erc20-gas/index.ts',
+}
+
+const RECOVERY_FLOWS: Record<string, string> = {
+    guardians: `${PERSONAL}/02-recovery-flow-personal-guardian/index.ts`,
+    'email-sms': `${EMAIL_SMS}/02-recovery-flow-email-sms/index.ts`,
+}
+
+/** Every command that sends a UserOperation previews it first (lib/userop-preview.ts) */
+const PREVIEW_OPTIONS = [
+    '--yes                     Submit without asking for confirmation',
+    '--dry-run                 Stop after the simulation and fee preview',
+    '--gas-fallback <modes>    Gas modes to try in order, e.g. sponsored,erc20,native (GAS_FALLBACK)',
+    '--gas-token <address>     Preferred ERC-20 gas token (PAYMASTER_TOKEN_ADDRESS)',
+]
+
+/** Recovery steps that can be sent on-chain without the recovery service (lib/direct-recovery.ts) */
+const RELAY_OPTIONS = [
+    '--relay <eoa|bundler>     Send it on-chain without the recovery service (RECOVERY_RELAY)',
+    '--yes                     Submit without asking for confirmation',
+    '--dry-run                 Stop after the simulation and fee preview',
+]
+
+/** Look up `value` in `flows`, naming the valid choices if it is unknown */
+function pick(flows: Record<string, string>, option: string, value: string): string {
+    const flow = flows[value]
+    if (!flow) {
+        throw new UsageError(`${option} must be one of ${Object.keys(flows).join(', ')}, got "${value}"`)
+    }
+    return flow
+}
+
+export const COMMANDS: CommandSpec[] = [
+    {
+        path: ['send'],
+        summary: 'Send a UserOperation from the Safe',
+        options: [
+            '--gas <sponsored|erc20>   How gas is paid (default: sponsored)',
+            '--calls <file|->          Batch of calls to send, JSON or YAML (CALLS_FILE)',
+            "--call '<JSON>'           One call, repeatable; instead of --calls",
+            ...PREVIEW_OPTIONS,
+        ],
+        flow: ({ '--gas': gas = 'sponsored' }) => pick(GAS_FLOWS, '--gas', gas),
+        consumes: ['--gas'],
+    },
+    {
+        path: ['transfer'],
+        summary: 'Send ETH or an ERC-20 from the Safe, checking the balance first',
+        usage: '<to> <amount>',
+        options: [
+            '--token <address|native>  Token to send (default: native)',
+            '--gas <sponsored|erc20>   How gas is paid (default: sponsored)',
+            ...PREVIEW_OPTIONS,
+        ],
+        flow: 'send-userop/03-token-transfer/index.ts',
+        args: ['transfer'],
+    },
+    {
+        path: ['approve'],
+        summary: 'Approve a spender for an ERC-20 held by the Safe',
+        usage: '<spender> <amount>',
+        options: [
+            '--token <address>         Token to approve (required)',
+            '--gas <sponsored|erc20>   How gas is paid (default: sponsored)',
+            ...PREVIEW_OPTIONS,
+        ],
+        flow: 'send-userop/03-token-transfer/index.ts',
+        args: ['approve'],
+    },
+    {
+        path: ['wait'],
+        summary: 'Wait for a UserOperation by hash, optionally replacing it with higher fees',
+        usage: '<userOpHash>',
+        options: [
+            '--replace                 Re-submit it now if still pending, same nonce, higher fees',
+            '--bump <percent>          Fee increase for --replace (default: 20)',
+        ],
+        flow: 'send-userop/04-wait-userop/index.ts',
+    },
+    {
+        path: ['status'],
+        summary: 'Read-only report of owners, guardians, pending recovery, gas token, channels and alerts',
+        flow: `${SHARED}/account-status/index.ts`,
+    },
+    {
+        path: ['guardians', 'add'],
+        summary: 'Reconcile the guardian set with guardians.json (or GUARDIAN_<n>_PRIVATE_KEY)',
+        options: PREVIEW_OPTIONS,
+        flow: `${PERSONAL}/01-add-personal-guardian/index.ts`,
+    },
+    {
+        path: ['guardians', 'remove'],
+        summary: 'Revoke a guardian',
+        usage: '<guardian> [threshold]',
+        options: PREVIEW_OPTIONS,
+        flow: `${PERSONAL}/05-manage-guardians/index.ts`,
+        args: ['remove'],
+    },
+    {
+        path: ['guardians', 'rotate'],
+        summary: 'Replace a guardian with a new one',
+        usage: '<old> <new> [threshold]',
+        options: PREVIEW_OPTIONS,
+        flow: `${PERSONAL}/05-manage-guardians/index.ts`,
+        args: ['rotate'],
+    },
+    {
+        path: ['guardians', 'threshold'],
+        summary: 'Change how many guardians must sign',
+        usage: '<n>',
+        options: PREVIEW_OPTIONS,
+        flow: `${PERSONAL}/05-manage-guardians/index.ts`,
+        args: ['threshold'],
+    },
+    {
+        path: ['guardians', 'list'],
+        summary: 'Print the current guardians and threshold',
+        flow: `${PERSONAL}/05-manage-guardians/index.ts`,
+        args: ['list'],
+    },
+    {
+        path: ['recovery', 'start'],
+        summary: 'Start (or resume) a recovery through personal guardians or email/SMS',
+        options: [
+            '--via <guardians|email-sms>   Recovery path (default: guardians)',
+            '--safe <address>              Safe to recover',
+            '--new-owners <a,b,...>        Owners after recovery (default: a generated demo key)',
+            '--new-threshold <n>           Safe threshold after recovery (default: 1)',
+            '--relay <eoa|bundler>         Guardians: execute and finalize without the recovery service',
+        ],
+        flow: ({ '--via': via = 'guardians' }) => pick(RECOVERY_FLOWS, '--via', via),
+        consumes: ['--via'],
+    },
+    {
+        path: ['recovery', 'sign'],
+        summary: 'Sign a recovery request as one guardian and export a signature bundle',
+        usage: '<safe> <newOwner[,newOwner...]> [threshold]',
+        options: ['--new-threshold <n>       Safe threshold after recovery (default: 1)'],
+        flow: `${PERSONAL}/03-guardian-sign-offline/index.ts`,
+    },
+    {
+        path: ['recovery', 'submit'],
+        summary: 'Verify guardian signature bundles and submit them to the recovery service',
+        usage: '<bundle file or string> [...]',
+        options: ['--relay <eoa|bundler>     Only save them in the session, to be relayed on resume'],
+        flow: `${PERSONAL}/04-submit-signature-bundles/index.ts`,
+    },
+    {
+        path: ['recovery', 'execute'],
+        summary: 'Execute a saved recovery request without waiting for the grace period',
+        options: RELAY_OPTIONS,
+        flow: `${SHARED}/recovery-session/index.ts`,
+        args: ['execute'],
+    },
+    {
+        path: ['recovery', 'resume'],
+        summary: 'Continue a saved recovery: execute, wait, finalize',
+        options: RELAY_OPTIONS,
+        flow: `${SHARED}/recovery-session/index.ts`,
+        args: ['resume'],
+    },
+    {
+        path: ['recovery', 'finalize'],
+        summary: 'Finalize a saved recovery once the grace period has elapsed (exit 3 if not yet)',
+        options: RELAY_OPTIONS,
+        flow: `${SHARED}/recovery-session/index.ts`,
+        args: ['finalize'],
+    },
+    {
+        path: ['recovery', 'cancel'],
+        summary: 'Cancel a pending recovery during the grace period',
+        options: PREVIEW_OPTIONS,
+        flow: `${SHARED}/cancel-recovery/index.ts`,
+    },
+    {
+        path: ['recovery', 'status'],
+        summary: 'Show a saved recovery session and its on-chain state',
+        flow: `${SHARED}/recovery-session/index.ts`,
+        args: ['status'],
+    },
+    {
+        path: ['email-sms', 'register'],
+        summary: 'Deploy the Safe and register email/SMS recovery channels',
+        options: [
+            '--channels <email|sms|both>   Channels to register',
+            '--email <address>             Email address',
+            '--phone <number>              Phone number',
+            ...PREVIEW_OPTIONS,
+        ],
+        flow: `${EMAIL_SMS}/01-enable-email-sms-recovery/index.ts`,
+    },
+    {
+        path: ['email-sms', 'list'],
+        summary: 'List the registered email/SMS recovery channels',
+        flow: `${EMAIL_SMS}/03-list-recovery-channels/index.ts`,
+    },
+    {
+        path: ['alerts', 'subscribe'],
+        summary: 'Subscribe to recovery event notifications',
+        options: [
+            '--channels <email|sms|both>   Channels to subscribe',
+            '--email <address>             Email address',
+            '--phone <number>              Phone number',
+        ],
+        flow: `${SHARED}/setup-alerts/index.ts`,
+        args: ['subscribe'],
+    },
+    {
+        path: ['alerts', 'list'],
+        summary: 'List active alert subscriptions',
+        flow: `${SHARED}/setup-alerts/index.ts`,
+        args: ['list'],
+    },
+    {
+        path: ['alerts', 'unsubscribe'],
+        summary: 'Remove alert subscriptions (all, or those matching an id, channel or target)',
+        usage: '[id|channel|target ...]',
+        flow: `${SHARED}/setup-alerts/index.ts`,
+        args: ['unsubscribe'],
+    },
+]
@@ -0,0 +1,92 @@
+#!/usr/bin/env -S npx tsx
+/**
+ * Mock Services
+ *
+ * Starts the local stand-in node, bundler, paymaster and recovery service
+ * (lib/mock-server.ts) on one port, for running the examples with no
+ * network: the chain state, balances, paymaster, bundler and recovery service
+ * behaviour come from a scenario file (see mock-scenario.example.json), and
+ * live in memory until the process ends.
+ *
+ * Without a command it prints the env vars that point the examples at it and
+ * serves until Ctrl+C. After `--`, it runs that wdk-candide command against it
+ * instead, and exits with the command's exit code:
+ *
+ *   npm run mock-services -- --scenario mock-scenario.json -- send --gas erc20 --yes
+ *   npm run mock-services -- -- guardians add --yes
+ *
+ * The command gets NODE_URL, BUNDLER_URL, PAYMASTER_URL and
+ * RECOVERY_SERVICE_URL (all the mock), CHAIN_ID, ENTRY_POINT_ADDRESS,
+ * PAYMASTER_ADDRESS and PAYMASTER_TOKEN_ADDRESS of the scenario, and
+ * OTP_HOOK_URL, so OTP prompts are answered with the mock's code; everything
+ * else (SEED_PHRASE, guardians) comes from .env as usual.
+ *
+ * Libraries used:
+ *   - node:http: the JSON-RPC and recovery service server
+ *   - viem, abstractionkit: contract emulation and UserOperation hashing
+ *
+ * Optional env vars:
+ *   MOCK_SCENARIO_FILE (same as --scenario), MOCK_PORT (same as --port,
+ *   default 8545; 0 picks a free port)
+ *
+ * Run: npm run mock-services -- [--scenario <file>] [--port <n>] [-- <wdk-candide command>]
+ */
+
+import * as dotenv from 'dotenv'
+
+import { getFlagValue, printSection, runMain, runWdkCandide } from '../lib/cli.js'
+import { UsageError } from '../lib/errors.js'
+import { createMockState, loadMockScenario } from '../lib/mock-chain.js'
+import { createMockRecoveryServiceState } from '../lib/mock-recovery-service.js'
+import { getMockServerEnv, startMockServer } from '../lib/mock-server.js'
+
+const USAGE = 'Usage: mock-services [--scenario <file>] [--port <n>] [-- <wdk-candide command>]'
+
+// Everything after `--` is the command to run; only the options before it are ours
+const separator = process.argv.indexOf('--')
+const command = separator < 0 ? [] : process.argv.slice(separator + 1)
+if (separator >= 0) {
+    process.argv = process.argv.slice(0, separator)
+}
+
+async function main() {
+    dotenv.config()
+
+    const scenarioFile = getFlagValue('--scenario') ?? process.env.MOCK_SCENARIO_FILE
+    const portValue = getFlagValue('--port') ?? process.env.MOCK_PORT ?? '8545'
+    const port = Number(portValue)
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new UsageError(`--port must be a port number, got "${portValue}"\n${USAGE}`)
+    }
+
+    const scenario = scenarioFile ? loadMockScenario(scenarioFile) : {}
+    const state = createMockState(scenario)
+    const recoveryService = createMockRecoveryServiceState(scenario.recoveryService)
+    const server = await startMockServer({ state, recoveryService, port })
+    const env = getMockServerEnv(server)
+
+    printSection('Mock Node, Bundler, Paymaster and Recovery Service')
+    console.log(`Listening on ${server.url}${scenarioFile ? ` (scenario ${scenarioFile})` : ''}`)
+    console.log(`Paymaster:  ${state.paymaster.sponsor ? 'sponsors' : `rejects sponsorship ("${state.paymaster.rejectReason}")`}`)
+    console.log(`Bundler:    ${state.bundler.inclusion} inclusion${state.bundler.pendingPolls ? `, after ${state.bundler.pendingPolls} receipt polls` : ''}`)
+    console.log('Tokens:     ' + (Object.values(state.tokens).map(t => `${t.symbol} ${t.address}`).join(', ') || 'none'))
+    console.log(`OTP code:   ${recoveryService.otp}` + (recoveryService.failures.length ? `, failing ${recoveryService.failures.map(f => f.operation).join(', ')}` : ''))
+
+    if (command.length > 0) {
+        console.log(`\nRunning: wdk-candide ${command.join(' ')}`)
+        const exitCode = await runWdkCandide(command, env)
+        await server.close()
+        process.exitCode = exitCode
+        return { url: server.url, command, exitCode }
+    }
+
+    console.log('\nPoint the examples at it (shell variables override .env):\n')
+    for (const [name, value] of Object.entries(env)) {
+        console.log(`  export ${name}=${value}`)
+    }
+    console.log('\nCtrl+C to stop.')
+    await new Promise(resolve => process.once('SIGINT', resolve))
+    await server.close()
+}
+
+runMain(main)
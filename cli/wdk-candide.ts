@@ -0,0 +1,239 @@
+#!/usr/bin/env -S npx tsx
+/**
+ * wdk-candide CLI
+ *
+ * One entry point for every example, grouped into subcommands:
+ *
+ *   wdk-candide send [--gas sponsored|erc20]
+ *   wdk-candide transfer <to> <amount> [--token <address>]
+ *   wdk-candide approve <spender> <amount> --token <address>
+ *   wdk-candide wait <userOpHash> [--replace]
+ *   wdk-candide status
+ *   wdk-candide guardians add|remove|rotate|threshold|list
+ *   wdk-candide recovery start|sign|submit|execute|resume|finalize|cancel|status
+ *   wdk-candide email-sms register|list
+ *   wdk-candide alerts subscribe|list|unsubscribe
+ *
+ * The CLI only parses the command line: it applies the global options, then
+ * runs the matching example (see cli/commands.ts) with the remaining
+ * arguments. The npm scripts are aliases for these commands.
+ *
+ * Global options:
+ *   --profile <name>   Profile from profiles.json (see lib/config.ts)
+ *   --chain <id>       Sets CHAIN_ID, over the profile and .env
+ *   --json             One JSON result or error object on stdout
+ *   --verbose          LOG_LEVEL=verbose: print stack traces on errors
+ *   --quiet            LOG_LEVEL=quiet: print only errors and JSON
+ *   --non-interactive  Fail instead of prompting (see lib/input.ts)
+ *   --input <file|->   Prompt answers as JSON
+ *   --help, -h         Help for the CLI, a command group or a command
+ *
+ * Exit codes (EXIT_CODES in lib/cli.ts): 0 success, 1 failure, 2 usage error,
+ * 3 not ready yet (e.g. finalize during the grace period, a UserOperation
+ * still pending at its deadline).
+ *
+ * Run: npm run wdk-candide -- <command> [options]
+ */
+
+import * as path from 'path'
+import { fileURLToPath, pathToFileURL } from 'url'
+
+import { EXIT_CODES, VALUE_FLAGS, isJsonOutput, printJson } from '../lib/cli.js'
+import { UsageError, printError, serializeError } from '../lib/errors.js'
+import { COMMANDS, CommandSpec } from './commands.js'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const NAME = 'wdk-candide'
+
+const REPO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+
+const GLOBAL_OPTIONS = [
+    '--profile <name>     Profile from profiles.json (PROFILE)',
+    '--chain <id>         Chain ID, over the profile and .env (CHAIN_ID)',
+    '--json               Print one JSON result or error object on stdout',
+    '--verbose            Print stack traces on errors (LOG_LEVEL=verbose)',
+    '--quiet              Print only errors and JSON (LOG_LEVEL=quiet)',
+    '--non-interactive    Fail instead of prompting (NON_INTERACTIVE=true)',
+    '--input <file|->     Prompt answers as JSON (INPUTS_FILE)',
+    '-h, --help           Show help',
+]
+
+const EXIT_CODES_HELP = 'Exit codes: 0 success, 1 failure, 2 usage error, 3 not ready yet'
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function formatOptions(title: string, options: string[]): string {
+    return `${title}:\n${options.map((o) => `  ${o}`).join('\n')}`
+}
+
+function commandLine(spec: CommandSpec): string {
+    return [NAME, ...spec.path, spec.usage].filter(Boolean).join(' ')
+}
+
+function topLevelHelp(): string {
+    const width = Math.max(...COMMANDS.map((c) => c.path.join(' ').length))
+    return [
+        `Usage: ${NAME} <command> [options]`,
+        formatOptions('Commands', COMMANDS.map((c) => `${c.path.join(' ').padEnd(width)}   ${c.summary}`)),
+        formatOptions('Global options', GLOBAL_OPTIONS),
+        EXIT_CODES_HELP,
+        `Run \`${NAME} <command> --help\` for a command's arguments and options.`,
+    ].join('\n\n')
+}
+
+function groupHelp(group: string): string {
+    const commands = COMMANDS.filter((c) => c.path[0] === group)
+    const width = Math.max(...commands.map((c) => c.path[1].length))
+    return [
+        `Usage: ${NAME} ${group} <${commands.map((c) => c.path[1]).join('|')}> [options]`,
+        formatOptions('Commands', commands.map((c) => `${c.path[1].padEnd(width)}   ${c.summary}`)),
+        formatOptions('Global options', GLOBAL_OPTIONS),
+    ].join('\n\n')
+}
+
+function commandHelp(spec: CommandSpec): string {
+    return [
+        `Usage: ${commandLine(spec)} [options]`,
+        spec.summary,
+        ...(spec.options ? [formatOptions('Options', spec.options)] : []),
+        formatOptions('Global options', GLOBAL_OPTIONS),
+        EXIT_CODES_HELP,
+    ].join('\n\n')
+}
+
+/** Print an error the way runMain would, then exit */
+function exitWithError(error: unknown, help?: string): never {
+    if (isJsonOutput()) {
+        printJson({ ok: false, error: serializeError(error) })
+    } else {
+        printError(error)
+        if (help) {
+            console.error('\n' + help)
+        }
+    }
+    process.exit(error instanceof UsageError ? EXIT_CODES.usage : EXIT_CODES.failure)
+}
+
+/** Print a usage error and the relevant help, then exit with EXIT_CODES.usage */
+function exitWithUsage(message: string, help: string): never {
+    exitWithError(new UsageError(message), help)
+}
+
+/** Remove a value option from `args` and return its value */
+function takeOption(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name)
+    if (index < 0) {
+        return undefined
+    }
+    const value = args[index + 1]
+    if (value === undefined || value.startsWith('--')) {
+        throw new UsageError(`${name} needs a value`)
+    }
+    args.splice(index, 2)
+    return value
+}
+
+/** Remove a switch from `args`, returning whether it was there */
+function takeSwitch(args: string[], ...names: string[]): boolean {
+    const found = args.some((a) => names.includes(a))
+    for (let i = args.length - 1; i >= 0; i--) {
+        if (names.includes(args[i])) {
+            args.splice(i, 1)
+        }
+    }
+    return found
+}
+
+/** Indexes of the words in `args` that are not options or option values */
+function wordIndexes(args: string[]): number[] {
+    const indexes: number[] = []
+    for (let i = 0; i < args.length; i++) {
+        if (VALUE_FLAGS.includes(args[i])) {
+            i++
+        } else if (!args[i].startsWith('-')) {
+            indexes.push(i)
+        }
+    }
+    return indexes
+}
+
+/**
+ * Apply the global options, find the command and work out which example to
+ * run with which arguments. Help and usage errors exit here.
+ */
+function parseCommandLine(argv: string[]): { flow: string; args: string[] } {
+    const args = [...argv]
+    const help = takeSwitch(args, '--help', '-h')
+
+    const chainId = takeOption(args, '--chain')
+    if (chainId !== undefined) {
+        process.env.CHAIN_ID = chainId
+    }
+    if (takeSwitch(args, '--verbose')) {
+        process.env.LOG_LEVEL = 'verbose'
+    }
+    if (takeSwitch(args, '--quiet')) {
+        process.env.LOG_LEVEL = 'quiet'
+    }
+
+    // Command words come first; everything else is passed to the example
+    const words = wordIndexes(args)
+    const [first, second] = words.map((i) => args[i])
+    if (first === undefined) {
+        if (help) {
+            console.log(topLevelHelp())
+            process.exit(EXIT_CODES.success)
+        }
+        exitWithUsage('Missing command', topLevelHelp())
+    }
+
+    const spec = COMMANDS.find((c) => c.path.length === 1 && c.path[0] === first) ??
+        COMMANDS.find((c) => c.path[0] === first && c.path[1] === second)
+    if (!spec) {
+        if (!COMMANDS.some((c) => c.path[0] === first)) {
+            exitWithUsage(`Unknown command "${first}"`, topLevelHelp())
+        }
+        if (help && second === undefined) {
+            console.log(groupHelp(first))
+            process.exit(EXIT_CODES.success)
+        }
+        exitWithUsage(
+            second === undefined ? `Missing ${first} command` : `Unknown command "${first} ${second}"`,
+            groupHelp(first)
+        )
+    }
+    if (help) {
+        console.log(commandHelp(spec))
+        process.exit(EXIT_CODES.success)
+    }
+
+    words.slice(0, spec.path.length).reverse().forEach((i) => args.splice(i, 1))
+
+    const options = Object.fromEntries(
+        (spec.consumes ?? []).map((name) => [name, takeOption(args, name)])
+    )
+    const flow = typeof spec.flow === 'string' ? spec.flow : spec.flow(options)
+
+    return { flow, args: [...(spec.args ?? []), ...args] }
+}
+
+// ============================================================================
+// Run
+// ============================================================================
+
+let command: { flow: string; args: string[] }
+try {
+    command = parseCommandLine(process.argv.slice(2))
+} catch (error) {
+    exitWithError(error)
+}
+
+// The example reads its arguments from process.argv and exits through runMain
+const flowPath = path.join(REPO_ROOT, command.flow)
+process.argv = [process.argv[0], flowPath, ...command.args]
+await import(pathToFileURL(flowPath).href)
@@ -0,0 +1,359 @@
+/**
+ * HTTP Cassettes
+ *
+ * Records the traffic of a real run — node, bundler, paymaster and recovery
+ * service — into a cassette file, and replays it later with no network, so
+ * the exact request sequences abstractionkit, WDK and the recovery service
+ * SDK produce are pinned down and a version bump that changes them shows up
+ * as a failed replay.
+ *
+ * Both modes are a local proxy: each service gets a path on it (/node,
+ * /bundler, /paymaster, /recovery-service), and the flow is pointed there
+ * instead of at NODE_URL etc. Recording forwards every request upstream and
+ * stores the exchange; replaying answers each request with the next recorded
+ * exchange of the same service and call:
+ *
+ *   - JSON-RPC: the same method (a batch: the same methods), in the order
+ *     recorded; the response's id is the request's
+ *   - HTTP (the recovery service): the same method and path
+ *
+ * Request bodies are kept for reading but not compared — they carry
+ * signatures, SIWE timestamps and nonces that differ on every run. A call
+ * with no recorded exchange left is a mismatch, except for reads (JSON-RPC
+ * other than sends, and GETs), which get the last recorded answer again; so
+ * is a recorded exchange never requested. Either fails the replay.
+ *
+ * Cassettes are meant to be committed, so nothing secret is written:
+ *   - service URLs are not stored (only paths below them), and any
+ *     occurrence of one is replaced with its name, e.g. <NODE_URL>
+ *   - values of secret settings (SEED_PHRASE, *PRIVATE_KEY*, *SECRET*,
+ *     *API_KEY*, *PASSWORD*, SPONSORSHIP_POLICY_ID) become <NAME>; one set
+ *     to fewer than 8 characters stops the recording instead, as it could
+ *     not be told apart from other values
+ *   - email addresses become user1@example.com, user2@..., and phone
+ *     numbers +15550000001, ..., the same placeholder for the same value
+ *   - no headers are stored
+ */
+
+import * as fs from 'fs'
+import * as http from 'http'
+import { AddressInfo } from 'net'
+import * as path from 'path'
+
+// ============================================================================
+// Cassette
+// ============================================================================
+
+export const CASSETTE_SERVICES = {
+    node: 'NODE_URL',
+    bundler: 'BUNDLER_URL',
+    paymaster: 'PAYMASTER_URL',
+    'recovery-service': 'RECOVERY_SERVICE_URL',
+} as const
+
+export type CassetteService = keyof typeof CASSETTE_SERVICES
+
+export type CassetteExchange = {
+    service: CassetteService
+    /** JSON-RPC method names (comma-separated for a batch), or "METHOD /path" */
+    call: string
+    request: { method: string; path: string; body: unknown }
+    response: { status: number; body: unknown }
+}
+
+export type Cassette = {
+    version: 1
+    recordedAt: string
+    chainId?: number
+    /** The wdk-candide command that was recorded, replayed when none is given */
+    command: string[]
+    /** The services configured while recording; replay leaves the others unset */
+    services: CassetteService[]
+    /** The command's exit code when recorded; a replay must end the same way */
+    exitCode?: number
+    exchanges: CassetteExchange[]
+}
+
+/** JSON-RPC methods with an effect; every other call may be answered twice */
+const SENDS = /^(eth_send|pm_sponsor)/
+
+export function loadCassette(filePath: string): Cassette {
+    const resolved = path.resolve(filePath)
+    if (!fs.existsSync(resolved)) {
+        throw new Error(`Cassette not found: ${resolved}`)
+    }
+    let cassette: Cassette
+    try {
+        cassette = JSON.parse(fs.readFileSync(resolved, 'utf8'))
+    } catch (error) {
+        throw new Error(`Could not parse cassette ${resolved}`, { cause: error })
+    }
+    if (cassette?.version !== 1 || ![cassette.command, cassette.services, cassette.exchanges].every(Array.isArray)) {
+        throw new Error(`Invalid cassette ${resolved}: expected version 1 with "command", "services" and "exchanges"`)
+    }
+    return cassette
+}
+
+export function saveCassette(filePath: string, cassette: Cassette) {
+    const resolved = path.resolve(filePath)
+    fs.mkdirSync(path.dirname(resolved), { recursive: true })
+    fs.writeFileSync(resolved, JSON.stringify(cassette, null, 2) + '\n')
+}
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+export type Redactor = (text: string) => string
+
+const SECRET_SETTINGS = /SEED_PHRASE|PRIVATE_KEY|SECRET|API_KEY|PASSWORD|SPONSORSHIP_POLICY_ID/
+
+/** Secret values shorter than this are refused rather than redacted */
+const MIN_SECRET_LENGTH = 8
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+
+// A leading + and 7 to 15 digits, not inside a number like 1e+10
+const PHONE = /(?<![\w.])\+\d{7,15}\b/g
+
+/**
+ * A redactor for everything written to a cassette: the service URLs and
+ * secret values found in `env`, email addresses and phone numbers. Keeps its
+ * placeholders, so one value is redacted the same way throughout a cassette.
+ * Throws if a secret setting is set but shorter than 8 characters.
+ */
+export function createRedactor(env: Record<string, string | undefined>): Redactor {
+    // A value this short could be any id or number in the traffic: replacing
+    // it would corrupt the cassette, leaving it would write the secret
+    const tooShort = Object.entries(env)
+        .filter(([name, value]) => value && value.trim().length < MIN_SECRET_LENGTH && SECRET_SETTINGS.test(name))
+        .map(([name]) => name)
+    if (tooShort.length > 0) {
+        throw new Error(
+            `Not recording: ${tooShort.join(', ')} ${tooShort.length === 1 ? 'is' : 'are'} shorter than ` +
+            `${MIN_SECRET_LENGTH} characters, too short to redact reliably. Unset ${tooShort.length === 1 ? 'it' : 'them'} ` +
+            'for the recording, or use a longer value.'
+        )
+    }
+
+    const literals: [RegExp, string][] = Object.entries(env)
+        .filter(([name, value]) => value && value.length >= MIN_SECRET_LENGTH &&
+            (SECRET_SETTINGS.test(name) || Object.values(CASSETTE_SERVICES).includes(name as never)))
+        // Longest first, so a URL is not half-replaced by a shorter one it starts with
+        .sort(([, a], [, b]) => (b as string).length - (a as string).length)
+        // Only whole values: a short id must not match inside hex data
+        .map(([name, value]) => [
+            new RegExp(`(?<![0-9A-Za-z])${(value as string).replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}(?![0-9A-Za-z])`, 'g'),
+            `<${name}>`,
+        ])
+    const emails = new Map<string, string>()
+    const phones = new Map<string, string>()
+    const placeholder = (placeholders: Map<string, string>, value: string, make: (n: number) => string) => {
+        if (!placeholders.has(value)) {
+            placeholders.set(value, make(placeholders.size + 1))
+        }
+        return placeholders.get(value) as string
+    }
+
+    return text => {
+        let redacted = text
+        for (const [pattern, name] of literals) {
+            redacted = redacted.replace(pattern, name)
+        }
+        return redacted
+            .replace(EMAIL, email => placeholder(emails, email.toLowerCase(), n => `user${n}@example.com`))
+            .replace(PHONE, phone => placeholder(phones, phone, n => `+1555${String(n).padStart(7, '0')}`))
+    }
+}
+
+/** Redact every string in a JSON value */
+function redactJson(value: unknown, redact: Redactor): unknown {
+    return JSON.parse(redact(JSON.stringify(value ?? null)))
+}
+
+// ============================================================================
+// Proxy
+// ============================================================================
+
+export type CassetteServer = {
+    /** Point each service's env var at its URL, e.g. NODE_URL=urls.node */
+    urls: Record<CassetteService, string>
+    /** An OTP_HOOK_URL answering every OTP prompt while replaying (the code is not checked) */
+    otpHookUrl: string
+    /** Calls replay could not answer from the cassette; empty while recording */
+    mismatches: string[]
+    /** Recorded exchanges replay has not been asked for yet */
+    unused: () => CassetteExchange[]
+    close: () => Promise<void>
+}
+
+export type CassetteServerOptions =
+    | { mode: 'record'; cassette: Cassette; upstreams: Partial<Record<CassetteService, string>>; redact: Redactor; port?: number }
+    | { mode: 'replay'; cassette: Cassette; port?: number }
+
+function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text)
+    } catch {
+        return text
+    }
+}
+
+/** The call an exchange is matched on: JSON-RPC method(s), or HTTP method and path */
+function describeCall(method: string, pathname: string, body: unknown): string {
+    const calls = Array.isArray(body) ? body : [body]
+    if (method === 'POST' && calls.length > 0 && calls.every(c => typeof (c as { method?: unknown })?.method === 'string')) {
+        return calls.map(c => (c as { method: string }).method).join(',')
+    }
+    return `${method} ${pathname}`
+}
+
+function isRead(exchange: CassetteExchange): boolean {
+    return exchange.call.startsWith('GET ') ||
+        (!exchange.call.includes(' ') && !exchange.call.split(',').some(method => SENDS.test(method)))
+}
+
+/** Give a replayed JSON-RPC response the ids of the request it answers */
+function withRequestIds(response: unknown, request: unknown): unknown {
+    if (Array.isArray(response) && Array.isArray(request)) {
+        return response.map((r, i) => ({ ...r, id: (request[i] as { id?: unknown })?.id ?? null }))
+    }
+    if (typeof response === 'object' && response !== null && 'jsonrpc' in response) {
+        return { ...response, id: (request as { id?: unknown })?.id ?? null }
+    }
+    return response
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = ''
+        request.setEncoding('utf8')
+        request.on('data', chunk => (body += chunk))
+        request.on('end', () => resolve(body))
+        request.on('error', reject)
+    })
+}
+
+/** Send a request on to the service, below its URL (keeping the URL's own query, e.g. an API key) */
+async function forward(upstream: string, request: http.IncomingMessage, subpath: string, search: URLSearchParams, body: string) {
+    const url = new URL(upstream)
+    url.pathname = (url.pathname.replace(/\/$/, '') + subpath) || '/'
+    search.forEach((value, name) => url.searchParams.append(name, value))
+    const headers: Record<string, string> = {}
+    for (const [name, value] of Object.entries(request.headers)) {
+        if (typeof value === 'string' && !['host', 'connection', 'content-length'].includes(name)) {
+            headers[name] = value
+        }
+    }
+    const response = await fetch(url, {
+        method: request.method,
+        headers,
+        body: request.method === 'GET' || request.method === 'HEAD' ? undefined : body,
+    })
+    return { status: response.status, text: await response.text() }
+}
+
+/**
+ * Start the recording or replaying proxy. Requests are handled one at a time
+ * and in arrival order, so the recorded order is the order the flow sent
+ * them in.
+ */
+export async function startCassetteServer(options: CassetteServerOptions): Promise<CassetteServer> {
+    const { cassette } = options
+    const used = new Set<CassetteExchange>()
+    const lastAnswer = new Map<string, CassetteExchange>()
+    const mismatches: string[] = []
+    let queue = Promise.resolve()
+
+    const answer = async (request: http.IncomingMessage): Promise<{ status: number; body: unknown }> => {
+        const url = new URL(request.url ?? '/', 'http://localhost')
+        const [, service, ...rest] = url.pathname.split('/')
+        const subpath = rest.length > 0 ? `/${rest.join('/')}` : ''
+        const text = await readBody(request)
+        const body = parseJson(text)
+        if (service === 'otp' && options.mode === 'replay') {
+            return { status: 200, body: { code: '000000' } }
+        }
+        if (!(service in CASSETTE_SERVICES)) {
+            return { status: 404, body: { message: `Unknown service /${service}` } }
+        }
+        const call = describeCall(request.method ?? 'GET', subpath || '/', body)
+        const key = `${service} ${call}`
+
+        if (options.mode === 'record') {
+            const upstream = options.upstreams[service as CassetteService]
+            if (!upstream) {
+                return { status: 502, body: { message: `${CASSETTE_SERVICES[service as CassetteService]} is not set` } }
+            }
+            const response = await forward(upstream, request, subpath, url.searchParams, text)
+            cassette.exchanges.push({
+                service: service as CassetteService,
+                call,
+                request: {
+                    method: request.method ?? 'GET',
+                    path: options.redact(subpath + url.search),
+                    body: redactJson(body, options.redact),
+                },
+                response: { status: response.status, body: redactJson(parseJson(response.text), options.redact) },
+            })
+            return { status: response.status, body: parseJson(response.text) }
+        }
+
+        let exchange = cassette.exchanges.find(e => !used.has(e) && `${e.service} ${e.call}` === key)
+        if (exchange) {
+            used.add(exchange)
+            lastAnswer.set(key, exchange)
+        } else {
+            exchange = lastAnswer.get(key)
+            if (!exchange || !isRead(exchange)) {
+                const next = cassette.exchanges.find(e => !used.has(e) && e.service === service)
+                const message = `Cassette mismatch: ${key} was not recorded` +
+                    (exchange ? ' again' : '') + (next ? ` (next recorded: ${next.service} ${next.call})` : '')
+                mismatches.push(message)
+                if (call.includes(' ')) {
+                    return { status: 500, body: { statusCode: 500, message } }
+                }
+                // A JSON-RPC error rather than an HTTP one, which clients would retry
+                const error = { jsonrpc: '2.0', error: { code: -32000, message } }
+                return { status: 200, body: withRequestIds(Array.isArray(body) ? body.map(() => error) : error, body) }
+            }
+        }
+        return { status: exchange.response.status, body: withRequestIds(exchange.response.body, body) }
+    }
+
+    const server = http.createServer((request, response) => {
+        queue = queue.then(async () => {
+            let result: { status: number; body: unknown }
+            try {
+                result = await answer(request)
+            } catch (error) {
+                result = { status: 502, body: { message: `Cassette proxy: ${(error as Error).message}` } }
+            }
+            response.writeHead(result.status, { 'Content-Type': 'application/json' })
+            response.end(typeof result.body === 'string' ? result.body : JSON.stringify(result.body))
+        })
+    })
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject)
+        server.listen(options.port ?? 0, '127.0.0.1', resolve)
+    })
+    const { port } = server.address() as AddressInfo
+    const base = `http://127.0.0.1:${port}`
+
+    return {
+        urls: {
+            node: `${base}/node`,
+            bundler: `${base}/bundler`,
+            paymaster: `${base}/paymaster`,
+            'recovery-service': `${base}/recovery-service`,
+        },
+        otpHookUrl: `${base}/otp`,
+        mismatches,
+        unused: () => (options.mode === 'replay' ? cassette.exchanges.filter(e => !used.has(e)) : []),
+        close: () => new Promise((resolve, reject) => {
+            server.closeAllConnections()
+            server.close(error => (error ? reject(error) : resolve()))
+        }),
+    }
+}
@@ -0,0 +1,193 @@
+/**
+ * Console Helpers
+ *
+ * Output and prompt helpers shared by every example: section headers, a
+ * lazily created readline prompt, command-line flag parsing, and the main()
+ * runner that prints errors and sets the exit code.
+ *
+ * With --non-interactive (or NON_INTERACTIVE=true) askQuestion throws instead
+ * of prompting; see lib/input.ts for the flag/env/JSON equivalents of each
+ * prompt.
+ *
+ * With --json an example prints a single JSON object on stdout: its result, or
+ * the error. Progress output and prompts go to stderr instead.
+ *
+ * runWdkCandide runs a wdk-candide command as a child process, for the
+ * runners that wrap one (mock services, cassettes).
+ */
+
+import { spawn } from 'child_process'
+import * as path from 'path'
+import * as readline from 'readline'
+import { fileURLToPath } from 'url'
+
+import { NotReadyError, UsageError, printError, serializeError } from './errors.js'
+
+let rl: readline.Interface | undefined
+
+/**
+ * Print a section header for better readability
+ */
+export function printSection(title: string) {
+    console.log('\n' + '═'.repeat(60))
+    console.log(`  ${title}`)
+    console.log('═'.repeat(60))
+}
+
+/** --json: one JSON result (or error) on stdout, everything else on stderr */
+export function isJsonOutput(): boolean {
+    return process.argv.includes('--json')
+}
+
+/** --non-interactive, NON_INTERACTIVE=true, or inputs piped on stdin (--input -) */
+export function isNonInteractive(): boolean {
+    return process.argv.includes('--non-interactive') ||
+        ['1', 'true'].includes(process.env.NON_INTERACTIVE?.toLowerCase() ?? '') ||
+        getFlagValue('--input') === '-'
+}
+
+/** Prompt user for input. Throws in non-interactive mode. */
+export async function askQuestion(question: string): Promise<string> {
+    if (isNonInteractive()) {
+        throw new Error(`Cannot prompt in non-interactive mode: "${question.trim()}"`)
+    }
+    rl ??= readline.createInterface({
+        input: process.stdin,
+        output: isJsonOutput() ? process.stderr : process.stdout,
+    })
+    const prompt = rl
+    return new Promise((resolve) => prompt.question(question, resolve))
+}
+
+/** Close the prompt, if one was opened, so stdin no longer keeps the process alive */
+export function closePrompt() {
+    rl?.close()
+    rl = undefined
+}
+
+/** Flags that take a value, e.g. --profile <name> */
+export const VALUE_FLAGS = [
+    '--profile', '--input',
+    '--safe', '--new-owners', '--new-threshold', '--channels', '--email', '--phone',
+    '--otp-file', '--otp-hook',
+    '--chain', '--gas', '--gas-fallback', '--gas-token', '--via', '--token',
+    '--call', '--calls', '--bump', '--relay',
+]
+
+/** The value of a flag that takes one (`--email a@b.c`), if it was passed */
+export function getFlagValue(name: string): string | undefined {
+    const index = process.argv.indexOf(name)
+    return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+/** Every value of a flag that can be repeated (`--call a --call b`) */
+export function getFlagValues(name: string): string[] {
+    return process.argv.flatMap((arg, i) =>
+        arg === name && process.argv[i + 1] !== undefined ? [process.argv[i + 1]] : []
+    )
+}
+
+/**
+ * Command-line arguments without flags: every --flag is dropped, together
+ * with the value of flags that take one (see VALUE_FLAGS).
+ */
+export function getPositionalArgs(): string[] {
+    const args: string[] = []
+    const argv = process.argv.slice(2)
+    for (let i = 0; i < argv.length; i++) {
+        if (VALUE_FLAGS.includes(argv[i])) {
+            i++
+        } else if (!argv[i].startsWith('--')) {
+            args.push(argv[i])
+        }
+    }
+    return args
+}
+
+/** "2d 3h 4m 5s" */
+export function formatDuration(seconds: number): string {
+    const d = Math.floor(seconds / 86400)
+    const h = Math.floor((seconds % 86400) / 3600)
+    const m = Math.floor((seconds % 3600) / 60)
+    const s = seconds % 60
+    return [d && `${d}d`, h && `${h}h`, m && `${m}m`, `${s}s`].filter(Boolean).join(' ')
+}
+
+/** Print a value as JSON on stdout (bigints as decimal strings), even with LOG_LEVEL=quiet */
+export function printJson(value: unknown) {
+    process.stdout.write(JSON.stringify(
+        value,
+        (_, v) => typeof v === 'bigint' ? v.toString() : v,
+        2
+    ) + '\n')
+}
+
+/** Exit codes shared by every example and the wdk-candide CLI */
+export const EXIT_CODES = {
+    success: 0,
+    /** Anything that went wrong while running */
+    failure: 1,
+    /** Unknown command, missing or malformed arguments (UsageError) */
+    usage: 2,
+    /** Nothing failed, but the flow cannot continue yet (e.g. grace period still running) */
+    notReady: 3,
+} as const
+
+/**
+ * Run an example's main function: exit with process.exitCode (0 unless main
+ * set it) on success; print the error (with its cause chain) and exit 1, or 2
+ * for a UsageError and 3 for a NotReadyError, on failure.
+ *
+ * With --json, main's return value is printed as `{"ok": true, "result": ...}`
+ * and an error as `{"ok": false, "error": ...}` (see serializeError), and
+ * console.log goes to stderr. LOG_LEVEL=quiet silences console.log, leaving
+ * errors and JSON output.
+ */
+export function runMain(main: () => Promise<object | void>) {
+    const json = isJsonOutput()
+    if (process.env.LOG_LEVEL === 'quiet') {
+        console.log = () => {}
+    } else if (json) {
+        console.log = console.error
+    }
+    main()
+        .then((result) => {
+            closePrompt()
+            if (json) {
+                printJson({ ok: true, result: result ?? {} })
+            }
+            process.exit(process.exitCode ?? EXIT_CODES.success)
+        })
+        .catch((error) => {
+            if (json) {
+                printJson({ ok: false, error: serializeError(error) })
+                if (process.env.LOG_LEVEL === 'verbose' && error instanceof Error && error.stack) {
+                    console.error(error.stack)
+                }
+            } else {
+                printError(error)
+            }
+            closePrompt()
+            process.exit(
+                error instanceof UsageError ? EXIT_CODES.usage
+                    : error instanceof NotReadyError ? EXIT_CODES.notReady
+                        : EXIT_CODES.failure
+            )
+        })
+}
+
+/**
+ * Run `wdk-candide <args>` in a child process sharing this terminal, with
+ * `env` over this process's environment. Resolves to its exit code.
+ */
+export function runWdkCandide(args: string[], env: Record<string, string>): Promise<number> {
+    const entry = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../cli/wdk-candide.ts')
+    return new Promise((resolve, reject) => {
+        const child = spawn('npx', ['tsx', entry, ...args], {
+            stdio: 'inherit',
+            env: { ...process.env, ...env },
+        })
+        child.on('error', reject)
+        child.on('exit', (code, signal) => resolve(code ?? (signal ? 1 : 0)))
+    })
+}
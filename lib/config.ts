@@ -0,0 +1,352 @@
+/**
+ * Typed Configuration
+ *
+ * Every setting the examples read is declared once in CONFIG_SCHEMA with its
+ * type. A flow asks for the keys it needs:
+ *
+ *   const config = loadConfig(['CHAIN_ID', 'NODE_URL'], ['SPONSORSHIP_POLICY_ID'])
+ *   config.CHAIN_ID               // number
+ *   config.SPONSORSHIP_POLICY_ID  // string | undefined
+ *
+ * and gets back typed, validated values — chain ids and counts as integers, URLs,
+ * checksummed addresses (or comma-separated lists of them), private keys,
+ * BIP-39 phrases with a valid checksum — or one error listing
+ * every problem at once. Empty values count as unset.
+ *
+ * Values come from the environment (.env), layered over an optional named
+ * profile from a profiles file:
+ *
+ *   {
+ *     "profiles": {
+ *       "sepolia-test": { "CHAIN_ID": 11155111, "NODE_URL": "https://..." },
+ *       "mainnet-prod": { "CHAIN_ID": 1, "GRACE_PERIOD": "After7Days" }
+ *     }
+ *   }
+ *
+ * Select a profile with PROFILE=<name> or --profile <name>; the file defaults
+ * to profiles.json and can be changed with PROFILES_FILE. Precedence is:
+ * variables set in the shell, then the profile, then .env — so a .env written
+ * for one network does not leak into a profile for another. A profile may set
+ * any variable the examples read, including GRACE_PERIOD and the POLL_*
+ * settings.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { validateMnemonic } from '@scure/bip39'
+import { getAddress, isAddress } from 'viem'
+import { english } from 'viem/accounts'
+
+import { Erc20GasPayment, GasPayment, NetworkConfig } from './wallet.js'
+
+export type ConfigValueTypes = {
+    chainId: number
+    count: number
+    url: string
+    address: `0x${string}`
+    addressList: `0x${string}`[]
+    privateKey: `0x${string}`
+    seedPhrase: string
+    text: string
+}
+
+export type ConfigValueType = keyof ConfigValueTypes
+
+export const CONFIG_SCHEMA = {
+    CHAIN_ID: 'chainId',
+    NODE_URL: 'url',
+    BUNDLER_URL: 'url',
+    PAYMASTER_URL: 'url',
+    RECOVERY_SERVICE_URL: 'url',
+    ENTRY_POINT_ADDRESS: 'address',
+    PAYMASTER_ADDRESS: 'address',
+    PAYMASTER_TOKEN_ADDRESS: 'address',
+    PAYMASTER_TOKEN_ADDRESSES: 'addressList',
+    SAFE_ACCOUNT_ADDRESS: 'address',
+    NEW_OWNER_ADDRESS: 'addressList',
+    NEW_SAFE_THRESHOLD: 'count',
+    SPONSORSHIP_POLICY_ID: 'text',
+    SEED_PHRASE: 'seedPhrase',
+    GUARDIAN_PRIVATE_KEY: 'privateKey',
+    GUARDIAN_1_PRIVATE_KEY: 'privateKey',
+    GUARDIAN_2_PRIVATE_KEY: 'privateKey',
+    RELAYER_PRIVATE_KEY: 'privateKey',
+    USER_EMAIL: 'text',
+    USER_PHONE: 'text',
+} as const satisfies Record<string, ConfigValueType>
+
+export type ConfigKey = keyof typeof CONFIG_SCHEMA
+
+export type ConfigValue<K extends ConfigKey> = ConfigValueTypes[(typeof CONFIG_SCHEMA)[K]]
+
+export type Config<R extends ConfigKey, O extends ConfigKey = never> =
+    { [K in R]: ConfigValue<K> } & { [K in O]?: ConfigValue<K> }
+
+const DEFAULT_PROFILES_FILE = 'profiles.json'
+
+const BIP39_WORD_COUNTS = [12, 15, 18, 21, 24]
+
+/**
+ * Parse one value. Returns the typed value, or a string describing what is
+ * wrong with it.
+ */
+function parseConfigValue(type: ConfigValueType, raw: string): { value: unknown } | string {
+    switch (type) {
+        case 'chainId': {
+            const chainId = Number(raw)
+            return /^\d+$/.test(raw) && Number.isSafeInteger(chainId) && chainId > 0
+                ? { value: chainId }
+                : `must be a positive integer, got "${raw}"`
+        }
+        case 'count': {
+            const count = Number(raw)
+            return /^\d+$/.test(raw) && Number.isSafeInteger(count) && count > 0
+                ? { value: count }
+                : `must be a positive integer, got "${raw}"`
+        }
+        case 'url': {
+            try {
+                const url = new URL(raw)
+                return url.protocol === 'http:' || url.protocol === 'https:'
+                    ? { value: raw }
+                    : `must be an http(s) URL, got "${raw}"`
+            } catch {
+                return `must be a URL, got "${raw}"`
+            }
+        }
+        case 'address':
+            // Mixed-case addresses must carry a valid EIP-55 checksum
+            return isAddress(raw)
+                ? { value: getAddress(raw) }
+                : `must be a 20-byte hex address with a valid checksum, got "${raw}"`
+        case 'addressList': {
+            const addresses = raw.split(',').map(a => a.trim()).filter(Boolean)
+            const invalid = addresses.filter(a => !isAddress(a))
+            if (addresses.length === 0 || invalid.length > 0) {
+                return `must be comma-separated addresses with valid checksums, got "${invalid.join(', ') || raw}"`
+            }
+            return { value: [...new Set(addresses.map(a => getAddress(a)))] }
+        }
+        case 'privateKey':
+            return /^0x[0-9a-fA-F]{64}$/.test(raw)
+                ? { value: raw }
+                : 'must be a 32-byte hex private key with 0x prefix'
+        case 'seedPhrase': {
+            const words = raw.trim().split(/\s+/)
+            if (!BIP39_WORD_COUNTS.includes(words.length)) {
+                return `must be a BIP-39 phrase of ${BIP39_WORD_COUNTS.join('/')} words, got ${words.length}`
+            }
+            const unknown = words.filter(w => !english.includes(w))
+            if (unknown.length > 0) {
+                return `contains words outside the BIP-39 English list: ${unknown.join(', ')}`
+            }
+            // The last word carries a checksum of the others, so a mistyped or swapped word shows
+            return validateMnemonic(words.join(' '), english)
+                ? { value: words.join(' ') }
+                : 'is not a valid BIP-39 phrase: the checksum does not match, check the words and their order'
+        }
+        case 'text':
+            return { value: raw }
+    }
+}
+
+export function getProfilesFilePath(): string {
+    return path.resolve(process.env.PROFILES_FILE || DEFAULT_PROFILES_FILE)
+}
+
+/** The profile named by --profile <name> or PROFILE, if any */
+export function getSelectedProfile(): string | undefined {
+    const flag = process.argv.indexOf('--profile')
+    if (flag >= 0 && process.argv[flag + 1]) {
+        return process.argv[flag + 1]
+    }
+    return process.env.PROFILE || undefined
+}
+
+/**
+ * Variables set before any example code ran, i.e. in the shell. ES modules are
+ * evaluated before the importing example calls dotenv.config(), so .env values
+ * are not in this set.
+ */
+const SHELL_ENV_KEYS = new Set(Object.keys(process.env))
+
+let appliedProfile: string | undefined
+
+/**
+ * Copy the selected profile's values into process.env, without overriding
+ * variables set in the shell. Empty profile values are placeholders and are
+ * skipped. Does nothing without a selected profile.
+ */
+export function applyConfigProfile(): string | undefined {
+    const profile = getSelectedProfile()
+    if (!profile || appliedProfile === profile) {
+        return profile
+    }
+
+    const filePath = getProfilesFilePath()
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Profile "${profile}" selected, but ${filePath} does not exist`)
+    }
+
+    let profiles: Record<string, Record<string, unknown>>
+    try {
+        profiles = JSON.parse(fs.readFileSync(filePath, 'utf8')).profiles ?? {}
+    } catch (error) {
+        throw new Error(`Could not parse profiles file ${filePath}`, { cause: error })
+    }
+
+    const values = profiles[profile]
+    if (!values || typeof values !== 'object') {
+        const available = Object.keys(profiles).join(', ') || '(none)'
+        throw new Error(`Unknown profile "${profile}" in ${filePath}. Available: ${available}`)
+    }
+
+    for (const [key, value] of Object.entries(values)) {
+        if (!SHELL_ENV_KEYS.has(key) && value !== undefined && value !== null && value !== '') {
+            process.env[key] = String(value)
+        }
+    }
+    appliedProfile = profile
+    return profile
+}
+
+/**
+ * Load and validate the given keys. Throws one error listing every missing
+ * required key and every invalid value.
+ */
+export function loadConfig<R extends ConfigKey, O extends ConfigKey = never>(
+    required: readonly R[],
+    optional: readonly O[] = []
+): Config<R, O> {
+    const profile = applyConfigProfile()
+    const problems: string[] = []
+    const config: Record<string, unknown> = {}
+
+    for (const key of [...required, ...optional]) {
+        const raw = process.env[key]?.trim()
+        if (!raw) {
+            if ((required as readonly ConfigKey[]).includes(key)) {
+                problems.push(`${key} is required`)
+            }
+            continue
+        }
+        const parsed = parseConfigValue(CONFIG_SCHEMA[key], raw)
+        if (typeof parsed === 'string') {
+            problems.push(`${key} ${parsed}`)
+        } else {
+            config[key] = parsed.value
+        }
+    }
+
+    if (problems.length > 0) {
+        const source = profile ? ` (profile "${profile}")` : ''
+        throw new Error(`Invalid configuration${source}:\n  - ${problems.join('\n  - ')}`)
+    }
+    return config as Config<R, O>
+}
+
+/** Validate a value of a schema type outside of loadConfig, e.g. GUARDIAN_<n>_PRIVATE_KEY */
+export function parseConfigValueAs<T extends ConfigValueType>(
+    type: T,
+    name: string,
+    raw: string
+): ConfigValueTypes[T] {
+    const parsed = parseConfigValue(type, raw.trim())
+    if (typeof parsed === 'string') {
+        throw new Error(`${name} ${parsed}`)
+    }
+    return parsed.value as ConfigValueTypes[T]
+}
+
+/** CHAIN_ID, NODE_URL, BUNDLER_URL, ENTRY_POINT_ADDRESS */
+export function getNetworkConfigFromEnv(): NetworkConfig {
+    const config = loadConfig(['CHAIN_ID', 'NODE_URL', 'BUNDLER_URL', 'ENTRY_POINT_ADDRESS'])
+    return {
+        chainId: config.CHAIN_ID,
+        nodeUrl: config.NODE_URL,
+        bundlerUrl: config.BUNDLER_URL,
+        entryPointAddress: config.ENTRY_POINT_ADDRESS,
+    }
+}
+
+/** PAYMASTER_URL, optional SPONSORSHIP_POLICY_ID */
+export function getSponsoredGasFromEnv(): GasPayment {
+    const config = loadConfig(['PAYMASTER_URL'], ['SPONSORSHIP_POLICY_ID'])
+    return {
+        mode: 'sponsored',
+        paymasterUrl: config.PAYMASTER_URL,
+        sponsorshipPolicyId: config.SPONSORSHIP_POLICY_ID,
+    }
+}
+
+/**
+ * PAYMASTER_URL, PAYMASTER_ADDRESS, and the gas token: PAYMASTER_TOKEN_ADDRESS,
+ * or a list of accepted tokens in PAYMASTER_TOKEN_ADDRESSES to choose from per
+ * UserOperation. With a list, --gas-token <address> or PAYMASTER_TOKEN_ADDRESS
+ * names the preferred one.
+ */
+export function getErc20GasFromEnv(): Erc20GasPayment {
+    const config = loadConfig(
+        ['PAYMASTER_URL', 'PAYMASTER_ADDRESS'],
+        ['PAYMASTER_TOKEN_ADDRESS', 'PAYMASTER_TOKEN_ADDRESSES']
+    )
+    const flag = process.argv.indexOf('--gas-token')
+    const preferred = flag >= 0
+        ? parseConfigValueAs('address', '--gas-token', process.argv[flag + 1] ?? '')
+        : config.PAYMASTER_TOKEN_ADDRESS
+    const candidates = config.PAYMASTER_TOKEN_ADDRESSES
+
+    const gas = {
+        mode: 'erc20' as const,
+        paymasterUrl: config.PAYMASTER_URL,
+        paymasterAddress: config.PAYMASTER_ADDRESS,
+    }
+    if (!candidates) {
+        if (!preferred) {
+            throw new Error('Invalid configuration:\n  - PAYMASTER_TOKEN_ADDRESS or PAYMASTER_TOKEN_ADDRESSES is required')
+        }
+        return { ...gas, tokenAddress: preferred }
+    }
+    return {
+        ...gas,
+        tokenAddress: preferred ?? candidates[0],
+        gasTokens: {
+            candidates: preferred && !candidates.includes(preferred) ? [preferred, ...candidates] : candidates,
+            preferred,
+        },
+    }
+}
+
+const GAS_MODES: GasPayment['mode'][] = ['sponsored', 'erc20', 'native']
+
+/**
+ * The gas payment modes to try, in order: GAS_FALLBACK (or --gas-fallback),
+ * e.g. "sponsored,erc20,native", or only `gas` when neither is set. `gas`
+ * keeps its settings if it is in the list; the other modes are read from the
+ * environment like getSponsoredGasFromEnv / getErc20GasFromEnv.
+ */
+export function getGasFallbackFromEnv(gas: GasPayment): GasPayment[] {
+    applyConfigProfile()
+    const flag = process.argv.indexOf('--gas-fallback')
+    const raw = flag >= 0 ? process.argv[flag + 1] : process.env.GAS_FALLBACK
+    if (!raw?.trim()) {
+        return [gas]
+    }
+
+    const modes = raw.split(',').map(mode => mode.trim())
+    if (modes.some(mode => !GAS_MODES.includes(mode as GasPayment['mode'])) || new Set(modes).size !== modes.length) {
+        throw new Error(
+            `Invalid configuration:\n  - GAS_FALLBACK must list ${GAS_MODES.join(', ')} at most once each, ` +
+            `comma-separated, got "${raw}"`
+        )
+    }
+    return modes.map((mode): GasPayment => {
+        if (mode === gas.mode) {
+            return gas
+        }
+        if (mode === 'sponsored') {
+            return getSponsoredGasFromEnv()
+        }
+        return mode === 'erc20' ? getErc20GasFromEnv() : { mode: 'native' }
+    })
+}
@@ -0,0 +1,277 @@
+/**
+ * Direct On-Chain Recovery
+ *
+ * Executes and finalizes a recovery without the Candide Recovery Service: the
+ * guardians' EIP-712 signatures (srm.getRecoveryRequestEip712Data) go straight
+ * into the Social Recovery Module's multiConfirmRecovery — which confirms and,
+ * with `execute`, starts the grace period in one call — and finalizeRecovery
+ * follows once the grace period is over. Anyone may send both calls; the
+ * guardian signatures are what authorize them.
+ *
+ * They are sent by a relayer (--relay <mode> or RECOVERY_RELAY):
+ *
+ *   - eoa:     a plain transaction from RELAYER_PRIVATE_KEY, which needs ETH
+ *              for gas — any funded account, not an owner or guardian
+ *   - bundler: a UserOperation from the Safe of SEED_PHRASE (e.g. the new
+ *              owner's own Safe), paying gas the usual way: sponsored with
+ *              PAYMASTER_URL, natively without, or along GAS_FALLBACK
+ *
+ * The recovery is then followed on-chain exactly as with the service
+ * (lib/recovery-polling.ts), so a recovery can move between the two: one
+ * started on the service can be executed or finalized directly with the
+ * signatures saved in its session.
+ */
+
+import { MetaTransaction, SocialRecoveryModule } from 'abstractionkit'
+import {
+    Hex,
+    createWalletClient,
+    encodeFunctionData,
+    formatEther,
+    getAddress,
+    http,
+    parseAbi,
+    publicActions,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+
+import { getFlagValue } from './cli.js'
+import { getGasFallbackFromEnv, getSponsoredGasFromEnv, loadConfig } from './config.js'
+import { RecoverySession } from './recovery-session.js'
+import { confirmSubmission, describeRevert, sendWithPreview } from './userop-preview.js'
+import { decodeUserOperationReceipt, printDecodedReceipt } from './userop-receipt.js'
+import { waitForUserOperation } from './userop.js'
+import { GasPayment, NetworkConfig, createWallet } from './wallet.js'
+
+export const RECOVERY_RELAY_MODES = ['eoa', 'bundler'] as const
+
+export type RecoveryRelayMode = typeof RECOVERY_RELAY_MODES[number]
+
+export type RecoveryRelay =
+    | { mode: 'eoa'; privateKey: `0x${string}`; chainId: number; nodeUrl: string }
+    | { mode: 'bundler'; seedPhrase: string; network: NetworkConfig; gas: GasPayment[] }
+
+/** What to tell the user when the recovery service fails */
+const RECOVERY_RELAY_HINT =
+    'The recovery can continue without the recovery service: re-run with --relay eoa ' +
+    '(RELAYER_PRIVATE_KEY pays gas) or --relay bundler (the SEED_PHRASE Safe sends it)'
+
+/**
+ * abstractionkit's createMultiConfirmRecoveryMetaTransaction encodes the
+ * signatures as a single tuple, not the array the module takes
+ */
+const MULTI_CONFIRM_RECOVERY_ABI = parseAbi([
+    'function multiConfirmRecovery(address wallet, address[] newOwners, uint256 newThreshold, (address signer, bytes signature)[] signatures, bool execute)',
+])
+
+/** The relay mode from --relay or RECOVERY_RELAY, if either is set */
+export function getRecoveryRelayMode(): RecoveryRelayMode | undefined {
+    const raw = (getFlagValue('--relay') ?? process.env.RECOVERY_RELAY)?.trim()
+    if (!raw) {
+        return undefined
+    }
+    if (!RECOVERY_RELAY_MODES.includes(raw as RecoveryRelayMode)) {
+        throw new Error(
+            `Invalid configuration:\n  - RECOVERY_RELAY (--relay) must be ${RECOVERY_RELAY_MODES.join(' or ')}, got "${raw}"`
+        )
+    }
+    return raw as RecoveryRelayMode
+}
+
+/** The settings a relay mode needs, from the environment */
+export function loadRecoveryRelay(mode: RecoveryRelayMode): RecoveryRelay {
+    if (mode === 'eoa') {
+        const config = loadConfig(['RELAYER_PRIVATE_KEY', 'CHAIN_ID', 'NODE_URL'])
+        return { mode, privateKey: config.RELAYER_PRIVATE_KEY, chainId: config.CHAIN_ID, nodeUrl: config.NODE_URL }
+    }
+    const config = loadConfig(
+        ['SEED_PHRASE', 'CHAIN_ID', 'NODE_URL', 'BUNDLER_URL', 'ENTRY_POINT_ADDRESS'],
+        ['PAYMASTER_URL']
+    )
+    const gas: GasPayment = config.PAYMASTER_URL ? getSponsoredGasFromEnv() : { mode: 'native' }
+    return {
+        mode,
+        seedPhrase: config.SEED_PHRASE,
+        network: {
+            chainId: config.CHAIN_ID,
+            nodeUrl: config.NODE_URL,
+            bundlerUrl: config.BUNDLER_URL,
+            entryPointAddress: config.ENTRY_POINT_ADDRESS,
+        },
+        gas: getGasFallbackFromEnv(gas),
+    }
+}
+
+/**
+ * Run a recovery service call; if it fails, the error says how to carry on
+ * without the service
+ */
+export async function withRelayHint<T>(call: () => Promise<T>): Promise<T> {
+    try {
+        return await call()
+    } catch (error) {
+        throw new Error(`The recovery service call failed. ${RECOVERY_RELAY_HINT}`, { cause: error })
+    }
+}
+
+/** "EOA 0x..." or "bundler (SEED_PHRASE Safe)" — for messages */
+export function describeRecoveryRelay(relay: RecoveryRelay): string {
+    return relay.mode === 'eoa'
+        ? `EOA ${privateKeyToAccount(relay.privateKey).address}`
+        : 'bundler (SEED_PHRASE Safe)'
+}
+
+// ============================================================================
+// Transactions
+// ============================================================================
+
+/**
+ * multiConfirmRecovery with every signature, executing the recovery (starting
+ * the grace period) once they reach the guardian threshold
+ */
+export function createMultiConfirmRecoveryTransaction(
+    srm: SocialRecoveryModule,
+    safeAccountAddress: string,
+    newOwners: string[],
+    newThreshold: number,
+    signatures: { signer: string; signature: string }[]
+): MetaTransaction {
+    // One signature per guardian, in signer order
+    const pairs = [...new Map(signatures.map(s => [s.signer.toLowerCase(), s])).values()]
+        .sort((a, b) => a.signer.toLowerCase().localeCompare(b.signer.toLowerCase()))
+        .map(s => ({ signer: getAddress(s.signer), signature: s.signature as Hex }))
+    return {
+        to: srm.moduleAddress,
+        value: 0n,
+        data: encodeFunctionData({
+            abi: MULTI_CONFIRM_RECOVERY_ABI,
+            functionName: 'multiConfirmRecovery',
+            args: [getAddress(safeAccountAddress), newOwners.map(o => getAddress(o)), BigInt(newThreshold), pairs, true],
+        }),
+    }
+}
+
+/**
+ * Simulate a transaction, check the relayer EOA can pay for it, and send it
+ * once confirmed (--yes); returns its hash once it is in a block
+ */
+async function sendFromRelayer(relay: Extract<RecoveryRelay, { mode: 'eoa' }>, transaction: MetaTransaction): Promise<string | null> {
+    const account = privateKeyToAccount(relay.privateKey)
+    const client = createWalletClient({ account, transport: http(relay.nodeUrl) }).extend(publicActions)
+    const request = { account, to: transaction.to as Hex, data: transaction.data as Hex, value: transaction.value }
+
+    // Simulate first: a revert costs the relayer gas and says less than eth_call
+    try {
+        await client.call(request)
+    } catch (error) {
+        throw new Error(`The transaction would revert: ${describeRevert(error)}`, { cause: error })
+    }
+
+    const [gas, fees, balance] = await Promise.all([
+        client.estimateGas(request),
+        client.estimateFeesPerGas(),
+        client.getBalance({ address: account.address }),
+    ])
+    const maxCost = gas * fees.maxFeePerGas
+    console.log(`Relayer:  ${account.address} (${formatEther(balance)} ETH, up to ${formatEther(maxCost)} ETH for gas)`)
+    if (balance < maxCost) {
+        throw new Error(
+            `Relayer ${account.address} holds ${formatEther(balance)} ETH, but the transaction may cost ` +
+            `up to ${formatEther(maxCost)} ETH. Fund it, or use --relay bundler.`
+        )
+    }
+
+    if (process.argv.includes('--dry-run')) {
+        console.log('\nDry run — nothing submitted. Re-run without --dry-run to apply.')
+        return null
+    }
+    if (!(await confirmSubmission('Send this transaction from the relayer?'))) {
+        throw new Error('Not confirmed — nothing was submitted')
+    }
+
+    const hash = await client.sendTransaction({ ...request, gas, chain: null })
+    console.log(`Submitted: ${hash}`)
+    const receipt = await client.waitForTransactionReceipt({ hash })
+    if (receipt.status !== 'success') {
+        throw new Error(`Transaction ${hash} reverted in block ${receipt.blockNumber}`)
+    }
+    return hash
+}
+
+/** Send a UserOperation from the SEED_PHRASE Safe, previewed, and wait for it; returns the bundle transaction's hash */
+async function sendThroughBundler(
+    relay: Extract<RecoveryRelay, { mode: 'bundler' }>,
+    transaction: MetaTransaction
+): Promise<string | null> {
+    const wallet = createWallet(relay.seedPhrase, relay.network, relay.gas[0])
+    const account = await wallet.getAccount(0)
+    try {
+        console.log(`Relayer:  Safe ${await account.getAddress()}`)
+        const { hash } = await sendWithPreview(account, [transaction], relay.network, relay.gas)
+        if (!hash) {
+            return null
+        }
+        console.log(`Submitted: ${hash}`)
+        const receipt = await waitForUserOperation(hash, relay.network.bundlerUrl, relay.network.entryPointAddress)
+        const decoded = await decodeUserOperationReceipt(receipt, relay.network.nodeUrl)
+        printDecodedReceipt(decoded)
+        if (!receipt.success) {
+            throw new Error(`UserOperation ${hash} reverted on-chain: ${decoded.revertReason ?? 'no reason given'}`)
+        }
+        return receipt.receipt.transactionHash
+    } finally {
+        account.dispose()
+        wallet.dispose()
+    }
+}
+
+/**
+ * Send a recovery transaction through the relay and wait until it is in a
+ * block. Returns the transaction hash, or null for --dry-run.
+ */
+export async function relayRecoveryTransaction(relay: RecoveryRelay, transaction: MetaTransaction): Promise<string | null> {
+    return relay.mode === 'eoa' ? sendFromRelayer(relay, transaction) : sendThroughBundler(relay, transaction)
+}
+
+// ============================================================================
+// Recovery Steps
+// ============================================================================
+
+/**
+ * Execute a session's recovery with the guardian signatures saved in it. They
+ * must reach the on-chain guardian threshold and be for the module's current
+ * recovery nonce; the simulation reports it otherwise.
+ */
+export async function executeRecoveryDirectly(
+    srm: SocialRecoveryModule,
+    nodeUrl: string,
+    relay: RecoveryRelay,
+    session: RecoverySession
+): Promise<string | null> {
+    const threshold = await srm.threshold(nodeUrl, session.safeAccountAddress)
+    if (BigInt(session.signatures.length) < threshold) {
+        throw new Error(
+            `${threshold} guardian signatures are required to execute the recovery, ` +
+            `but the session holds ${session.signatures.length}`
+        )
+    }
+    const transaction = createMultiConfirmRecoveryTransaction(
+        srm,
+        session.safeAccountAddress,
+        session.newOwners,
+        session.newThreshold,
+        session.signatures
+    )
+    console.log(`Executing with ${session.signatures.length} guardian signatures via ${describeRecoveryRelay(relay)}...`)
+    return relayRecoveryTransaction(relay, transaction)
+}
+
+/** Finalize a recovery whose grace period is over */
+export async function finalizeRecoveryDirectly(
+    srm: SocialRecoveryModule,
+    relay: RecoveryRelay,
+    safeAccountAddress: string
+): Promise<string | null> {
+    console.log(`Finalizing via ${describeRecoveryRelay(relay)}...`)
+    return relayRecoveryTransaction(relay, srm.createFinalizeRecoveryMetaTransaction(safeAccountAddress))
+}
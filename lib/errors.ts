@@ -0,0 +1,102 @@
+/**
+ * Error Formatting
+ *
+ * Recovery service errors carry structured details (SafeRecoveryServiceSdkError
+ * .stringify()); everything else is printed as its message followed by the
+ * chain of `cause`s, which is where the underlying RPC / bundler error usually is.
+ * With LOG_LEVEL=verbose (--verbose) the stack trace is printed as well.
+ *
+ * With --json the same information is printed as one object instead (see
+ * serializeError and runMain in lib/cli.ts).
+ */
+
+import { SafeRecoveryServiceSdkError } from 'safe-recovery-service-sdk'
+
+/** Wrong command, arguments or options — exits with EXIT_CODES.usage (see lib/cli.ts) */
+export class UsageError extends Error {
+    name = 'UsageError'
+}
+
+/**
+ * Nothing failed, but the flow cannot finish yet (e.g. a UserOperation still
+ * pending) — exits with EXIT_CODES.notReady. `details` is what it takes to
+ * pick up where it stopped, and is included in --json output.
+ */
+export class NotReadyError extends Error {
+    name = 'NotReadyError'
+
+    constructor(message: string, readonly details?: unknown) {
+        super(message)
+    }
+}
+
+export type ErrorDescription = {
+    name: string
+    message: string
+    /** SafeRecoveryServiceSdkError.stringify(), parsed if it is JSON, or NotReadyError.details */
+    details?: unknown
+}
+
+export type SerializedError = ErrorDescription & {
+    /** The `cause` chain, outermost first */
+    causes: ErrorDescription[]
+}
+
+/** The chain of `cause`s below an error, outermost first */
+function getCauses(error: unknown): unknown[] {
+    const causes: unknown[] = []
+    let cause = (error as { cause?: unknown } | undefined)?.cause
+    while (cause) {
+        causes.push(cause)
+        cause = (cause as { cause?: unknown }).cause
+    }
+    return causes
+}
+
+/** SafeRecoveryServiceSdkError.stringify() output, parsed if it is JSON */
+function parseDetails(details: string): unknown {
+    try {
+        return JSON.parse(details)
+    } catch {
+        return details
+    }
+}
+
+function describe(error: unknown): ErrorDescription {
+    if (error instanceof SafeRecoveryServiceSdkError) {
+        return { name: error.name, message: error.message, details: parseDetails(error.stringify()) }
+    }
+    if (error instanceof NotReadyError && error.details !== undefined) {
+        return { name: error.name, message: error.message, details: error.details }
+    }
+    if (error instanceof Error) {
+        return { name: error.name, message: error.message }
+    }
+    return { name: 'Error', message: typeof error === 'string' ? error : JSON.stringify(error) }
+}
+
+/** One line per error in the chain: the error itself, then each cause */
+export function formatError(error: unknown): string[] {
+    if (error instanceof SafeRecoveryServiceSdkError) {
+        return [`Recovery Service Error: ${error.stringify()}`]
+    }
+
+    return [
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+        ...getCauses(error).map((cause) => cause instanceof SafeRecoveryServiceSdkError
+            ? `Caused by: Recovery Service Error: ${cause.stringify()}`
+            : `Caused by: ${describe(cause).message}`),
+    ]
+}
+
+/** The error as a JSON-friendly object, for --json output */
+export function serializeError(error: unknown): SerializedError {
+    return { ...describe(error), causes: getCauses(error).map(describe) }
+}
+
+export function printError(error: unknown) {
+    console.error('\n' + formatError(error).join('\n'))
+    if (process.env.LOG_LEVEL === 'verbose' && error instanceof Error && error.stack) {
+        console.error('\n' + error.stack)
+    }
+}
@@ -0,0 +1,137 @@
+/**
+ * Gas Token Selection
+ *
+ * When the token paymaster accepts several ERC-20 tokens
+ * (PAYMASTER_TOKEN_ADDRESSES), the token to pay a UserOperation's gas in is
+ * chosen per UserOperation: the paymaster quotes the fee in each token, the
+ * Safe's balance of each is read, and the choice is
+ *
+ *   1. the preferred token (--gas-token or PAYMASTER_TOKEN_ADDRESS), if the
+ *      Safe can cover its fee, otherwise
+ *   2. the cheapest token the Safe can cover.
+ *
+ * The Safe covers a fee with what is left of its balance after the batch's
+ * own transfers and approvals of the token.
+ *
+ * Fees are compared in whole tokens (normalized by decimals), which is what
+ * "cheapest" means for tokens of like value such as USD stablecoins; list only
+ * tokens that are comparable that way.
+ *
+ *   const { gas: chosen, quotes } = await selectGasToken(account, calls, network, gas)
+ *   if (!chosen) throw new Error('The Safe cannot cover gas in any token')
+ *
+ * sendWithPreview (lib/userop-preview.ts) does this for every flow, so an
+ * ERC-20 entry in GAS_FALLBACK picks its token the same way.
+ */
+
+import { WalletAccountEvmErc4337 } from '@tetherto/wdk-wallet-evm-erc-4337'
+import { MetaTransaction } from 'abstractionkit'
+
+import {
+    Token,
+    describeTokenShortfall,
+    formatTokenAmount,
+    getToken,
+    getTokenBalance,
+    getTokenOutflow,
+} from './tokens.js'
+import { Erc20GasPayment, NetworkConfig, toWdkGasConfig } from './wallet.js'
+
+export type GasTokenQuote = {
+    token: Token
+    balance: bigint
+    /** What the batch itself transfers or approves of the token (getTokenOutflow) */
+    outflow: bigint
+    /** The paymaster's quoted fee in the token, or why it could not be quoted */
+    fee: bigint | { error: string }
+    affordable: boolean
+}
+
+export type GasTokenSelection = {
+    /** `gas` with the chosen token, or null if the Safe cannot cover any */
+    gas: Erc20GasPayment | null
+    choice: 'preferred' | 'cheapest' | null
+    quotes: GasTokenQuote[]
+}
+
+/** The fee in units of 10^-36 tokens, so fees in tokens of any decimals compare */
+function normalizeFee(fee: bigint, token: Token): bigint {
+    return fee * 10n ** BigInt(36 - token.decimals)
+}
+
+/**
+ * Quote the batch's fee in every candidate token of `gas` and choose one (see
+ * above). A `gas` with a single token is quoted the same way, which tells
+ * whether the Safe can cover it.
+ */
+export async function selectGasToken(
+    account: WalletAccountEvmErc4337,
+    calls: MetaTransaction[],
+    network: NetworkConfig,
+    gas: Erc20GasPayment
+): Promise<GasTokenSelection> {
+    const safeAccountAddress = await account.getAddress()
+    const transactions = calls.map(({ to, value, data }) => ({ to, value, data }))
+    const { gasTokens, ...single } = gas
+    const candidates = gasTokens?.candidates ?? [gas.tokenAddress]
+    const preferred = gasTokens ? gasTokens.preferred : gas.tokenAddress
+
+    // One at a time: the paymaster is the same service for every quote
+    const quotes: GasTokenQuote[] = []
+    for (const address of candidates) {
+        const token = await getToken(network.nodeUrl, address as `0x${string}`)
+        const balance = await getTokenBalance(network.nodeUrl, token, safeAccountAddress)
+        const outflow = getTokenOutflow(token, calls)
+        let fee: GasTokenQuote['fee']
+        try {
+            fee = (await account.quoteSendTransaction(
+                transactions,
+                toWdkGasConfig({ ...single, tokenAddress: address })
+            )).fee
+        } catch (error) {
+            fee = { error: error instanceof Error ? error.message : String(error) }
+        }
+        quotes.push({ token, balance, outflow, fee, affordable: typeof fee === 'bigint' && balance >= outflow + fee })
+    }
+
+    const affordable = quotes.filter(quote => quote.affordable)
+    const preferredQuote = affordable.find(quote => quote.token.address === preferred)
+    const cheapest = affordable.reduce<GasTokenQuote | undefined>(
+        (best, quote) =>
+            !best || normalizeFee(quote.fee as bigint, quote.token) < normalizeFee(best.fee as bigint, best.token)
+                ? quote
+                : best,
+        undefined
+    )
+    const chosen = preferredQuote ?? cheapest
+
+    return {
+        gas: chosen ? { ...single, tokenAddress: chosen.token.address } : null,
+        choice: chosen ? (chosen === preferredQuote ? 'preferred' : 'cheapest') : null,
+        quotes,
+    }
+}
+
+/** One line per token: fee, balance, and which one was chosen */
+export function printGasTokenSelection(selection: GasTokenSelection) {
+    console.log('Gas tokens:')
+    for (const quote of selection.quotes) {
+        const chosen = selection.gas?.tokenAddress === quote.token.address
+        const fee = typeof quote.fee === 'bigint'
+            ? `~${formatTokenAmount(quote.fee, quote.token)}`
+            : `no quote (${quote.fee.error})`
+        const status = chosen
+            ? `✓ ${selection.choice}`
+            : typeof quote.fee === 'bigint' && !quote.affordable ? '✗ balance too low' : ''
+        console.log(`  ${quote.token.symbol.padEnd(8)} fee ${fee}, balance ${formatTokenAmount(quote.balance, quote.token)}  ${status}`.trimEnd())
+    }
+}
+
+/** "USDT: 0.5 USDT available, ~1.2 USDT needed; USDC: no quote (...)" — why no token was chosen */
+export function describeGasTokenShortfall(selection: GasTokenSelection): string {
+    return selection.quotes
+        .map(({ token, balance, outflow, fee }) => typeof fee === 'bigint'
+            ? `${token.symbol}: ${describeTokenShortfall(token, balance, fee, outflow)}`
+            : `${token.symbol}: no quote (${fee.error})`)
+        .join('; ')
+}
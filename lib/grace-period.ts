@@ -0,0 +1,182 @@
+/**
+ * Grace Period Selection
+ *
+ * Each SocialRecoveryModuleGracePeriodSelector maps to a different Social
+ * Recovery Module (SRM) contract address. A Safe that enabled the
+ * After3Minutes module cannot be recovered through the After3Days module, so
+ * every flow must agree on the selector.
+ *
+ * This module provides:
+ *   - A single GRACE_PERIOD setting shared by all flows (setup, recovery, cancel)
+ *   - Auto-detection of the selector actually enabled on an existing Safe
+ *
+ * GRACE_PERIOD accepts After3Minutes, After3Days, After7Days, After14Days or
+ * auto. When unset it defaults to After3Minutes for testing.
+ */
+
+import {
+    SafeAccountV0_3_0 as SafeAccount,
+    SocialRecoveryModuleGracePeriodSelector,
+    sendJsonRpcRequest,
+} from 'abstractionkit'
+
+export type GracePeriodName = keyof typeof SocialRecoveryModuleGracePeriodSelector
+
+export const DEFAULT_GRACE_PERIOD: GracePeriodName = 'After3Minutes'
+
+/** Grace period length of each selector, in seconds */
+export const GRACE_PERIOD_SECONDS: Record<GracePeriodName, number> = {
+    After3Minutes: 3 * 60,
+    After3Days: 3 * 24 * 60 * 60,
+    After7Days: 7 * 24 * 60 * 60,
+    After14Days: 14 * 24 * 60 * 60,
+}
+
+const GRACE_PERIOD_NAMES = Object.keys(GRACE_PERIOD_SECONDS) as GracePeriodName[]
+
+/**
+ * Parse a grace period name (e.g. "After3Days") into its selector.
+ * Matching is case-insensitive.
+ */
+export function parseGracePeriodSelector(value: string): SocialRecoveryModuleGracePeriodSelector {
+    const name = GRACE_PERIOD_NAMES.find(n => n.toLowerCase() === value.trim().toLowerCase())
+    if (!name) {
+        throw new Error(
+            `Invalid grace period "${value}". Expected one of: ${GRACE_PERIOD_NAMES.join(', ')}, auto`
+        )
+    }
+    return SocialRecoveryModuleGracePeriodSelector[name]
+}
+
+/** Reverse lookup: selector (SRM address) → grace period name */
+export function getGracePeriodName(selector: SocialRecoveryModuleGracePeriodSelector): GracePeriodName {
+    const name = GRACE_PERIOD_NAMES.find(
+        n => SocialRecoveryModuleGracePeriodSelector[n].toLowerCase() === selector.toLowerCase()
+    )
+    if (!name) {
+        throw new Error(`Unknown Social Recovery Module address: ${selector}`)
+    }
+    return name
+}
+
+/**
+ * Read the GRACE_PERIOD env var.
+ * Returns null when set to "auto", meaning the selector must be detected on-chain.
+ */
+export function getConfiguredGracePeriodSelector(): SocialRecoveryModuleGracePeriodSelector | null {
+    const value = process.env.GRACE_PERIOD?.trim() || DEFAULT_GRACE_PERIOD
+    if (value.toLowerCase() === 'auto') {
+        return null
+    }
+    return parseGracePeriodSelector(value)
+}
+
+/**
+ * Whether the Safe has been deployed. A counterfactual Safe has no code, and
+ * calls to it return no data, which Safe view helpers cannot decode.
+ */
+export async function isSafeDeployed(nodeUrl: string, safeAccountAddress: string): Promise<boolean> {
+    const code = await sendJsonRpcRequest(nodeUrl, 'eth_getCode', [safeAccountAddress, 'latest'])
+    return (code as unknown as string) !== '0x'
+}
+
+/**
+ * Probe isModuleEnabled for every selector's module address and return the
+ * selectors enabled on the Safe. A counterfactual (undeployed) Safe has none.
+ */
+export async function getEnabledGracePeriodSelectors(
+    nodeUrl: string,
+    safeAccountAddress: string
+): Promise<SocialRecoveryModuleGracePeriodSelector[]> {
+    if (!(await isSafeDeployed(nodeUrl, safeAccountAddress))) {
+        return []
+    }
+    const safeAccount = new SafeAccount(safeAccountAddress)
+    const selectors = GRACE_PERIOD_NAMES.map(n => SocialRecoveryModuleGracePeriodSelector[n])
+    const enabled = await Promise.all(
+        selectors.map(selector => safeAccount.isModuleEnabled(nodeUrl, selector))
+    )
+    return selectors.filter((_, i) => enabled[i])
+}
+
+/**
+ * Detect the single SRM enabled on a Safe.
+ * Throws if no SRM is enabled, or if several are (ambiguous recovery target).
+ */
+export async function detectGracePeriodSelector(
+    nodeUrl: string,
+    safeAccountAddress: string
+): Promise<SocialRecoveryModuleGracePeriodSelector> {
+    const enabled = await getEnabledGracePeriodSelectors(nodeUrl, safeAccountAddress)
+
+    if (enabled.length === 0) {
+        throw new Error(
+            `No Social Recovery Module is enabled on ${safeAccountAddress}. ` +
+            `Run the setup example first.`
+        )
+    }
+    if (enabled.length > 1) {
+        throw new Error(
+            `Multiple Social Recovery Modules are enabled on ${safeAccountAddress} ` +
+            `(${enabled.map(getGracePeriodName).join(', ')}). ` +
+            `Disable all but one before continuing.`
+        )
+    }
+    return enabled[0]
+}
+
+/**
+ * Resolve the selector for a flow that operates on an existing Safe
+ * (recovery, cancel). The enabled module is always detected on-chain; if
+ * GRACE_PERIOD names a specific selector, it must match what is enabled.
+ */
+export async function resolveGracePeriodSelector(
+    nodeUrl: string,
+    safeAccountAddress: string
+): Promise<SocialRecoveryModuleGracePeriodSelector> {
+    const configured = getConfiguredGracePeriodSelector()
+    const detected = await detectGracePeriodSelector(nodeUrl, safeAccountAddress)
+
+    if (configured && configured !== detected) {
+        throw new Error(
+            `GRACE_PERIOD is ${getGracePeriodName(configured)} but ${safeAccountAddress} ` +
+            `has the ${getGracePeriodName(detected)} module enabled. ` +
+            `Set GRACE_PERIOD=${getGracePeriodName(detected)} or GRACE_PERIOD=auto.`
+        )
+    }
+    return detected
+}
+
+/**
+ * Resolve the selector for a setup flow that enables the module.
+ * Uses GRACE_PERIOD (which cannot be "auto" here, unless the Safe already has
+ * exactly one SRM enabled) and refuses to enable a second, different SRM.
+ */
+export async function resolveSetupGracePeriodSelector(
+    nodeUrl: string,
+    safeAccountAddress: string
+): Promise<SocialRecoveryModuleGracePeriodSelector> {
+    const configured = getConfiguredGracePeriodSelector()
+    const enabled = await getEnabledGracePeriodSelectors(nodeUrl, safeAccountAddress)
+
+    if (!configured) {
+        if (enabled.length !== 1) {
+            throw new Error(
+                `GRACE_PERIOD=auto requires exactly one Social Recovery Module to be enabled ` +
+                `on ${safeAccountAddress} (found ${enabled.length}). ` +
+                `Set GRACE_PERIOD to ${GRACE_PERIOD_NAMES.join(' / ')} for a new setup.`
+            )
+        }
+        return enabled[0]
+    }
+
+    const others = enabled.filter(selector => selector !== configured)
+    if (others.length > 0) {
+        throw new Error(
+            `${safeAccountAddress} already has the ${others.map(getGracePeriodName).join(', ')} ` +
+            `module enabled, but GRACE_PERIOD is ${getGracePeriodName(configured)}. ` +
+            `Use the same grace period as the existing setup.`
+        )
+    }
+    return configured
+}
@@ -0,0 +1,171 @@
+/**
+ * Guardian Set Configuration
+ *
+ * Describes a personal guardian set declaratively in a JSON file, so any
+ * N-of-M setup can be expressed without editing the examples:
+ *
+ *   {
+ *     "threshold": 2,
+ *     "guardians": [
+ *       { "address": "0x...", "label": "Alice" },
+ *       { "address": "0x...", "label": "Bob" },
+ *       { "address": "0x...", "label": "Hardware wallet" }
+ *     ]
+ *   }
+ *
+ * The setup example reconciles the Safe against the file (see
+ * lib/guardian-reconcile.ts); the recovery example reads the same file to know
+ * how many signatures it must collect.
+ *
+ * The file location defaults to guardians.json in the working directory and
+ * can be changed with GUARDIANS_CONFIG_FILE.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { getAddress, isAddress, zeroAddress } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+
+import { applyConfigProfile, parseConfigValueAs } from './config.js'
+
+export type GuardianEntry = {
+    address: string
+    label?: string
+}
+
+export type GuardianConfig = {
+    threshold: number
+    guardians: GuardianEntry[]
+}
+
+/** Head of the SRM guardian linked list, which the module cannot add as a guardian */
+export const SENTINEL_GUARDIAN = '0x0000000000000000000000000000000000000001'
+
+const DEFAULT_GUARDIANS_CONFIG_FILE = 'guardians.json'
+
+export function getGuardianConfigFilePath(): string {
+    return path.resolve(process.env.GUARDIANS_CONFIG_FILE || DEFAULT_GUARDIANS_CONFIG_FILE)
+}
+
+/**
+ * Validate a parsed guardian config, reporting every problem at once.
+ * Addresses are returned checksummed.
+ */
+export function validateGuardianConfig(raw: unknown): GuardianConfig {
+    const problems: string[] = []
+    const config = raw as Partial<GuardianConfig>
+
+    if (typeof raw !== 'object' || raw === null) {
+        throw new Error('Invalid guardian config: expected a JSON object')
+    }
+
+    const guardians: GuardianEntry[] = []
+    if (!Array.isArray(config.guardians) || config.guardians.length === 0) {
+        problems.push('"guardians" must be a non-empty array')
+    } else {
+        const seen = new Set<string>()
+        config.guardians.forEach((guardian, i) => {
+            if (!guardian || typeof guardian.address !== 'string' || !isAddress(guardian.address)) {
+                problems.push(`guardians[${i}].address is not a valid address`)
+                return
+            }
+            if (guardian.label !== undefined && typeof guardian.label !== 'string') {
+                problems.push(`guardians[${i}].label must be a string`)
+            }
+            const address = getAddress(guardian.address)
+            if (address === zeroAddress || address === SENTINEL_GUARDIAN) {
+                problems.push(`guardians[${i}].address ${address} cannot be a guardian`)
+            } else if (seen.has(address)) {
+                problems.push(`guardians[${i}].address ${address} is listed more than once`)
+            }
+            seen.add(address)
+            guardians.push({ address, label: guardian.label })
+        })
+    }
+
+    const threshold = config.threshold
+    if (typeof threshold !== 'number' || !Number.isInteger(threshold) || threshold < 1) {
+        problems.push('"threshold" must be a positive integer')
+    } else if (Array.isArray(config.guardians) && threshold > config.guardians.length) {
+        problems.push(
+            `"threshold" (${threshold}) cannot exceed the number of guardians (${config.guardians.length})`
+        )
+    }
+
+    if (problems.length > 0) {
+        throw new Error(`Invalid guardian config:\n  - ${problems.join('\n  - ')}`)
+    }
+    return { threshold: threshold as number, guardians }
+}
+
+/**
+ * Load the guardian config file. Returns undefined when the default file does
+ * not exist; throws if GUARDIANS_CONFIG_FILE points at a missing file.
+ */
+export function loadGuardianConfig(): GuardianConfig | undefined {
+    const filePath = getGuardianConfigFilePath()
+    if (!fs.existsSync(filePath)) {
+        if (process.env.GUARDIANS_CONFIG_FILE) {
+            throw new Error(`GUARDIANS_CONFIG_FILE not found: ${filePath}`)
+        }
+        return undefined
+    }
+
+    let raw: unknown
+    try {
+        raw = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    } catch (error) {
+        throw new Error(`Could not parse guardian config ${filePath}`, { cause: error })
+    }
+    return validateGuardianConfig(raw)
+}
+
+/** "Alice (0x...)" when the guardian has a label, otherwise the address */
+export function formatGuardian(config: GuardianConfig | undefined, address: string): string {
+    const entry = config?.guardians.find(g => g.address.toLowerCase() === address.toLowerCase())
+    return entry?.label ? `${entry.label} (${entry.address})` : address
+}
+
+/**
+ * Read every GUARDIAN_<n>_PRIVATE_KEY env var (or profile value), in order of
+ * n. Throws one error listing every malformed key.
+ */
+export function loadGuardianKeysFromEnv(): `0x${string}`[] {
+    applyConfigProfile()
+    const names = Object.keys(process.env)
+        .map(name => name.match(/^GUARDIAN_(\d+)_PRIVATE_KEY$/))
+        .filter((match): match is RegExpMatchArray => !!match && !!process.env[match[0]]?.trim())
+        .sort((a, b) => Number(a[1]) - Number(b[1]))
+        .map(match => match[0])
+
+    const problems: string[] = []
+    const keys: `0x${string}`[] = []
+    for (const name of names) {
+        try {
+            keys.push(parseConfigValueAs('privateKey', name, process.env[name] as string))
+        } catch (error) {
+            problems.push((error as Error).message)
+        }
+    }
+    if (problems.length > 0) {
+        throw new Error(`Invalid configuration:\n  - ${problems.join('\n  - ')}`)
+    }
+    return keys
+}
+
+/**
+ * Build an in-memory config from guardian private keys, for when no guardian
+ * config file exists.
+ */
+export function guardianConfigFromKeys(
+    privateKeys: `0x${string}`[],
+    threshold: number
+): GuardianConfig {
+    return validateGuardianConfig({
+        threshold,
+        guardians: privateKeys.map((key, i) => ({
+            address: privateKeyToAccount(key).address,
+            label: `Guardian ${i + 1}`,
+        })),
+    })
+}
@@ -0,0 +1,122 @@
+/**
+ * Guardian Set Reconciliation
+ *
+ * Compares a desired guardian set (see lib/guardian-config.ts) with what the
+ * Social Recovery Module currently holds for a Safe, and plans the
+ * meta-transactions that bring the chain in line: enable the module, add
+ * missing guardians, revoke extra ones and change the threshold. Running the
+ * plan twice is harmless — the second time it is empty.
+ *
+ * The plan is built against a simulated copy of the on-chain state so each
+ * step is valid when it executes inside one batched UserOperation:
+ *   - the SRM requires 1 ≤ threshold ≤ guardian count after every call, so
+ *     guardians are added first (raising the threshold towards the target as
+ *     the count grows) and revoked afterwards
+ *   - guardians are stored as a linked list, and a revoke must name the
+ *     guardian's predecessor as it will be at that point in the batch
+ */
+
+import {
+    MetaTransaction,
+    SafeAccountV0_3_0 as SafeAccount,
+    SocialRecoveryModule,
+} from 'abstractionkit'
+import { getAddress } from 'viem'
+
+import { isSafeDeployed } from './grace-period.js'
+import { GuardianConfig, SENTINEL_GUARDIAN, formatGuardian } from './guardian-config.js'
+
+export type GuardianSetState = {
+    moduleEnabled: boolean
+    /** In SRM linked-list order (most recently added first) */
+    guardians: string[]
+    threshold: number
+}
+
+export type PlannedTransaction = {
+    description: string
+    transaction: MetaTransaction
+}
+
+/**
+ * Read the module, guardians and threshold currently set for a Safe.
+ * A counterfactual (not yet deployed) Safe has no module and no guardians.
+ */
+export async function getGuardianSetState(
+    srm: SocialRecoveryModule,
+    nodeUrl: string,
+    accountAddress: string
+): Promise<GuardianSetState> {
+    const [moduleEnabled, guardians, threshold] = await Promise.all([
+        isSafeDeployed(nodeUrl, accountAddress).then(deployed =>
+            deployed && new SafeAccount(accountAddress).isModuleEnabled(nodeUrl, srm.moduleAddress)),
+        srm.getGuardians(nodeUrl, accountAddress),
+        srm.threshold(nodeUrl, accountAddress),
+    ])
+    return {
+        moduleEnabled,
+        guardians: guardians.map(g => getAddress(g)),
+        threshold: Number(threshold),
+    }
+}
+
+/**
+ * Plan the meta-transactions that turn `current` into `desired`.
+ * Returns an empty list when the Safe already matches.
+ */
+export function planGuardianSetChanges(
+    srm: SocialRecoveryModule,
+    accountAddress: string,
+    current: GuardianSetState,
+    desired: GuardianConfig
+): PlannedTransaction[] {
+    const plan: PlannedTransaction[] = []
+    const isIn = (list: string[], address: string) =>
+        list.some(a => a.toLowerCase() === address.toLowerCase())
+
+    const desiredAddresses = desired.guardians.map(g => g.address)
+    const guardians = [...current.guardians]
+    let threshold = current.threshold
+
+    if (!current.moduleEnabled) {
+        plan.push({
+            description: 'Enable Social Recovery Module',
+            transaction: srm.createEnableModuleMetaTransaction(accountAddress),
+        })
+    }
+
+    for (const address of desiredAddresses.filter(a => !isIn(guardians, a))) {
+        // New guardians go to the head of the list
+        guardians.unshift(address)
+        threshold = Math.min(desired.threshold, guardians.length)
+        plan.push({
+            description: `Add guardian ${formatGuardian(desired, address)} (threshold → ${threshold})`,
+            transaction: srm.createAddGuardianWithThresholdMetaTransaction(address, BigInt(threshold)),
+        })
+    }
+
+    for (const address of current.guardians.filter(a => !isIn(desiredAddresses, a))) {
+        const index = guardians.findIndex(a => a.toLowerCase() === address.toLowerCase())
+        const prevGuardian = index === 0 ? SENTINEL_GUARDIAN : guardians[index - 1]
+        guardians.splice(index, 1)
+        threshold = Math.min(desired.threshold, guardians.length)
+        plan.push({
+            description: `Revoke guardian ${address} (threshold → ${threshold})`,
+            transaction: srm.createStandardRevokeGuardianWithThresholdMetaTransaction(
+                prevGuardian,
+                address,
+                BigInt(threshold)
+            ),
+        })
+    }
+
+    if (threshold !== desired.threshold) {
+        threshold = desired.threshold
+        plan.push({
+            description: `Change threshold ${current.threshold} → ${threshold}`,
+            transaction: srm.createChangeThresholdMetaTransaction(BigInt(threshold)),
+        })
+    }
+
+    return plan
+}
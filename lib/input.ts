@@ -0,0 +1,162 @@
+/**
+ * Prompt Inputs
+ *
+ * Every value an example would otherwise prompt for can also be supplied
+ * without a terminal, so flows can run in CI or be driven by a backend. In
+ * order of precedence:
+ *
+ *   1. a command-line flag       --safe 0x...
+ *   2. an env var or argument    SAFE_ACCOUNT_ADDRESS=0x...
+ *   3. an inputs JSON object     --input answers.json, or --input - for stdin
+ *   4. an interactive prompt     fails instead with --non-interactive
+ *
+ * The inputs JSON maps input names to values:
+ *
+ *   {
+ *     "safeAccountAddress": "0x...",
+ *     "channels": "both",
+ *     "email": "user@example.com",
+ *     "phone": "+1234567890",
+ *     "otpCodes": { "email": "123456", "sms": "654321" }
+ *   }
+ *
+ * The file can also be set with INPUTS_FILE. OTP codes have their own
+ * providers, see lib/otp.ts.
+ */
+
+import * as fs from 'fs'
+
+import { askQuestion, getFlagValue, isNonInteractive } from './cli.js'
+import { parseConfigValueAs } from './config.js'
+
+export type InputSpec = {
+    /** Key in the inputs JSON object */
+    name: string
+    /** Command-line flag, e.g. '--safe' */
+    flag: string
+    /** Env var that can supply the value; only used in error messages */
+    env?: string
+    /** Value already known from the environment or a positional argument */
+    value?: string
+    /** Prompt shown in interactive mode */
+    question: string
+}
+
+let inputs: Promise<Record<string, unknown>> | undefined
+
+/** Everything piped to stdin, for `-` in place of a file name */
+export async function readStdin(): Promise<string> {
+    const chunks: Buffer[] = []
+    for await (const chunk of process.stdin) {
+        chunks.push(chunk as Buffer)
+    }
+    return Buffer.concat(chunks).toString('utf8')
+}
+
+async function readInputs(): Promise<Record<string, unknown>> {
+    const source = getFlagValue('--input') || process.env.INPUTS_FILE
+    if (!source) {
+        return {}
+    }
+
+    let raw: unknown
+    try {
+        raw = JSON.parse(source === '-' ? await readStdin() : fs.readFileSync(source, 'utf8'))
+    } catch (error) {
+        throw new Error(`Could not read inputs JSON from ${source === '-' ? 'stdin' : source}`, {
+            cause: error,
+        })
+    }
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new Error('Invalid inputs JSON: expected an object of input names to values')
+    }
+    return raw as Record<string, unknown>
+}
+
+/** A value from the inputs JSON (--input / INPUTS_FILE), read once per process */
+export async function getInputsValue(name: string): Promise<unknown> {
+    inputs ??= readInputs()
+    return (await inputs)[name]
+}
+
+/** The error thrown when a value is missing and prompting is not allowed */
+export function missingInputError(what: string, sources: string[]): Error {
+    const options = sources.length > 1
+        ? `${sources.slice(0, -1).join(', ')} or ${sources[sources.length - 1]}`
+        : sources[0]
+    return new Error(`Missing ${what} in non-interactive mode. Provide it with ${options}`)
+}
+
+/**
+ * Resolve one input from its flag, known value, inputs JSON or a prompt.
+ * Returns the trimmed value; an empty answer at the prompt is returned as ''.
+ */
+export async function getInput(spec: InputSpec): Promise<string> {
+    const fromFlag = getFlagValue(spec.flag)
+    if (fromFlag !== undefined) {
+        return fromFlag.trim()
+    }
+    if (spec.value) {
+        return spec.value.trim()
+    }
+
+    const fromInputs = await getInputsValue(spec.name)
+    if (fromInputs !== undefined && fromInputs !== null) {
+        if (typeof fromInputs !== 'string' && typeof fromInputs !== 'number') {
+            throw new Error(`Invalid inputs JSON: "${spec.name}" must be a string`)
+        }
+        return String(fromInputs).trim()
+    }
+
+    if (isNonInteractive()) {
+        throw missingInputError(spec.name, [
+            `${spec.flag} <value>`,
+            ...(spec.env ? [spec.env] : []),
+            `"${spec.name}" in the inputs JSON (--input)`,
+        ])
+    }
+    return (await askQuestion(spec.question)).trim()
+}
+
+const CHANNEL_CHOICES: Record<string, { email: boolean; sms: boolean }> = {
+    '1': { email: true, sms: false },
+    '2': { email: false, sms: true },
+    '3': { email: true, sms: true },
+    email: { email: true, sms: false },
+    sms: { email: false, sms: true },
+    both: { email: true, sms: true },
+}
+
+/**
+ * Email and/or SMS: --channels / RECOVERY_CHANNELS / "channels" accept
+ * email, sms or both; the prompt accepts 1-3 for the menu the caller printed.
+ */
+export async function getChannelChoice(): Promise<{ email: boolean; sms: boolean }> {
+    const answer = await getInput({
+        name: 'channels',
+        flag: '--channels',
+        env: 'RECOVERY_CHANNELS',
+        value: process.env.RECOVERY_CHANNELS,
+        question: 'Enter choice (1-3): ',
+    })
+    const choice = CHANNEL_CHOICES[answer.toLowerCase()]
+    if (!choice) {
+        throw new Error(`Invalid channel choice "${answer}": expected 1-3, email, sms or both`)
+    }
+    return choice
+}
+
+/** The Safe to act on: --safe / SAFE_ACCOUNT_ADDRESS / "safeAccountAddress", checksummed */
+export async function getSafeAccountAddress(
+    value: string | undefined,
+    question = 'Enter Safe account address: '
+): Promise<`0x${string}`> {
+    const address = await getInput({
+        name: 'safeAccountAddress',
+        flag: '--safe',
+        env: 'SAFE_ACCOUNT_ADDRESS',
+        value,
+        question,
+    })
+    return parseConfigValueAs('address', 'Safe account address', address)
+}
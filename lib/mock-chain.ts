@@ -0,0 +1,1378 @@
+/**
+ * Mock Chain
+ *
+ * In-memory chain state behind the local stand-in node, bundler and paymaster
+ * (lib/mock-server.ts), with just enough of each contract the examples talk to
+ * for their eth_calls and UserOperations to behave as on a live network:
+ *
+ *   - ERC-20 tokens: balances, allowances, transfer / approve / transferFrom
+ *   - Safes: owners, threshold, modules and their admin functions, and the
+ *     4337 module's executeUserOp (single calls and MultiSend batches);
+ *     counterfactual Safes are deployed by their first UserOperation
+ *   - Social Recovery Modules (every grace period): guardians, threshold and
+ *     the recovery lifecycle — confirm, execute, finalize, cancel
+ *   - EntryPoint: nonces, and the gas payment of each UserOperation in ETH,
+ *     through the sponsoring paymaster, or in a paymaster token
+ *
+ * Calls revert and emit events like the real contracts, so previews and
+ * decoded receipts read the same as on-chain (lib/userop-preview.ts,
+ * lib/userop-receipt.ts). Safe owner signatures are not checked; guardian
+ * signatures passed to multiConfirmRecovery are.
+ *
+ * The starting state is a scenario, usually a JSON file (see
+ * mock-scenario.example.json):
+ *
+ *   {
+ *     "chainId": 11155111,
+ *     "tokens": [{ "address": "0x...", "symbol": "USDT", "decimals": 6, "tokensPerEth": "3000" }],
+ *     "balances": { "*": { "native": "0.01", "0x...": "25" } },
+ *     "safes": { "0x...": { "owners": ["0x..."], "threshold": 1 } },
+ *     "paymaster": { "sponsor": true },
+ *     "bundler": { "inclusion": "auto", "pendingPolls": 0 }
+ *   }
+ *
+ * Amounts are in the token's own units. Balances under "*" belong to every
+ * address that has none of its own — handy because the Safe's address depends
+ * on the seed phrase.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { SocialRecoveryModuleGracePeriodSelector, UserOperationV7 } from 'abstractionkit'
+import {
+    Abi,
+    AbiEvent,
+    AbiParameter,
+    Address,
+    Hex,
+    decodeFunctionData,
+    encodeAbiParameters,
+    encodeErrorResult,
+    encodeEventTopics,
+    encodeFunctionResult,
+    getAddress,
+    hashTypedData,
+    hexToBigInt,
+    isAddress,
+    keccak256,
+    parseAbi,
+    recoverAddress,
+    size,
+    slice,
+    stringToHex,
+    zeroAddress,
+} from 'viem'
+
+import { GRACE_PERIOD_SECONDS, GracePeriodName } from './grace-period.js'
+import { MockRecoveryServiceScenario } from './mock-recovery-service.js'
+import { NATIVE_TOKEN, parseTokenAmount } from './tokens.js'
+
+// ============================================================================
+// State
+// ============================================================================
+
+export type MockToken = {
+    address: Address
+    name: string
+    symbol: string
+    decimals: number
+    /** Base units per ETH, as the token paymaster quotes it (its exchangeRate) */
+    exchangeRate: bigint
+    /** Keyed by lowercase address */
+    balances: Record<string, bigint>
+    /** Keyed by "owner:spender", lowercase */
+    allowances: Record<string, bigint>
+}
+
+export type MockSafe = {
+    owners: Address[]
+    threshold: bigint
+    modules: Address[]
+}
+
+export type MockRecoveryRequest = {
+    guardiansApprovalCount: bigint
+    newThreshold: bigint
+    /** 0 while no recovery is pending */
+    executeAfter: bigint
+    newOwners: Address[]
+}
+
+/** One Safe's guardians in one Social Recovery Module */
+export type MockRecoveryConfig = {
+    guardians: Address[]
+    threshold: bigint
+    nonce: bigint
+    request: MockRecoveryRequest
+    /** Guardians (lowercase) that approved each recovery hash */
+    approvals: Record<string, string[]>
+}
+
+export type MockLog = {
+    address: Address
+    topics: Hex[]
+    data: Hex
+}
+
+/**
+ * One block per bundle: a single transaction with the logs of its
+ * UserOperation. Plain transactions (sendMockTransaction) get a block of their
+ * own too, and keep their sender and outcome for the receipt.
+ */
+export type MockBlock = {
+    number: bigint
+    hash: Hex
+    timestamp: bigint
+    transactionHash: Hex | null
+    gasUsed: bigint
+    logs: MockLog[]
+    transaction?: { from: Address; to: Address; success: boolean }
+}
+
+/**
+ * How the bundler includes UserOperations: after `pendingPolls` receipt polls
+ * (auto), only on evm_mine (manual), or never — it forgets them (drop)
+ */
+export type MockInclusion = 'auto' | 'manual' | 'drop'
+
+export type UserOperationOutcome = {
+    success: boolean
+    /** What the calls reverted with, null if they succeeded */
+    revertData: Hex | null
+    actualGasCost: bigint
+    actualGasUsed: bigint
+    paymaster: Address
+    /** Logs of the UserOperation itself: its calls and the gas fee */
+    logs: MockLog[]
+    /** Every log of the bundle transaction, the EntryPoint's included */
+    bundleLogs: MockLog[]
+}
+
+export type MockUserOperation = {
+    hash: Hex
+    /** As received by eth_sendUserOperation (numbers as hex strings) */
+    userOperation: Record<string, unknown>
+    status: 'pending' | 'included' | 'replaced' | 'dropped'
+    /** Receipt polls so far, for bundler.pendingPolls */
+    polls: number
+    blockNumber?: bigint
+    outcome?: UserOperationOutcome
+}
+
+export type MockState = {
+    chainId: number
+    entryPoint: Address
+    /** Seconds added to the wall clock by evm_increaseTime */
+    timeOffset: number
+    baseFeePerGas: bigint
+    maxPriorityFeePerGas: bigint
+    blocks: MockBlock[]
+    /** Native balances, keyed by lowercase address */
+    balances: Record<string, bigint>
+    /** Balances of addresses without their own, keyed by lowercase token address or 'native' */
+    defaultBalances: Record<string, bigint>
+    tokens: Record<string, MockToken>
+    safes: Record<string, MockSafe>
+    /** Keyed by module address, then Safe address, both lowercase */
+    recovery: Record<string, Record<string, MockRecoveryConfig>>
+    /** EntryPoint nonces (key 0), keyed by lowercase sender */
+    nonces: Record<string, bigint>
+    paymaster: {
+        address: Address
+        /** Whether sponsorship requests are granted */
+        sponsor: boolean
+        /** The error a refused sponsorship request gets */
+        rejectReason: string
+        /** Sponsor the stub data, for quotes, but refuse the final data, when sending */
+        rejectAtSend: boolean
+    }
+    bundler: {
+        inclusion: MockInclusion
+        pendingPolls: number
+        beneficiary: Address
+    }
+    userOperations: Record<string, MockUserOperation>
+}
+
+export type MockScenario = {
+    chainId?: number
+    tokens?: {
+        address: string
+        name?: string
+        symbol: string
+        decimals: number
+        /** How many tokens one ETH of gas costs (default 3000) */
+        tokensPerEth?: string
+    }[]
+    /** Address (or "*") → token address (or "native") → amount in the token's units */
+    balances?: Record<string, Record<string, string>>
+    safes?: Record<string, { owners: string[]; threshold?: number; modules?: string[] }>
+    paymaster?: { address?: string; sponsor?: boolean; rejectReason?: string; rejectAtSend?: boolean }
+    bundler?: { inclusion?: MockInclusion; pendingPolls?: number }
+    /** The mock recovery service's OTP and injected failures (lib/mock-recovery-service.ts) */
+    recoveryService?: MockRecoveryServiceScenario
+}
+
+export const MOCK_ENTRY_POINT: Address = '0x0000000071727De22E5E9d8BAf0edAc6f37da032'
+export const MOCK_PAYMASTER: Address = '0x8b1f6cb5d062aa2Ce8d581942bbb960420d875BA'
+
+/** The USDT test token of .env.example, so the mock works with its values as they are */
+const DEFAULT_TOKEN: NonNullable<MockScenario['tokens']>[number] = {
+    address: '0xd077A400968890Eacc75cdc901F0356c943e4fDb',
+    name: 'Tether USD',
+    symbol: 'USDT',
+    decimals: 6,
+}
+
+const DEFAULT_TOKENS_PER_ETH = '3000'
+
+const GWEI = 10n ** 9n
+
+/** Returned by eth_getCode for every contract the mock emulates */
+const CONTRACT_CODE: Hex = '0x608060405236601057005b600080fd'
+
+/** abstractionkit's MultiSend, which Safe batches delegatecall */
+const MULTISEND_ADDRESSES = ['0x38869bf66a61cf6bdb996a6ae40d5853fd43b526', '0x9641d764fc13c8b624c04430c7356c1c7c8102e2']
+
+/** The Safe v1.4.1 proxy factory; WDK reads proxyCreationCode() from it to predict Safe addresses */
+const SAFE_PROXY_FACTORY = '0x4e1dcf7ad4e460cfd30791ccc4f9c8a4f820ec67'
+
+/** SafeProxy v1.4.1 creation code, as the real factory returns it */
+const SAFE_PROXY_CREATION_CODE: Hex = '0x608060405234801561001057600080fd5b506040516101e63803806101e68339818101604052602081101561003357600080fd5b8101908080519060200190929190505050600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff1614156100ca576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004018080602001828103825260228152602001806101c46022913960400191505060405180910390fd5b806000806101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055505060ab806101196000396000f3fe608060405273ffffffffffffffffffffffffffffffffffffffff600054167fa619486e0000000000000000000000000000000000000000000000000000000060003514156050578060005260206000f35b3660008037600080366000845af43d6000803e60008114156070573d6000fd5b3d6000f3fea264697066735822122003d1488ee65e08fa41e58e888a9865554c535f2c77126a82cb4c0f917f31441364736f6c63430007060033496e76616c69642073696e676c65746f6e20616464726573732070726f7669646564'
+
+/**
+ * The other Safe v1.4.1 and Safe 4337 module v0.3.0 deployments (singletons,
+ * fallback handler, module setup), which WDK checks are deployed too
+ */
+const SAFE_DEPLOYMENT_ADDRESSES = [
+    SAFE_PROXY_FACTORY,
+    '0x41675c099f32341bf84bfc5382af534df5c7461a',
+    '0x29fcb43b46531bca003ddc8fcb67ffe91900c762',
+    '0xfd0732dc9e303f09fcef3a7388ad10a83459ec99',
+    '0xd53cd0ab83d845ac265be939c57f53ad838012c9',
+    '0x9b35af71d77eaf8d7e40252370304687390a1a52',
+    '0x3d4ba2e0884aa488718476ca2fb8efc291a46199',
+    '0x75cf11467937ce3f2f357ce24ffc3dbf8fd5c226',
+    '0x2dd68b007b46fbe91b9a7c3eda5a7a1063cb5b47',
+]
+
+const SENTINEL: Address = '0x0000000000000000000000000000000000000001'
+
+const INCLUSIONS: MockInclusion[] = ['auto', 'manual', 'drop']
+
+/** A JSON-RPC error as the node, bundler or paymaster would return it */
+export class MockRpcError extends Error {
+    name = 'MockRpcError'
+
+    constructor(readonly code: number, message: string, readonly data?: Hex) {
+        super(message)
+    }
+}
+
+/** Seconds since the epoch on the mock chain's clock */
+export function getMockTime(state: MockState): bigint {
+    return BigInt(Math.floor(Date.now() / 1000) + state.timeOffset)
+}
+
+/** Append a block; bundles bring their transaction and logs */
+export function mineBlock(state: MockState, transactionHash: Hex | null = null, logs: MockLog[] = [], gasUsed = 0n): MockBlock {
+    const number = BigInt(state.blocks.length)
+    const block: MockBlock = {
+        number,
+        hash: keccak256(stringToHex(`mock block ${number}`)),
+        timestamp: getMockTime(state),
+        transactionHash,
+        gasUsed,
+        logs,
+    }
+    state.blocks.push(block)
+    return block
+}
+
+// ============================================================================
+// Scenario
+// ============================================================================
+
+/**
+ * Validate a parsed scenario, reporting every problem at once. Amounts are
+ * checked against their token's decimals.
+ */
+export function validateMockScenario(raw: unknown): MockScenario {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new Error('Invalid mock scenario: expected a JSON object')
+    }
+    const scenario = raw as MockScenario
+    const problems: string[] = []
+
+    if (scenario.chainId !== undefined && (!Number.isInteger(scenario.chainId) || scenario.chainId < 1)) {
+        problems.push('"chainId" must be a positive integer')
+    }
+
+    const decimals = new Map<string, { symbol: string; decimals: number }>([['native', NATIVE_TOKEN]])
+    const tokens = scenario.tokens ?? [DEFAULT_TOKEN]
+    if (!Array.isArray(tokens)) {
+        problems.push('"tokens" must be an array')
+    } else {
+        tokens.forEach((token, i) => {
+            if (!token || typeof token.address !== 'string' || !isAddress(token.address)) {
+                problems.push(`tokens[${i}].address is not a valid address`)
+                return
+            }
+            if (typeof token.symbol !== 'string' || !token.symbol) {
+                problems.push(`tokens[${i}].symbol must be a non-empty string`)
+            }
+            if (!Number.isInteger(token.decimals) || token.decimals < 0 || token.decimals > 36) {
+                problems.push(`tokens[${i}].decimals must be an integer from 0 to 36`)
+                return
+            }
+            decimals.set(token.address.toLowerCase(), { symbol: token.symbol, decimals: token.decimals })
+            try {
+                parseTokenAmount(token.tokensPerEth ?? DEFAULT_TOKENS_PER_ETH, { ...token, address: getAddress(token.address) })
+            } catch (error) {
+                problems.push(`tokens[${i}].tokensPerEth: ${(error as Error).message}`)
+            }
+        })
+    }
+
+    for (const [owner, amounts] of Object.entries(scenario.balances ?? {})) {
+        if (owner !== '*' && !isAddress(owner)) {
+            problems.push(`balances: "${owner}" is not an address or "*"`)
+            continue
+        }
+        for (const [token, amount] of Object.entries(amounts ?? {})) {
+            const known = decimals.get(token.toLowerCase())
+            if (!known) {
+                problems.push(`balances.${owner}: "${token}" is not "native" or one of the tokens`)
+                continue
+            }
+            try {
+                parseTokenAmount(String(amount), { address: 'native', ...known })
+            } catch (error) {
+                problems.push(`balances.${owner}.${token}: ${(error as Error).message}`)
+            }
+        }
+    }
+
+    for (const [address, safe] of Object.entries(scenario.safes ?? {})) {
+        if (!isAddress(address)) {
+            problems.push(`safes: "${address}" is not an address`)
+        }
+        if (!safe || !Array.isArray(safe.owners) || safe.owners.length === 0 || !safe.owners.every(o => isAddress(o))) {
+            problems.push(`safes.${address}.owners must be a non-empty array of addresses`)
+        } else if (safe.threshold !== undefined && (!Number.isInteger(safe.threshold) || safe.threshold < 1 || safe.threshold > safe.owners.length)) {
+            problems.push(`safes.${address}.threshold must be from 1 to the number of owners`)
+        }
+        if (safe?.modules !== undefined && (!Array.isArray(safe.modules) || !safe.modules.every(m => isAddress(m)))) {
+            problems.push(`safes.${address}.modules must be an array of addresses`)
+        }
+    }
+
+    if (scenario.paymaster?.address !== undefined && !isAddress(scenario.paymaster.address)) {
+        problems.push('paymaster.address is not a valid address')
+    }
+    if (scenario.bundler?.inclusion !== undefined && !INCLUSIONS.includes(scenario.bundler.inclusion)) {
+        problems.push(`bundler.inclusion must be one of ${INCLUSIONS.join(', ')}`)
+    }
+    const pendingPolls = scenario.bundler?.pendingPolls
+    if (pendingPolls !== undefined && (!Number.isInteger(pendingPolls) || pendingPolls < 0)) {
+        problems.push('bundler.pendingPolls must be a non-negative integer')
+    }
+
+    if (problems.length > 0) {
+        throw new Error(`Invalid mock scenario:\n  - ${problems.join('\n  - ')}`)
+    }
+    return scenario
+}
+
+/** Read and validate a scenario file */
+export function loadMockScenario(filePath: string): MockScenario {
+    const resolved = path.resolve(filePath)
+    if (!fs.existsSync(resolved)) {
+        throw new Error(`Mock scenario not found: ${resolved}`)
+    }
+    let raw: unknown
+    try {
+        raw = JSON.parse(fs.readFileSync(resolved, 'utf8'))
+    } catch (error) {
+        throw new Error(`Could not parse mock scenario ${resolved}`, { cause: error })
+    }
+    return validateMockScenario(raw)
+}
+
+/** The chain at block 0, as the scenario describes it */
+export function createMockState(scenario: MockScenario = {}): MockState {
+    validateMockScenario(scenario)
+
+    const tokens: Record<string, MockToken> = {}
+    for (const token of scenario.tokens ?? [DEFAULT_TOKEN]) {
+        const address = getAddress(token.address)
+        tokens[address.toLowerCase()] = {
+            address,
+            name: token.name ?? token.symbol,
+            symbol: token.symbol,
+            decimals: token.decimals,
+            exchangeRate: parseTokenAmount(token.tokensPerEth ?? DEFAULT_TOKENS_PER_ETH, { ...token, address }),
+            balances: {},
+            allowances: {},
+        }
+    }
+
+    const state: MockState = {
+        chainId: scenario.chainId ?? 11155111,
+        entryPoint: MOCK_ENTRY_POINT,
+        timeOffset: 0,
+        baseFeePerGas: GWEI,
+        maxPriorityFeePerGas: GWEI / 10n,
+        blocks: [],
+        balances: {},
+        defaultBalances: {},
+        tokens,
+        safes: {},
+        recovery: {},
+        nonces: {},
+        paymaster: {
+            address: getAddress(scenario.paymaster?.address ?? MOCK_PAYMASTER),
+            sponsor: scenario.paymaster?.sponsor ?? true,
+            rejectReason: scenario.paymaster?.rejectReason ?? 'sponsorship policy has no remaining budget',
+            rejectAtSend: scenario.paymaster?.rejectAtSend ?? false,
+        },
+        bundler: {
+            inclusion: scenario.bundler?.inclusion ?? 'auto',
+            pendingPolls: scenario.bundler?.pendingPolls ?? 0,
+            beneficiary: '0x000000000000000000000000000000000000bEEF',
+        },
+        userOperations: {},
+    }
+
+    for (const [owner, amounts] of Object.entries(scenario.balances ?? {})) {
+        for (const [token, amount] of Object.entries(amounts)) {
+            const key = token.toLowerCase()
+            const value = parseTokenAmount(String(amount), key === 'native' ? NATIVE_TOKEN : tokens[key])
+            if (owner === '*') {
+                state.defaultBalances[key] = value
+            } else {
+                setMockBalance(state, owner, token, value)
+            }
+        }
+    }
+
+    for (const [address, safe] of Object.entries(scenario.safes ?? {})) {
+        state.safes[address.toLowerCase()] = {
+            owners: safe.owners.map(owner => getAddress(owner)),
+            threshold: BigInt(safe.threshold ?? 1),
+            modules: (safe.modules ?? []).map(module => getAddress(module)),
+        }
+    }
+
+    mineBlock(state)
+    return state
+}
+
+// ============================================================================
+// Balances and Code
+// ============================================================================
+
+export function getMockBalance(state: MockState, owner: string, token: string): bigint {
+    const key = token.toLowerCase()
+    const balances = key === 'native' ? state.balances : state.tokens[key]?.balances
+    if (!balances) {
+        throw new Error(`Unknown mock token ${token}`)
+    }
+    return balances[owner.toLowerCase()] ?? state.defaultBalances[key] ?? 0n
+}
+
+/** Set a native ('native') or token balance, in base units */
+export function setMockBalance(state: MockState, owner: string, token: string, amount: bigint) {
+    const key = token.toLowerCase()
+    const balances = key === 'native' ? state.balances : state.tokens[key]?.balances
+    if (!balances) {
+        throw new Error(`Unknown mock token ${token}`)
+    }
+    balances[owner.toLowerCase()] = amount
+}
+
+function isRecoveryModule(address: string): GracePeriodName | undefined {
+    return (Object.keys(SocialRecoveryModuleGracePeriodSelector) as GracePeriodName[])
+        .find(name => SocialRecoveryModuleGracePeriodSelector[name].toLowerCase() === address.toLowerCase())
+}
+
+/** Bytecode for the contracts the mock emulates, '0x' for everything else */
+export function getMockCode(state: MockState, address: string): Hex {
+    const key = address.toLowerCase()
+    const isContract = key in state.tokens || key in state.safes || !!isRecoveryModule(key) ||
+        MULTISEND_ADDRESSES.includes(key) || SAFE_DEPLOYMENT_ADDRESSES.includes(key) ||
+        [state.entryPoint, state.paymaster.address].some(contract => contract.toLowerCase() === key)
+    return isContract ? CONTRACT_CODE : '0x'
+}
+
+// ============================================================================
+// Contracts
+// ============================================================================
+
+const ERC20_ABI = parseAbi([
+    'function name() view returns (string)',
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+    'function totalSupply() view returns (uint256)',
+    'function balanceOf(address owner) view returns (uint256)',
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'function transfer(address to, uint256 value) returns (bool)',
+    'function approve(address spender, uint256 value) returns (bool)',
+    'function transferFrom(address from, address to, uint256 value) returns (bool)',
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'event Approval(address indexed owner, address indexed spender, uint256 value)',
+    'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+    'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+])
+
+const SAFE_ABI = parseAbi([
+    'function getOwners() view returns (address[])',
+    'function getThreshold() view returns (uint256)',
+    'function isOwner(address owner) view returns (bool)',
+    'function isModuleEnabled(address module) view returns (bool)',
+    'function getModulesPaginated(address start, uint256 pageSize) view returns (address[] array, address next)',
+    'function VERSION() view returns (string)',
+    'function enableModule(address module)',
+    'function disableModule(address prevModule, address module)',
+    'function addOwnerWithThreshold(address owner, uint256 threshold)',
+    'function removeOwner(address prevOwner, address owner, uint256 threshold)',
+    'function swapOwner(address prevOwner, address oldOwner, address newOwner)',
+    'function changeThreshold(uint256 threshold)',
+    'function executeUserOp(address to, uint256 value, bytes data, uint8 operation)',
+    'function executeUserOpWithErrorString(address to, uint256 value, bytes data, uint8 operation)',
+    'event EnabledModule(address indexed module)',
+    'event DisabledModule(address indexed module)',
+    'event AddedOwner(address indexed owner)',
+    'event RemovedOwner(address indexed owner)',
+    'event ChangedThreshold(uint256 threshold)',
+    'error ExecutionFailed()',
+])
+
+const SAFE_DEPLOYMENT_ABI = parseAbi([
+    'function createProxyWithNonce(address singleton, bytes initializer, uint256 saltNonce)',
+    'function proxyCreationCode() pure returns (bytes)',
+    'function setup(address[] owners, uint256 threshold, address to, bytes data, address fallbackHandler, address paymentToken, uint256 payment, address paymentReceiver)',
+    'function enableModules(address[] modules)',
+])
+
+const MULTISEND_ABI = parseAbi(['function multiSend(bytes transactions)'])
+
+const SOCIAL_RECOVERY_ABI = parseAbi([
+    'function getGuardians(address wallet) view returns (address[])',
+    'function threshold(address wallet) view returns (uint256)',
+    'function guardiansCount(address wallet) view returns (uint256)',
+    'function isGuardian(address wallet, address guardian) view returns (bool)',
+    'function nonce(address wallet) view returns (uint256)',
+    'function getRecoveryRequest(address wallet) view returns ((uint256 guardiansApprovalCount, uint256 newThreshold, uint64 executeAfter, address[] newOwners))',
+    'function getRecoveryHash(address wallet, address[] newOwners, uint256 newThreshold, uint256 nonce) view returns (bytes32)',
+    'function getRecoveryApprovals(address wallet, address[] newOwners, uint256 newThreshold) view returns (uint256)',
+    'function hasGuardianApproved(address wallet, address guardian, address[] newOwners, uint256 newThreshold) view returns (bool)',
+    'function addGuardianWithThreshold(address guardian, uint256 threshold)',
+    'function revokeGuardianWithThreshold(address prevGuardian, address guardian, uint256 threshold)',
+    'function changeThreshold(uint256 threshold)',
+    'function confirmRecovery(address wallet, address[] newOwners, uint256 newThreshold, bool execute)',
+    'function multiConfirmRecovery(address wallet, address[] newOwners, uint256 newThreshold, (address signer, bytes signature)[] signatures, bool execute)',
+    'function executeRecovery(address wallet, address[] newOwners, uint256 newThreshold)',
+    'function finalizeRecovery(address wallet)',
+    'function cancelRecovery()',
+    'event GuardianAdded(address indexed wallet, address guardian)',
+    'event GuardianRevoked(address indexed wallet, address guardian)',
+    'event ChangedThreshold(address indexed wallet, uint256 threshold)',
+    'event RecoveryExecuted(address indexed wallet, address[] newOwners, uint256 newThreshold, uint64 nonce, uint64 executeAfter, uint256 guardiansApprovalCount)',
+    'event RecoveryFinalized(address indexed wallet, address[] newOwners, uint256 newThreshold, uint64 nonce)',
+    'event RecoveryCanceled(address indexed wallet, uint64 nonce)',
+])
+
+const ENTRY_POINT_ABI = parseAbi([
+    'function getNonce(address sender, uint192 key) view returns (uint256)',
+    'function balanceOf(address account) view returns (uint256)',
+    'event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)',
+    'event UserOperationRevertReason(bytes32 indexed userOpHash, address indexed sender, uint256 nonce, bytes revertReason)',
+    'event AccountDeployed(bytes32 indexed userOpHash, address indexed sender, address factory, address paymaster)',
+])
+
+/** A call that reverted with `data`; state changes since its snapshot are undone */
+class Revert extends Error {
+    constructor(readonly data: Hex) {
+        super(`execution reverted (${data})`)
+    }
+}
+
+function revert(reason: string): never {
+    throw new Revert(encodeErrorResult({ abi: parseAbi(['error Error(string)']), errorName: 'Error', args: [reason] }))
+}
+
+type Call = { from: Address; to: Address; value: bigint; data: Hex }
+
+/** Everything a call can change, so a revert can put it back */
+type Snapshot = Pick<MockState, 'balances' | 'tokens' | 'safes' | 'recovery'>
+
+function snapshot(state: MockState): Snapshot {
+    return structuredClone({ balances: state.balances, tokens: state.tokens, safes: state.safes, recovery: state.recovery })
+}
+
+function restore(state: MockState, saved: Snapshot) {
+    Object.assign(state, saved)
+}
+
+function decodeCall(abi: Abi, data: Hex): { functionName: string; args: readonly unknown[] } | null {
+    try {
+        const { functionName, args } = decodeFunctionData({ abi, data })
+        return { functionName, args: args ?? [] }
+    } catch {
+        return null
+    }
+}
+
+function encodeResult(abi: Abi, functionName: string, result: unknown): Hex {
+    return encodeFunctionResult({ abi, functionName, result } as Parameters<typeof encodeFunctionResult>[0])
+}
+
+function emit(logs: MockLog[], address: string, abi: Abi, eventName: string, args: Record<string, unknown>) {
+    const event = abi.find((item): item is AbiEvent => item.type === 'event' && item.name === eventName)
+    if (!event) {
+        throw new Error(`No event ${eventName} in the mock ABI`)
+    }
+    const unindexed = event.inputs.filter(input => !input.indexed)
+    logs.push({
+        address: getAddress(address),
+        topics: encodeEventTopics({ abi: [event], eventName, args } as Parameters<typeof encodeEventTopics>[0]) as Hex[],
+        data: encodeAbiParameters(unindexed as AbiParameter[], unindexed.map(input => args[input.name as string])),
+    })
+}
+
+/** Insert at the head, as Safe's and the SRM's linked lists do */
+function addToList(list: Address[], address: Address) {
+    list.unshift(getAddress(address))
+}
+
+function removeFromList(list: Address[], prev: string, address: string, what: string) {
+    const index = list.findIndex(entry => entry.toLowerCase() === address.toLowerCase())
+    const expectedPrev = index === 0 ? SENTINEL : list[index - 1]
+    if (index < 0 || expectedPrev.toLowerCase() !== prev.toLowerCase()) {
+        revert(`Invalid prev${what} / ${what.toLowerCase()} pair`)
+    }
+    list.splice(index, 1)
+}
+
+function transferNative(state: MockState, from: Address, to: Address, value: bigint) {
+    const balance = getMockBalance(state, from, 'native')
+    if (balance < value) {
+        throw new Revert('0x')
+    }
+    setMockBalance(state, from, 'native', balance - value)
+    setMockBalance(state, to, 'native', getMockBalance(state, to, 'native') + value)
+}
+
+function transferToken(state: MockState, logs: MockLog[], token: MockToken, from: Address, to: Address, value: bigint) {
+    const balance = getMockBalance(state, from, token.address)
+    if (balance < value) {
+        throw new Revert(encodeErrorResult({ abi: ERC20_ABI, errorName: 'ERC20InsufficientBalance', args: [from, balance, value] }))
+    }
+    setMockBalance(state, from, token.address, balance - value)
+    setMockBalance(state, to, token.address, getMockBalance(state, to, token.address) + value)
+    emit(logs, token.address, ERC20_ABI, 'Transfer', { from, to, value })
+}
+
+function erc20(state: MockState, logs: MockLog[], token: MockToken, { from, data }: Call): Hex {
+    const call = decodeCall(ERC20_ABI, data)
+    if (!call) {
+        throw new Revert('0x')
+    }
+    const { functionName, args } = call
+    const allowanceKey = (owner: string, spender: string) => `${owner}:${spender}`.toLowerCase()
+    switch (functionName) {
+        case 'name':
+        case 'symbol':
+        case 'decimals':
+            return encodeResult(ERC20_ABI, functionName, token[functionName])
+        case 'totalSupply': {
+            const holders = Object.values(token.balances).reduce((sum, balance) => sum + balance, 0n)
+            return encodeResult(ERC20_ABI, functionName, holders)
+        }
+        case 'balanceOf':
+            return encodeResult(ERC20_ABI, functionName, getMockBalance(state, args[0] as Address, token.address))
+        case 'allowance':
+            return encodeResult(ERC20_ABI, functionName, token.allowances[allowanceKey(args[0] as Address, args[1] as Address)] ?? 0n)
+        case 'transfer':
+            transferToken(state, logs, token, from, args[0] as Address, args[1] as bigint)
+            return encodeResult(ERC20_ABI, functionName, true)
+        case 'approve':
+            token.allowances[allowanceKey(from, args[0] as Address)] = args[1] as bigint
+            emit(logs, token.address, ERC20_ABI, 'Approval', { owner: from, spender: args[0], value: args[1] })
+            return encodeResult(ERC20_ABI, functionName, true)
+        case 'transferFrom': {
+            const [owner, to, value] = args as [Address, Address, bigint]
+            const allowance = token.allowances[allowanceKey(owner, from)] ?? 0n
+            if (allowance < value) {
+                throw new Revert(encodeErrorResult({ abi: ERC20_ABI, errorName: 'ERC20InsufficientAllowance', args: [from, allowance, value] }))
+            }
+            token.allowances[allowanceKey(owner, from)] = allowance - value
+            transferToken(state, logs, token, owner, to, value)
+            return encodeResult(ERC20_ABI, functionName, true)
+        }
+        default:
+            throw new Revert('0x')
+    }
+}
+
+/** MultiSend's packed encoding: operation (1 byte), to (20), value (32), data length (32), data */
+function decodeMultiSend(transactions: Hex): { operation: number; to: Address; value: bigint; data: Hex }[] {
+    const decoded = []
+    for (let offset = 0; offset < size(transactions);) {
+        const length = Number(hexToBigInt(slice(transactions, offset + 53, offset + 85)))
+        decoded.push({
+            operation: Number(hexToBigInt(slice(transactions, offset, offset + 1))),
+            to: getAddress(slice(transactions, offset + 1, offset + 21)),
+            value: hexToBigInt(slice(transactions, offset + 21, offset + 53)),
+            data: length > 0 ? slice(transactions, offset + 85, offset + 85 + length) : '0x' as Hex,
+        })
+        offset += 85 + length
+    }
+    return decoded
+}
+
+/** What Safe.execTransactionFromModule does: a call, or a delegatecall to MultiSend */
+async function execFromSafe(state: MockState, logs: MockLog[], safe: Address, to: Address, value: bigint, data: Hex, operation: number): Promise<void> {
+    if (operation === 0) {
+        await callContract(state, logs, { from: safe, to, value, data })
+        return
+    }
+    const batch = MULTISEND_ADDRESSES.includes(to.toLowerCase()) ? decodeCall(MULTISEND_ABI, data) : null
+    if (!batch) {
+        // Only MultiSend is delegatecalled by the examples
+        throw new Revert('0x')
+    }
+    for (const transaction of decodeMultiSend(batch.args[0] as Hex)) {
+        await execFromSafe(state, logs, safe, transaction.to, transaction.value, transaction.data, transaction.operation)
+    }
+}
+
+async function safeAccount(state: MockState, logs: MockLog[], address: Address, { from, data }: Call): Promise<Hex> {
+    const safe = state.safes[address.toLowerCase()]
+    const call = decodeCall(SAFE_ABI, data)
+    if (!call) {
+        // The fallback handler accepts anything else, e.g. a plain value transfer
+        return '0x'
+    }
+    const { functionName, args } = call
+    const self = from.toLowerCase() === address.toLowerCase()
+    const isListed = (list: Address[], entry: unknown) => list.some(item => item.toLowerCase() === String(entry).toLowerCase())
+    const setThreshold = (threshold: bigint) => {
+        if (threshold < 1n || threshold > BigInt(safe.owners.length)) {
+            revert(threshold < 1n ? 'GS202' : 'GS201')
+        }
+        if (threshold !== safe.threshold) {
+            safe.threshold = threshold
+            emit(logs, address, SAFE_ABI, 'ChangedThreshold', { threshold })
+        }
+    }
+    const requireSelf = () => {
+        if (!self) {
+            revert('GS031')
+        }
+    }
+
+    switch (functionName) {
+        case 'getOwners':
+            return encodeResult(SAFE_ABI, functionName, safe.owners)
+        case 'getThreshold':
+            return encodeResult(SAFE_ABI, functionName, safe.threshold)
+        case 'isOwner':
+            return encodeResult(SAFE_ABI, functionName, isListed(safe.owners, args[0]))
+        case 'isModuleEnabled':
+            return encodeResult(SAFE_ABI, functionName, isListed(safe.modules, args[0]))
+        case 'getModulesPaginated':
+            return encodeResult(SAFE_ABI, functionName, [safe.modules.slice(0, Number(args[1])), SENTINEL])
+        case 'VERSION':
+            return encodeResult(SAFE_ABI, functionName, '1.4.1')
+        case 'enableModule': {
+            requireSelf()
+            const module = args[0] as Address
+            if (module === zeroAddress || module.toLowerCase() === SENTINEL) {
+                revert('GS101')
+            }
+            if (isListed(safe.modules, module)) {
+                revert('GS102')
+            }
+            addToList(safe.modules, module)
+            emit(logs, address, SAFE_ABI, 'EnabledModule', { module })
+            return '0x'
+        }
+        case 'disableModule':
+            requireSelf()
+            removeFromList(safe.modules, args[0] as Address, args[1] as Address, 'Module')
+            emit(logs, address, SAFE_ABI, 'DisabledModule', { module: args[1] })
+            return '0x'
+        case 'addOwnerWithThreshold':
+            requireSelf()
+            if (isListed(safe.owners, args[0])) {
+                revert('GS204')
+            }
+            addToList(safe.owners, args[0] as Address)
+            emit(logs, address, SAFE_ABI, 'AddedOwner', { owner: args[0] })
+            setThreshold(args[1] as bigint)
+            return '0x'
+        case 'removeOwner':
+            requireSelf()
+            removeFromList(safe.owners, args[0] as Address, args[1] as Address, 'Owner')
+            emit(logs, address, SAFE_ABI, 'RemovedOwner', { owner: args[1] })
+            setThreshold(args[2] as bigint)
+            return '0x'
+        case 'swapOwner': {
+            requireSelf()
+            const [prev, oldOwner, newOwner] = args as [Address, Address, Address]
+            if (isListed(safe.owners, newOwner)) {
+                revert('GS204')
+            }
+            const index = safe.owners.findIndex(owner => owner.toLowerCase() === oldOwner.toLowerCase())
+            removeFromList(safe.owners, prev, oldOwner, 'Owner')
+            safe.owners.splice(index, 0, getAddress(newOwner))
+            emit(logs, address, SAFE_ABI, 'RemovedOwner', { owner: oldOwner })
+            emit(logs, address, SAFE_ABI, 'AddedOwner', { owner: newOwner })
+            return '0x'
+        }
+        case 'changeThreshold':
+            requireSelf()
+            setThreshold(args[0] as bigint)
+            return '0x'
+        case 'executeUserOp':
+        case 'executeUserOpWithErrorString': {
+            if (from.toLowerCase() !== state.entryPoint.toLowerCase()) {
+                revert('Unsupported entry point')
+            }
+            const [to, value, callData, operation] = args as [Address, bigint, Hex, number]
+            try {
+                await execFromSafe(state, logs, address, to, value, callData, operation)
+            } catch (error) {
+                if (error instanceof Revert && functionName === 'executeUserOp') {
+                    throw new Revert(encodeErrorResult({ abi: SAFE_ABI, errorName: 'ExecutionFailed' }))
+                }
+                throw error
+            }
+            return '0x'
+        }
+        default:
+            return '0x'
+    }
+}
+
+/** The EIP-712 digest guardians sign (see SocialRecoveryModule.getRecoveryRequestEip712Data) */
+export function getMockRecoveryHash(state: MockState, module: Address, wallet: Address, newOwners: readonly Address[], newThreshold: bigint, nonce: bigint): Hex {
+    return hashTypedData({
+        domain: { name: 'Social Recovery Module', version: '0.0.1', chainId: state.chainId, verifyingContract: module },
+        types: {
+            ExecuteRecovery: [
+                { type: 'address', name: 'wallet' },
+                { type: 'address[]', name: 'newOwners' },
+                { type: 'uint256', name: 'newThreshold' },
+                { type: 'uint256', name: 'nonce' },
+            ],
+        },
+        primaryType: 'ExecuteRecovery',
+        message: { wallet, newOwners, newThreshold, nonce },
+    })
+}
+
+/** A Safe's guardians in one module, created empty on first use */
+export function getMockRecoveryConfig(state: MockState, module: Address, wallet: Address): MockRecoveryConfig {
+    const configs = state.recovery[module.toLowerCase()] ??= {}
+    return configs[wallet.toLowerCase()] ??= {
+        guardians: [],
+        threshold: 0n,
+        nonce: 0n,
+        request: { guardiansApprovalCount: 0n, newThreshold: 0n, executeAfter: 0n, newOwners: [] },
+        approvals: {},
+    }
+}
+
+/**
+ * Start the grace period of a recovery, as executeRecovery does once enough
+ * guardians approved. Also the mock_executeRecovery shortcut, which skips the
+ * approvals.
+ */
+export function startMockRecovery(
+    state: MockState,
+    logs: MockLog[],
+    module: Address,
+    wallet: Address,
+    newOwners: readonly Address[],
+    newThreshold: bigint,
+    approvals: bigint
+) {
+    const gracePeriod = isRecoveryModule(module)
+    const config = getMockRecoveryConfig(state, module, wallet)
+    if (!gracePeriod) {
+        throw new Error(`${module} is not a Social Recovery Module`)
+    }
+    if (config.request.executeAfter > 0n && approvals <= config.request.guardiansApprovalCount) {
+        revert('A recovery with as many approvals is already pending')
+    }
+    if (newOwners.length === 0 || newThreshold < 1n || newThreshold > BigInt(newOwners.length)) {
+        revert('Invalid new owners or threshold')
+    }
+    const executeAfter = getMockTime(state) + BigInt(GRACE_PERIOD_SECONDS[gracePeriod])
+    config.request = { guardiansApprovalCount: approvals, newThreshold, executeAfter, newOwners: newOwners.map(owner => getAddress(owner)) }
+    emit(logs, module, SOCIAL_RECOVERY_ABI, 'RecoveryExecuted', {
+        wallet, newOwners, newThreshold, nonce: config.nonce, executeAfter, guardiansApprovalCount: approvals,
+    })
+    config.nonce++
+}
+
+async function socialRecoveryModule(state: MockState, logs: MockLog[], module: Address, { from, data }: Call): Promise<Hex> {
+    const call = decodeCall(SOCIAL_RECOVERY_ABI, data)
+    if (!call) {
+        throw new Revert('0x')
+    }
+    const { functionName, args } = call
+    const isGuardian = (config: MockRecoveryConfig, guardian: string) =>
+        config.guardians.some(g => g.toLowerCase() === guardian.toLowerCase())
+    const requireEnabled = (wallet: Address) => {
+        const safe = state.safes[wallet.toLowerCase()]
+        if (!safe?.modules.some(m => m.toLowerCase() === module.toLowerCase())) {
+            revert('Module not enabled on the wallet')
+        }
+    }
+    const setThreshold = (wallet: Address, config: MockRecoveryConfig, threshold: bigint) => {
+        if (threshold < 1n || threshold > BigInt(config.guardians.length)) {
+            revert('Invalid threshold')
+        }
+        if (threshold !== config.threshold) {
+            config.threshold = threshold
+            emit(logs, module, SOCIAL_RECOVERY_ABI, 'ChangedThreshold', { wallet, threshold })
+        }
+    }
+    const approve = (wallet: Address, newOwners: readonly Address[], newThreshold: bigint, guardian: string) => {
+        const config = getMockRecoveryConfig(state, module, wallet)
+        if (!isGuardian(config, guardian)) {
+            revert('Not a guardian of the wallet')
+        }
+        const hash = getMockRecoveryHash(state, module, wallet, newOwners, newThreshold, config.nonce)
+        const approvals = config.approvals[hash] ??= []
+        if (!approvals.includes(guardian.toLowerCase())) {
+            approvals.push(guardian.toLowerCase())
+        }
+    }
+    const execute = (wallet: Address, newOwners: readonly Address[], newThreshold: bigint) => {
+        requireEnabled(wallet)
+        const config = getMockRecoveryConfig(state, module, wallet)
+        const hash = getMockRecoveryHash(state, module, wallet, newOwners, newThreshold, config.nonce)
+        const approvals = BigInt(config.approvals[hash]?.length ?? 0)
+        if (config.threshold === 0n || approvals < config.threshold) {
+            revert('Not enough guardian approvals')
+        }
+        startMockRecovery(state, logs, module, wallet, newOwners, newThreshold, approvals)
+    }
+
+    switch (functionName) {
+        case 'getGuardians':
+            return encodeResult(SOCIAL_RECOVERY_ABI, functionName, getMockRecoveryConfig(state, module, args[0] as Address).guardians)
+        case 'threshold':
+            return encodeResult(SOCIAL_RECOVERY_ABI, functionName, getMockRecoveryConfig(state, module, args[0] as Address).threshold)
+        case 'guardiansCount':
+            return encodeResult(SOCIAL_RECOVERY_ABI, functionName, BigInt(getMockRecoveryConfig(state, module, args[0] as Address).guardians.length))
+        case 'isGuardian':
+            return encodeResult(SOCIAL_RECOVERY_ABI, functionName, isGuardian(getMockRecoveryConfig(state, module, args[0] as Address), args[1] as Address))
+        case 'nonce':
+            return encodeResult(SOCIAL_RECOVERY_ABI, functionName, getMockRecoveryConfig(state, module, args[0] as Address).nonce)
+        case 'getRecoveryRequest':
+            return encodeResult(SOCIAL_RECOVERY_ABI, functionName, getMockRecoveryConfig(state, module, args[0] as Address).request)
+        case 'getRecoveryHash': {
+            const [wallet, newOwners, newThreshold, nonce] = args as [Address, Address[], bigint, bigint]
+            return encodeResult(SOCIAL_RECOVERY_ABI, functionName, getMockRecoveryHash(state, module, wallet, newOwners, newThreshold, nonce))
+        }
+        case 'getRecoveryApprovals':
+        case 'hasGuardianApproved': {
+            const approving = functionName === 'hasGuardianApproved'
+            const [wallet, ...rest] = args as [Address, ...unknown[]]
+            const [guardian, newOwners, newThreshold] = approving ? rest : [undefined, ...rest]
+            const config = getMockRecoveryConfig(state, module, wallet)
+            const hash = getMockRecoveryHash(state, module, wallet, newOwners as Address[], newThreshold as bigint, config.nonce)
+            const approvals = config.approvals[hash] ?? []
+            return approving
+                ? encodeResult(SOCIAL_RECOVERY_ABI, functionName, approvals.includes(String(guardian).toLowerCase()))
+                : encodeResult(SOCIAL_RECOVERY_ABI, functionName, BigInt(approvals.length))
+        }
+        case 'addGuardianWithThreshold': {
+            requireEnabled(from)
+            const [guardian, threshold] = args as [Address, bigint]
+            const config = getMockRecoveryConfig(state, module, from)
+            if (guardian === zeroAddress || guardian.toLowerCase() === SENTINEL || guardian.toLowerCase() === from.toLowerCase()) {
+                revert('Invalid guardian')
+            }
+            if (isGuardian(config, guardian)) {
+                revert('Guardian already added')
+            }
+            addToList(config.guardians, guardian)
+            emit(logs, module, SOCIAL_RECOVERY_ABI, 'GuardianAdded', { wallet: from, guardian })
+            setThreshold(from, config, threshold)
+            return '0x'
+        }
+        case 'revokeGuardianWithThreshold': {
+            requireEnabled(from)
+            const [prev, guardian, threshold] = args as [Address, Address, bigint]
+            const config = getMockRecoveryConfig(state, module, from)
+            removeFromList(config.guardians, prev, guardian, 'Guardian')
+            emit(logs, module, SOCIAL_RECOVERY_ABI, 'GuardianRevoked', { wallet: from, guardian })
+            if (config.guardians.length === 0) {
+                config.threshold = 0n
+                emit(logs, module, SOCIAL_RECOVERY_ABI, 'ChangedThreshold', { wallet: from, threshold: 0n })
+            } else {
+                setThreshold(from, config, threshold)
+            }
+            return '0x'
+        }
+        case 'changeThreshold':
+            requireEnabled(from)
+            setThreshold(from, getMockRecoveryConfig(state, module, from), args[0] as bigint)
+            return '0x'
+        case 'confirmRecovery': {
+            const [wallet, newOwners, newThreshold, executeNow] = args as [Address, Address[], bigint, boolean]
+            approve(wallet, newOwners, newThreshold, from)
+            if (executeNow) {
+                execute(wallet, newOwners, newThreshold)
+            }
+            return '0x'
+        }
+        case 'multiConfirmRecovery': {
+            const [wallet, newOwners, newThreshold, signatures, executeNow] =
+                args as [Address, Address[], bigint, { signer: Address; signature: Hex }[], boolean]
+            const config = getMockRecoveryConfig(state, module, wallet)
+            const hash = getMockRecoveryHash(state, module, wallet, newOwners, newThreshold, config.nonce)
+            for (const { signer, signature } of signatures) {
+                const recovered = await recoverAddress({ hash, signature }).catch(() => zeroAddress)
+                if (recovered.toLowerCase() !== signer.toLowerCase()) {
+                    revert('Invalid guardian signature')
+                }
+                approve(wallet, newOwners, newThreshold, signer)
+            }
+            if (executeNow) {
+                execute(wallet, newOwners, newThreshold)
+            }
+            return '0x'
+        }
+        case 'executeRecovery': {
+            const [wallet, newOwners, newThreshold] = args as [Address, Address[], bigint]
+            execute(wallet, newOwners, newThreshold)
+            return '0x'
+        }
+        case 'finalizeRecovery': {
+            const wallet = args[0] as Address
+            requireEnabled(wallet)
+            const config = getMockRecoveryConfig(state, module, wallet)
+            const { executeAfter, newOwners, newThreshold } = config.request
+            if (executeAfter === 0n) {
+                revert('No recovery request to finalize')
+            }
+            if (getMockTime(state) < executeAfter) {
+                revert('The grace period has not elapsed')
+            }
+            const safe = state.safes[wallet.toLowerCase()]
+            for (const owner of safe.owners.filter(o => !newOwners.some(n => n.toLowerCase() === o.toLowerCase()))) {
+                emit(logs, wallet, SAFE_ABI, 'RemovedOwner', { owner })
+            }
+            for (const owner of newOwners.filter(n => !safe.owners.some(o => o.toLowerCase() === n.toLowerCase()))) {
+                emit(logs, wallet, SAFE_ABI, 'AddedOwner', { owner })
+            }
+            safe.owners = [...newOwners]
+            if (safe.threshold !== newThreshold) {
+                safe.threshold = newThreshold
+                emit(logs, wallet, SAFE_ABI, 'ChangedThreshold', { threshold: newThreshold })
+            }
+            config.request = { guardiansApprovalCount: 0n, newThreshold: 0n, executeAfter: 0n, newOwners: [] }
+            emit(logs, module, SOCIAL_RECOVERY_ABI, 'RecoveryFinalized', { wallet, newOwners, newThreshold, nonce: config.nonce - 1n })
+            return '0x'
+        }
+        case 'cancelRecovery': {
+            requireEnabled(from)
+            const config = getMockRecoveryConfig(state, module, from)
+            if (config.request.executeAfter === 0n) {
+                revert('No recovery request to cancel')
+            }
+            config.request = { guardiansApprovalCount: 0n, newThreshold: 0n, executeAfter: 0n, newOwners: [] }
+            emit(logs, module, SOCIAL_RECOVERY_ABI, 'RecoveryCanceled', { wallet: from, nonce: config.nonce - 1n })
+            return '0x'
+        }
+        default:
+            throw new Revert('0x')
+    }
+}
+
+function entryPoint(state: MockState, { data }: Call): Hex {
+    const call = decodeCall(ENTRY_POINT_ABI, data)
+    if (call?.functionName === 'getNonce') {
+        const [sender, key] = call.args as [Address, bigint]
+        const sequence = key === 0n ? state.nonces[sender.toLowerCase()] ?? 0n : 0n
+        return encodeResult(ENTRY_POINT_ABI, 'getNonce', (key << 64n) | sequence)
+    }
+    if (call?.functionName === 'balanceOf') {
+        return encodeResult(ENTRY_POINT_ABI, 'balanceOf', 0n)
+    }
+    throw new Revert('0x')
+}
+
+/** Run one call against the emulated contracts; throws Revert */
+async function callContract(state: MockState, logs: MockLog[], call: Call): Promise<Hex> {
+    if (call.value > 0n) {
+        transferNative(state, call.from, call.to, call.value)
+    }
+    const to = call.to.toLowerCase()
+    const token = state.tokens[to]
+    if (token) {
+        return erc20(state, logs, token, call)
+    }
+    if (isRecoveryModule(to)) {
+        return socialRecoveryModule(state, logs, getAddress(call.to), call)
+    }
+    if (to === state.entryPoint.toLowerCase()) {
+        return entryPoint(state, call)
+    }
+    if (state.safes[to]) {
+        return safeAccount(state, logs, getAddress(call.to), call)
+    }
+    if (to === SAFE_PROXY_FACTORY && decodeCall(SAFE_DEPLOYMENT_ABI, call.data)?.functionName === 'proxyCreationCode') {
+        return encodeResult(SAFE_DEPLOYMENT_ABI, 'proxyCreationCode', SAFE_PROXY_CREATION_CODE)
+    }
+    // No code: a plain transfer, or a call to an EOA that does nothing
+    return '0x'
+}
+
+/**
+ * A plain transaction, e.g. from a relayer: the call is run and mined in a
+ * block of its own. If it reverts, its changes are undone and the revert data
+ * returned, as a failed transaction's receipt would show.
+ */
+export async function sendMockTransaction(
+    state: MockState,
+    call: { from: string; to: string; data: Hex }
+): Promise<{ transactionHash: Hex; revertData: Hex | null }> {
+    const transactionHash = keccak256(stringToHex(`mock transaction ${state.blocks.length}`))
+    const saved = snapshot(state)
+    const logs: MockLog[] = []
+    let revertData: Hex | null = null
+    try {
+        await callContract(state, logs, { from: getAddress(call.from), to: getAddress(call.to), value: 0n, data: call.data })
+    } catch (error) {
+        if (!(error instanceof Revert)) {
+            throw error
+        }
+        restore(state, saved)
+        revertData = error.data
+    }
+    const block = mineBlock(state, transactionHash, revertData === null ? logs : [], 100_000n)
+    block.transaction = { from: getAddress(call.from), to: getAddress(call.to), success: revertData === null }
+    return { transactionHash, revertData }
+}
+
+/**
+ * eth_call: run the call and undo its changes. Throws a MockRpcError carrying
+ * the revert data, like a node does.
+ */
+export async function ethCall(state: MockState, call: { from?: string; to: string; value?: bigint; data?: Hex }): Promise<Hex> {
+    const saved = snapshot(state)
+    try {
+        return await callContract(state, [], {
+            from: getAddress(call.from ?? zeroAddress),
+            to: getAddress(call.to),
+            value: call.value ?? 0n,
+            data: call.data ?? '0x',
+        })
+    } catch (error) {
+        if (error instanceof Revert) {
+            throw new MockRpcError(3, 'execution reverted', error.data)
+        }
+        throw error
+    } finally {
+        restore(state, saved)
+    }
+}
+
+// ============================================================================
+// UserOperations
+// ============================================================================
+
+type PaymasterPayment =
+    | { kind: 'none' }
+    | { kind: 'sponsored' }
+    | { kind: 'token'; token: MockToken }
+
+/** paymasterData the mock paymaster signs: 0x00 for sponsorship, 0x01 + token address for ERC-20 gas */
+export function encodeMockPaymasterData(token?: string): Hex {
+    return token ? `0x01${getAddress(token).slice(2)}` : '0x00'
+}
+
+function getPaymasterPayment(state: MockState, userOperation: UserOperationV7): PaymasterPayment {
+    const paymaster = userOperation.paymaster
+    if (!paymaster || paymaster === '0x' || paymaster === zeroAddress) {
+        return { kind: 'none' }
+    }
+    if (paymaster.toLowerCase() !== state.paymaster.address.toLowerCase()) {
+        throw new MockRpcError(-32501, `AA30 paymaster not deployed: ${paymaster}`)
+    }
+    const data = (userOperation.paymasterData ?? '0x') as Hex
+    if (data.startsWith('0x01') && size(data) === 21) {
+        const token = state.tokens[`0x${data.slice(4)}`.toLowerCase()]
+        if (!token) {
+            throw new MockRpcError(-32501, `AA33 reverted: token 0x${data.slice(4)} is not supported by the paymaster`)
+        }
+        return { kind: 'token', token }
+    }
+    if (data === '0x00') {
+        return { kind: 'sponsored' }
+    }
+    throw new MockRpcError(-32501, 'AA34 signature error: paymasterData was not signed by the mock paymaster')
+}
+
+function getTotalGas(userOperation: UserOperationV7): bigint {
+    return userOperation.callGasLimit + userOperation.verificationGasLimit + userOperation.preVerificationGas +
+        (userOperation.paymasterVerificationGasLimit ?? 0n) + (userOperation.paymasterPostOpGasLimit ?? 0n)
+}
+
+/** The most a UserOperation can cost, as the EntryPoint prefunds it */
+export function getMaxGasCost(userOperation: UserOperationV7): bigint {
+    return getTotalGas(userOperation) * userOperation.maxFeePerGas
+}
+
+/** The fee in `token` for a gas cost in wei, at the paymaster's exchange rate */
+export function toTokenFee(token: MockToken, weiAmount: bigint): bigint {
+    return weiAmount * token.exchangeRate / 10n ** 18n
+}
+
+/**
+ * The checks a bundler makes before accepting a UserOperation (deployment,
+ * nonce, who pays), as the bundler's JSON-RPC errors with their AA codes.
+ * Fees of zero, as in gas estimates, skip the payment checks.
+ */
+export function validateUserOperation(state: MockState, userOperation: UserOperationV7) {
+    const sender = userOperation.sender.toLowerCase()
+    const deployed = !!state.safes[sender]
+    const hasFactory = !!userOperation.factory && userOperation.factory !== '0x'
+    if (!deployed && !hasFactory) {
+        throw new MockRpcError(-32500, `AA20 account not deployed: ${userOperation.sender}`)
+    }
+    if (deployed && hasFactory) {
+        throw new MockRpcError(-32500, `AA10 sender already constructed: ${userOperation.sender}`)
+    }
+    const nonce = state.nonces[sender] ?? 0n
+    if (userOperation.nonce !== nonce) {
+        throw new MockRpcError(-32500, `AA25 invalid account nonce: expected ${nonce}, got ${userOperation.nonce}`)
+    }
+
+    const payment = getPaymasterPayment(state, userOperation)
+    const maxCost = getMaxGasCost(userOperation)
+    if (maxCost === 0n) {
+        return
+    }
+    if (payment.kind === 'none' && getMockBalance(state, sender, 'native') < maxCost) {
+        throw new MockRpcError(-32500, "AA21 didn't pay prefund")
+    }
+    if (payment.kind === 'token') {
+        const fee = toTokenFee(payment.token, maxCost)
+        const balance = getMockBalance(state, sender, payment.token.address)
+        if (balance < fee) {
+            throw new MockRpcError(
+                -32501,
+                `AA33 reverted: ${payment.token.symbol} balance ${balance} is below the maximum fee ${fee}`
+            )
+        }
+    }
+}
+
+function deploySafe(state: MockState, logs: MockLog[], sender: Address, factoryData: Hex) {
+    const factoryCall = decodeCall(SAFE_DEPLOYMENT_ABI, factoryData)
+    const setup = factoryCall?.functionName === 'createProxyWithNonce'
+        ? decodeCall(SAFE_DEPLOYMENT_ABI, factoryCall.args[1] as Hex)
+        : null
+    if (!setup || setup.functionName !== 'setup') {
+        throw new MockRpcError(-32500, 'AA13 initCode failed or OOG: factoryData is not a Safe proxy deployment')
+    }
+    const [owners, threshold, , moduleSetupData] = setup.args as [Address[], bigint, Address, Hex]
+    const moduleSetup = decodeCall(SAFE_DEPLOYMENT_ABI, moduleSetupData)
+    const modules = moduleSetup?.functionName === 'enableModules' ? moduleSetup.args[0] as Address[] : []
+
+    state.safes[sender.toLowerCase()] = { owners: owners.map(owner => getAddress(owner)), threshold, modules: [] }
+    for (const module of modules) {
+        addToList(state.safes[sender.toLowerCase()].modules, module)
+        emit(logs, sender, SAFE_ABI, 'EnabledModule', { module })
+    }
+}
+
+/**
+ * Execute a validated UserOperation as the EntryPoint would: deploy the Safe
+ * if needed, run its calls (undone if they revert), and collect the gas fee
+ * from the Safe, the sponsoring paymaster or the Safe's paymaster tokens.
+ */
+export async function runUserOperation(state: MockState, userOperation: UserOperationV7, userOpHash: Hex): Promise<UserOperationOutcome> {
+    const sender = getAddress(userOperation.sender)
+    const payment = getPaymasterPayment(state, userOperation)
+    const paymaster = payment.kind === 'none' ? zeroAddress : state.paymaster.address
+    const bundleLogs: MockLog[] = []
+    const logs: MockLog[] = []
+
+    if (userOperation.factory && userOperation.factory !== '0x') {
+        deploySafe(state, logs, sender, (userOperation.factoryData ?? '0x') as Hex)
+        emit(bundleLogs, state.entryPoint, ENTRY_POINT_ABI, 'AccountDeployed', {
+            userOpHash, sender, factory: userOperation.factory, paymaster,
+        })
+    }
+    state.nonces[sender.toLowerCase()] = userOperation.nonce + 1n
+
+    const saved = snapshot(state)
+    const callLogs: MockLog[] = []
+    let revertData: Hex | null = null
+    try {
+        await callContract(state, callLogs, { from: state.entryPoint, to: sender, value: 0n, data: userOperation.callData as Hex })
+        logs.push(...callLogs)
+    } catch (error) {
+        if (!(error instanceof Revert)) {
+            throw error
+        }
+        restore(state, saved)
+        revertData = error.data
+    }
+
+    const gasPrice = [userOperation.maxFeePerGas, state.baseFeePerGas + userOperation.maxPriorityFeePerGas]
+        .reduce((a, b) => (a < b ? a : b))
+    const actualGasUsed = userOperation.preVerificationGas + (getTotalGas(userOperation) - userOperation.preVerificationGas) / 2n
+    const actualGasCost = actualGasUsed * gasPrice
+
+    if (payment.kind === 'none') {
+        setMockBalance(state, sender, 'native', getMockBalance(state, sender, 'native') - actualGasCost)
+    } else if (payment.kind === 'token') {
+        // The token paymaster's postOp takes the fee, capped at what the Safe holds
+        const token = payment.token
+        const fee = toTokenFee(token, actualGasCost)
+        const balance = getMockBalance(state, sender, token.address)
+        transferToken(state, logs, token, sender, paymaster, fee < balance ? fee : balance)
+    }
+
+    bundleLogs.push(...logs)
+    if (revertData !== null) {
+        emit(bundleLogs, state.entryPoint, ENTRY_POINT_ABI, 'UserOperationRevertReason', {
+            userOpHash, sender, nonce: userOperation.nonce, revertReason: revertData,
+        })
+    }
+    const event: MockLog[] = []
+    emit(event, state.entryPoint, ENTRY_POINT_ABI, 'UserOperationEvent', {
+        userOpHash, sender, paymaster, nonce: userOperation.nonce, success: revertData === null, actualGasCost, actualGasUsed,
+    })
+    bundleLogs.push(...event)
+    logs.push(...event)
+
+    return { success: revertData === null, revertData, actualGasCost, actualGasUsed, paymaster, logs, bundleLogs }
+}
+
+/**
+ * Run a UserOperation and undo everything — the gas estimate's check that its
+ * calls do not revert. Returns the revert data, or null.
+ */
+export async function simulateUserOperation(state: MockState, userOperation: UserOperationV7, userOpHash: Hex): Promise<Hex | null> {
+    const saved = snapshot(state)
+    const nonces = { ...state.nonces }
+    try {
+        return (await runUserOperation(state, userOperation, userOpHash)).revertData
+    } finally {
+        restore(state, saved)
+        state.nonces = nonces
+    }
+}
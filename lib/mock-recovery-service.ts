@@ -0,0 +1,634 @@
+/**
+ * Mock Recovery Service
+ *
+ * A local stand-in for Candide's Safe Recovery Service (RECOVERY_SERVICE_URL),
+ * served next to the mock node, bundler and paymaster (lib/mock-server.ts) and
+ * acting on the same mock chain (lib/mock-chain.ts). It answers the HTTP
+ * endpoints the SDK's three classes call:
+ *
+ *   - RecoveryByGuardian: recovery requests, guardian signatures, execute and
+ *     finalize — relayed on the mock chain as multiConfirmRecovery and
+ *     finalizeRecovery transactions
+ *   - RecoveryByCustodialGuardian: email/SMS registration challenges, and the
+ *     signature challenge after which the service's own guardian key signs
+ *     the recovery
+ *   - Alerts: subscriptions and their activation
+ *
+ * Every OTP is the same code (123456 unless the scenario sets "otp"), so a run
+ * is deterministic; POST {"channel", "target"} to /mock/otp to be told it —
+ * that is lib/otp.ts's hook contract, so OTP_HOOK_URL=<url>/mock/otp answers
+ * every prompt. Guardian signatures are checked against the chain; the SIWE
+ * statements signed by the owner are not.
+ *
+ * Failures are injected per SDK method, from the scenario or with the
+ * mock_failRecoveryService JSON-RPC method:
+ *
+ *   "recoveryService": {
+ *     "otp": "123456",
+ *     "failures": [{ "operation": "executeRecoveryRequest", "status": 503, "message": "relayer down", "times": 1 }]
+ *   }
+ */
+
+import { SocialRecoveryModule, SocialRecoveryModuleGracePeriodSelector } from 'abstractionkit'
+import { Address, Hex, encodeFunctionData, getAddress, isAddress, keccak256, parseAbi, recoverAddress, stringToHex } from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+
+import {
+    MockState,
+    getMockRecoveryConfig,
+    getMockRecoveryHash,
+    sendMockTransaction,
+} from './mock-chain.js'
+import { decodeRevertData } from './userop-preview.js'
+
+// ============================================================================
+// State
+// ============================================================================
+
+/** The SDK methods the service answers, named as the flows call them */
+export const RECOVERY_SERVICE_OPERATIONS = [
+    'createRecoveryRequest',
+    'submitGuardianSignatureForRecoveryRequest',
+    'executeRecoveryRequest',
+    'finalizeRecoveryRequest',
+    'getRecoveryRequest',
+    'getRecoveryRequestsForAccount',
+    'createRegistration',
+    'submitRegistrationChallenge',
+    'getRegistrations',
+    'requestCustodialGuardianSignatureChallenge',
+    'submitCustodialGuardianSignatureChallenge',
+    'createSubscription',
+    'activateSubscription',
+    'getActiveSubscriptions',
+    'unsubscribe',
+] as const
+
+export type RecoveryServiceOperation = typeof RECOVERY_SERVICE_OPERATIONS[number]
+
+export type MockServiceFailure = {
+    operation: RecoveryServiceOperation
+    /** HTTP status (default 500) */
+    status?: number
+    message?: string
+    /** Fail this many calls, then succeed again; every call if unset */
+    times?: number
+}
+
+export type MockRecoveryServiceScenario = {
+    otp?: string
+    failures?: MockServiceFailure[]
+}
+
+export type MockServiceRecoveryRequest = {
+    id: string
+    emoji: string
+    chainId: number
+    accountAddress: Address
+    newOwners: Address[]
+    newThreshold: number
+    /** The module's recovery nonce the guardians signed for */
+    nonce: string
+    signatures: { signer: Address; signature: Hex }[]
+    status: 'PENDING' | 'EXECUTED' | 'FINALIZED'
+    executeData: { sponsored: boolean; transactionHash: Hex | null }
+    finalizeData: { sponsored: boolean; transactionHash: Hex | null }
+    createdAt: string
+    updatedAt: string
+}
+
+type Channel = 'email' | 'sms'
+
+type Challenge = {
+    id: string
+    channel: Channel
+    target: string
+    verified: boolean
+}
+
+export type MockRecoveryServiceState = {
+    otp: string
+    failures: MockServiceFailure[]
+    recoveryRequests: Record<string, MockServiceRecoveryRequest>
+    /** Keyed by lowercase Safe address */
+    registrations: Record<string, { id: string; channel: Channel; target: string }[]>
+    registrationChallenges: Record<string, Challenge & { accountAddress: Address }>
+    signatureRequests: Record<string, {
+        accountAddress: Address
+        newOwners: Address[]
+        newThreshold: number
+        challenges: Challenge[]
+    }>
+    subscriptions: Record<string, {
+        id: string
+        accountAddress: Address
+        owner: Address
+        channel: Channel
+        target: string
+        active: boolean
+    }>
+    /** Every OTP the service "sent", oldest first */
+    outbox: { channel: Channel; target: string; code: string }[]
+    /** "METHOD path" of every /v1 request no route matched, answered 404 */
+    unrouted: string[]
+    nextId: number
+}
+
+const DEFAULT_OTP = '123456'
+
+const EMOJIS = ['🦊', '🐢', '🦉', '🐙', '🦋', '🐝', '🦄', '🐬', '🌵', '🍄', '🌻', '🍋', '🚲', '⚓', '🎈', '🔑']
+
+/** The service's own guardian for email/SMS recovery; a fixed key, so its address is stable across runs */
+const CUSTODIAL_GUARDIAN = privateKeyToAccount(keccak256(stringToHex('wdk-candide mock custodial guardian')))
+
+/** The guardian a Safe needs for the service to recover it through email/SMS */
+export const MOCK_CUSTODIAL_GUARDIAN: Address = CUSTODIAL_GUARDIAN.address
+
+/**
+ * abstractionkit's createMultiConfirmRecoveryMetaTransaction encodes the
+ * signatures as one tuple instead of an array, which the module rejects
+ */
+const MULTI_CONFIRM_RECOVERY_ABI = parseAbi([
+    'function multiConfirmRecovery(address wallet, address[] newOwners, uint256 newThreshold, (address signer, bytes signature)[] signatures, bool execute)',
+])
+
+/** Sends the service's transactions; the mock chain does not charge it */
+const RELAYER: Address = '0x0000000000000000000000000000000000005e1a'
+
+/** Validate the scenario's recoveryService entry, reporting every problem at once */
+export function createMockRecoveryServiceState(scenario: MockRecoveryServiceScenario = {}): MockRecoveryServiceState {
+    const problems: string[] = []
+    if (scenario.otp !== undefined && !/^\d{4,8}$/.test(String(scenario.otp))) {
+        problems.push('recoveryService.otp must be 4 to 8 digits')
+    }
+    const failures = scenario.failures ?? []
+    if (!Array.isArray(failures)) {
+        problems.push('recoveryService.failures must be an array')
+    } else {
+        failures.forEach((failure, i) => {
+            if (!RECOVERY_SERVICE_OPERATIONS.includes(failure?.operation)) {
+                problems.push(`recoveryService.failures[${i}].operation must be one of ${RECOVERY_SERVICE_OPERATIONS.join(', ')}`)
+            }
+            if (failure?.status !== undefined && (!Number.isInteger(failure.status) || failure.status < 400 || failure.status > 599)) {
+                problems.push(`recoveryService.failures[${i}].status must be an HTTP error status (400-599)`)
+            }
+            if (failure?.times !== undefined && (!Number.isInteger(failure.times) || failure.times < 1)) {
+                problems.push(`recoveryService.failures[${i}].times must be a positive integer`)
+            }
+        })
+    }
+    if (problems.length > 0) {
+        throw new Error(`Invalid mock scenario:\n  - ${problems.join('\n  - ')}`)
+    }
+
+    return {
+        otp: String(scenario.otp ?? DEFAULT_OTP),
+        failures: failures.map(failure => ({ ...failure })),
+        recoveryRequests: {},
+        registrations: {},
+        registrationChallenges: {},
+        signatureRequests: {},
+        subscriptions: {},
+        outbox: [],
+        unrouted: [],
+        nextId: 1,
+    }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** An HTTP error response from the service */
+class ServiceError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message)
+    }
+}
+
+type Params = Record<string, unknown>
+
+function nextId(service: MockRecoveryServiceState, prefix: string): string {
+    return `${prefix}-${service.nextId++}`
+}
+
+function requireString(params: Params, name: string): string {
+    const value = params[name]
+    if (typeof value !== 'string' || value === '') {
+        throw new ServiceError(400, `"${name}" is required`)
+    }
+    return value
+}
+
+function requireAddress(params: Params, name: string): Address {
+    const value = requireString(params, name)
+    if (!isAddress(value)) {
+        throw new ServiceError(400, `"${name}" must be an address`)
+    }
+    return getAddress(value)
+}
+
+function requireChain(chain: MockState, params: Params) {
+    if (Number(params.chainId) !== chain.chainId) {
+        throw new ServiceError(400, `Unsupported chainId ${params.chainId}, the service runs on ${chain.chainId}`)
+    }
+}
+
+function requireNewOwners(params: Params): { newOwners: Address[]; newThreshold: number } {
+    const newOwners = params.newOwners
+    const newThreshold = Number(params.newThreshold)
+    if (!Array.isArray(newOwners) || newOwners.length === 0 || !newOwners.every(owner => isAddress(String(owner)))) {
+        throw new ServiceError(400, '"newOwners" must be a non-empty array of addresses')
+    }
+    if (!Number.isInteger(newThreshold) || newThreshold < 1 || newThreshold > newOwners.length) {
+        throw new ServiceError(400, '"newThreshold" must be from 1 to the number of new owners')
+    }
+    return { newOwners: newOwners.map(owner => getAddress(String(owner))), newThreshold }
+}
+
+function requireChannel(params: Params): { channel: Channel; target: string } {
+    const channel = params.channel
+    const target = requireString(params, 'target')
+    if (channel !== 'email' && channel !== 'sms') {
+        throw new ServiceError(400, '"channel" must be email or sms')
+    }
+    if (channel === 'email' ? !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(target) : !/^\+\d{6,15}$/.test(target)) {
+        throw new ServiceError(400, `Invalid ${channel === 'email' ? 'email address' : 'phone number (E.164, e.g. +15551234567)'}: ${target}`)
+    }
+    return { channel, target }
+}
+
+/** SIWE statements are signed by the owner; the mock only checks one was sent */
+function requireSiwe(params: Params) {
+    requireString(params, 'message')
+    requireString(params, 'signature')
+}
+
+/** Send an OTP challenge: only recorded, its code is always the service's OTP */
+function sendChallenge(service: MockRecoveryServiceState, channel: Channel, target: string): Challenge {
+    service.outbox.push({ channel, target, code: service.otp })
+    return { id: nextId(service, 'challenge'), channel, target, verified: false }
+}
+
+function checkOtp(service: MockRecoveryServiceState, params: Params) {
+    if (String(params.challenge ?? '').trim() !== service.otp) {
+        throw new ServiceError(400, 'Invalid or expired OTP code')
+    }
+}
+
+/** The Social Recovery Module enabled on the Safe; the service supports all of them */
+function findRecoveryModule(chain: MockState, accountAddress: Address): Address {
+    const safe = chain.safes[accountAddress.toLowerCase()]
+    const module = Object.values(SocialRecoveryModuleGracePeriodSelector)
+        .find(address => safe?.modules.some(m => m.toLowerCase() === address.toLowerCase()))
+    if (!module) {
+        throw new ServiceError(400, `No Social Recovery Module is enabled on ${accountAddress}`)
+    }
+    return getAddress(module)
+}
+
+/** A guardian's EIP-712 signature over the recovery at the module's current nonce */
+async function verifyGuardianSignature(
+    chain: MockState,
+    request: Pick<MockServiceRecoveryRequest, 'accountAddress' | 'newOwners' | 'newThreshold' | 'nonce'>,
+    signer: Address,
+    signature: Hex
+) {
+    const module = findRecoveryModule(chain, request.accountAddress)
+    const config = getMockRecoveryConfig(chain, module, request.accountAddress)
+    if (!config.guardians.some(guardian => guardian.toLowerCase() === signer.toLowerCase())) {
+        throw new ServiceError(400, `${signer} is not a guardian of ${request.accountAddress}`)
+    }
+    const hash = getMockRecoveryHash(chain, module, request.accountAddress, request.newOwners, BigInt(request.newThreshold), BigInt(request.nonce))
+    const recovered = await recoverAddress({ hash, signature }).catch(() => null)
+    if (recovered?.toLowerCase() !== signer.toLowerCase()) {
+        throw new ServiceError(400, `Invalid signature from guardian ${signer}`)
+    }
+}
+
+function findRecoveryRequest(service: MockRecoveryServiceState, id: unknown): MockServiceRecoveryRequest {
+    const request = service.recoveryRequests[String(id)]
+    if (!request) {
+        throw new ServiceError(404, `Recovery request ${id} not found`)
+    }
+    return request
+}
+
+function touch(request: MockServiceRecoveryRequest, changes: Partial<MockServiceRecoveryRequest>) {
+    Object.assign(request, changes, { updatedAt: new Date().toISOString() })
+}
+
+// ============================================================================
+// RecoveryByGuardian
+// ============================================================================
+
+async function createRecoveryRequest(chain: MockState, service: MockRecoveryServiceState, params: Params) {
+    requireChain(chain, params)
+    const accountAddress = requireAddress(params, 'account')
+    const { newOwners, newThreshold } = requireNewOwners(params)
+    const signer = requireAddress(params, 'signer')
+    const signature = requireString(params, 'signature') as Hex
+
+    const module = findRecoveryModule(chain, accountAddress)
+    const nonce = getMockRecoveryConfig(chain, module, accountAddress).nonce.toString()
+    await verifyGuardianSignature(chain, { accountAddress, newOwners, newThreshold, nonce }, signer, signature)
+
+    const id = nextId(service, 'recovery')
+    const now = new Date().toISOString()
+    const request: MockServiceRecoveryRequest = {
+        id,
+        emoji: [0, 1, 2, 3, 4].map(i => EMOJIS[parseInt(keccak256(stringToHex(id)).slice(2 + i * 2, 4 + i * 2), 16) % EMOJIS.length]).join(''),
+        chainId: chain.chainId,
+        accountAddress,
+        newOwners,
+        newThreshold,
+        nonce,
+        signatures: [{ signer, signature }],
+        status: 'PENDING',
+        executeData: { sponsored: true, transactionHash: null },
+        finalizeData: { sponsored: true, transactionHash: null },
+        createdAt: now,
+        updatedAt: now,
+    }
+    service.recoveryRequests[id] = request
+    return request
+}
+
+async function submitGuardianSignature(chain: MockState, service: MockRecoveryServiceState, params: Params) {
+    const request = findRecoveryRequest(service, params.id)
+    if (request.status !== 'PENDING') {
+        throw new ServiceError(400, `Recovery request ${request.id} is already ${request.status}`)
+    }
+    const signer = requireAddress(params, 'signer')
+    const signature = requireString(params, 'signature') as Hex
+    await verifyGuardianSignature(chain, request, signer, signature)
+    touch(request, {
+        signatures: [...request.signatures.filter(s => s.signer.toLowerCase() !== signer.toLowerCase()), { signer, signature }],
+    })
+    return { success: true }
+}
+
+async function executeRecoveryRequest(chain: MockState, service: MockRecoveryServiceState, params: Params) {
+    const request = findRecoveryRequest(service, params.id)
+    if (request.status !== 'PENDING') {
+        throw new ServiceError(400, `Recovery request ${request.id} is already ${request.status}`)
+    }
+    const module = findRecoveryModule(chain, request.accountAddress)
+    const threshold = getMockRecoveryConfig(chain, module, request.accountAddress).threshold
+    if (BigInt(request.signatures.length) < threshold) {
+        throw new ServiceError(400, `Recovery request ${request.id} has ${request.signatures.length} of ${threshold} guardian signatures`)
+    }
+
+    const data = encodeFunctionData({
+        abi: MULTI_CONFIRM_RECOVERY_ABI,
+        functionName: 'multiConfirmRecovery',
+        args: [request.accountAddress, request.newOwners, BigInt(request.newThreshold), request.signatures, true],
+    })
+    const { transactionHash, revertData } = await sendMockTransaction(chain, { from: RELAYER, to: module, data })
+    if (revertData !== null) {
+        throw new ServiceError(400, `Executing recovery request ${request.id} reverted: ${decodeRevertData(revertData)}`)
+    }
+    touch(request, { status: 'EXECUTED', executeData: { sponsored: true, transactionHash } })
+    return { success: true }
+}
+
+async function finalizeRecoveryRequest(chain: MockState, service: MockRecoveryServiceState, params: Params) {
+    const request = findRecoveryRequest(service, params.id)
+    if (request.status !== 'EXECUTED') {
+        throw new ServiceError(400, `Recovery request ${request.id} is ${request.status}, not EXECUTED`)
+    }
+    const module = findRecoveryModule(chain, request.accountAddress)
+    const { data } = new SocialRecoveryModule(module).createFinalizeRecoveryMetaTransaction(request.accountAddress)
+    const { transactionHash, revertData } = await sendMockTransaction(chain, { from: RELAYER, to: module, data: data as Hex })
+    if (revertData !== null) {
+        throw new ServiceError(400, `Finalizing recovery request ${request.id} reverted: ${decodeRevertData(revertData)}`)
+    }
+    touch(request, { status: 'FINALIZED', finalizeData: { sponsored: true, transactionHash } })
+    return { success: true }
+}
+
+function getRecoveryRequestsForAccount(chain: MockState, service: MockRecoveryServiceState, params: Params) {
+    requireChain(chain, params)
+    const accountAddress = requireAddress(params, 'account')
+    return Object.values(service.recoveryRequests).filter(request =>
+        request.accountAddress === accountAddress && (params.nonce === undefined || request.nonce === String(params.nonce))
+    )
+}
+
+// ============================================================================
+// RecoveryByCustodialGuardian
+// ============================================================================
+
+function createRegistration(chain: MockState, service: MockRecoveryServiceState, params: Params) {
+    requireChain(chain, params)
+    const accountAddress = requireAddress(params, 'account')
+    const { channel, target } = requireChannel(params)
+    requireSiwe(params)
+    const challenge = sendChallenge(service, channel, target)
+    service.registrationChallenges[challenge.id] = { ...challenge, accountAddress }
+    return { challengeId: challenge.id }
+}
+
+function submitRegistrationChallenge(chain: MockState, service: MockRecoveryServiceState, params: Params) {
+    const challenge = service.registrationChallenges[String(params.challengeId)]
+    if (!challenge || challenge.verified) {
+        throw new ServiceError(404, `Registration challenge ${params.challengeId} not found or already used`)
+    }
+    checkOtp(service, params)
+    challenge.verified = true
+
+    const registrations = service.registrations[challenge.accountAddress.toLowerCase()] ??= []
+    const existing = registrations.find(r => r.channel === challenge.channel && r.target === challenge.target)
+    const registration = existing ?? { id: nextId(service, 'registration'), channel: challenge.channel, target: challenge.target }
+    if (!existing) {
+        registrations.push(registration)
+    }
+    return { registrationId: registration.id, guardianAddress: CUSTODIAL_GUARDIAN.address }
+}
+
+function getRegistrations(chain: MockState, service: MockRecoveryServiceState, params: Params) {
+    requireChain(chain, params)
+    const accountAddress = requireAddress(params, 'account')
+    requireSiwe(params)
+    return { registrations: service.registrations[accountAddress.toLowerCase()] ?? [] }
+}
+
+function requestSignatureChallenge(chain: MockState, service: MockRecoveryServiceState, params: Params) {
+    requireChain(chain, params)
+    const accountAddress = requireAddress(params, 'account')
+    const { newOwners, newThreshold } = requireNewOwners(params)
+    const registrations = service.registrations[accountAddress.toLowerCase()] ?? []
+    if (registrations.length === 0) {
+        throw new ServiceError(400, `${accountAddress} has no email or SMS recovery channels registered`)
+    }
+
+    const requestId = nextId(service, 'signature-request')
+    const challenges = registrations.map(r => sendChallenge(service, r.channel, r.target))
+    service.signatureRequests[requestId] = { accountAddress, newOwners, newThreshold, challenges }
+    return {
+        requestId,
+        requiredVerifications: challenges.length,
+        auths: challenges.map(c => ({ challengeId: c.id, channel: c.channel, target: c.target })),
+    }
+}
+
+/** Once every channel is verified, the service's guardian signs the recovery */
+async function submitSignatureChallenge(chain: MockState, service: MockRecoveryServiceState, params: Params) {
+    const request = service.signatureRequests[String(params.requestId)]
+    const challenge = request?.challenges.find(c => c.id === params.challengeId)
+    if (!request || !challenge) {
+        throw new ServiceError(404, `Signature challenge ${params.challengeId} of request ${params.requestId} not found`)
+    }
+    checkOtp(service, params)
+    challenge.verified = true
+    if (!request.challenges.every(c => c.verified)) {
+        return { success: true }
+    }
+
+    const module = findRecoveryModule(chain, request.accountAddress)
+    const nonce = getMockRecoveryConfig(chain, module, request.accountAddress).nonce
+    const signature = await CUSTODIAL_GUARDIAN.signTypedData({
+        domain: { name: 'Social Recovery Module', version: '0.0.1', chainId: chain.chainId, verifyingContract: module },
+        types: {
+            ExecuteRecovery: [
+                { type: 'address', name: 'wallet' },
+                { type: 'address[]', name: 'newOwners' },
+                { type: 'uint256', name: 'newThreshold' },
+                { type: 'uint256', name: 'nonce' },
+            ],
+        },
+        primaryType: 'ExecuteRecovery',
+        message: { wallet: request.accountAddress, newOwners: request.newOwners, newThreshold: BigInt(request.newThreshold), nonce },
+    })
+    return { success: true, custodianGuardianAddress: CUSTODIAL_GUARDIAN.address, custodianGuardianSignature: signature }
+}
+
+// ============================================================================
+// Alerts
+// ============================================================================
+
+function createSubscription(chain: MockState, service: MockRecoveryServiceState, params: Params) {
+    requireChain(chain, params)
+    const accountAddress = requireAddress(params, 'account')
+    const owner = requireAddress(params, 'owner')
+    const { channel, target } = requireChannel(params)
+    requireSiwe(params)
+    const challenge = sendChallenge(service, channel, target)
+    service.subscriptions[challenge.id] = { id: challenge.id, accountAddress, owner, channel, target, active: false }
+    return { subscriptionId: challenge.id }
+}
+
+function activateSubscription(chain: MockState, service: MockRecoveryServiceState, params: Params) {
+    const subscription = service.subscriptions[String(params.subscriptionId)]
+    if (!subscription) {
+        throw new ServiceError(404, `Subscription ${params.subscriptionId} not found`)
+    }
+    checkOtp(service, params)
+    subscription.active = true
+    return { success: true }
+}
+
+function getActiveSubscriptions(chain: MockState, service: MockRecoveryServiceState, params: Params) {
+    requireChain(chain, params)
+    const accountAddress = requireAddress(params, 'account')
+    const owner = requireAddress(params, 'owner')
+    requireSiwe(params)
+    const subscriptions = Object.values(service.subscriptions)
+        .filter(s => s.active && s.accountAddress === accountAddress && s.owner === owner)
+        .map(({ id, channel, target }) => ({ id, channel, target }))
+    return { subscriptions }
+}
+
+function unsubscribe(chain: MockState, service: MockRecoveryServiceState, params: Params) {
+    const owner = requireAddress(params, 'owner')
+    requireSiwe(params)
+    const subscription = service.subscriptions[String(params.subscriptionId)]
+    if (!subscription || subscription.owner !== owner) {
+        throw new ServiceError(404, `Subscription ${params.subscriptionId} not found for ${owner}`)
+    }
+    delete service.subscriptions[subscription.id]
+    return { success: true }
+}
+
+// ============================================================================
+// Routing
+// ============================================================================
+
+type Handler = (chain: MockState, service: MockRecoveryServiceState, params: Params) => unknown
+
+/**
+ * Service endpoints (v1) by "METHOD path", and the SDK method each serves.
+ *
+ * The paths are meant to match safe-recovery-service-sdk ^0.0.4, and
+ * test/recovery-flows.test.ts checks that they do: it runs both recovery flows
+ * through the SDK against this service and fails on any request no route
+ * matched (`unrouted`), naming the path the SDK actually called.
+ */
+const ROUTES: Record<string, [RecoveryServiceOperation, Handler]> = {
+    'POST /v1/recoveries/create': ['createRecoveryRequest', createRecoveryRequest],
+    'POST /v1/recoveries/sign': ['submitGuardianSignatureForRecoveryRequest', submitGuardianSignature],
+    'POST /v1/recoveries/execute': ['executeRecoveryRequest', executeRecoveryRequest],
+    'POST /v1/recoveries/finalize': ['finalizeRecoveryRequest', finalizeRecoveryRequest],
+    'GET /v1/recoveries/fetchById': ['getRecoveryRequest', (_, service, params) => findRecoveryRequest(service, params.id)],
+    'GET /v1/recoveries/fetchByAddress': ['getRecoveryRequestsForAccount', getRecoveryRequestsForAccount],
+    'POST /v1/guardian/register': ['createRegistration', createRegistration],
+    'POST /v1/guardian/submit': ['submitRegistrationChallenge', submitRegistrationChallenge],
+    'POST /v1/guardian/registrations': ['getRegistrations', getRegistrations],
+    'POST /v1/guardian/auth/request': ['requestCustodialGuardianSignatureChallenge', requestSignatureChallenge],
+    'POST /v1/guardian/auth/submit': ['submitCustodialGuardianSignatureChallenge', submitSignatureChallenge],
+    'POST /v1/alerts/subscribe': ['createSubscription', createSubscription],
+    'POST /v1/alerts/activate': ['activateSubscription', activateSubscription],
+    'POST /v1/alerts/subscriptions': ['getActiveSubscriptions', getActiveSubscriptions],
+    'POST /v1/alerts/unsubscribe': ['unsubscribe', unsubscribe],
+}
+
+/** Take the next injected failure for an operation, if any */
+function takeFailure(service: MockRecoveryServiceState, operation: RecoveryServiceOperation): MockServiceFailure | undefined {
+    const failure = service.failures.find(f => f.operation === operation)
+    if (failure?.times !== undefined && --failure.times <= 0) {
+        service.failures.splice(service.failures.indexOf(failure), 1)
+    }
+    return failure
+}
+
+/**
+ * Answer one HTTP request to the service: query string and JSON body are
+ * merged into the parameters. Returns null for paths that are not the
+ * service's.
+ */
+export async function handleRecoveryServiceRequest(
+    chain: MockState,
+    service: MockRecoveryServiceState,
+    method: string,
+    url: URL,
+    body: unknown
+): Promise<{ status: number; body: unknown } | null> {
+    if (method === 'POST' && url.pathname === '/mock/otp') {
+        return { status: 200, body: { code: service.otp } }
+    }
+    const route = ROUTES[`${method} ${url.pathname}`]
+    if (!route) {
+        if (url.pathname.startsWith('/v1/')) {
+            service.unrouted.push(`${method} ${url.pathname}`)
+        }
+        return null
+    }
+
+    const [operation, handler] = route
+    const params: Params = { ...Object.fromEntries(url.searchParams), ...(typeof body === 'object' && body !== null ? body : {}) }
+    try {
+        const failure = takeFailure(service, operation)
+        if (failure) {
+            throw new ServiceError(failure.status ?? 500, failure.message ?? `Injected failure of ${operation}`)
+        }
+        return { status: 200, body: await handler(chain, service, params) }
+    } catch (error) {
+        const status = error instanceof ServiceError ? error.status : 500
+        return { status, body: { statusCode: status, message: (error as Error).message } }
+    }
+}
+
+/** Make the next `times` calls of an operation fail (every call if unset) — mock_failRecoveryService */
+export function injectRecoveryServiceFailure(service: MockRecoveryServiceState, failure: MockServiceFailure) {
+    service.failures.push(...createMockRecoveryServiceState({ failures: [failure] }).failures)
+}
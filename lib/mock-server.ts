@@ -0,0 +1,811 @@
+/**
+ * Mock Server
+ *
+ * A local stand-in for the services the examples talk to — the node
+ * (NODE_URL), the bundler (BUNDLER_URL) and Candide's paymaster
+ * (PAYMASTER_URL; pm_sponsorUserOperation, and the ERC-7677
+ * pm_getPaymasterStubData / pm_getPaymasterData WDK asks for) on one
+ * JSON-RPC endpoint, backed by the in-memory chain
+ * of lib/mock-chain.ts. Point all three URLs at it and the send-userop and
+ * guardian flows run end to end with no network and no funds. The same port
+ * serves the recovery service's HTTP API (RECOVERY_SERVICE_URL) under /v1,
+ * see lib/mock-recovery-service.ts. Signed transactions (eth_sendRawTransaction)
+ * are mined at once, so a relayer can send recovery calls too.
+ *
+ *   const server = await startMockServer({ scenario: loadMockScenario('mock-scenario.json') })
+ *   process.env.NODE_URL = process.env.BUNDLER_URL = process.env.PAYMASTER_URL = server.url
+ *   ...
+ *   await server.close()
+ *
+ * Besides the standard methods, the mock answers to a few of its own to
+ * script a run from outside:
+ *
+ *   - evm_increaseTime [seconds]         move the clock, e.g. past a grace period
+ *   - evm_mine []                        include every pending UserOperation
+ *   - mock_setBalance [address, token, amount]   token is an address or "native",
+ *                                        amount in base units
+ *   - mock_setPaymaster [{ sponsor, rejectReason, rejectAtSend }]
+ *                                        rejectAtSend sponsors quotes but not sends
+ *   - mock_setBundler [{ inclusion, pendingPolls }]
+ *   - mock_executeRecovery [safe, newOwners, newThreshold]
+ *                                        start a recovery as if the guardians had
+ *   - mock_failRecoveryService [{ operation, status, message, times }]
+ *                                        make recovery service calls fail
+ *   - mock_getState []                   the whole chain state, as JSON
+ */
+
+import * as http from 'http'
+import { AddressInfo } from 'net'
+import { createUserOperationHash, SocialRecoveryModuleGracePeriodSelector, UserOperationV7 } from 'abstractionkit'
+import {
+    Address,
+    Hex,
+    getAddress,
+    keccak256,
+    parseTransaction,
+    recoverTransactionAddress,
+    stringToHex,
+    toHex,
+    TransactionSerialized,
+} from 'viem'
+
+import {
+    MockBlock,
+    MockInclusion,
+    MockLog,
+    MockRpcError,
+    MockScenario,
+    MockState,
+    MockUserOperation,
+    createMockState,
+    encodeMockPaymasterData,
+    ethCall,
+    getMaxGasCost,
+    getMockBalance,
+    getMockCode,
+    mineBlock,
+    runUserOperation,
+    sendMockTransaction,
+    setMockBalance,
+    simulateUserOperation,
+    startMockRecovery,
+    toTokenFee,
+    validateUserOperation,
+} from './mock-chain.js'
+import {
+    MockRecoveryServiceState,
+    MockServiceFailure,
+    createMockRecoveryServiceState,
+    handleRecoveryServiceRequest,
+    injectRecoveryServiceFailure,
+} from './mock-recovery-service.js'
+import { toUserOperationV7 } from './userop.js'
+
+export type MockServer = {
+    /** Use it as NODE_URL, BUNDLER_URL and PAYMASTER_URL */
+    url: string
+    state: MockState
+    recoveryService: MockRecoveryServiceState
+    close: () => Promise<void>
+}
+
+export type MockServerOptions = {
+    /** Starting state; defaults to a fresh chain from `scenario` */
+    state?: MockState
+    scenario?: MockScenario
+    /** Starting recovery service state; defaults to the scenario's recoveryService */
+    recoveryService?: MockRecoveryServiceState
+    /** 0 (the default) picks a free port */
+    port?: number
+    host?: string
+}
+
+type JsonRpcRequest = { jsonrpc?: string; id?: unknown; method?: string; params?: unknown[] }
+
+/** Gas the mock bundler estimates; generous, as the mock does not meter */
+const ESTIMATE = {
+    preVerificationGas: 50_000n,
+    verificationGasLimit: 150_000n,
+    deploymentGas: 350_000n,
+    callGasLimit: 200_000n,
+    paymasterVerificationGasLimit: 60_000n,
+    paymasterPostOpGasLimit: 60_000n,
+}
+
+/** Bundlers want at least this much more in both fees to replace a pending UserOperation */
+const REPLACEMENT_BUMP_PERCENT = 10n
+
+const q = (value: bigint | number) => toHex(value)
+
+function findUserOperation(state: MockState, hash: unknown): MockUserOperation | undefined {
+    return typeof hash === 'string' ? state.userOperations[hash.toLowerCase()] : undefined
+}
+
+function requireEntryPoint(state: MockState, entryPoint: unknown) {
+    if (typeof entryPoint !== 'string' || entryPoint.toLowerCase() !== state.entryPoint.toLowerCase()) {
+        throw new MockRpcError(-32602, `Unsupported EntryPoint ${entryPoint}, expected ${state.entryPoint}`)
+    }
+}
+
+function parseUserOperation(param: unknown): UserOperationV7 {
+    if (typeof param !== 'object' || param === null || typeof (param as Record<string, unknown>).sender !== 'string') {
+        throw new MockRpcError(-32602, 'Invalid UserOperation')
+    }
+    try {
+        return toUserOperationV7(param as Record<string, unknown>)
+    } catch (error) {
+        throw new MockRpcError(-32602, `Invalid UserOperation: ${(error as Error).message}`)
+    }
+}
+
+// ============================================================================
+// Node
+// ============================================================================
+
+function formatLogs(block: MockBlock, logs: MockLog[] = block.logs) {
+    return logs.map(log => ({
+        ...log,
+        blockNumber: q(block.number),
+        blockHash: block.hash,
+        transactionHash: block.transactionHash,
+        transactionIndex: '0x0',
+        logIndex: q(Math.max(block.logs.indexOf(log), 0)),
+        removed: false,
+    }))
+}
+
+function getBlock(state: MockState, tag: unknown): MockBlock | undefined {
+    if (tag === 'latest' || tag === 'pending' || tag === 'safe' || tag === 'finalized' || tag === undefined) {
+        return state.blocks[state.blocks.length - 1]
+    }
+    if (tag === 'earliest') {
+        return state.blocks[0]
+    }
+    if (typeof tag === 'string' && tag.length === 66) {
+        return state.blocks.find(block => block.hash === tag.toLowerCase())
+    }
+    return state.blocks[Number(tag)]
+}
+
+function formatBlock(state: MockState, block: MockBlock) {
+    const parent = state.blocks[Number(block.number) - 1]
+    return {
+        number: q(block.number),
+        hash: block.hash,
+        parentHash: parent?.hash ?? `0x${'0'.repeat(64)}`,
+        nonce: '0x0000000000000000',
+        sha3Uncles: `0x${'0'.repeat(64)}`,
+        logsBloom: `0x${'0'.repeat(512)}`,
+        transactionsRoot: `0x${'0'.repeat(64)}`,
+        stateRoot: `0x${'0'.repeat(64)}`,
+        receiptsRoot: `0x${'0'.repeat(64)}`,
+        miner: state.bundler.beneficiary,
+        difficulty: '0x0',
+        totalDifficulty: '0x0',
+        extraData: '0x',
+        size: '0x0',
+        gasLimit: q(30_000_000n),
+        gasUsed: q(block.gasUsed),
+        timestamp: q(block.timestamp),
+        baseFeePerGas: q(state.baseFeePerGas),
+        mixHash: `0x${'0'.repeat(64)}`,
+        uncles: [],
+        transactions: block.transactionHash ? [block.transactionHash] : [],
+    }
+}
+
+function formatTransactionReceipt(state: MockState, block: MockBlock) {
+    return {
+        transactionHash: block.transactionHash,
+        transactionIndex: '0x0',
+        blockHash: block.hash,
+        blockNumber: q(block.number),
+        from: block.transaction?.from ?? state.bundler.beneficiary,
+        to: block.transaction?.to ?? state.entryPoint,
+        cumulativeGasUsed: q(block.gasUsed),
+        gasUsed: q(block.gasUsed),
+        effectiveGasPrice: q(state.baseFeePerGas + state.maxPriorityFeePerGas),
+        contractAddress: null,
+        logs: formatLogs(block),
+        logsBloom: `0x${'0'.repeat(512)}`,
+        status: block.transaction?.success === false ? '0x0' : '0x1',
+        type: '0x2',
+    }
+}
+
+function getLogs(state: MockState, filter: Record<string, unknown> = {}) {
+    const latest = state.blocks.length - 1
+    const bound = (tag: unknown, fallback: number) =>
+        tag === undefined ? fallback : Number(getBlock(state, tag)?.number ?? latest)
+    const from = bound(filter.fromBlock, latest)
+    const to = bound(filter.toBlock, latest)
+    const addresses = [filter.address ?? []].flat().map(address => String(address).toLowerCase())
+    const topics = (filter.topics ?? []) as (string | string[] | null)[]
+
+    return state.blocks.slice(from, to + 1).flatMap(block => formatLogs(block).filter(log =>
+        (addresses.length === 0 || addresses.includes(log.address.toLowerCase())) &&
+        topics.every((topic, i) => topic === null || [topic].flat().some(t => t.toLowerCase() === log.topics[i]?.toLowerCase()))
+    ))
+}
+
+/**
+ * A signed transaction, e.g. from a recovery relayer: it is mined at once, and
+ * its sender pays the gas limit at the mock's gas price, reverted or not
+ */
+async function sendRawTransaction(state: MockState, serialized: Hex): Promise<Hex> {
+    const transaction = parseTransaction(serialized)
+    if (transaction.chainId !== state.chainId) {
+        throw new MockRpcError(-32000, `invalid chain id: ${transaction.chainId}, the mock is on ${state.chainId}`)
+    }
+    if (!transaction.to || (transaction.value ?? 0n) > 0n) {
+        throw new MockRpcError(-32000, 'the mock only relays contract calls without value')
+    }
+    const from = await recoverTransactionAddress({ serializedTransaction: serialized as TransactionSerialized })
+    const gasPrice = state.baseFeePerGas + state.maxPriorityFeePerGas
+    const price = transaction.maxFeePerGas !== undefined && transaction.maxFeePerGas < gasPrice ? transaction.maxFeePerGas : gasPrice
+    const fee = (transaction.gas ?? 0n) * price
+    const balance = getMockBalance(state, from, 'native')
+    if (balance < fee) {
+        throw new MockRpcError(-32000, `insufficient funds for gas * price: have ${balance} want ${fee}`)
+    }
+    setMockBalance(state, from, 'native', balance - fee)
+    const { transactionHash } = await sendMockTransaction(state, { from, to: transaction.to, data: transaction.data ?? '0x' })
+    return transactionHash
+}
+
+async function handleNode(state: MockState, method: string, params: unknown[]): Promise<unknown> {
+    switch (method) {
+        case 'web3_clientVersion':
+            return 'wdk-candide-mock/1.0.0'
+        case 'eth_chainId':
+            return q(state.chainId)
+        case 'net_version':
+            return String(state.chainId)
+        case 'eth_accounts':
+            return []
+        case 'eth_blockNumber':
+            return q(state.blocks.length - 1)
+        case 'eth_getBlockByNumber':
+        case 'eth_getBlockByHash': {
+            const block = getBlock(state, params[0])
+            return block ? formatBlock(state, block) : null
+        }
+        case 'eth_gasPrice':
+            return q(state.baseFeePerGas + state.maxPriorityFeePerGas)
+        case 'eth_maxPriorityFeePerGas':
+            return q(state.maxPriorityFeePerGas)
+        case 'eth_feeHistory': {
+            const count = Math.min(Number(params[0] ?? 1), state.blocks.length)
+            const percentiles = (params[2] ?? []) as number[]
+            return {
+                oldestBlock: q(state.blocks.length - count),
+                baseFeePerGas: Array(count + 1).fill(q(state.baseFeePerGas)),
+                gasUsedRatio: Array(count).fill(0.5),
+                reward: Array(count).fill(percentiles.map(() => q(state.maxPriorityFeePerGas))),
+            }
+        }
+        case 'eth_getBalance':
+            return q(getMockBalance(state, String(params[0]), 'native'))
+        case 'eth_getCode':
+            return getMockCode(state, String(params[0]))
+        case 'eth_getTransactionCount':
+            return '0x0'
+        case 'eth_call': {
+            const call = (params[0] ?? {}) as { from?: string; to?: string; value?: string; data?: Hex; input?: Hex }
+            if (!call.to) {
+                throw new MockRpcError(-32602, 'eth_call needs a "to" address')
+            }
+            return ethCall(state, {
+                from: call.from,
+                to: call.to,
+                value: call.value ? BigInt(call.value) : 0n,
+                data: call.data ?? call.input,
+            })
+        }
+        case 'eth_estimateGas':
+            return q(100_000n)
+        case 'eth_getLogs':
+            return getLogs(state, params[0] as Record<string, unknown>)
+        case 'eth_sendRawTransaction':
+            return sendRawTransaction(state, params[0] as Hex)
+        case 'eth_getTransactionReceipt': {
+            const block = state.blocks.find(b => b.transactionHash !== null && b.transactionHash === String(params[0]).toLowerCase())
+            return block ? formatTransactionReceipt(state, block) : null
+        }
+        default:
+            throw new MockRpcError(-32601, `Method not found: ${method}`)
+    }
+}
+
+// ============================================================================
+// Bundler
+// ============================================================================
+
+/**
+ * Gas limits for a UserOperation, after checking it as the bundler would
+ * (except for who pays) and that its calls do not revert.
+ */
+async function estimateUserOperationGas(state: MockState, userOperation: UserOperationV7) {
+    validateUserOperation(state, { ...userOperation, maxFeePerGas: 0n, maxPriorityFeePerGas: 0n })
+    const revertData = await simulateUserOperation(state, userOperation, keccak256(stringToHex('mock estimate')))
+    if (revertData !== null) {
+        throw new MockRpcError(-32521, `execution reverted: UserOperation calls reverted with ${revertData}`, revertData)
+    }
+    const deploying = !!userOperation.factory && userOperation.factory !== '0x'
+    return {
+        preVerificationGas: ESTIMATE.preVerificationGas,
+        verificationGasLimit: ESTIMATE.verificationGasLimit + (deploying ? ESTIMATE.deploymentGas : 0n),
+        callGasLimit: ESTIMATE.callGasLimit,
+    }
+}
+
+async function includeUserOperation(state: MockState, entry: MockUserOperation) {
+    const userOperation = toUserOperationV7(entry.userOperation)
+    try {
+        // Another UserOperation with the same nonce may have been included first
+        validateUserOperation(state, userOperation)
+    } catch {
+        entry.status = 'dropped'
+        return
+    }
+    const outcome = await runUserOperation(state, userOperation, entry.hash)
+    const transactionHash = keccak256(stringToHex(`mock bundle ${entry.hash}`))
+    const block = mineBlock(state, transactionHash, outcome.bundleLogs, outcome.actualGasUsed)
+    entry.status = 'included'
+    entry.blockNumber = block.number
+    entry.outcome = outcome
+}
+
+/** Include every pending UserOperation, oldest first, each in its own block */
+export async function mineMockUserOperations(state: MockState) {
+    for (const entry of Object.values(state.userOperations)) {
+        if (entry.status === 'pending') {
+            await includeUserOperation(state, entry)
+        }
+    }
+}
+
+function formatUserOperationReceipt(state: MockState, entry: MockUserOperation) {
+    const block = state.blocks[Number(entry.blockNumber)]
+    const outcome = entry.outcome
+    if (!outcome) {
+        return null
+    }
+    return {
+        userOpHash: entry.hash,
+        entryPoint: state.entryPoint,
+        sender: entry.userOperation.sender,
+        nonce: entry.userOperation.nonce,
+        paymaster: outcome.paymaster,
+        actualGasCost: q(outcome.actualGasCost),
+        actualGasUsed: q(outcome.actualGasUsed),
+        success: outcome.success,
+        reason: outcome.revertData ?? '',
+        logs: formatLogs(block, outcome.logs),
+        receipt: formatTransactionReceipt(state, block),
+    }
+}
+
+async function handleBundler(state: MockState, method: string, params: unknown[]): Promise<unknown> {
+    switch (method) {
+        case 'eth_supportedEntryPoints':
+            return [state.entryPoint]
+        case 'eth_estimateUserOperationGas': {
+            requireEntryPoint(state, params[1])
+            const estimate = await estimateUserOperationGas(state, parseUserOperation(params[0]))
+            return {
+                preVerificationGas: q(estimate.preVerificationGas),
+                verificationGasLimit: q(estimate.verificationGasLimit),
+                callGasLimit: q(estimate.callGasLimit),
+            }
+        }
+        case 'eth_sendUserOperation': {
+            requireEntryPoint(state, params[1])
+            const userOperation = parseUserOperation(params[0])
+            validateUserOperation(state, userOperation)
+            const hash = createUserOperationHash(userOperation, state.entryPoint, BigInt(state.chainId)).toLowerCase() as Hex
+
+            const replaced = Object.values(state.userOperations).find(entry =>
+                entry.status === 'pending' && entry.hash !== hash &&
+                String(entry.userOperation.sender).toLowerCase() === userOperation.sender.toLowerCase() &&
+                BigInt(entry.userOperation.nonce as string) === userOperation.nonce
+            )
+            if (replaced) {
+                const pending = toUserOperationV7(replaced.userOperation)
+                const minimum = (fee: bigint) => fee + fee * REPLACEMENT_BUMP_PERCENT / 100n
+                if (
+                    userOperation.maxFeePerGas < minimum(pending.maxFeePerGas) ||
+                    userOperation.maxPriorityFeePerGas < minimum(pending.maxPriorityFeePerGas)
+                ) {
+                    throw new MockRpcError(
+                        -32602,
+                        `replacement underpriced: raise both fees by at least ${REPLACEMENT_BUMP_PERCENT}% over ${replaced.hash}`
+                    )
+                }
+                replaced.status = 'replaced'
+            }
+
+            state.userOperations[hash] = {
+                hash,
+                userOperation: params[0] as Record<string, unknown>,
+                status: state.bundler.inclusion === 'drop' ? 'dropped' : 'pending',
+                polls: 0,
+            }
+            return hash
+        }
+        case 'eth_getUserOperationByHash': {
+            const entry = findUserOperation(state, params[0])
+            if (!entry || entry.status === 'dropped' || entry.status === 'replaced') {
+                return null
+            }
+            const block = entry.blockNumber === undefined ? undefined : state.blocks[Number(entry.blockNumber)]
+            return {
+                userOperation: entry.userOperation,
+                entryPoint: state.entryPoint,
+                blockNumber: block ? q(block.number) : null,
+                blockHash: block?.hash ?? null,
+                transactionHash: block?.transactionHash ?? null,
+            }
+        }
+        case 'eth_getUserOperationReceipt': {
+            const entry = findUserOperation(state, params[0])
+            if (entry?.status === 'pending' && state.bundler.inclusion === 'auto' && ++entry.polls > state.bundler.pendingPolls) {
+                await includeUserOperation(state, entry)
+            }
+            return entry?.status === 'included' ? formatUserOperationReceipt(state, entry) : null
+        }
+        default:
+            throw new MockRpcError(-32601, `Method not found: ${method}`)
+    }
+}
+
+// ============================================================================
+// Paymaster
+// ============================================================================
+
+function getPaymasterMetadata(state: MockState) {
+    return {
+        name: 'Mock Paymaster',
+        description: 'Local stand-in for the Candide paymaster',
+        icons: [],
+        address: state.paymaster.address,
+        sponsoredEventTopic: keccak256(stringToHex('mock sponsored')),
+        dummyPaymasterAndData: {
+            paymaster: state.paymaster.address,
+            paymasterVerificationGasLimit: q(ESTIMATE.paymasterVerificationGasLimit),
+            paymasterPostOpGasLimit: q(ESTIMATE.paymasterPostOpGasLimit),
+            paymasterData: encodeMockPaymasterData(),
+        },
+    }
+}
+
+/**
+ * The paymaster context of a request: the token to pay gas in, or sponsorship
+ * (rejected unless the scenario sponsors, and for `final` data with rejectAtSend)
+ */
+function getPaymasterContext(state: MockState, entryPoint: unknown, param: unknown, final = false) {
+    requireEntryPoint(state, entryPoint)
+    const context = (param ?? {}) as { token?: string; sponsorshipPolicyId?: string }
+    const token = context.token ? state.tokens[context.token.toLowerCase()] : undefined
+    if (context.token && !token) {
+        throw new MockRpcError(-32602, `Token ${context.token} is not supported by the paymaster`)
+    }
+    if (!token && (!state.paymaster.sponsor || (final && state.paymaster.rejectAtSend))) {
+        throw new MockRpcError(-32501, `Sponsorship rejected by the paymaster: ${state.paymaster.rejectReason}`)
+    }
+    return { context, token }
+}
+
+/**
+ * ERC-7677 pm_getPaymasterStubData / pm_getPaymasterData: the paymaster
+ * fields for a UserOperation, params [userOperation, entryPoint, chainId,
+ * context]. The final data also checks a token payer can cover the fee.
+ */
+function getPaymasterData(state: MockState, params: unknown[], final: boolean) {
+    const { token } = getPaymasterContext(state, params[1], params[3], final)
+    if (token && final) {
+        const userOperation = parseUserOperation(params[0])
+        const fee = toTokenFee(token, getMaxGasCost({
+            ...userOperation,
+            paymasterVerificationGasLimit: ESTIMATE.paymasterVerificationGasLimit,
+            paymasterPostOpGasLimit: ESTIMATE.paymasterPostOpGasLimit,
+        }))
+        const balance = getMockBalance(state, userOperation.sender, token.address)
+        if (balance < fee) {
+            throw new MockRpcError(-32501, `AA33 reverted: ${token.symbol} balance ${balance} is below the maximum fee ${fee}`)
+        }
+    }
+    return {
+        paymaster: state.paymaster.address,
+        paymasterData: encodeMockPaymasterData(token?.address),
+        paymasterVerificationGasLimit: q(ESTIMATE.paymasterVerificationGasLimit),
+        paymasterPostOpGasLimit: q(ESTIMATE.paymasterPostOpGasLimit),
+        ...(!final && { isFinal: false }),
+    }
+}
+
+async function sponsorUserOperation(state: MockState, params: unknown[]) {
+    const { context, token } = getPaymasterContext(state, params[1], params[2], true)
+
+    const userOperation: UserOperationV7 = {
+        ...parseUserOperation(params[0]),
+        paymaster: state.paymaster.address,
+        paymasterVerificationGasLimit: ESTIMATE.paymasterVerificationGasLimit,
+        paymasterPostOpGasLimit: ESTIMATE.paymasterPostOpGasLimit,
+        paymasterData: encodeMockPaymasterData(),
+    }
+    const estimate = await estimateUserOperationGas(state, userOperation)
+    const fees = userOperation.maxFeePerGas === 0n
+        ? { maxFeePerGas: state.baseFeePerGas * 2n + state.maxPriorityFeePerGas, maxPriorityFeePerGas: state.maxPriorityFeePerGas }
+        : undefined
+
+    if (token) {
+        const maxCost = getMaxGasCost({ ...userOperation, ...estimate, ...fees })
+        const fee = toTokenFee(token, maxCost)
+        const balance = getMockBalance(state, userOperation.sender, token.address)
+        if (balance < fee) {
+            throw new MockRpcError(-32501, `AA33 reverted: ${token.symbol} balance ${balance} is below the maximum fee ${fee}`)
+        }
+    }
+
+    return {
+        paymaster: state.paymaster.address,
+        paymasterVerificationGasLimit: q(ESTIMATE.paymasterVerificationGasLimit),
+        paymasterPostOpGasLimit: q(ESTIMATE.paymasterPostOpGasLimit),
+        paymasterData: encodeMockPaymasterData(token?.address),
+        preVerificationGas: q(estimate.preVerificationGas),
+        verificationGasLimit: q(estimate.verificationGasLimit),
+        callGasLimit: q(estimate.callGasLimit),
+        ...(fees && { maxFeePerGas: q(fees.maxFeePerGas), maxPriorityFeePerGas: q(fees.maxPriorityFeePerGas) }),
+        ...(!token && {
+            sponsorMetadata: {
+                name: `Mock sponsor${context.sponsorshipPolicyId ? ` (policy ${context.sponsorshipPolicyId})` : ''}`,
+                description: 'Gas sponsored by the local mock paymaster',
+                url: 'http://localhost',
+                icons: [],
+            },
+        }),
+    }
+}
+
+async function handlePaymaster(state: MockState, method: string, params: unknown[]): Promise<unknown> {
+    switch (method) {
+        case 'pm_clientVersion':
+            return 'Candide/v3.0.0 (mock)'
+        case 'pm_supportedEntryPoints':
+            return [state.entryPoint]
+        case 'pm_supportedERC20Tokens':
+            return {
+                tokens: Object.values(state.tokens).map(token => ({
+                    name: token.name,
+                    symbol: token.symbol,
+                    address: token.address,
+                    decimals: token.decimals,
+                    exchangeRate: q(token.exchangeRate),
+                })),
+                paymasterMetadata: getPaymasterMetadata(state),
+            }
+        case 'pm_sponsorUserOperation':
+            return sponsorUserOperation(state, params)
+        case 'pm_getPaymasterStubData':
+            return getPaymasterData(state, params, false)
+        case 'pm_getPaymasterData':
+            return getPaymasterData(state, params, true)
+        default:
+            throw new MockRpcError(-32601, `Method not found: ${method}`)
+    }
+}
+
+// ============================================================================
+// Scripting
+// ============================================================================
+
+/** The state as JSON: bigints as decimal strings */
+export function serializeMockState(state: MockState): unknown {
+    return JSON.parse(JSON.stringify(state, (_, value) => (typeof value === 'bigint' ? value.toString() : value)))
+}
+
+async function handleScripting(
+    state: MockState,
+    method: string,
+    params: unknown[],
+    recoveryService?: MockRecoveryServiceState
+): Promise<unknown> {
+    switch (method) {
+        case 'evm_increaseTime': {
+            const seconds = Number(params[0])
+            if (!Number.isFinite(seconds) || seconds < 0) {
+                throw new MockRpcError(-32602, 'evm_increaseTime takes a number of seconds')
+            }
+            state.timeOffset += seconds
+            return q(state.timeOffset)
+        }
+        case 'evm_mine':
+            await mineMockUserOperations(state)
+            mineBlock(state)
+            return '0x0'
+        case 'mock_setBalance': {
+            const [address, token, amount] = params as [string, string, string]
+            try {
+                setMockBalance(state, getAddress(address), token, BigInt(amount))
+            } catch (error) {
+                throw new MockRpcError(-32602, (error as Error).message)
+            }
+            return true
+        }
+        case 'mock_setPaymaster': {
+            const { sponsor, rejectReason, rejectAtSend } = (params[0] ?? {}) as { sponsor?: boolean; rejectReason?: string; rejectAtSend?: boolean }
+            state.paymaster.sponsor = sponsor ?? state.paymaster.sponsor
+            state.paymaster.rejectReason = rejectReason ?? state.paymaster.rejectReason
+            state.paymaster.rejectAtSend = rejectAtSend ?? state.paymaster.rejectAtSend
+            return true
+        }
+        case 'mock_setBundler': {
+            const { inclusion, pendingPolls } = (params[0] ?? {}) as { inclusion?: MockInclusion; pendingPolls?: number }
+            if (inclusion !== undefined && !['auto', 'manual', 'drop'].includes(inclusion)) {
+                throw new MockRpcError(-32602, 'inclusion must be auto, manual or drop')
+            }
+            state.bundler.inclusion = inclusion ?? state.bundler.inclusion
+            state.bundler.pendingPolls = pendingPolls ?? state.bundler.pendingPolls
+            return true
+        }
+        case 'mock_executeRecovery': {
+            const [safe, newOwners, newThreshold, gracePeriod = 'After3Minutes'] = params as [Address, Address[], number, string]
+            const module = SocialRecoveryModuleGracePeriodSelector[gracePeriod as keyof typeof SocialRecoveryModuleGracePeriodSelector]
+            if (!module || !state.safes[String(safe).toLowerCase()]) {
+                throw new MockRpcError(-32602, 'mock_executeRecovery takes a deployed Safe, new owners, a threshold and a grace period name')
+            }
+            const logs: MockLog[] = []
+            startMockRecovery(state, logs, getAddress(module), getAddress(safe), newOwners, BigInt(newThreshold), 0n)
+            mineBlock(state, keccak256(stringToHex(`mock recovery ${state.blocks.length}`)), logs)
+            return true
+        }
+        case 'mock_failRecoveryService': {
+            if (!recoveryService) {
+                throw new MockRpcError(-32601, 'The recovery service is not served here')
+            }
+            try {
+                injectRecoveryServiceFailure(recoveryService, (params[0] ?? {}) as MockServiceFailure)
+            } catch (error) {
+                throw new MockRpcError(-32602, (error as Error).message)
+            }
+            return true
+        }
+        case 'mock_getState':
+            return serializeMockState(state)
+        default:
+            throw new MockRpcError(-32601, `Method not found: ${method}`)
+    }
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+type Handler = (state: MockState, method: string, params: unknown[], recoveryService?: MockRecoveryServiceState) => Promise<unknown>
+
+const HANDLERS: [RegExp, Handler][] = [
+    [/^pm_/, handlePaymaster],
+    [/^(evm|mock)_/, handleScripting],
+    [/^eth_(supportedEntryPoints|estimateUserOperationGas|sendUserOperation|getUserOperationByHash|getUserOperationReceipt)$/, handleBundler],
+    [/./, handleNode],
+]
+
+/** Answer one JSON-RPC call against `state`; errors become JSON-RPC errors */
+export async function handleMockRequest(state: MockState, request: JsonRpcRequest, recoveryService?: MockRecoveryServiceState) {
+    const id = request.id ?? null
+    try {
+        if (typeof request.method !== 'string') {
+            throw new MockRpcError(-32600, 'Invalid request')
+        }
+        const method = request.method
+        const handler = HANDLERS.find(([pattern]) => pattern.test(method))
+        const result = await handler?.[1](state, method, request.params ?? [], recoveryService)
+        return { jsonrpc: '2.0', id, result: result ?? null }
+    } catch (error) {
+        if (error instanceof MockRpcError) {
+            return { jsonrpc: '2.0', id, error: { code: error.code, message: error.message, data: error.data } }
+        }
+        return { jsonrpc: '2.0', id, error: { code: -32603, message: (error as Error).message } }
+    }
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = ''
+        request.setEncoding('utf8')
+        request.on('data', chunk => (body += chunk))
+        request.on('end', () => resolve(body))
+        request.on('error', reject)
+    })
+}
+
+/** JSON-RPC on "/", a single call or a batch */
+async function handleJsonRpc(state: MockState, recoveryService: MockRecoveryServiceState, text: string): Promise<unknown> {
+    let body: unknown
+    try {
+        body = JSON.parse(text)
+    } catch {
+        return { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }
+    }
+    if (!Array.isArray(body)) {
+        return handleMockRequest(state, body as JsonRpcRequest, recoveryService)
+    }
+    const responses = []
+    for (const call of body) {
+        responses.push(await handleMockRequest(state, call, recoveryService))
+    }
+    return responses
+}
+
+/**
+ * Start the mock node, bundler, paymaster and recovery service on one port.
+ * Requests are handled one at a time, so UserOperations are included in the
+ * order they are polled.
+ */
+/**
+ * The env vars that point the examples at a running mock: every service URL,
+ * the scenario's chain, entry point, paymaster and first token, and
+ * OTP_HOOK_URL so OTP prompts are answered with the mock's code.
+ */
+export function getMockServerEnv(server: MockServer): Record<string, string> {
+    const [token] = Object.values(server.state.tokens)
+    return {
+        NODE_URL: server.url,
+        BUNDLER_URL: server.url,
+        PAYMASTER_URL: server.url,
+        RECOVERY_SERVICE_URL: server.url,
+        OTP_HOOK_URL: `${server.url}/mock/otp`,
+        CHAIN_ID: String(server.state.chainId),
+        ENTRY_POINT_ADDRESS: server.state.entryPoint,
+        PAYMASTER_ADDRESS: server.state.paymaster.address,
+        ...(token && { PAYMASTER_TOKEN_ADDRESS: token.address }),
+    }
+}
+
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+    const state = options.state ?? createMockState(options.scenario)
+    const recoveryService = options.recoveryService ?? createMockRecoveryServiceState(options.scenario?.recoveryService)
+    let queue = Promise.resolve()
+
+    const server = http.createServer((request, response) => {
+        queue = queue.then(async () => {
+            const url = new URL(request.url ?? '/', 'http://localhost')
+            const text = await readBody(request)
+            let status = 200
+            let payload: unknown
+            if (request.method === 'POST' && url.pathname === '/') {
+                payload = await handleJsonRpc(state, recoveryService, text)
+            } else {
+                let body: unknown = {}
+                try {
+                    body = text ? JSON.parse(text) : {}
+                } catch {
+                    // Answered as a missing parameter
+                }
+                const answer = await handleRecoveryServiceRequest(state, recoveryService, request.method ?? 'GET', url, body)
+                status = answer?.status ?? 404
+                payload = answer?.body ?? { statusCode: 404, message: `Cannot ${request.method} ${url.pathname}` }
+            }
+            response.writeHead(status, { 'Content-Type': 'application/json' })
+            response.end(JSON.stringify(payload))
+        })
+    })
+
+    const host = options.host ?? '127.0.0.1'
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject)
+        server.listen(options.port ?? 0, host, resolve)
+    })
+    const { port } = server.address() as AddressInfo
+
+    return {
+        url: `http://${host}:${port}`,
+        state,
+        recoveryService,
+        close: () => new Promise((resolve, reject) => {
+            server.closeAllConnections()
+            server.close(error => (error ? reject(error) : resolve()))
+        }),
+    }
+}
@@ -0,0 +1,141 @@
+/**
+ * OTP Providers
+ *
+ * The email/SMS flows need the one-time codes the recovery service sends. A
+ * provider is any function that returns the code for a challenge, so codes
+ * can come from a person, a file, or a backend:
+ *
+ *   - callback   setOtpProvider(async ({ channel, target }) => '123456'),
+ *                e.g. from a module preloaded with `tsx --import ./otp.ts ...`
+ *   - file       --otp-file <path> / OTP_FILE: wait until the file holds a
+ *                code — plain text, or JSON keyed by channel or target
+ *                ({"email": "123456"}) — then consume it
+ *   - HTTP hook  --otp-hook <url> / OTP_HOOK_URL: POST the challenge as JSON
+ *                and read {"code": "..."} from the response; the hook may
+ *                hold the request open until the code arrives
+ *   - inputs     "otpCodes" in the inputs JSON (see lib/input.ts)
+ *   - prompt     ask on the terminal (fails with --non-interactive)
+ *
+ * getOtpProvider() picks the first one configured, in that order.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { askQuestion, getFlagValue, isNonInteractive } from './cli.js'
+import { getInputsValue, missingInputError } from './input.js'
+import { PollOptions, getPollOptionsFromEnv, pollUntil } from './poll.js'
+
+export type OtpChallenge = {
+    /** 'email' or 'sms' */
+    channel: string
+    /** The email address or phone number the code was sent to */
+    target: string
+}
+
+export type OtpProvider = (challenge: OtpChallenge) => Promise<string>
+
+let registeredProvider: OtpProvider | undefined
+
+/** Use `provider` for every OTP requested in this process */
+export function setOtpProvider(provider: OtpProvider) {
+    registeredProvider = provider
+}
+
+/** Pick the code for a challenge out of a JSON object keyed by channel or target */
+function findCode(codes: unknown, challenge: OtpChallenge): string | undefined {
+    if (typeof codes !== 'object' || codes === null) {
+        return undefined
+    }
+    const record = codes as Record<string, unknown>
+    const code = record[challenge.target] ?? record[challenge.channel]
+    return typeof code === 'string' || typeof code === 'number' ? String(code).trim() : undefined
+}
+
+/**
+ * Wait for a code to appear in a file, then consume it: a plain-text file is
+ * deleted, a JSON file loses the key that was used.
+ */
+export function createFileOtpProvider(
+    filePath: string,
+    options: PollOptions = getPollOptionsFromEnv()
+): OtpProvider {
+    const resolved = path.resolve(filePath)
+    return (challenge) => pollUntil(`OTP for ${challenge.target} in ${resolved}`, async () => {
+        if (!fs.existsSync(resolved)) {
+            return null
+        }
+        const content = fs.readFileSync(resolved, 'utf8').trim()
+        if (!content) {
+            return null
+        }
+        if (!content.startsWith('{')) {
+            fs.rmSync(resolved)
+            return content
+        }
+
+        const codes = JSON.parse(content) as Record<string, unknown>
+        const code = findCode(codes, challenge)
+        if (!code) {
+            return null
+        }
+        delete codes[challenge.target]
+        delete codes[challenge.channel]
+        fs.writeFileSync(resolved, JSON.stringify(codes, null, 2) + '\n')
+        return code
+    }, options)
+}
+
+/** POST the challenge to a hook and read the code from its JSON response */
+export function createHttpOtpProvider(url: string): OtpProvider {
+    return async (challenge) => {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(challenge),
+        })
+        if (!response.ok) {
+            throw new Error(`OTP hook ${url} returned HTTP ${response.status}`)
+        }
+        const { code } = await response.json() as { code?: unknown }
+        if ((typeof code !== 'string' && typeof code !== 'number') || !String(code).trim()) {
+            throw new Error(`OTP hook ${url} returned no "code" for ${challenge.target}`)
+        }
+        return String(code).trim()
+    }
+}
+
+/** Codes from the inputs JSON, otherwise the terminal */
+export function createPromptOtpProvider(): OtpProvider {
+    return async (challenge) => {
+        const code = findCode(await getInputsValue('otpCodes'), challenge)
+        if (code) {
+            return code
+        }
+        if (isNonInteractive()) {
+            throw missingInputError(`OTP code for ${challenge.target}`, [
+                'setOtpProvider()',
+                '--otp-file <path> / OTP_FILE',
+                '--otp-hook <url> / OTP_HOOK_URL',
+                `"otpCodes": {"${challenge.channel}": "..."} in the inputs JSON (--input)`,
+            ])
+        }
+        return (await askQuestion(`OTP sent to ${challenge.target} — enter code: `)).trim()
+    }
+}
+
+/** The first configured provider: callback, file, HTTP hook, then inputs/prompt */
+export function getOtpProvider(): OtpProvider {
+    if (registeredProvider) {
+        return registeredProvider
+    }
+    const otpFile = getFlagValue('--otp-file') || process.env.OTP_FILE
+    if (otpFile) {
+        return createFileOtpProvider(otpFile)
+    }
+    const otpHook = getFlagValue('--otp-hook') || process.env.OTP_HOOK_URL
+    if (otpHook) {
+        return createHttpOtpProvider(otpHook)
+    }
+    return createPromptOtpProvider()
+}
@@ -0,0 +1,101 @@
+/**
+ * Polling with Timeout and Backoff
+ *
+ * Repeatedly evaluates a check until it returns a value, waiting between
+ * attempts with exponential backoff up to a maximum interval. Used instead of
+ * fixed sleeps so flows advance as soon as the chain (or a service) reports
+ * the expected state.
+ */
+
+export type PollOptions = {
+    /** Give up after this many seconds */
+    timeoutSeconds: number
+    /** Delay before the second attempt, in seconds */
+    intervalSeconds: number
+    /** Upper bound for the delay between attempts, in seconds */
+    maxIntervalSeconds: number
+    /** Multiplier applied to the delay after each attempt */
+    backoff: number
+}
+
+export const DEFAULT_POLL_OPTIONS: PollOptions = {
+    timeoutSeconds: 5 * 60,
+    intervalSeconds: 3,
+    maxIntervalSeconds: 30,
+    backoff: 1.5,
+}
+
+/**
+ * Read poll options from env vars, falling back to the given defaults:
+ *   - POLL_TIMEOUT_SECONDS
+ *   - POLL_INTERVAL_SECONDS
+ *   - POLL_MAX_INTERVAL_SECONDS
+ *   - POLL_BACKOFF
+ */
+export function getPollOptionsFromEnv(defaults: PollOptions = DEFAULT_POLL_OPTIONS): PollOptions {
+    return {
+        timeoutSeconds: readPositiveNumberFromEnv('POLL_TIMEOUT_SECONDS', defaults.timeoutSeconds),
+        intervalSeconds: readPositiveNumberFromEnv('POLL_INTERVAL_SECONDS', defaults.intervalSeconds),
+        maxIntervalSeconds: readPositiveNumberFromEnv('POLL_MAX_INTERVAL_SECONDS', defaults.maxIntervalSeconds),
+        backoff: readPositiveNumberFromEnv('POLL_BACKOFF', defaults.backoff),
+    }
+}
+
+/** A positive number from an env var, or `fallback` if it is unset */
+export function readPositiveNumberFromEnv(name: string, fallback: number): number {
+    const raw = process.env[name]
+    if (!raw) {
+        return fallback
+    }
+    const value = Number(raw)
+    if (!Number.isFinite(value) || value <= 0) {
+        throw new Error(`${name} must be a positive number, got "${raw}"`)
+    }
+    return value
+}
+
+export function sleep(seconds: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, seconds * 1000))
+}
+
+/**
+ * Poll `check` until it returns a non-null value.
+ *
+ * `check` may return `{ retryAfterSeconds }` alongside null to shorten or
+ * lengthen the next wait (e.g. sleep exactly until a known timestamp); the
+ * value is still capped by maxIntervalSeconds and the remaining time.
+ *
+ * Throws once timeoutSeconds have elapsed without a result.
+ */
+export async function pollUntil<T>(
+    description: string,
+    check: () => Promise<T | null | { retryAfterSeconds: number }>,
+    options: PollOptions = DEFAULT_POLL_OPTIONS
+): Promise<T> {
+    const deadline = Date.now() + options.timeoutSeconds * 1000
+    let interval = options.intervalSeconds
+
+    for (;;) {
+        const result = await check()
+        let wait = interval
+
+        if (result !== null && !isRetryHint(result)) {
+            return result as T
+        }
+        if (result !== null && isRetryHint(result)) {
+            wait = result.retryAfterSeconds
+        }
+
+        const remaining = (deadline - Date.now()) / 1000
+        if (remaining <= 0) {
+            throw new Error(`Timed out after ${options.timeoutSeconds}s waiting for ${description}`)
+        }
+
+        await sleep(Math.max(0, Math.min(wait, options.maxIntervalSeconds, remaining)))
+        interval = Math.min(interval * options.backoff, options.maxIntervalSeconds)
+    }
+}
+
+function isRetryHint(value: unknown): value is { retryAfterSeconds: number } {
+    return typeof value === 'object' && value !== null && 'retryAfterSeconds' in value
+}
@@ -0,0 +1,150 @@
+/**
+ * Recovery State Polling
+ *
+ * Drives a recovery through PENDING → EXECUTED → FINALIZED by watching the
+ * chain instead of sleeping for a fixed time:
+ *
+ *   - EXECUTED:  srm.getRecoveryRequest(...).executeAfter becomes non-zero
+ *                (and, when a RecoveryByGuardian service is given, the service
+ *                reports the request as EXECUTED)
+ *   - Finalizable: the latest block timestamp passes executeAfter
+ *   - FINALIZED: the pending request is cleared and the Safe owners and
+ *                threshold match the recovery target exactly
+ *
+ * Waiting for the grace period sleeps until executeAfter (capped by the max
+ * poll interval), so it works for After7Days / After14Days as well as
+ * After3Minutes — provided the process stays up (see POLL_* env vars).
+ */
+
+import {
+    RecoveryRequest,
+    SafeAccountV0_3_0 as SafeAccount,
+    SocialRecoveryModule,
+    sendJsonRpcRequest,
+} from 'abstractionkit'
+import { RecoveryByGuardian } from 'safe-recovery-service-sdk'
+
+import { PollOptions, getPollOptionsFromEnv, pollUntil } from './poll.js'
+import { getSafeThreshold } from './recovery-target.js'
+
+export type RecoveryStatus = 'PENDING' | 'EXECUTED' | 'FINALIZED'
+
+/** Latest block timestamp, in seconds */
+export async function getChainTimestamp(nodeUrl: string): Promise<bigint> {
+    const block = await sendJsonRpcRequest(nodeUrl, 'eth_getBlockByNumber', ['latest', false])
+    return BigInt((block as unknown as { timestamp: string }).timestamp)
+}
+
+/**
+ * Wait until the recovery has been executed on-chain (grace period started).
+ * Returns the on-chain recovery request, with executeAfter set.
+ */
+export async function waitForRecoveryExecuted(
+    srm: SocialRecoveryModule,
+    nodeUrl: string,
+    safeAccountAddress: string,
+    recoveryService?: RecoveryByGuardian,
+    options: PollOptions = getPollOptionsFromEnv()
+): Promise<RecoveryRequest> {
+    return pollUntil('recovery execution', async () => {
+        const request = await srm.getRecoveryRequest(nodeUrl, safeAccountAddress)
+        if (request.executeAfter === 0n) {
+            console.log('  Recovery not executed on-chain yet...')
+            return null
+        }
+
+        if (recoveryService) {
+            const executed = await recoveryService.getExecutedRecoveryRequestForLatestNonce(
+                nodeUrl,
+                safeAccountAddress
+            )
+            if (!executed || executed.status !== 'EXECUTED') {
+                console.log('  Executed on-chain, waiting for the recovery service to catch up...')
+                return null
+            }
+        }
+
+        return request
+    }, options)
+}
+
+/**
+ * Wait until the grace period has elapsed according to the chain clock.
+ * Throws if the recovery is cancelled while waiting.
+ */
+export async function waitForGracePeriod(
+    srm: SocialRecoveryModule,
+    nodeUrl: string,
+    safeAccountAddress: string,
+    options: PollOptions = getPollOptionsFromEnv()
+): Promise<void> {
+    const { executeAfter } = await srm.getRecoveryRequest(nodeUrl, safeAccountAddress)
+    if (executeAfter === 0n) {
+        throw new Error('No executed recovery request found for this Safe')
+    }
+
+    // The timeout applies on top of the remaining grace period
+    const remaining = Number(executeAfter - await getChainTimestamp(nodeUrl))
+    const gracePeriodOptions = {
+        ...options,
+        timeoutSeconds: Math.max(remaining, 0) + options.timeoutSeconds,
+    }
+
+    console.log(`  Finalizable after ${new Date(Number(executeAfter) * 1000).toISOString()}`)
+
+    await pollUntil('grace period to elapse', async () => {
+        const [request, now] = await Promise.all([
+            srm.getRecoveryRequest(nodeUrl, safeAccountAddress),
+            getChainTimestamp(nodeUrl),
+        ])
+        if (request.executeAfter === 0n) {
+            throw new Error('Recovery request was cancelled during the grace period')
+        }
+        if (now >= request.executeAfter) {
+            return true
+        }
+        const secondsLeft = Number(request.executeAfter - now)
+        console.log(`  Grace period: ${secondsLeft}s remaining...`)
+        // Sleep until the grace period should be over rather than backing off
+        return { retryAfterSeconds: secondsLeft + 1 }
+    }, gracePeriodOptions)
+}
+
+/**
+ * Wait until the recovery has been finalized: the pending request is cleared
+ * and the Safe owners and threshold are exactly the recovery target's. Throws
+ * if the request is cleared with anything else in place, e.g. after a cancel.
+ */
+export async function waitForRecoveryFinalized(
+    srm: SocialRecoveryModule,
+    nodeUrl: string,
+    safeAccountAddress: string,
+    target: { newOwners: string[]; newThreshold: number },
+    options: PollOptions = getPollOptionsFromEnv()
+): Promise<{ owners: string[]; threshold: number }> {
+    const safeAccount = new SafeAccount(safeAccountAddress)
+    const expected = target.newOwners.map(o => o.toLowerCase()).sort()
+
+    return pollUntil('recovery finalization', async () => {
+        const [request, owners, threshold] = await Promise.all([
+            srm.getRecoveryRequest(nodeUrl, safeAccountAddress),
+            safeAccount.getOwners(nodeUrl),
+            getSafeThreshold(nodeUrl, safeAccountAddress),
+        ])
+        if (request.executeAfter !== 0n) {
+            console.log('  Finalization not confirmed on-chain yet...')
+            return null
+        }
+
+        const actual = owners.map(o => o.toLowerCase()).sort()
+        const ownersMatch =
+            actual.length === expected.length && actual.every((o, i) => o === expected[i])
+        if (!ownersMatch || threshold !== target.newThreshold) {
+            throw new Error(
+                `No recovery is pending, but the Safe has owners ${owners.join(', ')} with threshold ` +
+                `${threshold}; expected ${target.newOwners.join(', ')} with threshold ${target.newThreshold}`
+            )
+        }
+        return { owners, threshold }
+    }, options)
+}
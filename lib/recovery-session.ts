@@ -0,0 +1,197 @@
+/**
+ * Recovery Session Store
+ *
+ * A recovery with a production grace period spans days, so its progress is
+ * persisted to a local JSON file keyed by chain id + Safe address. Each flow
+ * records what it has completed (recovery request id, collected guardian
+ * signatures, current status) and skips those steps when re-run.
+ *
+ * Session status progression:
+ *   SIGNING    → guardian signatures / OTP verification in progress
+ *   PENDING    → recovery request created on the service (relayed directly:
+ *                enough signatures collected), not yet executed
+ *   EXECUTING  → execution submitted, waiting for it to land on-chain
+ *   EXECUTED   → grace period running
+ *   FINALIZING → finalization submitted, waiting for it to land on-chain
+ *   FINALIZED  → ownership transferred
+ *
+ * A session with `relay` set skips the recovery service and sends execution
+ * and finalization on-chain itself (see lib/direct-recovery.ts).
+ *
+ * The file location defaults to .recovery-sessions.json in the working
+ * directory and can be changed with RECOVERY_SESSION_FILE.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { RecoveryRelayMode } from './direct-recovery.js'
+
+export type RecoverySessionStatus =
+    | 'SIGNING'
+    | 'PENDING'
+    | 'EXECUTING'
+    | 'EXECUTED'
+    | 'FINALIZING'
+    | 'FINALIZED'
+
+export type RecoveryFlow = 'personal-guardian' | 'email-sms'
+
+export type GuardianSignature = {
+    signer: string
+    signature: string
+    /** Whether the signature has been handed to the recovery service */
+    submitted: boolean
+}
+
+export type RecoverySession = {
+    safeAccountAddress: string
+    chainId: number
+    flow: RecoveryFlow
+    gracePeriod: string
+    newOwners: string[]
+    newThreshold: number
+    status: RecoverySessionStatus
+    recoveryRequestId?: string
+    emoji?: string
+    signatures: GuardianSignature[]
+    executeTransactionHash?: string
+    /** Set when execution and finalization are relayed without the recovery service */
+    relay?: RecoveryRelayMode
+    finalizeTransactionHash?: string
+    createdAt: string
+    updatedAt: string
+}
+
+const DEFAULT_SESSION_FILE = '.recovery-sessions.json'
+
+export function getSessionFilePath(): string {
+    return path.resolve(process.env.RECOVERY_SESSION_FILE || DEFAULT_SESSION_FILE)
+}
+
+function sessionKey(chainId: number, safeAccountAddress: string): string {
+    return `${chainId}:${safeAccountAddress.toLowerCase()}`
+}
+
+function readSessions(): Record<string, RecoverySession> {
+    const filePath = getSessionFilePath()
+    if (!fs.existsSync(filePath)) {
+        return {}
+    }
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    } catch (error) {
+        throw new Error(`Could not parse recovery session file ${filePath}`, { cause: error })
+    }
+}
+
+function writeSessions(sessions: Record<string, RecoverySession>) {
+    const filePath = getSessionFilePath()
+    // Write to a temp file first so a crash mid-write never corrupts the store
+    const tmpPath = `${filePath}.tmp`
+    fs.writeFileSync(tmpPath, JSON.stringify(sessions, null, 2) + '\n')
+    fs.renameSync(tmpPath, filePath)
+}
+
+export function loadRecoverySession(
+    chainId: number,
+    safeAccountAddress: string
+): RecoverySession | undefined {
+    return readSessions()[sessionKey(chainId, safeAccountAddress)]
+}
+
+/**
+ * Load the session for a Safe, or throw with a hint if none exists.
+ */
+export function requireRecoverySession(
+    chainId: number,
+    safeAccountAddress: string
+): RecoverySession {
+    const session = loadRecoverySession(chainId, safeAccountAddress)
+    if (!session) {
+        throw new Error(
+            `No recovery session found for ${safeAccountAddress} on chain ${chainId} ` +
+            `in ${getSessionFilePath()}`
+        )
+    }
+    return session
+}
+
+export function createRecoverySession(
+    fields: Omit<RecoverySession, 'status' | 'signatures' | 'createdAt' | 'updatedAt'>
+): RecoverySession {
+    const now = new Date().toISOString()
+    const session: RecoverySession = {
+        ...fields,
+        status: 'SIGNING',
+        signatures: [],
+        createdAt: now,
+        updatedAt: now,
+    }
+    saveRecoverySession(session)
+    return session
+}
+
+export function saveRecoverySession(session: RecoverySession) {
+    const sessions = readSessions()
+    session.updatedAt = new Date().toISOString()
+    sessions[sessionKey(session.chainId, session.safeAccountAddress)] = session
+    writeSessions(sessions)
+}
+
+/** Apply changes to a session and persist it immediately */
+export function updateRecoverySession(
+    session: RecoverySession,
+    changes: Partial<Omit<RecoverySession, 'safeAccountAddress' | 'chainId' | 'createdAt'>>
+): RecoverySession {
+    Object.assign(session, changes)
+    saveRecoverySession(session)
+    return session
+}
+
+/** Record a guardian signature, replacing any earlier one from the same signer */
+export function recordGuardianSignature(
+    session: RecoverySession,
+    signer: string,
+    signature: string,
+    submitted: boolean
+): RecoverySession {
+    const signatures = session.signatures.filter(
+        s => s.signer.toLowerCase() !== signer.toLowerCase()
+    )
+    signatures.push({ signer, signature, submitted })
+    return updateRecoverySession(session, { signatures })
+}
+
+export function findGuardianSignature(
+    session: RecoverySession,
+    signer: string
+): GuardianSignature | undefined {
+    return session.signatures.find(s => s.signer.toLowerCase() === signer.toLowerCase())
+}
+
+/** The session as reported with --json: everything but the raw signatures */
+export function summarizeRecoverySession(session: RecoverySession) {
+    return {
+        safeAccountAddress: session.safeAccountAddress,
+        chainId: session.chainId,
+        flow: session.flow,
+        gracePeriod: session.gracePeriod,
+        status: session.status,
+        recoveryRequestId: session.recoveryRequestId,
+        emoji: session.emoji,
+        newOwners: session.newOwners,
+        newThreshold: session.newThreshold,
+        signers: session.signatures.map(({ signer, submitted }) => ({ signer, submitted })),
+        executeTransactionHash: session.executeTransactionHash,
+        relay: session.relay,
+        finalizeTransactionHash: session.finalizeTransactionHash,
+        updatedAt: session.updatedAt,
+    }
+}
+
+export function deleteRecoverySession(chainId: number, safeAccountAddress: string) {
+    const sessions = readSessions()
+    delete sessions[sessionKey(chainId, safeAccountAddress)]
+    writeSessions(sessions)
+}
@@ -0,0 +1,150 @@
+/**
+ * Recovery Target
+ *
+ * Who owns the Safe once a recovery is finalized: one or more new owners and
+ * the Safe's new signing threshold — e.g. 2-of-3 across a phone, a laptop and
+ * a hardware wallet. This is not the guardian threshold, which decides how
+ * many guardians must approve the recovery.
+ *
+ * Both recovery flows read it the same way:
+ *
+ *   - new owners:    --new-owners or NEW_OWNER_ADDRESS, one address or several
+ *                    comma-separated (a demo key is generated if neither is set)
+ *   - new threshold: --new-threshold or NEW_SAFE_THRESHOLD (default: 1)
+ *
+ * A resumed recovery session keeps the target it was started with. The target
+ * is validated before anything is signed, previewed against the Safe's current
+ * owners, and after finalization the Safe must have exactly these owners and
+ * this threshold (see waitForRecoveryFinalized in lib/recovery-polling.ts).
+ */
+
+import { SafeAccountV0_3_0 as SafeAccount } from 'abstractionkit'
+import { createPublicClient, http, parseAbi, zeroAddress } from 'viem'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+
+import { getFlagValue } from './cli.js'
+import { loadConfig, parseConfigValueAs } from './config.js'
+import { RecoverySession } from './recovery-session.js'
+
+export type RecoveryTarget = {
+    newOwners: `0x${string}`[]
+    /** The Safe's signing threshold after recovery */
+    newThreshold: number
+}
+
+/** The head of the Safe's owner list, which can never be an owner */
+const SENTINEL_OWNERS = '0x0000000000000000000000000000000000000001'
+
+const SAFE_ABI = parseAbi(['function getThreshold() view returns (uint256)'])
+
+/** The Safe's current signing threshold */
+export async function getSafeThreshold(nodeUrl: string, safeAccountAddress: string): Promise<number> {
+    const client = createPublicClient({ transport: http(nodeUrl) })
+    const threshold = await client.readContract({
+        address: safeAccountAddress as `0x${string}`,
+        abi: SAFE_ABI,
+        functionName: 'getThreshold',
+    })
+    return Number(threshold)
+}
+
+/**
+ * Check a target can be installed on the Safe. Throws one error listing every
+ * problem.
+ */
+export function validateRecoveryTarget(safeAccountAddress: string, target: RecoveryTarget): RecoveryTarget {
+    const problems: string[] = []
+    const { newOwners, newThreshold } = target
+
+    if (newOwners.length === 0) {
+        problems.push('new owners: at least one is required')
+    }
+    const seen = new Set<string>()
+    for (const owner of newOwners) {
+        const key = owner.toLowerCase()
+        if (key === zeroAddress || key === SENTINEL_OWNERS) {
+            problems.push(`new owners: ${owner} cannot be a Safe owner`)
+        } else if (key === safeAccountAddress.toLowerCase()) {
+            problems.push(`new owners: the Safe ${owner} cannot own itself`)
+        } else if (seen.has(key)) {
+            problems.push(`new owners: ${owner} is listed twice`)
+        }
+        seen.add(key)
+    }
+    if (!Number.isInteger(newThreshold) || newThreshold < 1 || newThreshold > newOwners.length) {
+        problems.push(
+            `new threshold must be from 1 to the number of new owners (${newOwners.length}), got ${newThreshold}`
+        )
+    }
+
+    if (problems.length > 0) {
+        throw new Error(`Invalid recovery target:\n  - ${problems.join('\n  - ')}`)
+    }
+    return target
+}
+
+/**
+ * The target of a recovery: the resumed session's, the configured one, or a
+ * generated demo owner with the configured threshold — validated either way.
+ *
+ * IMPORTANT: a generated owner's private key is printed — it must be saved
+ * before continuing, or the Safe is recovered into an account nobody can use.
+ */
+export function resolveRecoveryTarget(safeAccountAddress: string, session?: RecoverySession): RecoveryTarget {
+    const config = loadConfig([], ['NEW_OWNER_ADDRESS', 'NEW_SAFE_THRESHOLD'])
+    const ownersFlag = getFlagValue('--new-owners')
+    const thresholdFlag = getFlagValue('--new-threshold')
+    const newOwners = ownersFlag !== undefined
+        ? parseConfigValueAs('addressList', '--new-owners', ownersFlag)
+        : config.NEW_OWNER_ADDRESS
+    const newThreshold = thresholdFlag !== undefined
+        ? parseConfigValueAs('count', '--new-threshold', thresholdFlag)
+        : config.NEW_SAFE_THRESHOLD ?? 1
+
+    if (session) {
+        if (ownersFlag !== undefined || thresholdFlag !== undefined) {
+            console.log('\n--new-owners / --new-threshold ignored: the resumed session keeps its target')
+        }
+        console.log(`\nNew owners (from session): ${session.newOwners.join(', ')}`)
+        return validateRecoveryTarget(safeAccountAddress, {
+            newOwners: session.newOwners as `0x${string}`[],
+            newThreshold: session.newThreshold,
+        })
+    }
+    if (newOwners) {
+        console.log(`\nNew owners (${ownersFlag !== undefined ? '--new-owners' : 'from env'}): ${newOwners.join(', ')}`)
+        return validateRecoveryTarget(safeAccountAddress, { newOwners, newThreshold })
+    }
+
+    const newOwnerPrivateKey = generatePrivateKey()
+    const newOwnerAddress = privateKeyToAccount(newOwnerPrivateKey).address
+    const target = validateRecoveryTarget(safeAccountAddress, { newOwners: [newOwnerAddress], newThreshold })
+    console.log(`\n⚠️  NEW OWNER KEY GENERATED — SAVE THIS BEFORE CONTINUING`)
+    console.log(`   Private key: ${newOwnerPrivateKey}`)
+    console.log(`   Address:     ${newOwnerAddress}`)
+    console.log(`   Add to .env: NEW_OWNER_ADDRESS=${newOwnerAddress}`)
+    return target
+}
+
+/**
+ * Print the Safe's owners and threshold now next to those after recovery,
+ * marking each owner added, removed or kept
+ */
+export async function printRecoveryTargetPreview(nodeUrl: string, safeAccountAddress: string, target: RecoveryTarget) {
+    const [owners, threshold] = await Promise.all([
+        new SafeAccount(safeAccountAddress).getOwners(nodeUrl),
+        getSafeThreshold(nodeUrl, safeAccountAddress),
+    ])
+    const current = new Set(owners.map(o => o.toLowerCase()))
+    const next = new Set(target.newOwners.map(o => o.toLowerCase()))
+
+    console.log(`Owners now:     ${threshold} of ${owners.length}`)
+    console.log(`After recovery: ${target.newThreshold} of ${target.newOwners.length}`)
+    for (const owner of target.newOwners) {
+        console.log(current.has(owner.toLowerCase()) ? `  = ${owner} (kept)` : `  + ${owner} (added)`)
+    }
+    for (const owner of owners.filter(o => !next.has(o.toLowerCase()))) {
+        console.log(`  - ${owner} (removed)`)
+    }
+    return { owners, threshold }
+}
@@ -0,0 +1,180 @@
+/**
+ * Guardian Signature Bundles
+ *
+ * A portable record of one guardian's EIP-712 signature over a recovery
+ * request, so guardians can sign on their own machines and hand the result to
+ * whoever coordinates the recovery.
+ *
+ * A bundle is plain JSON. For copy/paste or QR codes it is also available as a
+ * single compact string: "wdk-recovery-sig:" + base64url(JSON).
+ *
+ * Bundles pin the SRM address and recovery nonce they were signed for, and
+ * verifySignatureBundle rebuilds the EIP-712 data from chain state to check
+ * the signature before anything is submitted.
+ */
+
+import {
+    EXECUTE_RECOVERY_PRIMARY_TYPE,
+    SocialRecoveryModule,
+} from 'abstractionkit'
+import { TypedDataDomain, getAddress, recoverTypedDataAddress } from 'viem'
+
+const BUNDLE_PREFIX = 'wdk-recovery-sig:'
+
+export type GuardianSignatureBundle = {
+    version: 1
+    chainId: number
+    safeAccountAddress: string
+    moduleAddress: string
+    newOwners: string[]
+    newThreshold: number
+    /** SRM recovery nonce the signature is bound to (decimal string) */
+    nonce: string
+    guardian: string
+    signature: string
+}
+
+type RecoveryRequestEip712Data = Awaited<ReturnType<SocialRecoveryModule['getRecoveryRequestEip712Data']>>
+
+/** Sign the recovery request EIP-712 data and wrap the result in a bundle */
+export async function createSignatureBundle(
+    signer: {
+        address: string
+        signTypedData: (typedData: {
+            primaryType: typeof EXECUTE_RECOVERY_PRIMARY_TYPE
+            domain: TypedDataDomain
+            types: RecoveryRequestEip712Data['types']
+            message: Record<string, unknown>
+        }) => Promise<string>
+    },
+    eip712Data: RecoveryRequestEip712Data
+): Promise<GuardianSignatureBundle> {
+    const signature = await signer.signTypedData({
+        primaryType: EXECUTE_RECOVERY_PRIMARY_TYPE,
+        domain: eip712Data.domain as TypedDataDomain,
+        types: eip712Data.types,
+        message: eip712Data.messageValue as Record<string, unknown>,
+    })
+
+    return {
+        version: 1,
+        chainId: eip712Data.domain.chainId,
+        safeAccountAddress: getAddress(eip712Data.messageValue.wallet),
+        moduleAddress: getAddress(eip712Data.domain.verifyingContract),
+        newOwners: eip712Data.messageValue.newOwners.map(o => getAddress(o)),
+        newThreshold: Number(eip712Data.messageValue.newThreshold),
+        nonce: eip712Data.messageValue.nonce.toString(),
+        guardian: getAddress(signer.address),
+        signature,
+    }
+}
+
+export function encodeSignatureBundle(bundle: GuardianSignatureBundle): string {
+    return BUNDLE_PREFIX + Buffer.from(JSON.stringify(bundle)).toString('base64url')
+}
+
+/**
+ * Parse a bundle from either its compact string form or raw JSON.
+ */
+export function decodeSignatureBundle(input: string): GuardianSignatureBundle {
+    const trimmed = input.trim()
+    const json = trimmed.startsWith(BUNDLE_PREFIX)
+        ? Buffer.from(trimmed.slice(BUNDLE_PREFIX.length), 'base64url').toString('utf8')
+        : trimmed
+
+    let bundle: GuardianSignatureBundle
+    try {
+        bundle = JSON.parse(json)
+    } catch (error) {
+        throw new Error('Signature bundle is neither a compact bundle string nor JSON', { cause: error })
+    }
+
+    if (bundle.version !== 1) {
+        throw new Error(`Unsupported signature bundle version: ${bundle.version}`)
+    }
+    const fields: (keyof GuardianSignatureBundle)[] = [
+        'chainId', 'safeAccountAddress', 'moduleAddress', 'newOwners',
+        'newThreshold', 'nonce', 'guardian', 'signature',
+    ]
+    const missing = fields.filter(f => bundle[f] === undefined)
+    if (missing.length > 0) {
+        throw new Error(`Signature bundle is missing: ${missing.join(', ')}`)
+    }
+    return bundle
+}
+
+/**
+ * Check a bundle against the expected recovery and the current chain state:
+ *   - chain, Safe, SRM address, new owners and threshold match
+ *   - the nonce is the SRM's current recovery nonce (not stale)
+ *   - the signature recovers to the bundle's guardian
+ *   - the guardian is a guardian of the Safe on-chain
+ *
+ * Throws describing the first mismatch.
+ */
+export async function verifySignatureBundle(
+    bundle: GuardianSignatureBundle,
+    srm: SocialRecoveryModule,
+    nodeUrl: string,
+    expected: {
+        chainId: number
+        safeAccountAddress: string
+        newOwners: string[]
+        newThreshold: number
+    }
+): Promise<void> {
+    const label = `Bundle from ${bundle.guardian}`
+    const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+    if (bundle.chainId !== expected.chainId) {
+        throw new Error(`${label} is for chain ${bundle.chainId}, expected ${expected.chainId}`)
+    }
+    if (!sameAddress(bundle.safeAccountAddress, expected.safeAccountAddress)) {
+        throw new Error(`${label} is for Safe ${bundle.safeAccountAddress}`)
+    }
+    if (!sameAddress(bundle.moduleAddress, srm.moduleAddress)) {
+        throw new Error(
+            `${label} was signed for SRM ${bundle.moduleAddress}, ` +
+            `but the Safe uses ${srm.moduleAddress}`
+        )
+    }
+    if (
+        bundle.newOwners.length !== expected.newOwners.length ||
+        bundle.newOwners.some((o, i) => !sameAddress(o, expected.newOwners[i]))
+    ) {
+        throw new Error(`${label} recovers to different owners: ${bundle.newOwners.join(', ')}`)
+    }
+    if (bundle.newThreshold !== expected.newThreshold) {
+        throw new Error(`${label} uses new threshold ${bundle.newThreshold}, expected ${expected.newThreshold}`)
+    }
+
+    const eip712Data = await srm.getRecoveryRequestEip712Data(
+        nodeUrl,
+        BigInt(bundle.chainId),
+        bundle.safeAccountAddress,
+        bundle.newOwners,
+        BigInt(bundle.newThreshold)
+    )
+    if (eip712Data.messageValue.nonce.toString() !== bundle.nonce) {
+        throw new Error(
+            `${label} was signed for recovery nonce ${bundle.nonce}, ` +
+            `current nonce is ${eip712Data.messageValue.nonce} — ask the guardian to sign again`
+        )
+    }
+
+    const recovered = await recoverTypedDataAddress({
+        primaryType: EXECUTE_RECOVERY_PRIMARY_TYPE,
+        domain: eip712Data.domain as TypedDataDomain,
+        types: eip712Data.types,
+        message: eip712Data.messageValue as Record<string, unknown>,
+        signature: bundle.signature as `0x${string}`,
+    })
+    if (!sameAddress(recovered, bundle.guardian)) {
+        throw new Error(`${label} has an invalid signature (recovers to ${recovered})`)
+    }
+
+    const isGuardian = await srm.isGuardian(nodeUrl, bundle.safeAccountAddress, bundle.guardian)
+    if (!isGuardian) {
+        throw new Error(`${label}: ${bundle.guardian} is not a guardian of ${bundle.safeAccountAddress}`)
+    }
+}
@@ -0,0 +1,57 @@
+/**
+ * Owner Signing Helpers
+ *
+ * The Candide services authenticate the Safe owner with SIWE messages, but
+ * not all the same way:
+ *
+ *   - RecoveryByCustodialGuardian (email/SMS channel registration) needs proof
+ *     that the Safe itself authorizes the action, so the message is signed as
+ *     an EIP-1271 Safe message: signSafeMessage
+ *   - Alerts authenticates the owner EOA directly, so a plain personal_sign
+ *     is enough: signOwnerMessage
+ */
+
+import {
+    SafeAccountV0_3_0 as SafeAccount,
+    SAFE_MESSAGE_PRIMARY_TYPE,
+    getSafeMessageEip712Data,
+} from 'abstractionkit'
+import { LocalAccount, TypedDataDomain } from 'viem'
+
+/**
+ * Sign a message using EIP-1271 (Safe's signature scheme)
+ *
+ * The Safe contract validates off-chain messages using its own signature scheme.
+ * We wrap the message in Safe-specific EIP-712 format and use buildSignaturesFromSingerSignaturePairs
+ * to format the signature correctly for the Safe contract.
+ */
+export async function signSafeMessage(
+    accountAddress: string,
+    chainId: number,
+    message: string,
+    ownerAccount: LocalAccount
+): Promise<string> {
+    const safeTypedData = getSafeMessageEip712Data(
+        accountAddress,
+        BigInt(chainId),
+        message
+    )
+
+    const ownerSignature = await ownerAccount.signTypedData({
+        domain: safeTypedData.domain as TypedDataDomain,
+        types: safeTypedData.types,
+        primaryType: SAFE_MESSAGE_PRIMARY_TYPE,
+        message: safeTypedData.messageValue as Record<string, unknown>
+    } as Parameters<typeof ownerAccount.signTypedData>[0])
+
+    // Use SafeAccountV0_3_0.buildSignaturesFromSingerSignaturePairs to format
+    // the signature in the format the Safe contract expects
+    return SafeAccount.buildSignaturesFromSingerSignaturePairs([
+        { signer: ownerAccount.address, signature: ownerSignature }
+    ])
+}
+
+/** Sign a message with the owner EOA (personal_sign) */
+export async function signOwnerMessage(message: string, ownerAccount: LocalAccount): Promise<string> {
+    return ownerAccount.signMessage({ message })
+}
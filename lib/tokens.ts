@@ -0,0 +1,196 @@
+/**
+ * Token Amounts
+ *
+ * The native coin and ERC-20 tokens, described by what the chain says about
+ * them — decimals() and symbol() are read from the token contract instead of
+ * assuming USDT's 6 decimals. Every balance the examples print goes through
+ * formatTokenAmount, and human amounts ("12.5", "12.5 USDT") are parsed into
+ * base units with bigint math, so nothing is rounded through a float.
+ *
+ *   const usdt = await getToken(nodeUrl, tokenAddress)
+ *   parseTokenAmount('12.5 USDT', usdt)     // 12500000n
+ *   formatTokenAmount(12500000n, usdt)      // '12.5 USDT'
+ */
+
+import { MetaTransaction, sendJsonRpcRequest } from 'abstractionkit'
+import {
+    decodeFunctionData,
+    decodeFunctionResult,
+    encodeFunctionData,
+    erc20Abi,
+    erc20Abi_bytes32,
+    formatUnits,
+    Hex,
+    hexToString,
+} from 'viem'
+
+import { EncodedCall } from './transaction-batch.js'
+
+export type Token = {
+    /** Contract address, or 'native' for the chain's own coin */
+    address: `0x${string}` | 'native'
+    symbol: string
+    decimals: number
+}
+
+/** The chain's native coin. Every network the examples target uses ETH. */
+export const NATIVE_TOKEN: Token = { address: 'native', symbol: 'ETH', decimals: 18 }
+
+// ============================================================================
+// On-Chain Reads
+// ============================================================================
+
+async function callToken(nodeUrl: string, token: `0x${string}`, data: Hex): Promise<Hex> {
+    return (await sendJsonRpcRequest(nodeUrl, 'eth_call', [{ to: token, data }, 'latest'])) as Hex
+}
+
+/** symbol() as a string, or as bytes32 for older tokens such as MKR */
+async function readSymbol(nodeUrl: string, address: `0x${string}`): Promise<string> {
+    const result = await callToken(nodeUrl, address, encodeFunctionData({ abi: erc20Abi, functionName: 'symbol' }))
+    try {
+        return decodeFunctionResult({ abi: erc20Abi, functionName: 'symbol', data: result })
+    } catch {
+        const symbol = decodeFunctionResult({ abi: erc20Abi_bytes32, functionName: 'symbol', data: result })
+        return hexToString(symbol, { size: 32 })
+    }
+}
+
+/**
+ * Describe a token: NATIVE_TOKEN for 'native', otherwise decimals() and
+ * symbol() read from the contract. Throws if the address is not an ERC-20.
+ */
+export async function getToken(nodeUrl: string, address: `0x${string}` | 'native'): Promise<Token> {
+    if (address === 'native') {
+        return NATIVE_TOKEN
+    }
+    try {
+        const [decimals, symbol] = await Promise.all([
+            callToken(nodeUrl, address, encodeFunctionData({ abi: erc20Abi, functionName: 'decimals' }))
+                .then(data => decodeFunctionResult({ abi: erc20Abi, functionName: 'decimals', data })),
+            readSymbol(nodeUrl, address),
+        ])
+        return { address, symbol, decimals }
+    } catch (error) {
+        throw new Error(`${address} is not an ERC-20 token (decimals() / symbol() failed)`, { cause: error })
+    }
+}
+
+/** Balance of `owner` in base units */
+export async function getTokenBalance(nodeUrl: string, token: Token, owner: string): Promise<bigint> {
+    if (token.address === 'native') {
+        return BigInt((await sendJsonRpcRequest(nodeUrl, 'eth_getBalance', [owner, 'latest'])) as string)
+    }
+    const data = await callToken(
+        nodeUrl,
+        token.address,
+        encodeFunctionData({ abi: erc20Abi, functionName: 'balanceOf', args: [owner as `0x${string}`] })
+    )
+    return decodeFunctionResult({ abi: erc20Abi, functionName: 'balanceOf', data })
+}
+
+// ============================================================================
+// Amounts
+// ============================================================================
+
+/** "12.5 USDT" — base units in the token's decimals, trailing zeros dropped */
+export function formatTokenAmount(amount: bigint, token: Token): string {
+    return `${formatUnits(amount, token.decimals)} ${token.symbol}`
+}
+
+/**
+ * Parse "12.5" or "12.5 USDT" into base units. A symbol, if given, must be
+ * the token's; more fractional digits than the token has decimals is an
+ * error rather than a silent rounding.
+ */
+export function parseTokenAmount(input: string, token: Token): bigint {
+    const match = input.trim().match(/^(\d*)(?:\.(\d*))?(?:\s*([^\d\s.+-]\S*))?$/)
+    if (!match || (match[1] === '' && !match[2])) {
+        throw new Error(`Invalid amount "${input}": expected a number such as 12.5, optionally followed by ${token.symbol}`)
+    }
+    const [, whole, fraction = '', symbol] = match
+    if (symbol !== undefined && symbol.toLowerCase() !== token.symbol.toLowerCase()) {
+        throw new Error(`Invalid amount "${input}": the token is ${token.symbol}, not ${symbol}`)
+    }
+    if (fraction.length > token.decimals) {
+        throw new Error(
+            `Invalid amount "${input}": ${token.symbol} has ${token.decimals} decimals, ` +
+            `got ${fraction.length} digits after the point`
+        )
+    }
+    return BigInt(whole || '0') * 10n ** BigInt(token.decimals) + BigInt(fraction.padEnd(token.decimals, '0') || '0')
+}
+
+// ============================================================================
+// Calls
+// ============================================================================
+
+/** Send `amount` of the token to `to`: a plain value transfer, or transfer() */
+export function encodeTokenTransfer(token: Token, to: `0x${string}`, amount: bigint): EncodedCall {
+    const description = `transfer ${formatTokenAmount(amount, token)} to ${to}`
+    if (token.address === 'native') {
+        return { to, value: amount, data: '0x', description }
+    }
+    return {
+        to: token.address,
+        value: 0n,
+        data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [to, amount] }),
+        description,
+    }
+}
+
+/** Allow `spender` to move up to `amount` of an ERC-20 token with approve() */
+export function encodeTokenApproval(token: Token, spender: `0x${string}`, amount: bigint): EncodedCall {
+    if (token.address === 'native') {
+        throw new Error(`${token.symbol} is the native coin and cannot be approved — pass an ERC-20 with --token`)
+    }
+    return {
+        to: token.address,
+        value: 0n,
+        data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [spender, amount] }),
+        description: `approve ${spender} to spend ${formatTokenAmount(amount, token)}`,
+    }
+}
+
+/**
+ * How much of the token a batch moves out of the Safe: the calls' value for
+ * the native coin, and for an ERC-20 the amounts of its transfer() calls and
+ * of the approve() calls whose spender is called later in the batch — it can
+ * pull the approved amount there. An approval the batch never uses, such as
+ * an unlimited one for later, spends nothing yet. Gas paid in the token has
+ * to come out of what is left.
+ */
+export function getTokenOutflow(token: Token, calls: MetaTransaction[]): bigint {
+    let outflow = 0n
+    for (const [index, call] of calls.entries()) {
+        if (token.address === 'native') {
+            outflow += call.value
+            continue
+        }
+        if (call.to.toLowerCase() !== token.address.toLowerCase()) {
+            continue
+        }
+        try {
+            const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data: call.data as Hex })
+            if (functionName === 'transfer') {
+                outflow += args[1]
+            } else if (functionName === 'approve') {
+                const spender = args[0].toLowerCase()
+                if (calls.slice(index + 1).some(later => later.to.toLowerCase() === spender)) {
+                    outflow += args[1]
+                }
+            }
+        } catch {
+            // Not an ERC-20 call the token would recognize
+        }
+    }
+    return outflow
+}
+
+/**
+ * "100 USDT available, ~1.2 USDT needed", adding "on top of the batch's 99.5
+ * USDT" when the batch itself spends the token (see getTokenOutflow).
+ */
+export function describeTokenShortfall(token: Token, balance: bigint, needed: bigint, outflow: bigint): string {
+    return `${formatTokenAmount(balance, token)} available, ~${formatTokenAmount(needed, token)} needed` +
+        (outflow > 0n ? ` on top of the batch's ${formatTokenAmount(outflow, token)}` : '')
+}
@@ -0,0 +1,328 @@
+/**
+ * Transaction Batches
+ *
+ * The calls a UserOperation makes, read from a JSON or YAML file or from the
+ * command line, validated and ABI-encoded. Each call is either raw
+ *
+ *   { "to": "0x...", "value": "1000000000000000", "data": "0x..." }
+ *
+ * or a contract call, encoded from an ABI fragment and its arguments:
+ *
+ *   {
+ *     "to": "0x...",
+ *     "abi": "function transfer(address to, uint256 amount)",
+ *     "args": ["0x...", "1000000"]
+ *   }
+ *
+ * `abi` is a human-readable signature, a JSON ABI item, or a full JSON ABI
+ * together with a `function` name. `value` is in wei and defaults to 0.
+ * Integers can be given as strings so large values survive JSON; tuples as
+ * arrays or objects keyed by component name.
+ *
+ * A batch file holds an array of calls, or an object with a `calls` array.
+ * Sources, in order of precedence:
+ *
+ *   1. --call '<call JSON>'      repeatable, one call each
+ *   2. --calls <file|->          a batch file (.json, .yaml / .yml), or stdin
+ *   3. CALLS_FILE=<file>
+ *
+ * See calls.example.json.
+ */
+
+import * as fs from 'fs'
+import {
+    Abi,
+    AbiFunction,
+    AbiParameter,
+    decodeFunctionData,
+    encodeFunctionData,
+    erc20Abi,
+    getAddress,
+    isAddress,
+    isHex,
+    parseAbiItem,
+} from 'viem'
+
+import { getFlagValue, getFlagValues } from './cli.js'
+import { readStdin } from './input.js'
+
+export type CallSpec = {
+    to: string
+    /** Wei, as a decimal string or number */
+    value?: string | number
+    /** Raw calldata; not allowed together with abi */
+    data?: string
+    /** Human-readable signature, JSON ABI item, or JSON ABI (with `function`) */
+    abi?: string | AbiFunction | Abi
+    /** Function name, when `abi` holds more than one function */
+    function?: string
+    args?: unknown[]
+}
+
+export type EncodedCall = {
+    to: `0x${string}`
+    value: bigint
+    data: `0x${string}`
+    /** The decoded call, e.g. transfer(to: 0x..., amount: 1000000), when known */
+    description?: string
+}
+
+/** Contract ABIs tried when describing raw calldata */
+const KNOWN_ABIS: Abi[] = [erc20Abi]
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/** Pick the function to call out of a CallSpec's `abi` field */
+function resolveAbiFunction(abi: CallSpec['abi'], name: string | undefined): AbiFunction {
+    const item = typeof abi === 'string' ? parseAbiItem(abi) : abi
+    const functions = (Array.isArray(item) ? item : [item])
+        .filter((i): i is AbiFunction => i?.type === 'function')
+        .filter(f => name === undefined || f.name === name)
+
+    if (functions.length === 0) {
+        throw new Error(name ? `abi has no function "${name}"` : 'abi has no function')
+    }
+    if (functions.length > 1) {
+        throw new Error(
+            name
+                ? `abi has ${functions.length} overloads of "${name}" — pass the single fragment instead`
+                : 'abi has more than one function — set "function"'
+        )
+    }
+    return functions[0]
+}
+
+/**
+ * Convert a JSON value to what viem expects for an ABI parameter: bigints for
+ * integers, checksummed addresses, booleans, hex for bytes, recursively for
+ * arrays and tuples.
+ */
+function coerceAbiValue(param: AbiParameter, value: unknown, path: string): unknown {
+    const array = param.type.match(/^(.*)\[(\d*)\]$/)
+    if (array) {
+        if (!Array.isArray(value)) {
+            throw new Error(`${path} must be an array (${param.type})`)
+        }
+        if (array[2] && value.length !== Number(array[2])) {
+            throw new Error(`${path} must have ${array[2]} elements (${param.type})`)
+        }
+        const element = { ...param, type: array[1] } as AbiParameter
+        return value.map((v, i) => coerceAbiValue(element, v, `${path}[${i}]`))
+    }
+
+    if (param.type === 'tuple') {
+        const components = (param as { components: readonly AbiParameter[] }).components
+        const values = Array.isArray(value)
+            ? value
+            : components.map(c => (value as Record<string, unknown> | undefined)?.[c.name ?? ''])
+        if (values.length !== components.length) {
+            throw new Error(`${path} must have ${components.length} components`)
+        }
+        const coerced = components.map((c, i) => coerceAbiValue(c, values[i], `${path}.${c.name || i}`))
+        return Array.isArray(value)
+            ? coerced
+            : Object.fromEntries(components.map((c, i) => [c.name, coerced[i]]))
+    }
+
+    if (/^u?int\d*$/.test(param.type)) {
+        if (typeof value === 'bigint') {
+            return value
+        }
+        if ((typeof value === 'string' && /^-?\d+$/.test(value.trim())) ||
+            (typeof value === 'number' && Number.isSafeInteger(value))) {
+            return BigInt(typeof value === 'string' ? value.trim() : value)
+        }
+        throw new Error(`${path} must be an integer (${param.type}), got ${JSON.stringify(value)}`)
+    }
+    if (param.type === 'address') {
+        if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+            throw new Error(`${path} must be an address, got ${JSON.stringify(value)}`)
+        }
+        return getAddress(value)
+    }
+    if (param.type === 'bool') {
+        if (typeof value === 'boolean') {
+            return value
+        }
+        if (value === 'true' || value === 'false') {
+            return value === 'true'
+        }
+        throw new Error(`${path} must be true or false, got ${JSON.stringify(value)}`)
+    }
+    if (param.type.startsWith('bytes')) {
+        if (typeof value !== 'string' || !isHex(value)) {
+            throw new Error(`${path} must be 0x-prefixed hex (${param.type})`)
+        }
+        return value
+    }
+    if (param.type === 'string') {
+        if (typeof value !== 'string') {
+            throw new Error(`${path} must be a string`)
+        }
+        return value
+    }
+    return value
+}
+
+function formatArg(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(formatArg).join(', ')}]`
+    }
+    if (typeof value === 'object' && value !== null) {
+        return `{${Object.entries(value).map(([k, v]) => `${k}: ${formatArg(v)}`).join(', ')}}`
+    }
+    return String(value)
+}
+
+/** "transfer(to: 0x..., amount: 1000000)" */
+function describeFunctionCall(fn: AbiFunction, args: readonly unknown[]): string {
+    const formatted = fn.inputs.map((input, i) =>
+        input.name ? `${input.name}: ${formatArg(args[i])}` : formatArg(args[i])
+    )
+    return `${fn.name}(${formatted.join(', ')})`
+}
+
+/** Describe raw calldata using the known ABIs, if one of them matches */
+function describeCalldata(data: `0x${string}`): string | undefined {
+    if (data === '0x') {
+        return undefined
+    }
+    for (const abi of KNOWN_ABIS) {
+        try {
+            const { functionName, args } = decodeFunctionData({ abi, data })
+            const fn = resolveAbiFunction(abi, functionName)
+            return describeFunctionCall(fn, args ?? [])
+        } catch {
+            // Not a function of this ABI
+        }
+    }
+    return undefined
+}
+
+function parseValue(value: unknown): bigint {
+    if (value === undefined) {
+        return 0n
+    }
+    if ((typeof value === 'string' && /^\d+$/.test(value.trim())) ||
+        (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0)) {
+        return BigInt(typeof value === 'string' ? value.trim() : value)
+    }
+    throw new Error(`value must be a non-negative integer amount of wei, got ${JSON.stringify(value)}`)
+}
+
+/** Validate and encode one call. Throws describing the first problem. */
+export function encodeCall(spec: CallSpec): EncodedCall {
+    if (typeof spec !== 'object' || spec === null) {
+        throw new Error('expected an object with "to" and "data" or "abi"')
+    }
+    if (typeof spec.to !== 'string' || !isAddress(spec.to, { strict: false })) {
+        throw new Error(`to must be an address, got ${JSON.stringify(spec.to)}`)
+    }
+    const to = getAddress(spec.to)
+    const value = parseValue(spec.value)
+
+    if (spec.abi !== undefined) {
+        if (spec.data !== undefined) {
+            throw new Error('set either "data" or "abi", not both')
+        }
+        const fn = resolveAbiFunction(spec.abi, spec.function)
+        const rawArgs = spec.args ?? []
+        if (!Array.isArray(rawArgs) || rawArgs.length !== fn.inputs.length) {
+            throw new Error(`${fn.name} takes ${fn.inputs.length} argument(s), got ${JSON.stringify(rawArgs)}`)
+        }
+        const args = fn.inputs.map((input, i) =>
+            coerceAbiValue(input, rawArgs[i], `args[${i}]${input.name ? ` (${input.name})` : ''}`)
+        )
+        const data = encodeFunctionData({ abi: [fn], functionName: fn.name, args })
+        return { to, value, data, description: describeFunctionCall(fn, args) }
+    }
+
+    const data = spec.data ?? '0x'
+    if (typeof data !== 'string' || !isHex(data) || data.length % 2 !== 0) {
+        throw new Error(`data must be 0x-prefixed hex with whole bytes, got ${JSON.stringify(data)}`)
+    }
+    return { to, value, data, description: describeCalldata(data) }
+}
+
+/**
+ * Validate and encode a batch, reporting every problem at once.
+ */
+export function encodeTransactionBatch(specs: unknown): EncodedCall[] {
+    const list = Array.isArray(specs) ? specs : (specs as { calls?: unknown } | null)?.calls
+    if (!Array.isArray(list) || list.length === 0) {
+        throw new Error('Invalid transaction batch: expected a non-empty array of calls (or {"calls": [...]})')
+    }
+
+    const problems: string[] = []
+    const calls: EncodedCall[] = []
+    list.forEach((spec, i) => {
+        try {
+            calls.push(encodeCall(spec as CallSpec))
+        } catch (error) {
+            problems.push(`calls[${i}]: ${error instanceof Error ? error.message : String(error)}`)
+        }
+    })
+
+    if (problems.length > 0) {
+        throw new Error(`Invalid transaction batch:\n  - ${problems.join('\n  - ')}`)
+    }
+    return calls
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/** Parse a batch file: YAML for .yaml / .yml, JSON otherwise */
+async function readBatchFile(source: string): Promise<unknown> {
+    const content = source === '-' ? await readStdin() : fs.readFileSync(source, 'utf8')
+    try {
+        if (/\.ya?ml$/i.test(source)) {
+            const { parse } = await import('yaml')
+            return parse(content)
+        }
+        return JSON.parse(content)
+    } catch (error) {
+        throw new Error(`Could not parse transaction batch ${source === '-' ? 'from stdin' : source}`, {
+            cause: error,
+        })
+    }
+}
+
+/**
+ * The batch given on the command line (--call / --calls) or in CALLS_FILE,
+ * encoded; undefined if none was given.
+ */
+export async function loadTransactionBatch(): Promise<EncodedCall[] | undefined> {
+    const inline = getFlagValues('--call')
+    if (inline.length > 0) {
+        const specs = inline.map((call, i) => {
+            try {
+                return JSON.parse(call)
+            } catch (error) {
+                throw new Error(`--call #${i + 1} is not valid JSON`, { cause: error })
+            }
+        })
+        return encodeTransactionBatch(specs)
+    }
+
+    const source = getFlagValue('--calls') || process.env.CALLS_FILE
+    if (!source) {
+        return undefined
+    }
+    return encodeTransactionBatch(await readBatchFile(source))
+}
+
+/** Print one line per call, with the decoded function call where known */
+export function printTransactionBatch(calls: EncodedCall[]) {
+    calls.forEach((call, i) => {
+        console.log(`${i + 1}. to ${call.to}${call.value > 0n ? `, value ${call.value} wei` : ''}`)
+        if (call.description) {
+            console.log(`   ${call.description}`)
+        } else if (call.data !== '0x') {
+            console.log(`   data ${call.data.slice(0, 10)}… (${(call.data.length - 2) / 2} bytes, unknown function)`)
+        }
+    })
+}
@@ -0,0 +1,491 @@
+/**
+ * UserOperation Preview
+ *
+ * What a batch of calls will do and cost, before it is sent:
+ *
+ *   1. Simulation — the batch is executed with eth_call exactly as the
+ *      EntryPoint would run it on the Safe (executeUserOpWithErrorString), so
+ *      a revert surfaces here with its reason instead of as
+ *      `receipt.success === false` after inclusion. A Safe that is not
+ *      deployed yet has no code to call; its execution is checked by the
+ *      bundler's gas estimate instead.
+ *   2. Fee — the WDK quote for the gas mode in use (bundler gas estimate x gas
+ *      price), in the native coin and, in ERC-20 mode, in the paymaster
+ *      token. Bundler rejections are reported with their AA error code
+ *      explained.
+ *   3. Confirmation — an interactive [y/N], skipped with --yes (or
+ *      "confirm": true in the inputs JSON); --dry-run stops after the preview.
+ *
+ * With a gas fallback chain (GAS_FALLBACK=sponsored,erc20,native) a mode the
+ * paymaster rejects is followed by the next one, and a mode the Safe cannot
+ * afford — too little of the paymaster token, or of ETH for native gas — is
+ * skipped rather than sent to fail on-chain. With several ERC-20 gas tokens
+ * (PAYMASTER_TOKEN_ADDRESSES) the token is chosen first; see lib/gas-token.ts.
+ *
+ *   const sent = await sendWithPreview(account, calls, network, gas)
+ *   if (!sent.hash) return { dryRun: true, preview: sent.preview }
+ */
+
+import { WalletAccountEvmErc4337 } from '@tetherto/wdk-wallet-evm-erc-4337'
+import { MetaTransaction, SafeAccountV0_3_0 as SafeAccount } from 'abstractionkit'
+import {
+    BaseError,
+    RawContractError,
+    RpcRequestError,
+    createPublicClient,
+    decodeErrorResult,
+    Hex,
+    http,
+    parseAbi,
+} from 'viem'
+
+import { askQuestion, closePrompt, isNonInteractive } from './cli.js'
+import { GasTokenSelection, describeGasTokenShortfall, printGasTokenSelection, selectGasToken } from './gas-token.js'
+import { getInputsValue, missingInputError } from './input.js'
+import {
+    NATIVE_TOKEN,
+    Token,
+    describeTokenShortfall,
+    formatTokenAmount,
+    getToken,
+    getTokenBalance,
+    getTokenOutflow,
+} from './tokens.js'
+import { GasPayment, NetworkConfig, describeGasPayment, toWdkGasConfig } from './wallet.js'
+
+export type Simulation =
+    | { status: 'success' }
+    | { status: 'reverted'; reason: string }
+    | { status: 'skipped'; reason: string }
+
+export type UserOperationPreview = {
+    calls: number
+    simulation: Simulation
+    /** Estimated cost in the native coin, or why it could not be estimated */
+    nativeFee: bigint | { error: string }
+    /** ERC-20 mode: the same cost in the paymaster token */
+    tokenFee: { token: Token; amount: bigint } | null
+    gasMode: GasPayment['mode']
+    sponsored: boolean
+    /** ERC-20 mode with several gas tokens: each token's quote, and the one chosen */
+    gasTokens?: GasTokenSelection
+    /** Modes of the gas fallback chain tried before this one */
+    fallbacks?: GasAttempt[]
+}
+
+export type GasAttempt = {
+    mode: GasPayment['mode']
+    outcome: 'rejected' | 'unaffordable'
+    reason: string
+}
+
+/** Errors decoded from revert data: require/revert strings, panics and common custom errors */
+const KNOWN_ERRORS = parseAbi([
+    'error Error(string reason)',
+    'error Panic(uint256 code)',
+    'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+    'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+    'error ERC20InvalidReceiver(address receiver)',
+    'error ERC20InvalidSpender(address spender)',
+])
+
+/** ERC-4337 EntryPoint error codes, as returned by bundlers ("AA21 didn't pay prefund") */
+const AA_ERRORS: Record<string, string> = {
+    AA10: 'the Safe is already deployed, but the UserOperation tries to deploy it again',
+    AA13: 'deploying the Safe failed (initCode reverted or ran out of gas)',
+    AA20: 'the Safe is not deployed and no initCode was given',
+    AA21: 'the Safe cannot pay for gas — fund it with the native coin, or use a paymaster',
+    AA22: 'the UserOperation has expired or is not valid yet',
+    AA23: 'the Safe rejected the UserOperation during validation',
+    AA24: 'the signature is invalid — is the seed phrase an owner of this Safe?',
+    AA25: 'invalid nonce — another UserOperation from this Safe may still be pending',
+    AA31: "the paymaster's deposit is too low to cover this UserOperation",
+    AA32: 'the paymaster signature has expired or is not valid yet',
+    AA33: 'the paymaster rejected the UserOperation (sponsorship policy, or token balance and allowance)',
+    AA34: 'the paymaster signature is invalid',
+    AA40: 'verification used more gas than verificationGasLimit',
+    AA41: 'verificationGasLimit is too low',
+    AA50: "the paymaster's postOp reverted (e.g. the token fee could not be collected)",
+    AA51: 'the prefund was lower than the actual gas cost',
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/** Revert data as Error(string)'s message, a panic or known custom error, or its selector */
+export function decodeRevertData(data: Hex): string {
+    try {
+        const { errorName, args } = decodeErrorResult({ abi: KNOWN_ERRORS, data })
+        if (errorName === 'Error') {
+            return String(args[0])
+        }
+        return `${errorName}(${(args ?? []).map(String).join(', ')})`
+    } catch {
+        return `custom error ${data.slice(0, 10)}`
+    }
+}
+
+/**
+ * The revert reason in an eth_call error: Error(string), Panic, a known custom
+ * error, or the message. The revert data is on a RawContractError for
+ * contract reads, and on the node's RpcRequestError for a plain call.
+ */
+export function describeRevert(error: unknown): string {
+    const raw = error instanceof BaseError
+        ? error.walk((e) => e instanceof RawContractError) as RawContractError | null
+        : null
+    const rpc = error instanceof BaseError
+        ? error.walk((e) => e instanceof RpcRequestError) as RpcRequestError | null
+        : null
+    const data = (typeof raw?.data === 'string' ? raw.data : raw?.data?.data)
+        ?? (typeof rpc?.data === 'string' && rpc.data.startsWith('0x') ? rpc.data as Hex : undefined)
+    if (data && data !== '0x') {
+        return decodeRevertData(data)
+    }
+    if (error instanceof BaseError) {
+        return error.shortMessage
+    }
+    return error instanceof Error ? error.message : String(error)
+}
+
+/** "AA21 didn't pay prefund — the Safe cannot pay for gas ...", when the error carries an AA code */
+export function describeBundlerError(error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error)
+    const code = message.match(/\bAA\d\d\b/)?.[0]
+    if (code && AA_ERRORS[code]) {
+        return `${message} — ${AA_ERRORS[code]}`
+    }
+    return message
+}
+
+/**
+ * JSON-RPC error codes ERC-4337 bundlers use for a paymaster: it rejected the
+ * UserOperation in validatePaymasterUserOp (-32501), or is throttled or banned
+ * (-32504).
+ */
+const PAYMASTER_RPC_ERROR_CODES = [-32501, -32504]
+
+/**
+ * Whether an error means the paymaster turned the UserOperation down (AA3x,
+ * a paymaster JSON-RPC error code, abstractionkit's paymaster errors),
+ * anywhere in its cause chain — the cue to try the next gas mode. Only the
+ * errors' codes count, not their wording: describeBundlerError's hints
+ * mention paymasters for other errors too (AA21).
+ */
+export function isPaymasterRejection(error: unknown): boolean {
+    for (let e: unknown = error; e instanceof Error; e = e.cause) {
+        const { code, errno } = e as { code?: unknown; errno?: unknown }
+        if (code === 'PAYMASTER_ERROR' || code === 'SIMULATE_PAYMASTER_VALIDATION') {
+            return true
+        }
+        if ([code, errno].some(c => typeof c === 'number' && PAYMASTER_RPC_ERROR_CODES.includes(c))) {
+            return true
+        }
+        if (/\bAA3\d\b/.test(e.message)) {
+            return true
+        }
+    }
+    return false
+}
+
+// ============================================================================
+// Preview
+// ============================================================================
+
+/**
+ * Run the batch through eth_call from the EntryPoint, the way the Safe 4337
+ * module executes it.
+ */
+export async function simulateCalls(
+    network: NetworkConfig,
+    safeAccountAddress: string,
+    calls: MetaTransaction[]
+): Promise<Simulation> {
+    const client = createPublicClient({ transport: http(network.nodeUrl) })
+    const safe = safeAccountAddress as `0x${string}`
+
+    const code = await client.getCode({ address: safe })
+    if (!code || code === '0x') {
+        return { status: 'skipped', reason: 'Safe not deployed yet — execution is checked by the gas estimate' }
+    }
+
+    const metaTransactions = calls.map(({ to, value, data }) => ({ to, value, data }))
+    const callData = metaTransactions.length === 1
+        ? SafeAccount.createAccountCallDataSingleTransaction(metaTransactions[0])
+        : SafeAccount.createAccountCallDataBatchTransactions(metaTransactions)
+    try {
+        await client.call({
+            account: network.entryPointAddress as `0x${string}`,
+            to: safe,
+            data: callData as `0x${string}`,
+        })
+        return { status: 'success' }
+    } catch (error) {
+        return { status: 'reverted', reason: describeRevert(error) }
+    }
+}
+
+/**
+ * Simulate the batch and quote its fee in the given gas mode (the account's
+ * own mode, or another one for the fallback chain). Throws if the bundler
+ * rejects the UserOperation; a reverting simulation is returned without a
+ * quote.
+ */
+export async function previewUserOperation(
+    account: WalletAccountEvmErc4337,
+    calls: MetaTransaction[],
+    network: NetworkConfig,
+    gas: GasPayment
+): Promise<UserOperationPreview> {
+    const safeAccountAddress = await account.getAddress()
+    const transactions = calls.map(({ to, value, data }) => ({ to, value, data }))
+    const base = { calls: calls.length, gasMode: gas.mode, sponsored: gas.mode === 'sponsored' }
+
+    const simulation = await simulateCalls(network, safeAccountAddress, transactions)
+    if (simulation.status === 'reverted') {
+        // The bundler would reject it too, with a less precise reason
+        return { ...base, simulation, nativeFee: { error: 'not estimated, the simulation reverted' }, tokenFee: null }
+    }
+
+    // Several gas tokens: the fee is quoted in each, and the chosen token's
+    // quote is the one used below
+    let gasTokens: GasTokenSelection | undefined
+    if (gas.mode === 'erc20' && gas.gasTokens) {
+        gasTokens = await selectGasToken(account, calls, network, gas)
+        if (!gasTokens.quotes.some(({ fee }) => typeof fee === 'bigint')) {
+            throw new Error(`Gas estimation failed in every gas token: ${describeGasTokenShortfall(gasTokens)}`)
+        }
+        if (!gasTokens.gas) {
+            return { ...base, simulation, nativeFee: { error: 'not estimated, no gas token is affordable' }, tokenFee: null, gasTokens }
+        }
+        gas = gasTokens.gas
+    }
+
+    let quote: { fee: bigint }
+    try {
+        const chosen = gasTokens?.quotes.find(({ token }) => token.address === gasTokens?.gas?.tokenAddress)
+        quote = chosen
+            ? { fee: chosen.fee as bigint }
+            : await account.quoteSendTransaction(transactions, toWdkGasConfig(gas))
+    } catch (error) {
+        throw new Error(`Gas estimation failed: ${describeBundlerError(error)}`, { cause: error })
+    }
+
+    // The quote is in the paymaster token in ERC-20 mode, so ask for the
+    // native cost separately
+    let nativeFee: UserOperationPreview['nativeFee'] = quote.fee
+    let tokenFee: UserOperationPreview['tokenFee'] = null
+    if (gas.mode === 'erc20') {
+        tokenFee = {
+            token: await getToken(network.nodeUrl, gas.tokenAddress as `0x${string}`),
+            amount: quote.fee,
+        }
+        try {
+            nativeFee = (await account.quoteSendTransaction(transactions, toWdkGasConfig({ mode: 'native' }))).fee
+        } catch (error) {
+            nativeFee = { error: describeBundlerError(error) }
+        }
+    }
+
+    return { ...base, simulation, nativeFee, tokenFee, gasTokens }
+}
+
+export function printUserOperationPreview(preview: UserOperationPreview) {
+    const { simulation, nativeFee, tokenFee } = preview
+    const calls = preview.calls === 1 ? 'the call succeeds' : `all ${preview.calls} calls succeed`
+
+    if (simulation.status === 'success') {
+        console.log(`Simulation:  ✓ ${calls}`)
+    } else if (simulation.status === 'reverted') {
+        console.log(`Simulation:  ✗ reverted: ${simulation.reason}`)
+    } else {
+        console.log(`Simulation:  skipped (${simulation.reason})`)
+    }
+
+    if (preview.gasTokens) {
+        printGasTokenSelection(preview.gasTokens)
+    }
+    console.log(`Gas:         ${preview.gasMode}`)
+    console.log(
+        typeof nativeFee === 'bigint'
+            ? `Fee:         ~${formatTokenAmount(nativeFee, NATIVE_TOKEN)}${preview.sponsored ? ', paid by the paymaster' : ''}`
+            : `Fee:         native estimate unavailable (${nativeFee.error})`
+    )
+    if (tokenFee) {
+        console.log(`             ~${formatTokenAmount(tokenFee.amount, tokenFee.token)}, paid from the Safe's balance`)
+    }
+}
+
+/**
+ * Why the Safe cannot pay the previewed fee in its gas mode, or null if it
+ * can — from what the batch leaves of the gas token (getTokenOutflow).
+ * Sponsored gas is up to the paymaster, so it is always worth a try.
+ */
+async function getShortfall(
+    safeAccountAddress: string,
+    calls: MetaTransaction[],
+    network: NetworkConfig,
+    preview: UserOperationPreview
+): Promise<string | null> {
+    if (preview.gasTokens && !preview.gasTokens.gas) {
+        return describeGasTokenShortfall(preview.gasTokens)
+    }
+    // The batch's own spending of the gas token comes out of the same balance
+    const fee = preview.gasMode === 'erc20' && preview.tokenFee
+        ? preview.tokenFee
+        : preview.gasMode === 'native' && typeof preview.nativeFee === 'bigint'
+            ? { token: NATIVE_TOKEN, amount: preview.nativeFee }
+            : null
+    if (!fee) {
+        return null
+    }
+    const balance = await getTokenBalance(network.nodeUrl, fee.token, safeAccountAddress)
+    const outflow = getTokenOutflow(fee.token, calls)
+    return balance < outflow + fee.amount
+        ? describeTokenShortfall(fee.token, balance, fee.amount, outflow)
+        : null
+}
+
+/** --yes, "confirm": true in the inputs JSON, or y at the prompt */
+export async function confirmSubmission(question = 'Submit this UserOperation?'): Promise<boolean> {
+    if (process.argv.includes('--yes') || (await getInputsValue('confirm')) === true) {
+        return true
+    }
+    if (isNonInteractive()) {
+        throw missingInputError('confirmation', ['--yes', '"confirm": true in the inputs JSON (--input)'])
+    }
+    const answer = await askQuestion(`\n${question} [y/N] `)
+    closePrompt()
+    return ['y', 'yes'].includes(answer.trim().toLowerCase())
+}
+
+/**
+ * Ask again after a fallback changed the gas payment the user confirmed. An
+ * earlier "confirm": true in the inputs JSON was given for other terms, so
+ * only --yes answers for them.
+ */
+async function confirmChangedGasPayment(confirmed: string, now: string): Promise<boolean> {
+    console.log(`\nThe gas payment changed since it was confirmed:\n  was: ${confirmed}\n  now: ${now}`)
+    if (process.argv.includes('--yes')) {
+        return true
+    }
+    if (isNonInteractive()) {
+        throw missingInputError('confirmation of the new gas payment', ['--yes'])
+    }
+    const answer = await askQuestion('Submit with the new gas payment? [y/N] ')
+    closePrompt()
+    return ['y', 'yes'].includes(answer.trim().toLowerCase())
+}
+
+/** The terms a confirmation covers: the gas mode, who pays and the fee */
+function describeGasTerms(preview: UserOperationPreview, payment: GasPayment): string {
+    const mode = `${describeGasPayment(payment)} gas`
+    if (preview.sponsored) {
+        return `${mode}, paid by the paymaster`
+    }
+    const fee = preview.gasMode === 'erc20' && preview.tokenFee
+        ? formatTokenAmount(preview.tokenFee.amount, preview.tokenFee.token)
+        : typeof preview.nativeFee === 'bigint'
+            ? formatTokenAmount(preview.nativeFee, NATIVE_TOKEN)
+            : 'an unestimated fee'
+    return `${mode}, ~${fee} paid by the Safe`
+}
+
+/**
+ * Preview the batch, ask for confirmation and send it. Stops before sending,
+ * with `hash: null`, for --dry-run; throws if the simulation reverts or the
+ * user declines.
+ *
+ * `gas` may be a fallback chain (see getGasFallbackFromEnv): each mode is
+ * tried in order, moving on when the paymaster rejects the UserOperation
+ * (while quoting or sending) and skipping modes the Safe cannot afford. Falling
+ * back to terms other than the confirmed ones asks again. The
+ * mode used is `preview.gasMode`, and the ones passed over are listed in
+ * `preview.fallbacks`.
+ */
+export async function sendWithPreview(
+    account: WalletAccountEvmErc4337,
+    calls: MetaTransaction[],
+    network: NetworkConfig,
+    gas: GasPayment | GasPayment[]
+): Promise<{ preview: UserOperationPreview; hash: string | null }> {
+    const chain = Array.isArray(gas) ? gas : [gas]
+    const safeAccountAddress = await account.getAddress()
+    const fallbacks: GasAttempt[] = []
+    // What the user said yes to; a fallback to other terms asks again
+    let confirmed: string | null = null
+
+    const passOver = (option: GasPayment, outcome: GasAttempt['outcome'], reason: string) => {
+        fallbacks.push({ mode: option.mode, outcome, reason })
+        console.log(`✗ ${describeGasPayment(option)} gas ${outcome}: ${reason}`)
+    }
+
+    for (const option of chain) {
+        let preview: UserOperationPreview
+        try {
+            preview = await previewUserOperation(account, calls, network, option)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            if (chain.length > 1 && option.mode === 'native' && /\bAA21\b/.test(message)) {
+                passOver(option, 'unaffordable', message)
+                continue
+            }
+            if (chain.length > 1 && isPaymasterRejection(error)) {
+                passOver(option, 'rejected', message)
+                continue
+            }
+            throw error
+        }
+        if (preview.simulation.status === 'reverted') {
+            printUserOperationPreview(preview)
+            throw new Error(`UserOperation would revert: ${preview.simulation.reason}`)
+        }
+
+        const shortfall = await getShortfall(safeAccountAddress, calls, network, preview)
+        if (shortfall) {
+            passOver(option, 'unaffordable', shortfall)
+            continue
+        }
+
+        preview.fallbacks = fallbacks
+        printUserOperationPreview(preview)
+
+        if (process.argv.includes('--dry-run')) {
+            console.log('\nDry run — nothing submitted. Re-run without --dry-run to apply.')
+            return { preview, hash: null }
+        }
+
+        // With several gas tokens, the one previewUserOperation chose
+        const payment = preview.gasTokens?.gas ?? option
+        const terms = describeGasTerms(preview, payment)
+        const approved = confirmed === null
+            ? await confirmSubmission()
+            : confirmed === terms || (await confirmChangedGasPayment(confirmed, terms))
+        if (!approved) {
+            throw new Error('Not confirmed — nothing was submitted')
+        }
+        confirmed = terms
+        try {
+            const result = await account.sendTransaction(
+                calls.map(({ to, value, data }) => ({ to, value, data })),
+                toWdkGasConfig(payment)
+            )
+            if (fallbacks.length > 0) {
+                console.log(`Sent with ${describeGasPayment(payment)} gas`)
+            }
+            return { preview, hash: result.hash }
+        } catch (error) {
+            if (chain.length > 1 && isPaymasterRejection(error)) {
+                passOver(option, 'rejected', describeBundlerError(error))
+                continue
+            }
+            throw error
+        }
+    }
+
+    throw new Error(
+        `No gas payment mode could pay for this UserOperation:\n  - ` +
+        fallbacks.map(({ mode, outcome, reason }) => `${mode}: ${outcome} — ${reason}`).join('\n  - ')
+    )
+}
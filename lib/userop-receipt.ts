@@ -0,0 +1,242 @@
+/**
+ * UserOperation Receipts
+ *
+ * A bundler receipt is a transaction hash and raw logs. decodeUserOperationReceipt
+ * turns the logs of one UserOperation into the events that say what it did:
+ *
+ *   - ERC-20 Transfer / Approval, amounts in the token's decimals; a transfer
+ *     to the UserOperation's paymaster is marked as the gas fee
+ *   - Safe EnabledModule / DisabledModule / AddedOwner / RemovedOwner /
+ *     ChangedThreshold
+ *   - Social Recovery Module GuardianAdded / GuardianRevoked /
+ *     ChangedThreshold and the recovery lifecycle (RecoveryExecuted,
+ *     RecoveryFinalized, RecoveryCanceled)
+ *   - EntryPoint UserOperationEvent (success, actual gas cost) and, when the
+ *     calls reverted, UserOperationRevertReason decoded like a simulation
+ *     revert (lib/userop-preview.ts)
+ *
+ * Logs that match none of these are kept as `unknown`, with their emitter and
+ * topic.
+ *
+ *   const receipt = await waitForUserOperation(hash, bundlerUrl, entryPointAddress)
+ *   const decoded = await decodeUserOperationReceipt(receipt, nodeUrl)
+ *   printDecodedReceipt(decoded)
+ */
+
+import { Hex, decodeEventLog, parseAbi } from 'viem'
+
+import { NATIVE_TOKEN, Token, formatTokenAmount, getToken } from './tokens.js'
+import { decodeRevertData } from './userop-preview.js'
+import { UserOperationReceipt } from './userop.js'
+
+type Log = { address: string; topics: Hex[]; data: Hex }
+
+export type DecodedEvent = {
+    /** The contract that emitted it */
+    address: string
+    /** Event name, or 'unknown' */
+    name: string
+    args: Record<string, unknown>
+    /** One line for people: "Transfer 1.5 USDT 0x... → 0x... (gas fee)" */
+    description: string
+}
+
+export type DecodedReceipt = {
+    userOpHash: string
+    success: boolean
+    transactionHash: string
+    blockNumber: bigint
+    actualGasCost: bigint
+    actualGasUsed: bigint
+    paymaster: string | null
+    /** Why the calls reverted, from UserOperationRevertReason */
+    revertReason: string | null
+    events: DecodedEvent[]
+}
+
+const ERC20_EVENTS = parseAbi([
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'event Approval(address indexed owner, address indexed spender, uint256 value)',
+])
+
+// Safe 1.4.1 indexes these addresses; 1.3.0 does not
+const SAFE_EVENTS = parseAbi([
+    'event EnabledModule(address indexed module)',
+    'event DisabledModule(address indexed module)',
+    'event AddedOwner(address indexed owner)',
+    'event RemovedOwner(address indexed owner)',
+    'event ChangedThreshold(uint256 threshold)',
+])
+const SAFE_V1_3_EVENTS = parseAbi([
+    'event EnabledModule(address module)',
+    'event DisabledModule(address module)',
+    'event AddedOwner(address owner)',
+    'event RemovedOwner(address owner)',
+])
+
+const SOCIAL_RECOVERY_EVENTS = parseAbi([
+    'event GuardianAdded(address indexed wallet, address guardian)',
+    'event GuardianRevoked(address indexed wallet, address guardian)',
+    'event ChangedThreshold(address indexed wallet, uint256 threshold)',
+    'event RecoveryExecuted(address indexed wallet, address[] newOwners, uint256 newThreshold, uint64 nonce, uint64 executeAfter, uint256 guardiansApprovalCount)',
+    'event RecoveryFinalized(address indexed wallet, address[] newOwners, uint256 newThreshold, uint64 nonce)',
+    'event RecoveryCanceled(address indexed wallet, uint64 nonce)',
+    'event HashApproved(address indexed guardian, bytes32 hash)',
+])
+
+const ENTRY_POINT_EVENTS = parseAbi([
+    'event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)',
+    'event UserOperationRevertReason(bytes32 indexed userOpHash, address indexed sender, uint256 nonce, bytes revertReason)',
+    'event PostOpRevertReason(bytes32 indexed userOpHash, address indexed sender, uint256 nonce, bytes revertReason)',
+    'event AccountDeployed(bytes32 indexed userOpHash, address indexed sender, address factory, address paymaster)',
+])
+
+const EVENT_ABIS = [ERC20_EVENTS, SAFE_EVENTS, SAFE_V1_3_EVENTS, SOCIAL_RECOVERY_EVENTS, ENTRY_POINT_EVENTS]
+
+/** The receipt's logs are JSON strings (abstractionkit), possibly empty */
+function parseLogs(logs: string): Log[] {
+    try {
+        const parsed = JSON.parse(logs)
+        return Array.isArray(parsed) ? parsed : []
+    } catch {
+        return []
+    }
+}
+
+function decodeLog(log: Log): { name: string; args: Record<string, unknown> } | null {
+    for (const abi of EVENT_ABIS) {
+        try {
+            const { eventName, args } = decodeEventLog({ abi, topics: log.topics as [Hex, ...Hex[]], data: log.data })
+            return { name: eventName, args: (args ?? {}) as Record<string, unknown> }
+        } catch {
+            // Not this ABI, or a different indexing of the same event
+        }
+    }
+    return null
+}
+
+function describeEvent(
+    name: string,
+    args: Record<string, unknown>,
+    token: Token | undefined,
+    paymaster: string | null
+): string {
+    const amount = (value: unknown) => token ? formatTokenAmount(value as bigint, token) : `${value} base units`
+    switch (name) {
+        case 'Transfer': {
+            const fee = paymaster && String(args.to).toLowerCase() === paymaster.toLowerCase() ? ' (gas fee)' : ''
+            return `Transfer ${amount(args.value)} ${args.from} → ${args.to}${fee}`
+        }
+        case 'Approval':
+            return `Approval ${args.spender} may spend ${amount(args.value)} of ${args.owner}`
+        case 'EnabledModule':
+        case 'DisabledModule':
+            return `${name} ${args.module}`
+        case 'AddedOwner':
+        case 'RemovedOwner':
+            return `${name} ${args.owner}`
+        case 'ChangedThreshold':
+            return args.wallet
+                ? `Recovery threshold of ${args.wallet} set to ${args.threshold}`
+                : `Owner threshold set to ${args.threshold}`
+        case 'GuardianAdded':
+        case 'GuardianRevoked':
+            return `${name} ${args.guardian} for ${args.wallet}`
+        case 'RecoveryExecuted':
+            return `RecoveryExecuted: new owners ${(args.newOwners as string[]).join(', ')} ` +
+                `(threshold ${args.newThreshold}), finalizable after ${new Date(Number(args.executeAfter) * 1000).toISOString()}`
+        case 'RecoveryFinalized':
+            return `RecoveryFinalized: owners are now ${(args.newOwners as string[]).join(', ')} (threshold ${args.newThreshold})`
+        case 'RecoveryCanceled':
+            return `RecoveryCanceled (nonce ${args.nonce})`
+        case 'HashApproved':
+            return `HashApproved by guardian ${args.guardian}`
+        case 'UserOperationEvent':
+            return `UserOperation ${args.success ? 'succeeded' : 'reverted'}, ` +
+                `gas cost ${formatTokenAmount(args.actualGasCost as bigint, NATIVE_TOKEN)} (${args.actualGasUsed} gas)`
+        case 'UserOperationRevertReason':
+        case 'PostOpRevertReason':
+            return `${name}: ${decodeRevertData(args.revertReason as Hex)}`
+        case 'AccountDeployed':
+            return `AccountDeployed ${args.sender} (factory ${args.factory})`
+        default:
+            return name
+    }
+}
+
+/**
+ * Decode the events of one UserOperation: the logs it emitted, plus the
+ * EntryPoint's events about it from the bundle transaction. With `nodeUrl`,
+ * ERC-20 amounts are formatted with the token's decimals and symbol.
+ */
+export async function decodeUserOperationReceipt(
+    receipt: UserOperationReceipt,
+    nodeUrl?: string
+): Promise<DecodedReceipt> {
+    const userOpHash = receipt.userOpHash.toLowerCase()
+    const ownLogs = parseLogs(receipt.logs)
+    // The EntryPoint events about this UserOperation have its hash as the first topic
+    const entryPointLogs = parseLogs(receipt.receipt.logs).filter(log =>
+        log.topics[1]?.toLowerCase() === userOpHash &&
+        !ownLogs.some(own => own.topics[0] === log.topics[0] && own.topics[1] === log.topics[1])
+    )
+    const paymaster = receipt.paymaster && !/^0x0*$/.test(receipt.paymaster) ? receipt.paymaster : null
+
+    const tokens = new Map<string, Token | undefined>()
+    const events: DecodedEvent[] = []
+    let revertReason: string | null = null
+
+    for (const log of [...ownLogs, ...entryPointLogs]) {
+        const decoded = decodeLog(log)
+        if (!decoded) {
+            events.push({
+                address: log.address,
+                name: 'unknown',
+                args: { topic: log.topics[0] },
+                description: `unknown event ${log.topics[0]?.slice(0, 10) ?? '(anonymous)'} from ${log.address}`,
+            })
+            continue
+        }
+
+        let token: Token | undefined
+        if ((decoded.name === 'Transfer' || decoded.name === 'Approval') && nodeUrl) {
+            if (!tokens.has(log.address)) {
+                tokens.set(log.address, await getToken(nodeUrl, log.address as `0x${string}`).catch(() => undefined))
+            }
+            token = tokens.get(log.address)
+        }
+        if (decoded.name === 'UserOperationRevertReason') {
+            revertReason = decodeRevertData(decoded.args.revertReason as Hex)
+        }
+        events.push({
+            address: log.address,
+            name: decoded.name,
+            args: decoded.args,
+            description: describeEvent(decoded.name, decoded.args, token, paymaster),
+        })
+    }
+
+    return {
+        userOpHash: receipt.userOpHash,
+        success: receipt.success,
+        transactionHash: receipt.receipt.transactionHash,
+        blockNumber: receipt.receipt.blockNumber,
+        actualGasCost: receipt.actualGasCost,
+        actualGasUsed: receipt.actualGasUsed,
+        paymaster,
+        revertReason,
+        events,
+    }
+}
+
+export function printDecodedReceipt(decoded: DecodedReceipt) {
+    console.log(`Block:    ${decoded.blockNumber}`)
+    console.log(`Gas cost: ${formatTokenAmount(decoded.actualGasCost, NATIVE_TOKEN)}${decoded.paymaster ? ` (paymaster ${decoded.paymaster})` : ''}`)
+    if (decoded.revertReason) {
+        console.log(`Reverted: ${decoded.revertReason}`)
+    }
+    console.log(`Events (${decoded.events.length}):`)
+    for (const event of decoded.events) {
+        console.log(`  - ${event.description}`)
+    }
+}
@@ -0,0 +1,261 @@
+/**
+ * UserOperation Helpers
+ *
+ * Waiting for a UserOperation with a deadline. The bundler is polled for the
+ * receipt and for the UserOperation itself, and its state is reported as it
+ * changes — and every reportEverySeconds while it does not:
+ *
+ *   - pending:  in the bundler's mempool, not included yet
+ *   - included: in a block, and its calls succeeded
+ *   - reverted: in a block, but its calls reverted (the fee is still paid)
+ *   - dropped:  neither in the mempool nor in a block — nothing was executed
+ *
+ * A UserOperation still pending at the deadline is not a failure: the wait
+ * ends with a UserOperationPendingError (exit code 3) carrying its hash, and
+ * `wdk-candide wait <hash>` picks it up again. A UserOperation stuck because
+ * its fees are too low can be replaced there with --replace: the same
+ * UserOperation and nonce, with bumped fees, signed again
+ * (replaceUserOperation).
+ *
+ * Settings (seconds): USEROP_TIMEOUT_SECONDS (default 180),
+ * USEROP_POLL_INTERVAL_SECONDS (default 2), USEROP_REPLACE_AFTER_SECONDS
+ * (replace automatically once pending this long, where a flow can sign).
+ */
+
+import {
+    Bundler,
+    CandidePaymaster,
+    SafeAccountV0_3_0 as SafeAccount,
+    UserOperationReceiptResult,
+    UserOperationV7,
+} from 'abstractionkit'
+
+import { NotReadyError } from './errors.js'
+import { readPositiveNumberFromEnv, sleep } from './poll.js'
+import { GasPayment, NetworkConfig, describeGasPayment } from './wallet.js'
+
+export type UserOperationStatus = 'pending' | 'included' | 'reverted' | 'dropped'
+
+export type UserOperationReceipt = NonNullable<UserOperationReceiptResult>
+
+export type WaitOptions = {
+    /** Give up waiting (not on the UserOperation) after this many seconds */
+    timeoutSeconds: number
+    intervalSeconds: number
+    /** Repeat an unchanged status this often */
+    reportEverySeconds: number
+    /** Call `replace` once the UserOperation has been pending this long */
+    replaceAfterSeconds?: number
+    /** Send a replacement with bumped fees and return its hash, e.g. with replaceUserOperation */
+    replace?: (userOperationHash: string) => Promise<string>
+}
+
+export const DEFAULT_WAIT_OPTIONS: WaitOptions = {
+    timeoutSeconds: 180,
+    intervalSeconds: 2,
+    reportEverySeconds: 30,
+}
+
+/** Fee bump for replacements; bundlers require at least 10% over the original */
+export const DEFAULT_FEE_BUMP_PERCENT = 20
+
+/** Bundler mempools can lag behind eth_sendUserOperation, so one miss is not a drop yet */
+const DROPPED_AFTER_MISSES = 3
+
+/**
+ * Read wait options from env vars, falling back to the given defaults:
+ *   - USEROP_TIMEOUT_SECONDS
+ *   - USEROP_POLL_INTERVAL_SECONDS
+ *   - USEROP_REPLACE_AFTER_SECONDS (only used together with `replace`)
+ */
+export function getWaitOptionsFromEnv(defaults: WaitOptions = DEFAULT_WAIT_OPTIONS): WaitOptions {
+    const replaceAfterSeconds = process.env.USEROP_REPLACE_AFTER_SECONDS
+        ? readPositiveNumberFromEnv('USEROP_REPLACE_AFTER_SECONDS', 0)
+        : defaults.replaceAfterSeconds
+    return {
+        ...defaults,
+        timeoutSeconds: readPositiveNumberFromEnv('USEROP_TIMEOUT_SECONDS', defaults.timeoutSeconds),
+        intervalSeconds: readPositiveNumberFromEnv('USEROP_POLL_INTERVAL_SECONDS', defaults.intervalSeconds),
+        replaceAfterSeconds,
+    }
+}
+
+/** The deadline passed with the UserOperation still pending; resume with its hash */
+export class UserOperationPendingError extends NotReadyError {
+    name = 'UserOperationPendingError'
+
+    constructor(readonly userOperationHash: string, waitedSeconds: number, replacedHashes: string[]) {
+        super(
+            `UserOperation ${userOperationHash} is still pending after ${waitedSeconds}s. ` +
+            `Nothing has failed — keep waiting, or re-submit it with higher fees:\n` +
+            `  npm run wdk-candide -- wait ${userOperationHash}\n` +
+            `  npm run wdk-candide -- wait ${userOperationHash} --replace`,
+            { userOpHash: userOperationHash, status: 'pending', replaced: replacedHashes }
+        )
+    }
+}
+
+/**
+ * Where a UserOperation is: its receipt once it is in a block, otherwise
+ * whether the bundler still has it.
+ */
+export async function getUserOperationStatus(
+    userOperationHash: string,
+    bundlerUrl: string
+): Promise<{ status: UserOperationStatus; receipt: UserOperationReceipt | null }> {
+    const bundler = new Bundler(bundlerUrl)
+    const receipt = await bundler.getUserOperationReceipt(userOperationHash)
+    if (receipt) {
+        return { status: receipt.success ? 'included' : 'reverted', receipt }
+    }
+    const userOperation = await bundler.getUserOperationByHash(userOperationHash)
+    return { status: userOperation ? 'pending' : 'dropped', receipt: null }
+}
+
+/**
+ * Wait until a UserOperation is in a block and return its receipt — check
+ * `receipt.success`, a reverted UserOperation is returned too. Throws
+ * UserOperationPendingError at the deadline, and an error if the bundler
+ * dropped it.
+ *
+ * With `replace` and `replaceAfterSeconds`, a UserOperation pending that long
+ * is replaced, and the wait goes on for whichever of the two is included.
+ */
+export async function waitForUserOperation(
+    userOperationHash: string,
+    bundlerUrl: string,
+    entryPointAddress: string,
+    options: WaitOptions = getWaitOptionsFromEnv()
+): Promise<UserOperationReceipt> {
+    const bundler = new Bundler(bundlerUrl)
+    const start = Date.now()
+    const elapsed = () => Math.round((Date.now() - start) / 1000)
+    // Every hash sent for this nonce; at most one of them can be included
+    const hashes = [userOperationHash]
+    let pendingSince = start
+    let misses = 0
+    let lastStatus: UserOperationStatus | undefined
+    let lastReport = 0
+
+    for (;;) {
+        const current = hashes[hashes.length - 1]
+        for (const hash of hashes) {
+            const receipt = await bundler.getUserOperationReceipt(hash)
+            if (receipt) {
+                const status = receipt.success ? 'included' : 'reverted'
+                console.log(`  ${status} in block ${receipt.receipt.blockNumber} after ${elapsed()}s`)
+                return receipt
+            }
+        }
+
+        const status: UserOperationStatus = (await bundler.getUserOperationByHash(current)) ? 'pending' : 'dropped'
+        misses = status === 'dropped' ? misses + 1 : 0
+        if (misses >= DROPPED_AFTER_MISSES) {
+            throw new Error(
+                `UserOperation ${current} was dropped: the bundler (EntryPoint ${entryPointAddress}) ` +
+                `no longer has it and it is not in a block, so nothing was executed. Send it again.`
+            )
+        }
+
+        if (status !== lastStatus || Date.now() - lastReport >= options.reportEverySeconds * 1000) {
+            console.log(`  ${status === 'pending' ? 'pending in the bundler mempool' : 'not found yet'} (${elapsed()}s)`)
+            lastStatus = status
+            lastReport = Date.now()
+        }
+
+        if (
+            status === 'pending' && options.replace && options.replaceAfterSeconds !== undefined &&
+            Date.now() - pendingSince >= options.replaceAfterSeconds * 1000
+        ) {
+            const replacement = await options.replace(current)
+            console.log(`  replaced with ${replacement} (same nonce, higher fees)`)
+            hashes.push(replacement)
+            pendingSince = Date.now()
+            lastStatus = undefined
+            continue
+        }
+
+        const remaining = options.timeoutSeconds - (Date.now() - start) / 1000
+        if (remaining <= 0) {
+            throw new UserOperationPendingError(current, elapsed(), hashes.slice(0, -1))
+        }
+        await sleep(Math.min(options.intervalSeconds, remaining))
+    }
+}
+
+// ============================================================================
+// Replacement
+// ============================================================================
+
+/** A UserOperation as JSON-RPC carries it (numbers as hex strings), with bigints */
+export function toUserOperationV7(userOperation: Record<string, unknown>): UserOperationV7 {
+    const big = (value: unknown) => (value === null || value === undefined ? null : BigInt(value as string))
+    return {
+        ...(userOperation as unknown as UserOperationV7),
+        nonce: BigInt(userOperation.nonce as string),
+        callGasLimit: BigInt(userOperation.callGasLimit as string),
+        verificationGasLimit: BigInt(userOperation.verificationGasLimit as string),
+        preVerificationGas: BigInt(userOperation.preVerificationGas as string),
+        maxFeePerGas: BigInt(userOperation.maxFeePerGas as string),
+        maxPriorityFeePerGas: BigInt(userOperation.maxPriorityFeePerGas as string),
+        paymasterVerificationGasLimit: big(userOperation.paymasterVerificationGasLimit),
+        paymasterPostOpGasLimit: big(userOperation.paymasterPostOpGasLimit),
+    }
+}
+
+/**
+ * Re-submit a pending UserOperation with its fees raised by `bumpPercent`:
+ * same calls, same nonce, so only one of the two can be included. Returns the
+ * replacement's hash.
+ *
+ * The Safe owner signs it again. A sponsored UserOperation is sponsored again,
+ * since the paymaster's signature covers the fees; one paying the token
+ * paymaster cannot be replaced here — its calldata carries the token approval
+ * for the old fees.
+ */
+export async function replaceUserOperation(
+    userOperationHash: string,
+    network: NetworkConfig,
+    ownerPrivateKey: string,
+    gas: GasPayment,
+    bumpPercent: number = DEFAULT_FEE_BUMP_PERCENT
+): Promise<string> {
+    const bundler = new Bundler(network.bundlerUrl)
+    const found = await bundler.getUserOperationByHash(userOperationHash)
+    if (!found) {
+        throw new Error(`UserOperation ${userOperationHash} is not known to the bundler — there is nothing to replace`)
+    }
+    if (found.blockNumber !== null) {
+        throw new Error(`UserOperation ${userOperationHash} is already in block ${found.blockNumber}`)
+    }
+
+    const original = toUserOperationV7(found.userOperation as unknown as Record<string, unknown>)
+    const bump = (fee: bigint) => fee + (fee * BigInt(bumpPercent) + 99n) / 100n
+    let replacement: UserOperationV7 = {
+        ...original,
+        maxFeePerGas: bump(original.maxFeePerGas),
+        maxPriorityFeePerGas: bump(original.maxPriorityFeePerGas),
+    }
+
+    if (original.paymaster && original.paymaster !== '0x') {
+        if (gas.mode !== 'sponsored') {
+            throw new Error(
+                `UserOperation ${userOperationHash} pays gas through paymaster ${original.paymaster}, which ` +
+                `${describeGasPayment(gas)} gas cannot sponsor again — only sponsored UserOperations (with ` +
+                `PAYMASTER_URL set) and ones paying native gas can be replaced`
+            )
+        }
+        const paymaster = new CandidePaymaster(gas.paymasterUrl)
+        const [sponsored] = await paymaster.createSponsorPaymasterUserOperation(
+            replacement,
+            network.bundlerUrl,
+            gas.sponsorshipPolicyId,
+            { entrypoint: network.entryPointAddress }
+        )
+        replacement = sponsored
+    }
+
+    const safe = new SafeAccount(original.sender, { entrypointAddress: network.entryPointAddress })
+    replacement.signature = safe.signUserOperation(replacement, [ownerPrivateKey], BigInt(network.chainId))
+    return bundler.sendUserOperation(replacement, network.entryPointAddress)
+}
@@ -0,0 +1,111 @@
+/**
+ * WDK Wallet Factory
+ *
+ * Builds the WDK ERC-4337 wallet (a Safe smart account derived from a seed
+ * phrase) with the same network settings everywhere, and one of three ways to
+ * pay for gas:
+ *
+ *   - sponsored: a Candide paymaster covers gas under a sponsorship policy
+ *   - erc20:     gas is paid in an ERC-20 token through the token paymaster
+ *   - native:    gas is paid in the chain's native coin by the Safe itself
+ *
+ * A wallet is created for one mode, but each UserOperation can be sent in
+ * another (toWdkGasConfig), which is how the gas fallback chain
+ * (GAS_FALLBACK, see lib/config.ts and lib/userop-preview.ts) works.
+ */
+
+import WalletManagerEvmErc4337, {
+    EvmErc4337WalletConfig,
+    WalletAccountReadOnlyEvmErc4337,
+} from '@tetherto/wdk-wallet-evm-erc-4337'
+
+export type NetworkConfig = {
+    chainId: number
+    nodeUrl: string
+    bundlerUrl: string
+    entryPointAddress: string
+}
+
+export type Erc20GasPayment = {
+    mode: 'erc20'
+    paymasterUrl: string
+    paymasterAddress: string
+    tokenAddress: string
+    /** Several accepted tokens: pick one per UserOperation (lib/gas-token.ts) */
+    gasTokens?: { candidates: string[]; preferred?: string }
+}
+
+export type GasPayment =
+    | { mode: 'sponsored'; paymasterUrl: string; sponsorshipPolicyId?: string }
+    | Erc20GasPayment
+    | { mode: 'native' }
+
+/** Safe modules version used by every example */
+export const SAFE_MODULES_VERSION = '0.3.0'
+
+/**
+ * The WDK settings for one gas payment mode. Every flag is set explicitly, so
+ * they can also override a wallet's own mode for a single UserOperation:
+ * `account.sendTransaction(tx, toWdkGasConfig(gas))`.
+ */
+export function toWdkGasConfig(gas: GasPayment): Partial<EvmErc4337WalletConfig> {
+    switch (gas.mode) {
+        case 'sponsored':
+            return {
+                isSponsored: true,
+                useNativeCoins: false,
+                paymasterUrl: gas.paymasterUrl,
+                sponsorshipPolicyId: gas.sponsorshipPolicyId,
+            }
+        case 'erc20':
+            return {
+                isSponsored: false,
+                useNativeCoins: false,
+                paymasterUrl: gas.paymasterUrl,
+                paymasterAddress: gas.paymasterAddress,
+                paymasterToken: { address: gas.tokenAddress },
+            }
+        case 'native':
+            return { isSponsored: false, useNativeCoins: true }
+    }
+}
+
+export function toWdkConfig(network: NetworkConfig, gas: GasPayment): EvmErc4337WalletConfig {
+    return {
+        chainId: network.chainId,
+        provider: network.nodeUrl,
+        bundlerUrl: network.bundlerUrl,
+        entryPointAddress: network.entryPointAddress,
+        safeModulesVersion: SAFE_MODULES_VERSION,
+        ...toWdkGasConfig(gas),
+    } as EvmErc4337WalletConfig
+}
+
+/** "sponsored", "ERC-20 (0x...)", "ERC-20 (any of 3 tokens)" or "native" — for messages */
+export function describeGasPayment(gas: GasPayment): string {
+    if (gas.mode !== 'erc20') {
+        return gas.mode
+    }
+    return gas.gasTokens ? `ERC-20 (any of ${gas.gasTokens.candidates.length} tokens)` : `ERC-20 (${gas.tokenAddress})`
+}
+
+/**
+ * Create the WDK wallet for a seed phrase. Account 0 is the Safe the
+ * examples use: `const account = await wallet.getAccount(0)`.
+ */
+export function createWallet(
+    seedPhrase: string,
+    network: NetworkConfig,
+    gas: GasPayment
+): WalletManagerEvmErc4337 {
+    return new WalletManagerEvmErc4337(seedPhrase, toWdkConfig(network, gas))
+}
+
+/** A read-only WDK account for any Safe address (balances, quotes, receipts) */
+export function createReadOnlyAccount(
+    address: string,
+    network: NetworkConfig,
+    gas: GasPayment
+): WalletAccountReadOnlyEvmErc4337 {
+    return new WalletAccountReadOnlyEvmErc4337(address, toWdkConfig(network, gas))
+}
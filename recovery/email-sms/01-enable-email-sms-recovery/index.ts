@@ -9,6 +9,10 @@
  *   2. Deploy the Safe with Social Recovery Module enabled
  *   3. Register email and/or SMS channels with Candide Guardian Service
  *   4. Add the Candide Guardian on-chain (can sign recovery requests)
+ *
+ * Each UserOperation is previewed (simulation, fee) and confirmed before it is
+ * sent; --yes skips the confirmation, and --dry-run previews the deployment
+ * and stops before registering any channel.
  * 
  * The Candide Guardian acts as a "custodial guardian" - when you lose access
  * to your account, you verify your identity via OTP (email/SMS) and the
@@ -25,98 +29,35 @@
  *   - SEED_PHRASE: Your BIP-39 seed phrase (will generate if not provided)
  *   - SPONSORSHIP_POLICY_ID: Gas sponsorship policy ID
  *   - USER_EMAIL: Pre-fill email (will prompt if not set)
+ *   - USER_PHONE: Pre-fill phone number (will prompt if not set)
+ *   - RECOVERY_CHANNELS: email, sms or both (will prompt if not set)
+ *   - OTP_FILE / OTP_HOOK_URL: Where to read OTP codes from (see lib/otp.ts)
+ *   - GRACE_PERIOD: SRM grace period selector (default: After3Minutes)
  * 
- * Run: npm run enable-email-sms-recovery
+ * Every prompt has a flag equivalent (--channels, --email, --phone,
+ * --otp-file, --otp-hook) and can be answered from an inputs JSON file with
+ * --input; add --non-interactive to fail instead of prompting (see
+ * lib/input.ts).
+ *
+ * Run: npm run enable-email-sms-recovery [-- --yes | --dry-run]
  */
 
 import * as dotenv from 'dotenv'
-import * as readline from 'readline'
-
-import WalletManagerEvmErc4337 from '@tetherto/wdk-wallet-evm-erc-4337'
-import {
-    Bundler,
-    SendUseroperationResponse,
-    SafeAccountV0_3_0 as SafeAccount,
-    getSafeMessageEip712Data,
-    SAFE_MESSAGE_PRIMARY_TYPE,
-    SocialRecoveryModule,
-    SocialRecoveryModuleGracePeriodSelector,
-} from 'abstractionkit'
-import { RecoveryByCustodialGuardian, SafeRecoveryServiceSdkError } from 'safe-recovery-service-sdk'
-import { TypedDataDomain } from 'viem'
-import { mnemonicToAccount, generateMnemonic, english } from 'viem/accounts'
-
-// ============================================================================
-// Configuration
-// ============================================================================
-
-const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
-
-// ============================================================================
-// Helper Functions
-// ============================================================================
-
-/** Prompt user for input */
-async function askQuestion(question: string): Promise<string> {
-    return new Promise((resolve) => rl.question(question, resolve))
-}
-
-/**
- * Wait for a UserOperation to be included in a block
- * Uses abstractionkit's SendUseroperationResponse.included() which polls
- * the bundler until the UserOperation is confirmed on-chain.
- */
-async function waitForUserOperation(
-    userOperationHash: string,
-    bundlerUrl: string,
-    entryPointAddress: string
-) {
-    const bundler = new Bundler(bundlerUrl)
-    const response = new SendUseroperationResponse(userOperationHash, bundler, entryPointAddress)
-    return response.included()
-}
 
-/**
- * Sign a SIWE message using EIP-1271 (Safe's signature scheme)
- * 
- * The Safe contract validates off-chain messages using its own signature scheme.
- * We wrap the message in Safe-specific EIP-712 format and use buildSignaturesFromSingerSignaturePairs
- * to format the signature correctly for the Safe contract.
- */
-async function signSafeMessage(
-    accountAddress: string,
-    chainId: number,
-    message: string,
-    ownerAccount: ReturnType<typeof mnemonicToAccount>
-): Promise<string> {
-    const safeTypedData = getSafeMessageEip712Data(
-        accountAddress,
-        BigInt(chainId),
-        message
-    )
-
-    const ownerSignature = await ownerAccount.signTypedData({
-        domain: safeTypedData.domain as TypedDataDomain,
-        types: safeTypedData.types,
-        primaryType: SAFE_MESSAGE_PRIMARY_TYPE,
-        message: safeTypedData.messageValue as Record<string, unknown>
-    } as Parameters<typeof ownerAccount.signTypedData>[0])
-
-    // Use SafeAccountV0_3_0.buildSignaturesFromSingerSignaturePairs to format
-    // the signature in the format the Safe contract expects
-    return SafeAccount.buildSignaturesFromSingerSignaturePairs([
-        { signer: ownerAccount.address, signature: ownerSignature }
-    ])
-}
+import { SafeAccountV0_3_0 as SafeAccount, SocialRecoveryModule } from 'abstractionkit'
+import { RecoveryByCustodialGuardian } from 'safe-recovery-service-sdk'
+import { mnemonicToAccount, generateMnemonic, english } from 'viem/accounts'
 
-/**
- * Print a section header for better readability
- */
-function printSection(title: string) {
-    console.log('\n' + '═'.repeat(60))
-    console.log(`  ${title}`)
-    console.log('═'.repeat(60))
-}
+import { printSection, runMain } from '../../../lib/cli.js'
+import { getGasFallbackFromEnv, loadConfig } from '../../../lib/config.js'
+import { getGracePeriodName, resolveSetupGracePeriodSelector } from '../../../lib/grace-period.js'
+import { getChannelChoice, getInput } from '../../../lib/input.js'
+import { getOtpProvider } from '../../../lib/otp.js'
+import { signSafeMessage } from '../../../lib/signing.js'
+import { sendWithPreview } from '../../../lib/userop-preview.js'
+import { decodeUserOperationReceipt, printDecodedReceipt } from '../../../lib/userop-receipt.js'
+import { waitForUserOperation } from '../../../lib/userop.js'
+import { GasPayment, createWallet } from '../../../lib/wallet.js'
 
 // ============================================================================
 // Main Function
@@ -125,33 +66,32 @@ function printSection(title: string) {
 async function main() {
     dotenv.config()
 
-    console.log('\n' + '═'.repeat(60))
-    console.log('  Email/SMS Account Recovery Setup')
-    console.log('═'.repeat(60))
+    printSection('Email/SMS Account Recovery Setup')
 
     // ---------------------------------------------------------------------------
     // Step 1: Load Configuration
     // ---------------------------------------------------------------------------
     printSection('Configuration')
 
-    const requiredEnvVars = [
-        'CHAIN_ID', 'RECOVERY_SERVICE_URL', 'BUNDLER_URL', 'NODE_URL',
-        'PAYMASTER_URL', 'ENTRY_POINT_ADDRESS',
-    ]
-    const missing = requiredEnvVars.filter(v => !process.env[v])
-    if (missing.length > 0) {
-        throw new Error(`Missing required: ${missing.join(', ')}`)
-    }
+    const config = loadConfig(
+        [
+            'CHAIN_ID', 'RECOVERY_SERVICE_URL', 'BUNDLER_URL', 'NODE_URL',
+            'PAYMASTER_URL', 'ENTRY_POINT_ADDRESS',
+        ],
+        ['SPONSORSHIP_POLICY_ID', 'SEED_PHRASE', 'USER_EMAIL', 'USER_PHONE']
+    )
 
-    const chainId = Number(process.env.CHAIN_ID)
-    const serviceUrl = process.env.RECOVERY_SERVICE_URL as string
-    const bundlerUrl = process.env.BUNDLER_URL as string
-    const nodeUrl = process.env.NODE_URL as string
-    const paymasterUrl = process.env.PAYMASTER_URL as string
-    const sponsorshipPolicyId = process.env.SPONSORSHIP_POLICY_ID as string
-    const entryPointAddress = process.env.ENTRY_POINT_ADDRESS as string
-    const seedPhrase = process.env.SEED_PHRASE || generateMnemonic(english) as string
-    const userEmailFromEnv = process.env.USER_EMAIL as string
+    const chainId = config.CHAIN_ID
+    const serviceUrl = config.RECOVERY_SERVICE_URL
+    const bundlerUrl = config.BUNDLER_URL
+    const nodeUrl = config.NODE_URL
+    const paymasterUrl = config.PAYMASTER_URL
+    const sponsorshipPolicyId = config.SPONSORSHIP_POLICY_ID
+    const entryPointAddress = config.ENTRY_POINT_ADDRESS
+    const seedPhrase = config.SEED_PHRASE ?? generateMnemonic(english)
+    const userEmailFromEnv = config.USER_EMAIL
+    const userPhoneFromEnv = config.USER_PHONE
+    const getOtp = getOtpProvider()
 
     console.log(`Chain ID:          ${chainId}`)
     console.log(`Recovery Service: ${serviceUrl}`)
@@ -161,16 +101,10 @@ async function main() {
     // ---------------------------------------------------------------------------
     printSection('Initialize Safe Account')
 
-    const wallet = new WalletManagerEvmErc4337(seedPhrase, {
-        chainId,
-        provider: nodeUrl,
-        bundlerUrl,
-        entryPointAddress,
-        safeModulesVersion: '0.3.0',
-        isSponsored: true,
-        paymasterUrl,
-        sponsorshipPolicyId,
-    })
+    const network = { chainId, nodeUrl, bundlerUrl, entryPointAddress }
+    const gas: GasPayment = { mode: 'sponsored', paymasterUrl, sponsorshipPolicyId }
+    const gasFallback = getGasFallbackFromEnv(gas)
+    const wallet = createWallet(seedPhrase, network, gas)
 
     const account = await wallet.getAccount(0)
     const accountAddress = await account.getAddress()
@@ -183,8 +117,12 @@ async function main() {
     // ---------------------------------------------------------------------------
     printSection('Deploy Safe')
 
-    // Using 3-minute grace period for testing (use After3Days/After7Days/After14Days for production)
-    const srm = new SocialRecoveryModule(SocialRecoveryModuleGracePeriodSelector.After3Minutes)
+    // Grace period from GRACE_PERIOD (After3Minutes by default for testing;
+    // use After3Days/After7Days/After14Days for production)
+    const gracePeriodSelector = await resolveSetupGracePeriodSelector(nodeUrl, accountAddress)
+    const srm = new SocialRecoveryModule(gracePeriodSelector)
+
+    console.log(`Grace period: ${getGracePeriodName(gracePeriodSelector)}`)
 
     // Check if the module is already enabled. If the Safe is not yet deployed
     // (counterfactual), this returns false and we proceed with enablement.
@@ -197,20 +135,37 @@ async function main() {
         const enableModuleTx = srm.createEnableModuleMetaTransaction(accountAddress)
 
         console.log('Enabling Social Recovery Module...')
-        const deployResult = await account.sendTransaction([enableModuleTx])
-        console.log(`✓ UserOperation submitted: ${deployResult.hash}`)
+        const { preview, hash } = await sendWithPreview(account, [enableModuleTx], network, gasFallback)
+        if (!hash) {
+            account.dispose()
+            wallet.dispose()
+            return { safeAccountAddress: accountAddress, chainId, dryRun: true, preview }
+        }
+        console.log(`✓ UserOperation submitted: ${hash}`)
 
         console.log('Waiting for confirmation...')
-        const receipt = await waitForUserOperation(deployResult.hash, bundlerUrl, entryPointAddress)
+        const receipt = await waitForUserOperation(hash, bundlerUrl, entryPointAddress)
+        const decoded = await decodeUserOperationReceipt(receipt, nodeUrl)
+        printDecodedReceipt(decoded)
 
         if (!receipt.success) {
-            console.log('✗ Failed to enable Social Recovery Module')
-            rl.close()
-            return
+            throw new Error(
+                `Failed to enable Social Recovery Module: ${decoded.revertReason ?? 'no reason given'}. ` +
+                `Tx: ${receipt.receipt.transactionHash}`
+            )
         }
         console.log(`✓ Confirmed: ${receipt.receipt.transactionHash}`)
     }
 
+    // The guardian to add is only known once the channels are registered,
+    // which is not something a dry run should do
+    if (process.argv.includes('--dry-run')) {
+        console.log('\nDry run — stopping before channel registration. Re-run without --dry-run to apply.')
+        account.dispose()
+        wallet.dispose()
+        return { safeAccountAddress: accountAddress, chainId, dryRun: true }
+    }
+
     // ---------------------------------------------------------------------------
     // Step 4: Choose Recovery Channels
     // ---------------------------------------------------------------------------
@@ -221,26 +176,29 @@ async function main() {
     console.log('  2. SMS only')
     console.log('  3. Both email AND SMS (more secure)')
 
-    const choice = parseInt(await askQuestion('Enter choice (1-3): '))
-    
-    if (choice < 1 || choice > 3) {
-        console.log('Invalid choice')
-        rl.close()
-        return
-    }
-
-    const enableEmail = choice === 1 || choice === 3
-    const enableSms = choice === 2 || choice === 3
+    const { email: enableEmail, sms: enableSms } = await getChannelChoice()
 
-    // Get email/phone from user if not provided in env
-    let finalUserEmail = userEmailFromEnv
-    if (enableEmail && !finalUserEmail) {
-        finalUserEmail = await askQuestion('Enter your email address: ')
+    // Get email/phone from user if not provided by flag, env or inputs JSON
+    let finalUserEmail = ''
+    if (enableEmail) {
+        finalUserEmail = await getInput({
+            name: 'email',
+            flag: '--email',
+            env: 'USER_EMAIL',
+            value: userEmailFromEnv,
+            question: 'Enter your email address: ',
+        })
     }
 
     let finalUserPhone = ''
     if (enableSms) {
-        finalUserPhone = await askQuestion('Enter your phone number (+1234567890): ')
+        finalUserPhone = await getInput({
+            name: 'phone',
+            flag: '--phone',
+            env: 'USER_PHONE',
+            value: userPhoneFromEnv,
+            question: 'Enter your phone number (+1234567890): ',
+        })
     }
 
     // ---------------------------------------------------------------------------
@@ -273,7 +231,7 @@ async function main() {
             signature
         )
 
-        const otpCode = await askQuestion(`OTP sent to ${finalUserEmail} — enter code: `)
+        const otpCode = await getOtp({ channel: 'email', target: finalUserEmail })
         
         const result = await guardianService.submitRegistrationChallenge(challengeId, otpCode)
         
@@ -299,7 +257,7 @@ async function main() {
             signature
         )
 
-        const otpCode = await askQuestion(`OTP sent to ${finalUserPhone} — enter code: `)
+        const otpCode = await getOtp({ channel: 'sms', target: finalUserPhone })
         
         const result = await guardianService.submitRegistrationChallenge(challengeId, otpCode)
         
@@ -317,9 +275,7 @@ async function main() {
     printSection('Add Guardian On-Chain')
 
     if (!candideGuardianAddress) {
-        console.log('✗ No guardian address obtained')
-        rl.close()
-        return
+        throw new Error('No guardian address obtained from the guardian service')
     }
 
     const addGuardianTx = srm.createAddGuardianWithThresholdMetaTransaction(
@@ -328,16 +284,22 @@ async function main() {
     )
 
     console.log(`Adding guardian: ${candideGuardianAddress}`)
-    const addResult = await account.sendTransaction([addGuardianTx])
-    console.log(`✓ UserOperation submitted: ${addResult.hash}`)
+    const { hash: addHash } = await sendWithPreview(account, [addGuardianTx], network, gasFallback)
+    if (!addHash) {
+        throw new Error('Guardian was not added')
+    }
+    console.log(`✓ UserOperation submitted: ${addHash}`)
 
     console.log('Waiting for confirmation...')
-    const guardianReceipt = await waitForUserOperation(addResult.hash, bundlerUrl, entryPointAddress)
+    const guardianReceipt = await waitForUserOperation(addHash, bundlerUrl, entryPointAddress)
+    const decodedGuardianReceipt = await decodeUserOperationReceipt(guardianReceipt, nodeUrl)
+    printDecodedReceipt(decodedGuardianReceipt)
 
     if (!guardianReceipt.success) {
-        console.log('✗ Failed to add guardian')
-        rl.close()
-        return
+        throw new Error(
+            `Failed to add guardian: ${decodedGuardianReceipt.revertReason ?? 'no reason given'}. ` +
+            `Tx: ${guardianReceipt.receipt.transactionHash}`
+        )
     }
     console.log(`✓ Guardian added in: ${guardianReceipt.receipt.transactionHash}`)
 
@@ -363,9 +325,7 @@ async function main() {
     // ---------------------------------------------------------------------------
     // Done
     // ---------------------------------------------------------------------------
-    console.log('\n' + '═'.repeat(60))
-    console.log('  Setup Complete!')
-    console.log('═'.repeat(60))
+    printSection('Setup Complete!')
     console.log('\nAdd these to your .env to setup alerts or cancel a recovery:')
     console.log(`  SEED_PHRASE="${seedPhrase}"`)
     console.log(`  SAFE_ACCOUNT_ADDRESS=${accountAddress}`)
@@ -376,21 +336,25 @@ async function main() {
     // Cleanup
     account.dispose()
     wallet.dispose()
-    rl.close()
+
+    return {
+        safeAccountAddress: accountAddress,
+        chainId,
+        gracePeriod: getGracePeriodName(gracePeriodSelector),
+        guardianAddress: candideGuardianAddress,
+        channels: registrations.map((r: { channel: string; target: string }) => ({
+            channel: r.channel,
+            target: r.target,
+        })),
+        userOpHash: addHash,
+        transactionHash: guardianReceipt.receipt.transactionHash,
+        success: guardianReceipt.success,
+        events: decodedGuardianReceipt.events,
+    }
 }
 
 // ============================================================================
 // Run
 // ============================================================================
 
-main()
-    .then(() => process.exit(0))
-    .catch((error) => {
-        if (error instanceof SafeRecoveryServiceSdkError) {
-            console.error('\nGuardian Service Error:', error.stringify())
-        } else {
-            console.error('\nError:', error instanceof Error ? error.message : error)
-        }
-        rl.close()
-        process.exit(1)
-    })
+runMain(main)
@@ -9,14 +9,23 @@
  *   1. Request a signature challenge from the Candide Guardian Service
  *   2. Verify identity via OTP on all registered channels (email and/or SMS)
  *   3. Create and execute the recovery request on-chain
- *   4. Wait for the 3-minute grace period
+ *   4. Wait for the grace period (GRACE_PERIOD, 3 minutes by default)
  *   5. Finalize the recovery
- *   6. Verify the new owner on-chain
+ *   6. Verify the new owners and threshold on-chain
+ *
+ * The Safe can be recovered into several owners with a new threshold, e.g.
+ * --new-owners <phone>,<laptop>,<hardware> --new-threshold 2 (see
+ * lib/recovery-target.ts); the current and new owner sets are shown before
+ * the signature challenge is requested.
  *
  * Recovery status progression: PENDING → EXECUTED → FINALIZED
  *
+ * Progress is saved to a recovery session file after every step. If the flow
+ * is interrupted, re-run it (or `npm run recovery-session resume`) to continue
+ * from the last completed step.
+ *
  * Libraries used:
- *   - abstractionkit: SafeAccountV0_3_0 for on-chain queries
+ *   - abstractionkit: SocialRecoveryModule for on-chain state queries
  *   - safe-recovery-service-sdk: RecoveryByCustodialGuardian and RecoveryByGuardian
  *
  * Required env vars (see .env.example):
@@ -25,44 +34,45 @@
  *   - NODE_URL: JSON-RPC provider URL
  *
  * Optional env vars:
- *   - SAFE_ACCOUNT_ADDRESS: Safe to recover (prompted if not set)
- *   - NEW_OWNER_ADDRESS: Address to recover ownership to (generated if not set)
+ *   - SAFE_ACCOUNT_ADDRESS: Safe to recover (--safe; prompted if not set)
+ *   - OTP_FILE / OTP_HOOK_URL: Where to read OTP codes from (see lib/otp.ts)
+ *   - NEW_OWNER_ADDRESS: Address(es) to recover ownership to, comma-separated
+ *     (--new-owners; generated if not set)
+ *   - NEW_SAFE_THRESHOLD: Safe threshold after recovery (--new-threshold; default: 1)
+ *   - POLL_TIMEOUT_SECONDS / POLL_INTERVAL_SECONDS / POLL_MAX_INTERVAL_SECONDS / POLL_BACKOFF:
+ *     tune how long and how often on-chain state is polled
+ *   - RECOVERY_SESSION_FILE: Where recovery progress is saved (default: .recovery-sessions.json)
+ *   - GRACE_PERIOD: Expected SRM grace period (default: After3Minutes; auto to detect)
+ *
+ * With --non-interactive the flow never prompts: OTP codes must come from
+ * --otp-file, --otp-hook or the inputs JSON (--input, see lib/input.ts).
  *
  * Run: npm run recovery-flow-email-sms
  */
 
-import {
-    SafeAccountV0_3_0 as SafeAccount,
-    SocialRecoveryModuleGracePeriodSelector,
-} from 'abstractionkit'
+import { SocialRecoveryModule } from 'abstractionkit'
 import * as dotenv from 'dotenv'
-import * as readline from 'readline'
-import {
-    RecoveryByCustodialGuardian,
-    RecoveryByGuardian,
-    SafeRecoveryServiceSdkError,
-} from 'safe-recovery-service-sdk'
-import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
-
-// ============================================================================
-// Configuration
-// ============================================================================
-
-const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
+import { RecoveryByCustodialGuardian, RecoveryByGuardian } from 'safe-recovery-service-sdk'
 
-// ============================================================================
-// Helper Functions
-// ============================================================================
-
-async function askQuestion(question: string): Promise<string> {
-    return new Promise((resolve) => rl.question(question, resolve))
-}
-
-function printSection(title: string) {
-    console.log('\n' + '═'.repeat(60))
-    console.log(`  ${title}`)
-    console.log('═'.repeat(60))
-}
+import { printSection, runMain } from '../../../lib/cli.js'
+import { loadConfig } from '../../../lib/config.js'
+import { getGracePeriodName, resolveGracePeriodSelector } from '../../../lib/grace-period.js'
+import { getSafeAccountAddress } from '../../../lib/input.js'
+import { getOtpProvider } from '../../../lib/otp.js'
+import {
+    waitForGracePeriod,
+    waitForRecoveryExecuted,
+    waitForRecoveryFinalized,
+} from '../../../lib/recovery-polling.js'
+import {
+    createRecoverySession,
+    getSessionFilePath,
+    loadRecoverySession,
+    recordGuardianSignature,
+    summarizeRecoverySession,
+    updateRecoverySession,
+} from '../../../lib/recovery-session.js'
+import { printRecoveryTargetPreview, resolveRecoveryTarget } from '../../../lib/recovery-target.js'
 
 // ============================================================================
 // Main Function
@@ -71,48 +81,41 @@ function printSection(title: string) {
 async function main() {
     dotenv.config()
 
-    console.log('\n' + '═'.repeat(60))
-    console.log('  Recovery Flow (Candide Guardian)')
-    console.log('═'.repeat(60))
+    printSection('Recovery Flow (Candide Guardian)')
 
     // ---------------------------------------------------------------------------
     // Step 1: Load Configuration
     // ---------------------------------------------------------------------------
     printSection('Configuration')
 
-    const requiredEnvVars = ['CHAIN_ID', 'RECOVERY_SERVICE_URL', 'NODE_URL']
-    const missing = requiredEnvVars.filter(v => !process.env[v])
-    if (missing.length > 0) {
-        throw new Error(`Missing required env vars: ${missing.join(', ')}`)
-    }
+    const config = loadConfig(
+        ['CHAIN_ID', 'RECOVERY_SERVICE_URL', 'NODE_URL'],
+        ['SAFE_ACCOUNT_ADDRESS']
+    )
 
-    const chainId = BigInt(process.env.CHAIN_ID as string)
-    const serviceUrl = process.env.RECOVERY_SERVICE_URL as string
-    const nodeUrl = process.env.NODE_URL as string
-
-    const safeAccountAddress = process.env.SAFE_ACCOUNT_ADDRESS
-        ? process.env.SAFE_ACCOUNT_ADDRESS
-        : (await askQuestion('Enter Safe account address: ')).trim()
-
-    // New owner: read from env or generate a demo key.
-    // IMPORTANT: if generated, the private key is printed below — save it before
-    // continuing, or you will recover into an account you cannot access.
-    let newOwnerAddress: `0x${string}`
-    if (process.env.NEW_OWNER_ADDRESS) {
-        newOwnerAddress = process.env.NEW_OWNER_ADDRESS as `0x${string}`
-        console.log(`\nNew owner (from env): ${newOwnerAddress}`)
-    } else {
-        const newOwnerPrivateKey = generatePrivateKey()
-        newOwnerAddress = privateKeyToAccount(newOwnerPrivateKey).address as `0x${string}`
-        console.log(`\n⚠️  NEW OWNER KEY GENERATED — SAVE THIS BEFORE CONTINUING`)
-        console.log(`   Private key: ${newOwnerPrivateKey}`)
-        console.log(`   Address:     ${newOwnerAddress}`)
-        console.log(`   Add to .env: NEW_OWNER_ADDRESS=${newOwnerAddress}`)
+    const chainId = BigInt(config.CHAIN_ID)
+    const serviceUrl = config.RECOVERY_SERVICE_URL
+    const nodeUrl = config.NODE_URL
+
+    const safeAccountAddress = await getSafeAccountAddress(config.SAFE_ACCOUNT_ADDRESS)
+
+    // An unfinished session for this Safe means a previous run was interrupted —
+    // resume it with the same recovery target instead of starting over.
+    const previousSession = loadRecoverySession(Number(chainId), safeAccountAddress)
+    const resumedSession = previousSession?.status !== 'FINALIZED' ? previousSession : undefined
+
+    // New owners and threshold: from the resumed session, from --new-owners /
+    // NEW_OWNER_ADDRESS and --new-threshold / NEW_SAFE_THRESHOLD, or a generated
+    // demo key — whose private key is printed and must be saved before continuing.
+    if (resumedSession) {
+        console.log(`\nResuming recovery session (status: ${resumedSession.status})`)
     }
+    const target = resolveRecoveryTarget(safeAccountAddress, resumedSession)
 
-    console.log(`\nSafe Account:      ${safeAccountAddress}`)
-    console.log(`New owner (target): ${newOwnerAddress}`)
-    console.log(`Recovery Service:  ${serviceUrl}`)
+    console.log(`\nSafe Account:     ${safeAccountAddress}`)
+    console.log(`Recovery Service: ${serviceUrl}`)
+    console.log()
+    await printRecoveryTargetPreview(nodeUrl, safeAccountAddress, target)
 
     // ---------------------------------------------------------------------------
     // Step 2: Initialize Services
@@ -122,67 +125,98 @@ async function main() {
     const custodialGuardianService = new RecoveryByCustodialGuardian(serviceUrl, chainId)
 
     // RecoveryByGuardian is used for finalization. Initialize it up front with
-    // the same grace period selector as the setup example (01).
+    // the same grace period selector as the setup example (01), detected from
+    // the module actually enabled on the Safe.
+    const gracePeriodSelector = await resolveGracePeriodSelector(nodeUrl, safeAccountAddress)
+    const srm = new SocialRecoveryModule(gracePeriodSelector)
+
     const recoveryService = new RecoveryByGuardian(
         serviceUrl,
         chainId,
-        SocialRecoveryModuleGracePeriodSelector.After3Minutes
+        gracePeriodSelector
     )
 
-    console.log('✓ Services initialized')
-
-    // ---------------------------------------------------------------------------
-    // Step 3: Request Signature Challenge
-    // ---------------------------------------------------------------------------
-    printSection('Request Signature Challenge')
-
-    const signatureRequest =
-        await custodialGuardianService.requestCustodialGuardianSignatureChallenge(
-            safeAccountAddress,
-            [newOwnerAddress],
-            1 // new Safe threshold after recovery
-        )
-
-    console.log('Registered channels to verify:')
-    signatureRequest.auths.forEach((auth, i) => {
-        console.log(`  ${i + 1}. ${auth.channel} — ${auth.target}`)
+    // Every completed step is recorded here so the flow can be resumed
+    const session = resumedSession ?? createRecoverySession({
+        safeAccountAddress,
+        chainId: Number(chainId),
+        flow: 'email-sms',
+        gracePeriod: getGracePeriodName(gracePeriodSelector),
+        newOwners: target.newOwners,
+        newThreshold: target.newThreshold,
     })
-    console.log('\nAll channels must be verified to proceed.')
-
-    // ---------------------------------------------------------------------------
-    // Step 4: Verify Identity via OTP
-    // ---------------------------------------------------------------------------
-    printSection('Verify Identity')
 
-    let verificationResult
+    console.log(`Grace period: ${getGracePeriodName(gracePeriodSelector)}`)
+    console.log(`Session file: ${getSessionFilePath()}`)
+    console.log('✓ Services initialized')
 
-    for (const auth of signatureRequest.auths) {
-        const otpCode = await askQuestion(`\nOTP sent to ${auth.target} — enter code: `)
+    // The custodian guardian signature is saved once all OTPs are verified, so an
+    // interrupted run does not have to go through verification again.
+    let custodianSignature = session.signatures[0]
 
-        verificationResult =
-            await custodialGuardianService.submitCustodialGuardianSignatureChallenge(
-                signatureRequest.requestId,
-                auth.challengeId,
-                otpCode
+    if (custodianSignature) {
+        printSection('Verify Identity')
+        console.log(`Guardian signature already obtained from ${custodianSignature.signer}`)
+    } else {
+        // ---------------------------------------------------------------------------
+        // Step 3: Request Signature Challenge
+        // ---------------------------------------------------------------------------
+        printSection('Request Signature Challenge')
+
+        const signatureRequest =
+            await custodialGuardianService.requestCustodialGuardianSignatureChallenge(
+                safeAccountAddress,
+                target.newOwners,
+                target.newThreshold
             )
 
-        if (verificationResult.success) {
-            console.log(`✓ ${auth.channel} verified`)
-        } else {
-            console.log(`✗ ${auth.channel} verification failed`)
-            rl.close()
-            return
+        console.log('Registered channels to verify:')
+        signatureRequest.auths.forEach((auth, i) => {
+            console.log(`  ${i + 1}. ${auth.channel} — ${auth.target}`)
+        })
+        console.log('\nAll channels must be verified to proceed.')
+
+        // ---------------------------------------------------------------------------
+        // Step 4: Verify Identity via OTP
+        // ---------------------------------------------------------------------------
+        printSection('Verify Identity')
+
+        let verificationResult
+
+        const getOtp = getOtpProvider()
+        for (const auth of signatureRequest.auths) {
+            console.log()
+            const otpCode = await getOtp({ channel: auth.channel, target: auth.target })
+
+            verificationResult =
+                await custodialGuardianService.submitCustodialGuardianSignatureChallenge(
+                    signatureRequest.requestId,
+                    auth.challengeId,
+                    otpCode
+                )
+
+            if (verificationResult.success) {
+                console.log(`✓ ${auth.channel} verified`)
+            } else {
+                throw new Error(`${auth.channel} verification failed for ${auth.target}`)
+            }
+        }
+
+        if (
+            !verificationResult ||
+            !verificationResult.custodianGuardianAddress ||
+            !verificationResult.custodianGuardianSignature
+        ) {
+            throw new Error('Failed to obtain guardian signature after verification')
         }
-    }
 
-    if (
-        !verificationResult ||
-        !verificationResult.custodianGuardianAddress ||
-        !verificationResult.custodianGuardianSignature
-    ) {
-        console.log('Error: Failed to obtain guardian signature after verification')
-        rl.close()
-        return
+        recordGuardianSignature(
+            session,
+            verificationResult.custodianGuardianAddress as string,
+            verificationResult.custodianGuardianSignature as string,
+            false
+        )
+        custodianSignature = session.signatures[0]
     }
 
     // ---------------------------------------------------------------------------
@@ -190,84 +224,90 @@ async function main() {
     // ---------------------------------------------------------------------------
     printSection('Execute Recovery')
 
-    console.log('Creating and executing recovery request...')
+    if (session.status === 'SIGNING') {
+        console.log('Creating and executing recovery request...')
 
-    const recoveryRequest =
-        await custodialGuardianService.createAndExecuteRecoveryRequest(
-            safeAccountAddress,
-            [newOwnerAddress],
-            1, // new Safe threshold after recovery
-            verificationResult.custodianGuardianAddress as string,
-            verificationResult.custodianGuardianSignature as string
-        )
+        const recoveryRequest =
+            await custodialGuardianService.createAndExecuteRecoveryRequest(
+                safeAccountAddress,
+                target.newOwners,
+                target.newThreshold,
+                custodianSignature.signer,
+                custodianSignature.signature
+            )
+
+        recordGuardianSignature(session, custodianSignature.signer, custodianSignature.signature, true)
+        updateRecoverySession(session, {
+            recoveryRequestId: recoveryRequest.id,
+            emoji: recoveryRequest.emoji,
+            status: 'EXECUTING',
+        })
 
-    console.log(`Recovery executed. Status: ${recoveryRequest.status}`)
+        console.log(`Recovery request created. Status: ${recoveryRequest.status}`)
+    }
+
+    if (session.status === 'EXECUTING') {
+        // Poll until the SRM reports the recovery as executed and the service agrees
+        await waitForRecoveryExecuted(srm, nodeUrl, safeAccountAddress, recoveryService)
+        updateRecoverySession(session, { status: 'EXECUTED' })
+    }
+
+    console.log('Recovery executed on-chain')
+
+    const recoveryRequestId = session.recoveryRequestId as string
 
     // ---------------------------------------------------------------------------
     // Step 6: Wait for Grace Period
     // ---------------------------------------------------------------------------
     printSection('Grace Period')
 
-    console.log(
-        'Waiting 3-minute grace period (the original owner can cancel during this window)...'
-    )
-    await new Promise((resolve) => setTimeout(resolve, 4 * 60 * 1000))
+    if (session.status === 'EXECUTED') {
+        console.log(
+            `Waiting for the ${getGracePeriodName(gracePeriodSelector)} grace period ` +
+            `(the original owner can cancel during this window)...`
+        )
+        console.log('Safe to interrupt — re-run this flow or `npm run recovery-session resume`.')
+        await waitForGracePeriod(srm, nodeUrl, safeAccountAddress)
+    }
 
     // ---------------------------------------------------------------------------
     // Step 7: Finalize Recovery
     // ---------------------------------------------------------------------------
     printSection('Finalize Recovery')
 
-    const finalizationResult = await recoveryService.finalizeRecoveryRequest(
-        recoveryRequest.id
-    )
+    if (session.status === 'EXECUTED') {
+        const finalizationResult = await recoveryService.finalizeRecoveryRequest(
+            recoveryRequestId
+        )
 
-    if (!finalizationResult) {
-        console.log('Recovery finalization failed')
-        rl.close()
-        return
-    }
+        if (!finalizationResult) {
+            throw new Error('Recovery finalization failed')
+        }
 
-    console.log('Recovery finalized successfully')
+        updateRecoverySession(session, { status: 'FINALIZING' })
+    }
 
-    // Wait for the finalization transaction to land
-    await new Promise((resolve) => setTimeout(resolve, 30 * 1000))
+    console.log('Finalization submitted, waiting for it to land on-chain...')
 
     // ---------------------------------------------------------------------------
-    // Step 8: Verify New Owner On-Chain
+    // Step 8: Verify New Owners and Threshold On-Chain
     // ---------------------------------------------------------------------------
     printSection('Verify')
 
-    const smartAccount = new SafeAccount(safeAccountAddress)
-    const newOwners = await smartAccount.getOwners(nodeUrl)
+    const { owners, threshold } = await waitForRecoveryFinalized(srm, nodeUrl, safeAccountAddress, session)
+
+    updateRecoverySession(session, { status: 'FINALIZED' })
 
     console.log('\nRecovery complete!')
     console.log(`Safe Account: ${safeAccountAddress}`)
-    console.log(`New owners:   ${newOwners.join(', ')}`)
+    console.log(`New owners:   ${owners.join(', ')}`)
+    console.log(`Threshold:    ${threshold} of ${owners.length}`)
 
-    rl.close()
+    return summarizeRecoverySession(session)
 }
 
 // ============================================================================
 // Run
 // ============================================================================
 
-main()
-    .then(() => process.exit(0))
-    .catch((error) => {
-        if (error instanceof SafeRecoveryServiceSdkError) {
-            console.error('\nGuardian Service Error:', error.stringify())
-        } else {
-            console.error('\nError:', error instanceof Error ? error.message : error)
-            let cause = error?.cause
-            while (cause) {
-                console.error(
-                    'Caused by:',
-                    cause instanceof Error ? cause.message : JSON.stringify(cause)
-                )
-                cause = cause?.cause
-            }
-        }
-        rl.close()
-        process.exit(1)
-    })
+runMain(main)
@@ -0,0 +1,99 @@
+/**
+ * List Email/SMS Recovery Channels
+ *
+ * This example prints the email addresses and phone numbers registered with
+ * the Candide Guardian Service for a Safe (see example 01). It is read-only:
+ * nothing is registered, and no transaction is sent.
+ *
+ * What it does:
+ *   1. Signs a SIWE statement as the Safe (EIP-1271) to authenticate
+ *   2. Fetches the registrations (RecoveryByCustodialGuardian.getRegistrations)
+ *   3. Prints them, or JSON with --json
+ *
+ * Libraries used:
+ *   - safe-recovery-service-sdk: RecoveryByCustodialGuardian
+ *   - viem: Owner account from the seed phrase
+ *
+ * Required env vars (see .env.example):
+ *   - CHAIN_ID: Chain ID (e.g., 11155111 for Sepolia)
+ *   - RECOVERY_SERVICE_URL: Candide Guardian Service URL
+ *   - SEED_PHRASE: Owner seed phrase — must match the one used in example 01
+ *
+ * Optional env vars:
+ *   - SAFE_ACCOUNT_ADDRESS: Safe to list channels for (--safe; prompted if not set)
+ *
+ * Run: npm run list-recovery-channels [-- --json]
+ */
+
+import * as dotenv from 'dotenv'
+import { RecoveryByCustodialGuardian } from 'safe-recovery-service-sdk'
+import { mnemonicToAccount } from 'viem/accounts'
+
+import { isJsonOutput, printSection, runMain } from '../../../lib/cli.js'
+import { loadConfig } from '../../../lib/config.js'
+import { getSafeAccountAddress } from '../../../lib/input.js'
+import { signSafeMessage } from '../../../lib/signing.js'
+
+// ============================================================================
+// Main Function
+// ============================================================================
+
+async function main() {
+    dotenv.config()
+
+    const config = loadConfig(
+        ['CHAIN_ID', 'RECOVERY_SERVICE_URL', 'SEED_PHRASE'],
+        ['SAFE_ACCOUNT_ADDRESS']
+    )
+
+    const chainId = config.CHAIN_ID
+    const serviceUrl = config.RECOVERY_SERVICE_URL
+    const safeAccountAddress = await getSafeAccountAddress(config.SAFE_ACCOUNT_ADDRESS)
+    const ownerAccount = mnemonicToAccount(config.SEED_PHRASE, { accountIndex: 0 })
+
+    // ---------------------------------------------------------------------------
+    // Fetch Registrations
+    // ---------------------------------------------------------------------------
+    // Registrations belong to the Safe, so the SIWE statement is signed with the
+    // Safe's EIP-1271 scheme, as in example 01.
+    const guardianService = new RecoveryByCustodialGuardian(serviceUrl, BigInt(chainId))
+    const siweMessage = guardianService.getRegistrationsSiweStatementToSign(safeAccountAddress)
+    const signature = await signSafeMessage(safeAccountAddress, chainId, siweMessage, ownerAccount)
+
+    const registrations = await guardianService.getRegistrations(
+        safeAccountAddress,
+        siweMessage,
+        signature
+    )
+    const channels = registrations.map((r: { channel: string; target: string }) => ({
+        channel: r.channel,
+        target: r.target,
+    }))
+
+    // ---------------------------------------------------------------------------
+    // Output
+    // ---------------------------------------------------------------------------
+    const result = { chainId, safeAccountAddress, channels }
+    if (isJsonOutput()) {
+        return result
+    }
+
+    printSection('Recovery Channels')
+
+    console.log(`Safe Account: ${safeAccountAddress}`)
+    if (channels.length === 0) {
+        console.log('No channels registered — run `npm run enable-email-sms-recovery`')
+        return result
+    }
+    channels.forEach((c: { channel: string; target: string }, i: number) => {
+        console.log(`  ${i + 1}. ${c.channel}: ${c.target}`)
+    })
+
+    return result
+}
+
+// ============================================================================
+// Run
+// ============================================================================
+
+runMain(main)
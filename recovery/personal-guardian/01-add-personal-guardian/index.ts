@@ -2,13 +2,21 @@
  * Add Personal Guardians to a Safe Smart Account
  *
  * This example demonstrates how to enable the Social Recovery Module on a Safe
- * smart account and add two guardians in a single batched UserOperation.
+ * smart account and bring its guardians in line with an N-of-M guardian set in
+ * a single batched UserOperation. It is idempotent: re-running it only applies
+ * what changed, and does nothing when the Safe already matches.
  *
  * What it does:
  *   1. Creates a Safe smart account from a BIP-39 seed phrase
- *   2. Enables the Social Recovery Module (3-minute grace period for testing)
- *   3. Adds two guardians with threshold 2 (both must sign to initiate recovery)
- *   4. All three transactions are batched into one UserOperation
+ *   2. Loads the desired guardians from the guardian config file (guardians.json)
+ *      with its target threshold — or, without a config file, two guardians
+ *      with threshold 2 (both must sign to initiate recovery)
+ *   3. Reads the current module, guardians and threshold from chain and plans
+ *      the changes: enable the Social Recovery Module (GRACE_PERIOD, 3 minutes
+ *      by default), add missing guardians, revoke extra ones, change threshold
+ *   4. Prints the plan, previews it (simulation and fee), and after
+ *      confirmation submits it as one UserOperation (--yes skips the
+ *      confirmation, --dry-run stops after the preview)
  *
  * Libraries used:
  *   - WDK: Account creation, signing, and UserOperation submission via ERC-4337
@@ -25,49 +33,45 @@
  * Optional env vars:
  *   - SEED_PHRASE: BIP-39 seed phrase (generated if not provided)
  *   - SPONSORSHIP_POLICY_ID: Gas sponsorship policy ID
- *   - GUARDIAN_1_PRIVATE_KEY: First guardian key (generated if not provided)
- *   - GUARDIAN_2_PRIVATE_KEY: Second guardian key (generated if not provided)
+ *   - GUARDIANS_CONFIG_FILE: Guardian set file (default: guardians.json, see guardians.example.json)
+ *   - GUARDIAN_1_PRIVATE_KEY: First guardian key (no config file; generated if not provided)
+ *   - GUARDIAN_2_PRIVATE_KEY: Second guardian key (no config file; generated if not provided)
+ *   - GRACE_PERIOD: SRM grace period selector (default: After3Minutes)
  *
- * Run: npm run add-personal-guardian
+ * Run: npm run add-personal-guardian [-- --yes | --dry-run]
  */
 
-import WalletManagerEvmErc4337 from '@tetherto/wdk-wallet-evm-erc-4337'
-import {
-    Bundler,
-    SafeAccountV0_3_0 as SafeAccount,
-    SendUseroperationResponse,
-    SocialRecoveryModule,
-    SocialRecoveryModuleGracePeriodSelector,
-} from 'abstractionkit'
+import { Bundler, SocialRecoveryModule } from 'abstractionkit'
 import * as dotenv from 'dotenv'
-import { generateMnemonic, generatePrivateKey, english, privateKeyToAccount } from 'viem/accounts'
+import { generateMnemonic, generatePrivateKey, english } from 'viem/accounts'
+
+import { printSection, runMain } from '../../../lib/cli.js'
+import { getGasFallbackFromEnv, loadConfig } from '../../../lib/config.js'
+import { getGracePeriodName, resolveSetupGracePeriodSelector } from '../../../lib/grace-period.js'
+import {
+    formatGuardian,
+    getGuardianConfigFilePath,
+    guardianConfigFromKeys,
+    loadGuardianConfig,
+} from '../../../lib/guardian-config.js'
+import { getGuardianSetState, planGuardianSetChanges } from '../../../lib/guardian-reconcile.js'
+import { sendWithPreview } from '../../../lib/userop-preview.js'
+import { decodeUserOperationReceipt, printDecodedReceipt } from '../../../lib/userop-receipt.js'
+import { waitForUserOperation } from '../../../lib/userop.js'
+import { GasPayment, createWallet } from '../../../lib/wallet.js'
 
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
 /**
- * Wait for a UserOperation to be included in a block.
- * Uses abstractionkit's SendUseroperationResponse.included() which polls
- * the bundler until the UserOperation is confirmed on-chain.
- */
-async function waitForUserOperation(
-    userOperationHash: string,
-    bundlerUrl: string,
-    entryPointAddress: string
-) {
-    const bundler = new Bundler(bundlerUrl)
-    const response = new SendUseroperationResponse(userOperationHash, bundler, entryPointAddress)
-    return response.included()
-}
-
-/**
- * Print a section header for better readability
+ * Print the .env values the follow-up examples need
  */
-function printSection(title: string) {
-    console.log('\n' + '═'.repeat(60))
-    console.log(`  ${title}`)
-    console.log('═'.repeat(60))
+function printEnvHints(seedPhrase: string, accountAddress: string, generatedKeys: string[]) {
+    console.log('\nAdd these to your .env for the follow-up examples:')
+    console.log(`  SEED_PHRASE="${seedPhrase}"`)
+    console.log(`  SAFE_ACCOUNT_ADDRESS=${accountAddress}`)
+    generatedKeys.forEach(line => console.log(`  ${line}`))
 }
 
 // ============================================================================
@@ -77,30 +81,25 @@ function printSection(title: string) {
 async function main() {
     dotenv.config()
 
-    console.log('\n' + '═'.repeat(60))
-    console.log('  Add Personal Guardians')
-    console.log('═'.repeat(60))
+    printSection('Add Personal Guardians')
 
     // ---------------------------------------------------------------------------
     // Step 1: Load Configuration
     // ---------------------------------------------------------------------------
     printSection('Configuration')
 
-    const requiredEnvVars = [
-        'CHAIN_ID', 'NODE_URL', 'BUNDLER_URL', 'PAYMASTER_URL', 'ENTRY_POINT_ADDRESS',
-    ]
-    const missing = requiredEnvVars.filter(v => !process.env[v])
-    if (missing.length > 0) {
-        throw new Error(`Missing required env vars: ${missing.join(', ')}`)
-    }
+    const config = loadConfig(
+        ['CHAIN_ID', 'NODE_URL', 'BUNDLER_URL', 'PAYMASTER_URL', 'ENTRY_POINT_ADDRESS'],
+        ['SEED_PHRASE', 'SPONSORSHIP_POLICY_ID', 'GUARDIAN_1_PRIVATE_KEY', 'GUARDIAN_2_PRIVATE_KEY']
+    )
 
-    const seedPhrase = process.env.SEED_PHRASE || generateMnemonic(english) as string
-    const chainId = Number(process.env.CHAIN_ID)
-    const nodeUrl = process.env.NODE_URL as string
-    const bundlerUrl = process.env.BUNDLER_URL as string
-    const paymasterUrl = process.env.PAYMASTER_URL as string
-    const entryPointAddress = process.env.ENTRY_POINT_ADDRESS as string
-    const sponsorshipPolicyId = process.env.SPONSORSHIP_POLICY_ID as string
+    const seedPhrase = config.SEED_PHRASE ?? generateMnemonic(english)
+    const chainId = config.CHAIN_ID
+    const nodeUrl = config.NODE_URL
+    const bundlerUrl = config.BUNDLER_URL
+    const paymasterUrl = config.PAYMASTER_URL
+    const entryPointAddress = config.ENTRY_POINT_ADDRESS
+    const sponsorshipPolicyId = config.SPONSORSHIP_POLICY_ID
 
     console.log(`Chain ID: ${chainId}`)
     console.log(`Bundler:  ${bundlerUrl}`)
@@ -112,16 +111,10 @@ async function main() {
 
     // WDK derives a Safe smart account address from the seed phrase using BIP-44.
     // The Safe is not deployed until the first UserOperation is sent (counterfactual).
-    const wallet = new WalletManagerEvmErc4337(seedPhrase, {
-        chainId,
-        provider: nodeUrl,
-        bundlerUrl,
-        entryPointAddress,
-        safeModulesVersion: '0.3.0',
-        isSponsored: true,
-        paymasterUrl,
-        sponsorshipPolicyId,
-    })
+    const network = { chainId, nodeUrl, bundlerUrl, entryPointAddress }
+    const gas: GasPayment = { mode: 'sponsored', paymasterUrl, sponsorshipPolicyId }
+    const gasFallback = getGasFallbackFromEnv(gas)
+    const wallet = createWallet(seedPhrase, network, gas)
 
     const account = await wallet.getAccount(0)
     const accountAddress = await account.getAddress()
@@ -129,85 +122,111 @@ async function main() {
     console.log(`Safe Account: ${accountAddress}`)
 
     // ---------------------------------------------------------------------------
-    // Step 3: Set Up Guardian Keys
+    // Step 3: Load Guardian Set
     // ---------------------------------------------------------------------------
-    printSection('Guardian Keys')
-
-    // In production, GUARDIAN_1/2_PRIVATE_KEY would be your trusted contacts'
-    // wallet private keys. For demo, we generate them if not provided.
-    // Save the printed values — you will need them to run the recovery flow.
-    let guardian1PrivateKey = process.env.GUARDIAN_1_PRIVATE_KEY as `0x${string}`
-    let guardian2PrivateKey = process.env.GUARDIAN_2_PRIVATE_KEY as `0x${string}`
-
-    if (!guardian1PrivateKey) {
-        guardian1PrivateKey = generatePrivateKey()
-        console.log(`Generated GUARDIAN_1_PRIVATE_KEY=${guardian1PrivateKey}`)
-    }
-    if (!guardian2PrivateKey) {
-        guardian2PrivateKey = generatePrivateKey()
-        console.log(`Generated GUARDIAN_2_PRIVATE_KEY=${guardian2PrivateKey}`)
+    printSection('Guardian Set')
+
+    // The guardian set comes from the guardian config file (any N-of-M). Without
+    // one, fall back to two guardians with threshold 2: GUARDIAN_1/2_PRIVATE_KEY
+    // would be your trusted contacts' wallet private keys; for demo, we generate
+    // them if not provided. Save the printed values — you will need them to run
+    // the recovery flow.
+    let guardianConfig = loadGuardianConfig()
+    const generatedKeys: string[] = []
+
+    if (guardianConfig) {
+        console.log(`Loaded ${getGuardianConfigFilePath()}`)
+    } else {
+        let guardian1PrivateKey = config.GUARDIAN_1_PRIVATE_KEY
+        let guardian2PrivateKey = config.GUARDIAN_2_PRIVATE_KEY
+
+        if (!guardian1PrivateKey) {
+            guardian1PrivateKey = generatePrivateKey()
+            generatedKeys.push(`GUARDIAN_1_PRIVATE_KEY=${guardian1PrivateKey}`)
+            console.log(`Generated GUARDIAN_1_PRIVATE_KEY=${guardian1PrivateKey}`)
+        }
+        if (!guardian2PrivateKey) {
+            guardian2PrivateKey = generatePrivateKey()
+            generatedKeys.push(`GUARDIAN_2_PRIVATE_KEY=${guardian2PrivateKey}`)
+            console.log(`Generated GUARDIAN_2_PRIVATE_KEY=${guardian2PrivateKey}`)
+        }
+
+        guardianConfig = guardianConfigFromKeys([guardian1PrivateKey, guardian2PrivateKey], 2)
     }
 
-    const guardian1Address = privateKeyToAccount(guardian1PrivateKey).address
-    const guardian2Address = privateKeyToAccount(guardian2PrivateKey).address
-
-    console.log(`Guardian 1: ${guardian1Address}`)
-    console.log(`Guardian 2: ${guardian2Address}`)
-    console.log(`Threshold:  2 (both guardians must sign to initiate recovery)`)
+    guardianConfig.guardians.forEach((guardian, i) => {
+        console.log(`Guardian ${i + 1}: ${formatGuardian(guardianConfig, guardian.address)}`)
+    })
+    console.log(
+        `Threshold:  ${guardianConfig.threshold} of ${guardianConfig.guardians.length} ` +
+        `guardians must sign to initiate recovery`
+    )
 
     // ---------------------------------------------------------------------------
-    // Step 4: Build Social Recovery Transactions
+    // Step 4: Plan Guardian Changes
     // ---------------------------------------------------------------------------
-    printSection('Build Transactions')
-
-    // Using the 3-minute grace period contract for testing.
-    // For production use After3Days / After7Days / After14Days.
-    // IMPORTANT: the recovery flow example must use the same grace period selector —
-    // each selector maps to a different SRM contract address.
-    const srm = new SocialRecoveryModule(SocialRecoveryModuleGracePeriodSelector.After3Minutes)
-
-    // Check if the module is already enabled. If the Safe is not yet deployed
-    // (counterfactual), this returns false and we proceed with enablement.
-    const safeAccount = new SafeAccount(accountAddress)
-    const moduleAlreadyEnabled = await safeAccount.isModuleEnabled(nodeUrl, srm.moduleAddress)
-
-    const transactions = []
+    printSection('Plan Changes')
+
+    // The grace period comes from GRACE_PERIOD (After3Minutes by default for testing;
+    // use After3Days / After7Days / After14Days for production). Each selector maps
+    // to a different SRM contract address — this refuses to enable a second SRM if
+    // the Safe already has one with a different grace period.
+    const gracePeriodSelector = await resolveSetupGracePeriodSelector(nodeUrl, accountAddress)
+    const srm = new SocialRecoveryModule(gracePeriodSelector)
+
+    console.log(`Grace period: ${getGracePeriodName(gracePeriodSelector)}`)
+
+    // Compare the desired guardian set with what the module holds on-chain and
+    // plan only the missing changes: enable the module, add and revoke
+    // guardians, change the threshold. If the Safe is not yet deployed
+    // (counterfactual), it has no module and no guardians.
+    const currentState = await getGuardianSetState(srm, nodeUrl, accountAddress)
+    const plan = planGuardianSetChanges(srm, accountAddress, currentState, guardianConfig)
+
+    console.log(`Module enabled:    ${currentState.moduleEnabled ? 'yes' : 'no'}`)
+    console.log(`Current guardians: ${currentState.guardians.join(', ') || '(none)'}`)
+    console.log(`Current threshold: ${currentState.threshold}\n`)
+
+    // The result printed with --json
+    const summary = {
+        safeAccountAddress: accountAddress,
+        chainId,
+        gracePeriod: getGracePeriodName(gracePeriodSelector),
+        guardians: guardianConfig.guardians,
+        threshold: guardianConfig.threshold,
+        plan: plan.map(({ description }) => description),
+    }
 
-    if (moduleAlreadyEnabled) {
-        console.log(`Social Recovery Module already enabled — skipping enablement`)
-    } else {
-        const enableModuleTx = srm.createEnableModuleMetaTransaction(accountAddress)
-        transactions.push(enableModuleTx)
-        console.log(`1. Enable Social Recovery Module`)
+    if (plan.length === 0) {
+        console.log('✓ Guardian set already matches — nothing to do')
+        printEnvHints(seedPhrase, accountAddress, generatedKeys)
+        account.dispose()
+        wallet.dispose()
+        return summary
     }
 
-    // Add guardian 1 with threshold 1 (temporary while adding both)
-    const addGuardian1Tx = srm.createAddGuardianWithThresholdMetaTransaction(
-        guardian1Address,
-        1n // Threshold set to 1 temporarily — guardian 2 will raise it to 2
-    )
-    transactions.push(addGuardian1Tx)
-    console.log(`${transactions.length}. Add Guardian 1: ${guardian1Address}`)
-
-    // Add guardian 2 and raise threshold to 2.
-    // Both guardians must sign any future recovery request.
-    const addGuardian2Tx = srm.createAddGuardianWithThresholdMetaTransaction(
-        guardian2Address,
-        2n
-    )
-    transactions.push(addGuardian2Tx)
-    console.log(`${transactions.length}. Add Guardian 2: ${guardian2Address} (threshold → 2)`)
+    plan.forEach(({ description }, i) => console.log(`${i + 1}. ${description}`))
 
     // ---------------------------------------------------------------------------
-    // Step 5: Submit Batched UserOperation
+    // Step 5: Preview and Submit Batched UserOperation
     // ---------------------------------------------------------------------------
     printSection('Submit UserOperation')
 
-    // WDK batches all transactions into a single UserOperation.
-    console.log('Submitting batched UserOperation...')
-
-    const result = await account.sendTransaction(transactions)
-    console.log(`✓ Submitted: ${result.hash}`)
+    // WDK batches all transactions into a single UserOperation. It is simulated
+    // and its fee estimated first; --dry-run stops after that preview.
+    const { preview, hash } = await sendWithPreview(
+        account,
+        plan.map(({ transaction }) => transaction),
+        network,
+        gasFallback
+    )
+    if (!hash) {
+        printEnvHints(seedPhrase, accountAddress, generatedKeys)
+        account.dispose()
+        wallet.dispose()
+        return { ...summary, dryRun: true, preview }
+    }
+    console.log(`✓ Submitted: ${hash}`)
 
     // ---------------------------------------------------------------------------
     // Step 6: Wait for Confirmation
@@ -216,40 +235,46 @@ async function main() {
 
     console.log('Waiting for on-chain confirmation...')
 
-    const receipt = await waitForUserOperation(result.hash, bundlerUrl, entryPointAddress)
+    const receipt = await waitForUserOperation(hash, bundlerUrl, entryPointAddress)
+    const decoded = await decodeUserOperationReceipt(receipt, nodeUrl)
+    printDecodedReceipt(decoded)
 
     if (!receipt.success) {
-        throw new Error('UserOperation failed on-chain')
+        throw new Error(`UserOperation failed on-chain: ${decoded.revertReason ?? 'no reason given'}`)
     }
 
     console.log(`✓ Confirmed: ${receipt.receipt.transactionHash}`)
 
     // ---------------------------------------------------------------------------
-    // Step 7: Verify Guardians Were Added
+    // Step 7: Verify Guardian Set
     // ---------------------------------------------------------------------------
     printSection('Verify Setup')
 
-    const [isGuardian1, isGuardian2, onChainThreshold] = await Promise.all([
-        srm.isGuardian(nodeUrl, accountAddress, guardian1Address),
-        srm.isGuardian(nodeUrl, accountAddress, guardian2Address),
-        srm.threshold(nodeUrl, accountAddress),
-    ])
+    // Re-read the chain: a fully applied plan leaves nothing left to do
+    const finalState = await getGuardianSetState(srm, nodeUrl, accountAddress)
 
-    console.log(`Guardian 1: ${isGuardian1 ? '✓ added' : '✗ not found'}`)
-    console.log(`Guardian 2: ${isGuardian2 ? '✓ added' : '✗ not found'}`)
-    console.log(`Threshold:  ${onChainThreshold}`)
+    guardianConfig.guardians.forEach(guardian => {
+        const added = finalState.guardians.some(
+            g => g.toLowerCase() === guardian.address.toLowerCase()
+        )
+        console.log(`${formatGuardian(guardianConfig, guardian.address)}: ${added ? '✓ added' : '✗ not found'}`)
+    })
+    console.log(`Threshold:  ${finalState.threshold}`)
+
+    const remaining = planGuardianSetChanges(srm, accountAddress, finalState, guardianConfig)
+    if (remaining.length > 0) {
+        throw new Error(
+            `Guardian set does not match after update, still pending: ` +
+            remaining.map(({ description }) => description).join('; ')
+        )
+    }
+    console.log('✓ Guardian set matches')
 
     // ---------------------------------------------------------------------------
     // Done — print values needed for the next example
     // ---------------------------------------------------------------------------
-    console.log('\n' + '═'.repeat(60))
-    console.log('  Done!')
-    console.log('═'.repeat(60))
-    console.log('\nAdd these to your .env for the follow-up examples:')
-    console.log(`  SEED_PHRASE="${seedPhrase}"`)
-    console.log(`  SAFE_ACCOUNT_ADDRESS=${accountAddress}`)
-    console.log(`  GUARDIAN_1_PRIVATE_KEY=${guardian1PrivateKey}`)
-    console.log(`  GUARDIAN_2_PRIVATE_KEY=${guardian2PrivateKey}`)
+    printSection('Done!')
+    printEnvHints(seedPhrase, accountAddress, generatedKeys)
     console.log('\nNext steps:')
     console.log('  npm run setup-alerts')
     console.log('  npm run recovery-flow-personal-guardian\n')
@@ -257,15 +282,19 @@ async function main() {
 
     account.dispose()
     wallet.dispose()
+
+    return {
+        ...summary,
+        preview,
+        userOpHash: hash,
+        transactionHash: receipt.receipt.transactionHash,
+        success: receipt.success,
+        events: decoded.events,
+    }
 }
 
 // ============================================================================
 // Run
 // ============================================================================
 
-main()
-    .then(() => process.exit(0))
-    .catch((error) => {
-        console.error('\nError:', error instanceof Error ? error.message : error)
-        process.exit(1)
-    })
+runMain(main)
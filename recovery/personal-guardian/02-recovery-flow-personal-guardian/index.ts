@@ -6,65 +6,101 @@
  * up the guardians and obtain the values needed here.
  *
  * What it does:
- *   1. Guardian 1 creates a recovery request (signs EIP-712 data)
- *   2. Guardian 2 adds their signature
+ *   1. The first guardian creates a recovery request (signs EIP-712 data)
+ *   2. The other guardians add their signatures until the threshold is met
+ *      (threshold read from the guardian config file used by example 01)
  *   3. Recovery is executed on-chain (grace period starts)
- *   4. Wait for the 3-minute grace period
+ *   4. Wait for the grace period (GRACE_PERIOD, 3 minutes by default)
  *   5. Finalize the recovery
- *   6. Verify the new owner on-chain
+ *   6. Verify the new owners and threshold on-chain
+ *
+ * The Safe can be recovered into several owners with a new threshold, e.g.
+ * --new-owners <phone>,<laptop>,<hardware> --new-threshold 2 (see
+ * lib/recovery-target.ts); the current and new owner sets are shown before
+ * any guardian signs.
  *
  * Recovery status progression: PENDING → EXECUTED → FINALIZED
  *
+ * With --relay eoa|bundler (or RECOVERY_RELAY) the recovery service is not
+ * used at all: the signatures stay local, and the execution (all signatures in
+ * one multiConfirmRecovery call) and the finalization are sent on-chain by a
+ * relayer — a funded EOA, or a UserOperation from the SEED_PHRASE Safe (see
+ * lib/direct-recovery.ts). The on-chain checks are the same. When the service
+ * fails mid-recovery, re-running with --relay carries on from the session.
+ *
+ * Progress is saved to a recovery session file after every step. If the flow
+ * is interrupted, re-run it (or `npm run recovery-session resume`) to continue
+ * from the last completed step.
+ *
  * Libraries used:
- *   - abstractionkit: SocialRecoveryModule for EIP-712 data, SafeAccountV0_3_0 for queries
+ *   - abstractionkit: SocialRecoveryModule for EIP-712 data and state queries
  *   - safe-recovery-service-sdk: RecoveryByGuardian for off-chain coordination
- *   - viem: Sign typed data
+ *   - viem: Sign typed data, and send relayed transactions
  *
  * Required env vars (see .env.example):
  *   - CHAIN_ID: Chain ID (e.g., 11155111 for Sepolia)
  *   - NODE_URL: JSON-RPC provider URL
- *   - RECOVERY_SERVICE_URL: Candide Recovery Service URL
- *   - GUARDIAN_1_PRIVATE_KEY: Private key of first guardian
- *   - GUARDIAN_2_PRIVATE_KEY: Private key of second guardian
+ *   - RECOVERY_SERVICE_URL: Candide Recovery Service URL (not with --relay)
+ *   - GUARDIAN_1_PRIVATE_KEY, GUARDIAN_2_PRIVATE_KEY, ...: Private keys of at
+ *     least as many guardians as the threshold requires
  *
  * Optional env vars:
- *   - SAFE_ACCOUNT_ADDRESS: Safe to recover (prompted if not set)
- *   - NEW_OWNER_ADDRESS: Address to recover ownership to (generated if not set)
+ *   - SAFE_ACCOUNT_ADDRESS: Safe to recover (--safe; prompted if not set)
+ *   - NEW_OWNER_ADDRESS: Address(es) to recover ownership to, comma-separated
+ *     (--new-owners; generated if not set)
+ *   - NEW_SAFE_THRESHOLD: Safe threshold after recovery (--new-threshold; default: 1)
+ *   - GUARDIANS_CONFIG_FILE: Guardian set file (default: guardians.json; without
+ *     one, the on-chain guardian threshold is used)
+ *   - POLL_TIMEOUT_SECONDS / POLL_INTERVAL_SECONDS / POLL_MAX_INTERVAL_SECONDS / POLL_BACKOFF:
+ *     tune how long and how often on-chain state is polled
+ *   - RECOVERY_SESSION_FILE: Where recovery progress is saved (default: .recovery-sessions.json)
+ *   - GRACE_PERIOD: Expected SRM grace period (default: After3Minutes; auto to detect)
+ *   - RECOVERY_RELAY: eoa or bundler (--relay) to recover without the service;
+ *     eoa needs RELAYER_PRIVATE_KEY, bundler SEED_PHRASE, BUNDLER_URL and
+ *     ENTRY_POINT_ADDRESS (and PAYMASTER_URL for sponsored gas)
  *
  * Run: npm run recovery-flow-personal-guardian
  */
 
-import {
-    EXECUTE_RECOVERY_PRIMARY_TYPE,
-    SafeAccountV0_3_0 as SafeAccount,
-    SocialRecoveryModule,
-    SocialRecoveryModuleGracePeriodSelector,
-} from 'abstractionkit'
+import { EXECUTE_RECOVERY_PRIMARY_TYPE, SocialRecoveryModule } from 'abstractionkit'
 import * as dotenv from 'dotenv'
-import * as readline from 'readline'
-import { RecoveryByGuardian, SafeRecoveryServiceSdkError } from 'safe-recovery-service-sdk'
+import { RecoveryByGuardian } from 'safe-recovery-service-sdk'
 import { TypedDataDomain } from 'viem'
-import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
-
-// ============================================================================
-// Configuration
-// ============================================================================
-
-const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
+import { privateKeyToAccount } from 'viem/accounts'
 
-// ============================================================================
-// Helper Functions
-// ============================================================================
-
-async function askQuestion(question: string): Promise<string> {
-    return new Promise((resolve) => rl.question(question, resolve))
-}
-
-function printSection(title: string) {
-    console.log('\n' + '═'.repeat(60))
-    console.log(`  ${title}`)
-    console.log('═'.repeat(60))
-}
+import { printSection, runMain } from '../../../lib/cli.js'
+import { loadConfig } from '../../../lib/config.js'
+import {
+    describeRecoveryRelay,
+    executeRecoveryDirectly,
+    finalizeRecoveryDirectly,
+    getRecoveryRelayMode,
+    loadRecoveryRelay,
+    withRelayHint,
+} from '../../../lib/direct-recovery.js'
+import { getGracePeriodName, resolveGracePeriodSelector } from '../../../lib/grace-period.js'
+import {
+    formatGuardian,
+    getGuardianConfigFilePath,
+    loadGuardianConfig,
+    loadGuardianKeysFromEnv,
+} from '../../../lib/guardian-config.js'
+import { getSafeAccountAddress } from '../../../lib/input.js'
+import {
+    waitForGracePeriod,
+    waitForRecoveryExecuted,
+    waitForRecoveryFinalized,
+} from '../../../lib/recovery-polling.js'
+import {
+    createRecoverySession,
+    findGuardianSignature,
+    getSessionFilePath,
+    loadRecoverySession,
+    recordGuardianSignature,
+    summarizeRecoverySession,
+    updateRecoverySession,
+} from '../../../lib/recovery-session.js'
+import { printRecoveryTargetPreview, resolveRecoveryTarget } from '../../../lib/recovery-target.js'
 
 // ============================================================================
 // Main Function
@@ -73,62 +109,55 @@ function printSection(title: string) {
 async function main() {
     dotenv.config()
 
-    console.log('\n' + '═'.repeat(60))
-    console.log('  Recovery Flow (Personal Guardian)')
-    console.log('═'.repeat(60))
+    printSection('Recovery Flow (Personal Guardian)')
 
     // ---------------------------------------------------------------------------
     // Step 1: Load Configuration
     // ---------------------------------------------------------------------------
     printSection('Configuration')
 
-    const requiredEnvVars = [
-        'CHAIN_ID',
-        'NODE_URL',
-        'RECOVERY_SERVICE_URL',
-        'GUARDIAN_1_PRIVATE_KEY',
-        'GUARDIAN_2_PRIVATE_KEY',
-    ]
-    const missing = requiredEnvVars.filter(v => !process.env[v])
-    if (missing.length > 0) {
-        throw new Error(`Missing required env vars: ${missing.join(', ')}`)
-    }
+    const config = loadConfig(['CHAIN_ID', 'NODE_URL'], ['SAFE_ACCOUNT_ADDRESS'])
 
-    const chainId = BigInt(process.env.CHAIN_ID as string)
-    const nodeUrl = process.env.NODE_URL as string
-    const serviceUrl = process.env.RECOVERY_SERVICE_URL as string
+    const chainId = BigInt(config.CHAIN_ID)
+    const nodeUrl = config.NODE_URL
 
-    const guardian1PrivateKey = process.env.GUARDIAN_1_PRIVATE_KEY as `0x${string}`
-    const guardian2PrivateKey = process.env.GUARDIAN_2_PRIVATE_KEY as `0x${string}`
-
-    const guardian1Account = privateKeyToAccount(guardian1PrivateKey)
-    const guardian2Account = privateKeyToAccount(guardian2PrivateKey)
+    // Every GUARDIAN_<n>_PRIVATE_KEY available in this process can sign.
+    // The guardian config file (if any) says how many signatures are needed.
+    const guardianAccounts = loadGuardianKeysFromEnv().map(key => privateKeyToAccount(key))
+    if (guardianAccounts.length === 0) {
+        throw new Error(
+            'Missing guardian keys: set GUARDIAN_1_PRIVATE_KEY, GUARDIAN_2_PRIVATE_KEY, ...'
+        )
+    }
+    const guardianConfig = loadGuardianConfig()
 
     // Safe address: read from env or prompt
-    const safeAccountAddress = process.env.SAFE_ACCOUNT_ADDRESS
-        ? process.env.SAFE_ACCOUNT_ADDRESS
-        : (await askQuestion('Enter Safe account address: ')).trim()
-
-    // New owner: read from env or generate a demo key.
-    // IMPORTANT: if generated, the private key is printed below — save it before
-    // continuing, or you will recover into an account you cannot access.
-    let newOwnerAddress: `0x${string}`
-    if (process.env.NEW_OWNER_ADDRESS) {
-        newOwnerAddress = process.env.NEW_OWNER_ADDRESS as `0x${string}`
-        console.log(`\nNew owner (from env): ${newOwnerAddress}`)
-    } else {
-        const newOwnerPrivateKey = generatePrivateKey()
-        newOwnerAddress = privateKeyToAccount(newOwnerPrivateKey).address as `0x${string}`
-        console.log(`\n⚠️  NEW OWNER KEY GENERATED — SAVE THIS BEFORE CONTINUING`)
-        console.log(`   Private key: ${newOwnerPrivateKey}`)
-        console.log(`   Address:     ${newOwnerAddress}`)
-        console.log(`   Add to .env: NEW_OWNER_ADDRESS=${newOwnerAddress}`)
+    const safeAccountAddress = await getSafeAccountAddress(config.SAFE_ACCOUNT_ADDRESS)
+
+    // An unfinished session for this Safe means a previous run was interrupted —
+    // resume it with the same recovery target instead of starting over.
+    const previousSession = loadRecoverySession(Number(chainId), safeAccountAddress)
+    const resumedSession = previousSession?.status !== 'FINALIZED' ? previousSession : undefined
+
+    // A relayed recovery goes on being relayed, unless --relay picks another mode
+    const relayMode = getRecoveryRelayMode() ?? resumedSession?.relay
+    const relay = relayMode ? loadRecoveryRelay(relayMode) : undefined
+
+    // New owners and threshold: from the resumed session, from --new-owners /
+    // NEW_OWNER_ADDRESS and --new-threshold / NEW_SAFE_THRESHOLD, or a generated
+    // demo key — whose private key is printed and must be saved before continuing.
+    if (resumedSession) {
+        console.log(`\nResuming recovery session (status: ${resumedSession.status})`)
     }
+    const target = resolveRecoveryTarget(safeAccountAddress, resumedSession)
 
     console.log(`\nSafe Account: ${safeAccountAddress}`)
-    console.log(`Guardian 1:   ${guardian1Account.address}`)
-    console.log(`Guardian 2:   ${guardian2Account.address}`)
-    console.log(`New owner:    ${newOwnerAddress}`)
+    guardianAccounts.forEach((guardian, i) => {
+        console.log(`Guardian key ${i + 1}: ${formatGuardian(guardianConfig, guardian.address)}`)
+    })
+    console.log(`Sent by:      ${relay ? describeRecoveryRelay(relay) : 'the recovery service'}`)
+    console.log()
+    await printRecoveryTargetPreview(nodeUrl, safeAccountAddress, target)
 
     // ---------------------------------------------------------------------------
     // Step 2: Initialize Services
@@ -136,166 +165,271 @@ async function main() {
     printSection('Initialize Services')
 
     // Must use the same grace period selector as the setup example (01).
-    // Each selector maps to a different SRM contract address on-chain.
-    const srm = new SocialRecoveryModule(SocialRecoveryModuleGracePeriodSelector.After3Minutes)
-
-    const recoveryService = new RecoveryByGuardian(
-        serviceUrl,
+    // Each selector maps to a different SRM contract address on-chain, so the
+    // selector is detected from the module actually enabled on the Safe.
+    const gracePeriodSelector = await resolveGracePeriodSelector(nodeUrl, safeAccountAddress)
+    const srm = new SocialRecoveryModule(gracePeriodSelector)
+
+    // Only created when used, so a relayed recovery needs no RECOVERY_SERVICE_URL
+    let recoveryService: RecoveryByGuardian | undefined
+    const getRecoveryService = () => recoveryService ??= new RecoveryByGuardian(
+        loadConfig(['RECOVERY_SERVICE_URL']).RECOVERY_SERVICE_URL,
         chainId,
-        SocialRecoveryModuleGracePeriodSelector.After3Minutes
+        gracePeriodSelector
+    )
+
+    // Every completed step is recorded here so the flow can be resumed
+    const session = resumedSession ?? createRecoverySession({
+        safeAccountAddress,
+        chainId: Number(chainId),
+        flow: 'personal-guardian',
+        gracePeriod: getGracePeriodName(gracePeriodSelector),
+        newOwners: target.newOwners,
+        newThreshold: target.newThreshold,
+    })
+    if (relayMode && session.relay !== relayMode) {
+        updateRecoverySession(session, { relay: relayMode })
+    }
+
+    // The number of signatures to collect comes from the guardian config file,
+    // which must agree with the on-chain guardian threshold.
+    const onChainThreshold = Number(await srm.threshold(nodeUrl, safeAccountAddress))
+    if (guardianConfig && guardianConfig.threshold !== onChainThreshold) {
+        throw new Error(
+            `${getGuardianConfigFilePath()} sets threshold ${guardianConfig.threshold}, ` +
+            `but the on-chain guardian threshold is ${onChainThreshold}. Re-run the setup example.`
+        )
+    }
+    const requiredSignatures = guardianConfig?.threshold ?? onChainThreshold
+
+    // Only keys that belong to actual guardians of this Safe can sign
+    const guardianChecks = await Promise.all(
+        guardianAccounts.map(g => srm.isGuardian(nodeUrl, safeAccountAddress, g.address))
     )
+    const signers = guardianAccounts.filter((_, i) => guardianChecks[i])
+    if (signers.length < requiredSignatures) {
+        throw new Error(
+            `${requiredSignatures} guardian signatures are required, but only ` +
+            `${signers.length} of the provided keys belong to guardians of ${safeAccountAddress}`
+        )
+    }
 
+    console.log(`Grace period: ${getGracePeriodName(gracePeriodSelector)}`)
+    console.log(`Signatures:   ${requiredSignatures} required`)
+    console.log(`Session file: ${getSessionFilePath()}`)
     console.log('✓ Services initialized')
 
     // ---------------------------------------------------------------------------
-    // Step 3: Create Recovery Request (Guardian 1 signs)
+    // Step 3: Create Recovery Request (first guardian signs)
     // ---------------------------------------------------------------------------
     printSection('Create Recovery Request')
 
     // The recovery request specifies the new owner(s) and the new Safe threshold.
-    // Here we recover to a single new owner with threshold 1.
-    // newThreshold (1) is the Safe signing threshold after recovery — separate from
-    // the guardian threshold (2) that determines how many guardians must sign.
+    // newThreshold is the Safe signing threshold after recovery — separate from
+    // the guardian threshold that determines how many guardians must sign.
     const recoveryRequestEip712Data = await srm.getRecoveryRequestEip712Data(
         nodeUrl,
         chainId,
         safeAccountAddress,
-        [newOwnerAddress],
-        1n // new Safe threshold after recovery
+        target.newOwners,
+        BigInt(target.newThreshold)
     )
 
     console.log(`EIP-712 domain: ${JSON.stringify(recoveryRequestEip712Data.domain)}`)
 
-    const guardian1Signature = await guardian1Account.signTypedData({
-        primaryType: EXECUTE_RECOVERY_PRIMARY_TYPE,
-        domain: recoveryRequestEip712Data.domain as TypedDataDomain,
-        types: recoveryRequestEip712Data.types,
-        message: recoveryRequestEip712Data.messageValue as Record<string, unknown>,
-    })
-
-    console.log(`Guardian 1 signed recovery request`)
+    // Reuse a signature saved by an interrupted run, otherwise sign now
+    async function getGuardianSignature(guardian: typeof signers[number]): Promise<string> {
+        const saved = findGuardianSignature(session, guardian.address)
+        if (saved) {
+            return saved.signature
+        }
+        const signature = await guardian.signTypedData({
+            primaryType: EXECUTE_RECOVERY_PRIMARY_TYPE,
+            domain: recoveryRequestEip712Data.domain as TypedDataDomain,
+            types: recoveryRequestEip712Data.types,
+            message: recoveryRequestEip712Data.messageValue as Record<string, unknown>,
+        })
+        recordGuardianSignature(session, guardian.address, signature, false)
+        return signature
+    }
 
-    const recoveryRequest = await recoveryService.createRecoveryRequest(
-        safeAccountAddress,
-        [newOwnerAddress],
-        1, // new Safe threshold after recovery
-        guardian1Account.address,
-        guardian1Signature
-    )
+    if (relay) {
+        console.log('Relayed directly: the signatures are sent on-chain with the execution')
+    } else if (session.recoveryRequestId) {
+        console.log(`Recovery request already created. ID: ${session.recoveryRequestId}`)
+        console.log(`Emoji (verify with account owner): ${session.emoji}`)
+    } else {
+        const creator = signers[0]
+        const creatorSignature = await getGuardianSignature(creator)
+
+        console.log(`${formatGuardian(guardianConfig, creator.address)} signed recovery request`)
+
+        const recoveryRequest = await withRelayHint(() => getRecoveryService().createRecoveryRequest(
+            safeAccountAddress,
+            target.newOwners,
+            target.newThreshold,
+            creator.address,
+            creatorSignature
+        ))
+
+        recordGuardianSignature(session, creator.address, creatorSignature, true)
+        updateRecoverySession(session, {
+            recoveryRequestId: recoveryRequest.id,
+            emoji: recoveryRequest.emoji,
+            status: 'PENDING',
+        })
+
+        console.log(`Recovery request created. ID: ${recoveryRequest.id}`)
+        console.log(`Emoji (verify with account owner): ${recoveryRequest.emoji}`)
+    }
 
-    console.log(`Recovery request created. ID: ${recoveryRequest.id}`)
-    console.log(`Emoji (verify with account owner): ${recoveryRequest.emoji}`)
+    const recoveryRequestId = session.recoveryRequestId as string
 
     // ---------------------------------------------------------------------------
-    // Step 4: Guardian 2 Signs
+    // Step 4: Remaining Guardians Sign
     // ---------------------------------------------------------------------------
-    printSection('Guardian 2 Signature')
-
-    // Guardian 2 signs the same EIP-712 data to meet the threshold-2 requirement.
-    const guardian2Signature = await guardian2Account.signTypedData({
-        primaryType: EXECUTE_RECOVERY_PRIMARY_TYPE,
-        domain: recoveryRequestEip712Data.domain as TypedDataDomain,
-        types: recoveryRequestEip712Data.types,
-        message: recoveryRequestEip712Data.messageValue as Record<string, unknown>,
-    })
+    printSection('Guardian Signatures')
 
-    await recoveryService.submitGuardianSignatureForRecoveryRequest(
-        recoveryRequest.id,
-        guardian2Account.address,
-        guardian2Signature
-    )
+    // The other guardians sign the same EIP-712 data until the threshold is met.
+    const submittedCount = () => session.signatures.filter(sig => sig.submitted).length
 
-    console.log('Guardian 2 signature submitted')
+    if (relay) {
+        // Any signature in the session counts, including ones a service run submitted
+        for (const guardian of signers) {
+            if (session.signatures.length >= requiredSignatures) {
+                break
+            }
+            if (!findGuardianSignature(session, guardian.address)) {
+                await getGuardianSignature(guardian)
+                console.log(`${formatGuardian(guardianConfig, guardian.address)} signed recovery request`)
+            }
+        }
+        if (session.status === 'SIGNING') {
+            updateRecoverySession(session, { status: 'PENDING' })
+        }
+        console.log(`${session.signatures.length} of ${requiredSignatures} signatures collected`)
+    } else {
+        for (const guardian of signers) {
+            if (submittedCount() >= requiredSignatures) {
+                break
+            }
+            if (findGuardianSignature(session, guardian.address)?.submitted) {
+                continue
+            }
+
+            const signature = await getGuardianSignature(guardian)
+
+            await withRelayHint(() => getRecoveryService().submitGuardianSignatureForRecoveryRequest(
+                recoveryRequestId,
+                guardian.address,
+                signature
+            ))
+
+            recordGuardianSignature(session, guardian.address, signature, true)
+            console.log(`${formatGuardian(guardianConfig, guardian.address)} signature submitted`)
+        }
+
+        console.log(`${submittedCount()} of ${requiredSignatures} signatures submitted`)
+    }
 
     // ---------------------------------------------------------------------------
     // Step 5: Execute Recovery
     // ---------------------------------------------------------------------------
     printSection('Execute Recovery')
 
-    console.log('Executing recovery request...')
-
-    await recoveryService.executeRecoveryRequest(recoveryRequest.id)
-
-    // Wait for the bundler to include the transaction
-    await new Promise((resolve) => setTimeout(resolve, 30 * 1000))
+    if (session.status === 'PENDING' && relay) {
+        const transactionHash = await executeRecoveryDirectly(srm, nodeUrl, relay, session)
+        if (!transactionHash) {
+            return summarizeRecoverySession(session)
+        }
+        updateRecoverySession(session, { status: 'EXECUTING', executeTransactionHash: transactionHash })
+    } else if (session.status === 'PENDING') {
+        console.log('Executing recovery request...')
 
-    const executedRequest = await recoveryService.getExecutedRecoveryRequestForLatestNonce(
-        nodeUrl,
-        safeAccountAddress
-    )
+        await withRelayHint(() => getRecoveryService().executeRecoveryRequest(recoveryRequestId))
+        updateRecoverySession(session, { status: 'EXECUTING' })
+    }
 
-    if (executedRequest && executedRequest.status === 'EXECUTED') {
-        console.log(`Recovery executed. Status: ${executedRequest.status}`)
-        console.log(`Transaction hash: ${executedRequest.executeData.transactionHash}`)
-    } else {
-        console.log('Recovery execution may still be processing...')
+    if (session.status === 'EXECUTING' && relay) {
+        // The relayed transaction is in a block; the SRM must agree it executed
+        await waitForRecoveryExecuted(srm, nodeUrl, safeAccountAddress)
+        updateRecoverySession(session, { status: 'EXECUTED' })
+    } else if (session.status === 'EXECUTING') {
+        // Poll until the SRM reports the recovery as executed and the service agrees
+        await waitForRecoveryExecuted(srm, nodeUrl, safeAccountAddress, getRecoveryService())
+
+        const executedRequest = await getRecoveryService().getExecutedRecoveryRequestForLatestNonce(
+            nodeUrl,
+            safeAccountAddress
+        )
+
+        updateRecoverySession(session, {
+            status: 'EXECUTED',
+            executeTransactionHash: executedRequest?.executeData.transactionHash,
+        })
     }
 
+    console.log(`Recovery executed. Status: ${session.status}`)
+    console.log(`Transaction hash: ${session.executeTransactionHash}`)
+
     // ---------------------------------------------------------------------------
     // Step 6: Wait for Grace Period
     // ---------------------------------------------------------------------------
     printSection('Grace Period')
 
-    console.log(
-        'Waiting 3-minute grace period (the original owner can cancel during this window)...'
-    )
-    await new Promise((resolve) => setTimeout(resolve, 4 * 60 * 1000))
+    if (session.status === 'EXECUTED') {
+        console.log(
+            `Waiting for the ${getGracePeriodName(gracePeriodSelector)} grace period ` +
+            `(the original owner can cancel during this window)...`
+        )
+        console.log('Safe to interrupt — re-run this flow or `npm run recovery-session resume`.')
+        await waitForGracePeriod(srm, nodeUrl, safeAccountAddress)
+    }
 
     // ---------------------------------------------------------------------------
     // Step 7: Finalize Recovery
     // ---------------------------------------------------------------------------
     printSection('Finalize Recovery')
 
-    const finalizationResult = await recoveryService.finalizeRecoveryRequest(
-        recoveryRequest.id
-    )
+    if (session.status === 'EXECUTED' && relay) {
+        const transactionHash = await finalizeRecoveryDirectly(srm, relay, safeAccountAddress)
+        if (!transactionHash) {
+            return summarizeRecoverySession(session)
+        }
+        updateRecoverySession(session, { status: 'FINALIZING', finalizeTransactionHash: transactionHash })
+    } else if (session.status === 'EXECUTED') {
+        const finalizationResult = await withRelayHint(() => getRecoveryService().finalizeRecoveryRequest(
+            recoveryRequestId
+        ))
+
+        if (!finalizationResult) {
+            throw new Error('Recovery finalization failed')
+        }
 
-    if (!finalizationResult) {
-        console.log('Recovery finalization failed')
-        rl.close()
-        return
+        updateRecoverySession(session, { status: 'FINALIZING' })
     }
 
-    console.log('Recovery finalized successfully')
-
-    // Wait for the finalization transaction to land
-    await new Promise((resolve) => setTimeout(resolve, 30 * 1000))
+    console.log('Finalization submitted, waiting for it to land on-chain...')
 
     // ---------------------------------------------------------------------------
-    // Step 8: Verify New Owner On-Chain
+    // Step 8: Verify New Owners and Threshold On-Chain
     // ---------------------------------------------------------------------------
     printSection('Verify')
 
-    const smartAccount = new SafeAccount(safeAccountAddress)
-    const newOwners = await smartAccount.getOwners(nodeUrl)
+    const { owners, threshold } = await waitForRecoveryFinalized(srm, nodeUrl, safeAccountAddress, session)
+
+    updateRecoverySession(session, { status: 'FINALIZED' })
 
     console.log('\nRecovery complete!')
     console.log(`Safe Account: ${safeAccountAddress}`)
-    console.log(`New owners:   ${newOwners.join(', ')}`)
+    console.log(`New owners:   ${owners.join(', ')}`)
+    console.log(`Threshold:    ${threshold} of ${owners.length}`)
 
-    rl.close()
+    return summarizeRecoverySession(session)
 }
 
 // ============================================================================
 // Run
 // ============================================================================
 
-main()
-    .then(() => process.exit(0))
-    .catch((error) => {
-        if (error instanceof SafeRecoveryServiceSdkError) {
-            console.error('\nRecovery Service Error:', error.stringify())
-        } else {
-            console.error('\nError:', error instanceof Error ? error.message : error)
-            let cause = error?.cause
-            while (cause) {
-                console.error(
-                    'Caused by:',
-                    cause instanceof Error ? cause.message : JSON.stringify(cause)
-                )
-                cause = cause?.cause
-            }
-        }
-        rl.close()
-        process.exit(1)
-    })
+runMain(main)
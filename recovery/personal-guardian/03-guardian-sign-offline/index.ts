@@ -0,0 +1,150 @@
+/**
+ * Guardian Sign Offline (Personal Guardian)
+ *
+ * This example is run by ONE guardian, on their own machine, with only their
+ * own private key. It signs a recovery request and emits a portable signature
+ * bundle that the guardian sends to whoever coordinates the recovery
+ * (see example 04, submit-signature-bundles).
+ *
+ * What it does:
+ *   1. Detects the Social Recovery Module enabled on the Safe
+ *   2. Rebuilds the recovery request EIP-712 data from chain state
+ *      (srm.getRecoveryRequestEip712Data)
+ *   3. Signs it with the guardian key
+ *   4. Prints the signature bundle as JSON and as a compact, QR-friendly string,
+ *      and saves it to <guardian>.signature-bundle.json
+ *
+ * The bundle is bound to the current SRM recovery nonce — if a recovery is
+ * executed or cancelled in the meantime, the guardian must sign again.
+ *
+ * Libraries used:
+ *   - abstractionkit: SocialRecoveryModule for EIP-712 data
+ *   - viem: Sign typed data
+ *
+ * Required env vars (see .env.example):
+ *   - CHAIN_ID: Chain ID (e.g., 11155111 for Sepolia)
+ *   - NODE_URL: JSON-RPC provider URL
+ *   - GUARDIAN_PRIVATE_KEY: This guardian's private key
+ *
+ * Arguments (prompted / read from env if omitted):
+ *   1. Safe address             (--safe, env: SAFE_ACCOUNT_ADDRESS)
+ *   2. New owners, comma-separated (--new-owners, env: NEW_OWNER_ADDRESS)
+ *   3. New Safe threshold       (--new-threshold, env: NEW_SAFE_THRESHOLD; default: 1)
+ *
+ * The new owners and threshold are validated the same way as in the
+ * coordinator's flow (see lib/recovery-target.ts), so a guardian never signs
+ * a target the Safe could not be recovered into.
+ *
+ * Run: npm run guardian-sign -- <safe> <newOwner[,newOwner...]> [threshold]
+ */
+
+import { SocialRecoveryModule } from 'abstractionkit'
+import * as dotenv from 'dotenv'
+import * as fs from 'fs'
+import { privateKeyToAccount } from 'viem/accounts'
+
+import { getFlagValue, getPositionalArgs, printSection, runMain } from '../../../lib/cli.js'
+import { loadConfig, parseConfigValueAs } from '../../../lib/config.js'
+import { getGracePeriodName, resolveGracePeriodSelector } from '../../../lib/grace-period.js'
+import { getInput, getSafeAccountAddress } from '../../../lib/input.js'
+import { validateRecoveryTarget } from '../../../lib/recovery-target.js'
+import { createSignatureBundle, encodeSignatureBundle } from '../../../lib/signature-bundle.js'
+
+// ============================================================================
+// Main Function
+// ============================================================================
+
+async function main() {
+    dotenv.config()
+
+    printSection('Guardian Sign Offline (Personal Guardian)')
+
+    // ---------------------------------------------------------------------------
+    // Step 1: Load Configuration
+    // ---------------------------------------------------------------------------
+    printSection('Configuration')
+
+    const config = loadConfig(
+        ['CHAIN_ID', 'NODE_URL', 'GUARDIAN_PRIVATE_KEY'],
+        ['SAFE_ACCOUNT_ADDRESS', 'NEW_OWNER_ADDRESS', 'NEW_SAFE_THRESHOLD']
+    )
+
+    const chainId = BigInt(config.CHAIN_ID)
+    const nodeUrl = config.NODE_URL
+    const guardianAccount = privateKeyToAccount(config.GUARDIAN_PRIVATE_KEY)
+
+    const [safeArg, newOwnersArg, thresholdArg] = getPositionalArgs()
+
+    const safeAccountAddress = await getSafeAccountAddress(safeArg || config.SAFE_ACCOUNT_ADDRESS)
+
+    const newOwners = parseConfigValueAs('addressList', 'New owner address', await getInput({
+        name: 'newOwners',
+        flag: '--new-owners',
+        env: 'NEW_OWNER_ADDRESS',
+        value: newOwnersArg || config.NEW_OWNER_ADDRESS?.join(','),
+        question: 'Enter new owner address(es), comma-separated: ',
+    }))
+
+    const thresholdValue = thresholdArg || getFlagValue('--new-threshold')
+    const newThreshold = thresholdValue
+        ? parseConfigValueAs('count', 'New threshold', thresholdValue)
+        : config.NEW_SAFE_THRESHOLD ?? 1
+
+    validateRecoveryTarget(safeAccountAddress, { newOwners, newThreshold })
+
+    console.log(`Guardian:      ${guardianAccount.address}`)
+    console.log(`Safe Account:  ${safeAccountAddress}`)
+    console.log(`New owners:    ${newOwners.join(', ')}`)
+    console.log(`New threshold: ${newThreshold}`)
+
+    // ---------------------------------------------------------------------------
+    // Step 2: Rebuild Recovery Request EIP-712 Data
+    // ---------------------------------------------------------------------------
+    printSection('Recovery Request')
+
+    const gracePeriodSelector = await resolveGracePeriodSelector(nodeUrl, safeAccountAddress)
+    const srm = new SocialRecoveryModule(gracePeriodSelector)
+
+    const isGuardian = await srm.isGuardian(nodeUrl, safeAccountAddress, guardianAccount.address)
+    if (!isGuardian) {
+        throw new Error(`${guardianAccount.address} is not a guardian of ${safeAccountAddress}`)
+    }
+
+    const recoveryRequestEip712Data = await srm.getRecoveryRequestEip712Data(
+        nodeUrl,
+        chainId,
+        safeAccountAddress,
+        newOwners,
+        BigInt(newThreshold)
+    )
+
+    console.log(`Grace period:   ${getGracePeriodName(gracePeriodSelector)}`)
+    console.log(`Recovery nonce: ${recoveryRequestEip712Data.messageValue.nonce}`)
+    console.log(`EIP-712 domain: ${JSON.stringify(recoveryRequestEip712Data.domain)}`)
+
+    // ---------------------------------------------------------------------------
+    // Step 3: Sign and Export Bundle
+    // ---------------------------------------------------------------------------
+    printSection('Signature Bundle')
+
+    const bundle = await createSignatureBundle(guardianAccount, recoveryRequestEip712Data)
+    const bundleFile = `${guardianAccount.address}.signature-bundle.json`
+    fs.writeFileSync(bundleFile, JSON.stringify(bundle, null, 2) + '\n')
+
+    console.log('JSON:')
+    console.log(JSON.stringify(bundle, null, 2))
+    console.log('\nCompact (copy/paste or QR):')
+    console.log(encodeSignatureBundle(bundle))
+    console.log(`\n✓ Saved to ${bundleFile}`)
+
+    console.log('\nSend the bundle to the recovery coordinator, who runs:')
+    console.log('  npm run submit-guardian-signatures -- <bundle> [<bundle> ...]\n')
+
+    return { bundleFile, bundle, encoded: encodeSignatureBundle(bundle) }
+}
+
+// ============================================================================
+// Run
+// ============================================================================
+
+runMain(main)
@@ -0,0 +1,312 @@
+/**
+ * Submit Guardian Signature Bundles (Personal Guardian)
+ *
+ * This example is run by the recovery coordinator. It imports the signature
+ * bundles produced by each guardian with example 03 (guardian-sign-offline),
+ * verifies every bundle against the recovery request EIP-712 data, and hands
+ * the signatures to the Candide Recovery Service. No guardian private key is
+ * needed here.
+ *
+ * What it does:
+ *   1. Loads bundles from files, compact strings or pasted input
+ *   2. Verifies each one: same Safe / new owners / threshold, current recovery
+ *      nonce, valid signature, signer is an on-chain guardian
+ *   3. Creates the recovery request with the first signature
+ *      (RecoveryByGuardian.createRecoveryRequest)
+ *   4. Submits the remaining signatures
+ *      (RecoveryByGuardian.submitGuardianSignatureForRecoveryRequest)
+ *
+ * Progress is saved to the recovery session file, so bundles can be submitted
+ * as they arrive over several runs. Once the guardian threshold is reached,
+ * execute and finalize with `npm run recovery-session -- resume`.
+ *
+ * With --relay eoa|bundler (or RECOVERY_RELAY) nothing goes to the service:
+ * the verified signatures are only saved in the session, and resume sends them
+ * on-chain through the relayer (see lib/direct-recovery.ts).
+ *
+ * Libraries used:
+ *   - abstractionkit: SocialRecoveryModule for EIP-712 data and guardian queries
+ *   - safe-recovery-service-sdk: RecoveryByGuardian for off-chain coordination
+ *   - viem: Recover typed data signers
+ *
+ * Required env vars (see .env.example):
+ *   - CHAIN_ID: Chain ID (e.g., 11155111 for Sepolia)
+ *   - NODE_URL: JSON-RPC provider URL
+ *   - RECOVERY_SERVICE_URL: Candide Recovery Service URL (not with --relay)
+ *
+ * Optional env vars:
+ *   - RECOVERY_SESSION_FILE: Where recovery progress is saved (default: .recovery-sessions.json)
+ *   - GRACE_PERIOD: Expected SRM grace period (default: After3Minutes; auto to detect)
+ *   - GUARDIANS_CONFIG_FILE: Guardian set file for labels and the signature
+ *     threshold (default: guardians.json; on-chain threshold if absent)
+ *
+ * Bundles can also be listed under "bundles" in an inputs JSON file (--input,
+ * see lib/input.ts); with --non-interactive the paste prompt is skipped.
+ *
+ * Run: npm run submit-guardian-signatures -- <bundle file or string> [...]
+ */
+
+import { SocialRecoveryModule } from 'abstractionkit'
+import * as dotenv from 'dotenv'
+import * as fs from 'fs'
+import { RecoveryByGuardian } from 'safe-recovery-service-sdk'
+
+import { askQuestion, getPositionalArgs, isNonInteractive, printSection, runMain } from '../../../lib/cli.js'
+import { loadConfig } from '../../../lib/config.js'
+import { getRecoveryRelayMode, withRelayHint } from '../../../lib/direct-recovery.js'
+import { getGracePeriodName, resolveGracePeriodSelector } from '../../../lib/grace-period.js'
+import { formatGuardian, loadGuardianConfig } from '../../../lib/guardian-config.js'
+import { getInputsValue, missingInputError } from '../../../lib/input.js'
+import {
+    createRecoverySession,
+    findGuardianSignature,
+    getSessionFilePath,
+    loadRecoverySession,
+    recordGuardianSignature,
+    summarizeRecoverySession,
+    updateRecoverySession,
+} from '../../../lib/recovery-session.js'
+import {
+    GuardianSignatureBundle,
+    decodeSignatureBundle,
+    verifySignatureBundle,
+} from '../../../lib/signature-bundle.js'
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/** Read a bundle argument: a path to a bundle file, or the bundle itself */
+function readBundleArgument(arg: string): GuardianSignatureBundle {
+    const input = fs.existsSync(arg) ? fs.readFileSync(arg, 'utf8') : arg
+    return decodeSignatureBundle(input)
+}
+
+// ============================================================================
+// Main Function
+// ============================================================================
+
+async function main() {
+    dotenv.config()
+
+    printSection('Submit Guardian Signature Bundles')
+
+    // ---------------------------------------------------------------------------
+    // Step 1: Load Configuration
+    // ---------------------------------------------------------------------------
+    printSection('Configuration')
+
+    const config = loadConfig(['CHAIN_ID', 'NODE_URL'])
+
+    const chainId = BigInt(config.CHAIN_ID)
+    const nodeUrl = config.NODE_URL
+    const guardianConfig = loadGuardianConfig()
+
+    // ---------------------------------------------------------------------------
+    // Step 2: Load Bundles
+    // ---------------------------------------------------------------------------
+    printSection('Load Bundles')
+
+    // Bundles come from arguments, then "bundles" in the inputs JSON, then a prompt
+    const bundleArgs = getPositionalArgs()
+    const bundlesFromInputs = await getInputsValue('bundles')
+    if (bundleArgs.length === 0 && bundlesFromInputs !== undefined) {
+        if (!Array.isArray(bundlesFromInputs)) {
+            throw new Error('Invalid inputs JSON: "bundles" must be an array')
+        }
+        bundleArgs.push(...bundlesFromInputs.map(b => typeof b === 'string' ? b : JSON.stringify(b)))
+    }
+    if (bundleArgs.length === 0 && isNonInteractive()) {
+        throw missingInputError('signature bundles', [
+            'bundle files or strings as arguments',
+            '"bundles" in the inputs JSON (--input)',
+        ])
+    }
+    if (bundleArgs.length === 0) {
+        console.log('Paste one bundle per line (file path, compact string or JSON on one line).')
+        console.log('Press Enter on an empty line to finish.')
+        for (;;) {
+            const line = (await askQuestion('> ')).trim()
+            if (!line) {
+                break
+            }
+            bundleArgs.push(line)
+        }
+    }
+
+    // One signature per guardian — a later bundle from the same guardian wins
+    const bundlesByGuardian = new Map<string, GuardianSignatureBundle>()
+    for (const arg of bundleArgs) {
+        const bundle = readBundleArgument(arg)
+        bundlesByGuardian.set(bundle.guardian.toLowerCase(), bundle)
+    }
+    const bundles = [...bundlesByGuardian.values()]
+
+    if (bundles.length === 0) {
+        throw new Error('No signature bundles provided')
+    }
+
+    console.log(`Loaded ${bundles.length} bundle(s)`)
+
+    // ---------------------------------------------------------------------------
+    // Step 3: Verify Bundles
+    // ---------------------------------------------------------------------------
+    printSection('Verify Bundles')
+
+    const safeAccountAddress = bundles[0].safeAccountAddress
+
+    // An unfinished session pins the recovery target; otherwise the first
+    // bundle defines it and every other bundle must match.
+    const previousSession = loadRecoverySession(Number(chainId), safeAccountAddress)
+    const resumedSession = previousSession?.status !== 'FINALIZED' ? previousSession : undefined
+
+    const target = {
+        chainId: Number(chainId),
+        safeAccountAddress,
+        newOwners: resumedSession?.newOwners ?? bundles[0].newOwners,
+        newThreshold: resumedSession?.newThreshold ?? bundles[0].newThreshold,
+    }
+
+    if (resumedSession && resumedSession.flow !== 'personal-guardian') {
+        throw new Error(
+            `An unfinished ${resumedSession.flow} recovery session exists for ${safeAccountAddress}`
+        )
+    }
+
+    const gracePeriodSelector = await resolveGracePeriodSelector(nodeUrl, safeAccountAddress)
+    const srm = new SocialRecoveryModule(gracePeriodSelector)
+
+    console.log(`Safe Account:  ${target.safeAccountAddress}`)
+    console.log(`New owners:    ${target.newOwners.join(', ')}`)
+    console.log(`New threshold: ${target.newThreshold}`)
+    console.log(`Grace period:  ${getGracePeriodName(gracePeriodSelector)}\n`)
+
+    for (const bundle of bundles) {
+        await verifySignatureBundle(bundle, srm, nodeUrl, target)
+        console.log(`✓ ${formatGuardian(guardianConfig, bundle.guardian)}`)
+    }
+
+    // ---------------------------------------------------------------------------
+    // Step 4: Submit Signatures
+    // ---------------------------------------------------------------------------
+    // A relayed recovery keeps the signatures in the session only
+    const relayMode = getRecoveryRelayMode() ?? resumedSession?.relay
+    printSection(relayMode ? 'Save Signatures' : 'Submit Signatures')
+
+    const session = resumedSession ?? createRecoverySession({
+        safeAccountAddress,
+        chainId: Number(chainId),
+        flow: 'personal-guardian',
+        gracePeriod: getGracePeriodName(gracePeriodSelector),
+        newOwners: target.newOwners,
+        newThreshold: target.newThreshold,
+    })
+
+    // The guardian config file (if any) defines how many signatures are needed
+    const guardianThreshold = guardianConfig
+        ? BigInt(guardianConfig.threshold)
+        : await srm.threshold(nodeUrl, safeAccountAddress)
+
+    if (relayMode) {
+        for (const bundle of bundles) {
+            recordGuardianSignature(
+                session,
+                bundle.guardian,
+                bundle.signature,
+                findGuardianSignature(session, bundle.guardian)?.submitted ?? false
+            )
+            console.log(`✓ ${bundle.guardian}: saved`)
+        }
+        updateRecoverySession(session, {
+            relay: relayMode,
+            status: session.status === 'SIGNING' && BigInt(session.signatures.length) >= guardianThreshold
+                ? 'PENDING'
+                : session.status,
+        })
+
+        printSection(`${session.signatures.length} of ${guardianThreshold} required signatures collected`)
+        console.log(`Session file: ${getSessionFilePath()}`)
+
+        const thresholdReached = BigInt(session.signatures.length) >= guardianThreshold
+        if (thresholdReached) {
+            console.log('\nThreshold reached. Execute and finalize through the relayer with:')
+            console.log(`  npm run recovery-session -- resume --relay ${relayMode}\n`)
+        } else {
+            console.log('\nCollect the remaining bundles and run this example again.\n')
+        }
+        return {
+            ...summarizeRecoverySession(session),
+            requiredSignatures: Number(guardianThreshold),
+            thresholdReached,
+        }
+    }
+
+    const recoveryService = new RecoveryByGuardian(
+        loadConfig(['RECOVERY_SERVICE_URL']).RECOVERY_SERVICE_URL,
+        chainId,
+        gracePeriodSelector
+    )
+
+    for (const bundle of bundles) {
+        if (findGuardianSignature(session, bundle.guardian)?.submitted) {
+            console.log(`${bundle.guardian}: already submitted`)
+            continue
+        }
+
+        recordGuardianSignature(session, bundle.guardian, bundle.signature, false)
+
+        if (!session.recoveryRequestId) {
+            const recoveryRequest = await withRelayHint(() => recoveryService.createRecoveryRequest(
+                safeAccountAddress,
+                target.newOwners,
+                target.newThreshold,
+                bundle.guardian,
+                bundle.signature
+            ))
+            updateRecoverySession(session, {
+                recoveryRequestId: recoveryRequest.id,
+                emoji: recoveryRequest.emoji,
+                status: 'PENDING',
+            })
+            console.log(`Recovery request created. ID: ${recoveryRequest.id}`)
+            console.log(`Emoji (verify with account owner): ${recoveryRequest.emoji}`)
+        } else {
+            const recoveryRequestId = session.recoveryRequestId
+            await withRelayHint(() => recoveryService.submitGuardianSignatureForRecoveryRequest(
+                recoveryRequestId,
+                bundle.guardian,
+                bundle.signature
+            ))
+        }
+
+        recordGuardianSignature(session, bundle.guardian, bundle.signature, true)
+        console.log(`✓ ${bundle.guardian}: submitted`)
+    }
+
+    // ---------------------------------------------------------------------------
+    // Done
+    // ---------------------------------------------------------------------------
+    const submitted = session.signatures.filter(s => s.submitted).length
+
+    printSection(`${submitted} of ${guardianThreshold} required signatures submitted`)
+    console.log(`Session file: ${getSessionFilePath()}`)
+
+    if (BigInt(submitted) >= guardianThreshold) {
+        console.log('\nThreshold reached. Execute and finalize with:')
+        console.log('  npm run recovery-session -- resume\n')
+    } else {
+        console.log('\nCollect the remaining bundles and run this example again.\n')
+    }
+
+    return {
+        ...summarizeRecoverySession(session),
+        requiredSignatures: Number(guardianThreshold),
+        thresholdReached: BigInt(submitted) >= guardianThreshold,
+    }
+}
+
+// ============================================================================
+// Run
+// ============================================================================
+
+runMain(main)
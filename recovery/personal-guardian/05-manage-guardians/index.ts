@@ -0,0 +1,362 @@
+/**
+ * Manage Personal Guardians: list / remove / rotate / threshold
+ *
+ * This example changes the guardian set of a Safe that already has the Social
+ * Recovery Module enabled (see example 01):
+ *
+ *   list                                 Print the current guardians and threshold
+ *   remove <guardian> [threshold]        Revoke a guardian
+ *   rotate <old> <new> [threshold]       Swap a (compromised) guardian for a new one
+ *   threshold <n>                        Change how many guardians must sign
+ *
+ * Without an explicit threshold, remove keeps the current threshold (lowered
+ * to the remaining guardian count if needed) and rotate keeps it unchanged.
+ *
+ * What it does:
+ *   1. Reads the current guardians and threshold from the Social Recovery Module
+ *   2. Validates the resulting set (1 ≤ threshold ≤ guardian count)
+ *   3. Plans the SRM meta-transactions (add / revoke with threshold, change
+ *      threshold) and batches them into one UserOperation, previewed
+ *      (simulation, fee) and confirmed before it is sent (--yes skips the
+ *      confirmation, --dry-run stops after the preview)
+ *   4. Verifies the final state with srm.isGuardian / srm.threshold
+ *
+ * If you keep a guardian config file (guardians.json), update it to match —
+ * otherwise the next run of example 01 reconciles the Safe back to the file.
+ *
+ * Libraries used:
+ *   - WDK: Account management and UserOperation submission
+ *   - abstractionkit: SocialRecoveryModule for state queries and meta-transactions
+ *
+ * Required env vars (see .env.example):
+ *   - SAFE_ACCOUNT_ADDRESS: Address of the Safe
+ *   - CHAIN_ID: Chain ID (e.g., 11155111 for Sepolia)
+ *   - NODE_URL: JSON-RPC provider URL
+ *   - SEED_PHRASE: Owner's BIP-39 seed phrase (not needed for list)
+ *   - BUNDLER_URL: ERC-4337 bundler URL
+ *   - PAYMASTER_URL: Candide paymaster URL
+ *   - ENTRY_POINT_ADDRESS: Entry point contract address
+ *
+ * Optional env vars:
+ *   - SPONSORSHIP_POLICY_ID: Gas sponsorship policy ID
+ *   - GRACE_PERIOD: Expected SRM grace period (default: After3Minutes; auto to detect)
+ *   - GUARDIANS_CONFIG_FILE: Guardian set file, used for labels (default: guardians.json)
+ *
+ * Run: npm run manage-guardians -- <list|remove|rotate|threshold> <args...> [--yes | --dry-run]
+ */
+
+import { SocialRecoveryModule } from 'abstractionkit'
+import * as dotenv from 'dotenv'
+import { getAddress, isAddress } from 'viem'
+
+import { getPositionalArgs, printSection, runMain } from '../../../lib/cli.js'
+import { getGasFallbackFromEnv, loadConfig } from '../../../lib/config.js'
+import { UsageError } from '../../../lib/errors.js'
+import { getGracePeriodName, resolveGracePeriodSelector } from '../../../lib/grace-period.js'
+import {
+    GuardianConfig,
+    formatGuardian,
+    getGuardianConfigFilePath,
+    loadGuardianConfig,
+    validateGuardianConfig,
+} from '../../../lib/guardian-config.js'
+import { getGuardianSetState, planGuardianSetChanges } from '../../../lib/guardian-reconcile.js'
+import { sendWithPreview } from '../../../lib/userop-preview.js'
+import { decodeUserOperationReceipt, printDecodedReceipt } from '../../../lib/userop-receipt.js'
+import { waitForUserOperation } from '../../../lib/userop.js'
+import { GasPayment, createWallet } from '../../../lib/wallet.js'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const COMMANDS = ['list', 'remove', 'rotate', 'threshold'] as const
+type Command = typeof COMMANDS[number]
+
+const USAGE = 'Usage: wdk-candide guardians ' +
+    '<list | remove <guardian> [threshold] | rotate <old> <new> [threshold] | threshold <n>> [--yes | --dry-run]'
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function parseAddressArg(value: string | undefined, name: string): string {
+    if (!value || !isAddress(value)) {
+        throw new UsageError(`${name} must be an address, got ${value ?? '(nothing)'}\n${USAGE}`)
+    }
+    return getAddress(value)
+}
+
+/** The guardian with its label from the guardian config file, if it has one */
+function withLabel(config: GuardianConfig | undefined, address: string) {
+    return {
+        address,
+        label: config?.guardians.find(g => g.address.toLowerCase() === address.toLowerCase())?.label,
+    }
+}
+
+function parseThresholdArg(value: string | undefined): number | undefined {
+    if (value === undefined) {
+        return undefined
+    }
+    const threshold = Number(value)
+    if (!Number.isInteger(threshold)) {
+        throw new UsageError(`Threshold must be an integer, got ${value}`)
+    }
+    return threshold
+}
+
+// ============================================================================
+// Main Function
+// ============================================================================
+
+async function main() {
+    dotenv.config()
+
+    const [command, ...args] = getPositionalArgs()
+    if (!COMMANDS.includes(command as Command)) {
+        throw new UsageError(USAGE)
+    }
+
+    printSection(`Manage Guardians: ${command}`)
+
+    // ---------------------------------------------------------------------------
+    // Step 1: Load Configuration
+    // ---------------------------------------------------------------------------
+    printSection('Configuration')
+
+    // Listing only reads the chain; changes need the owner and a bundler
+    const config = loadConfig(
+        command === 'list'
+            ? ['SAFE_ACCOUNT_ADDRESS', 'CHAIN_ID', 'NODE_URL']
+            : [
+                'SEED_PHRASE', 'SAFE_ACCOUNT_ADDRESS',
+                'CHAIN_ID', 'NODE_URL', 'BUNDLER_URL', 'PAYMASTER_URL', 'ENTRY_POINT_ADDRESS',
+            ],
+        ['SPONSORSHIP_POLICY_ID']
+    )
+
+    const seedPhrase = config.SEED_PHRASE
+    const safeAccountAddress = config.SAFE_ACCOUNT_ADDRESS
+    const chainId = config.CHAIN_ID
+    const nodeUrl = config.NODE_URL
+    const bundlerUrl = config.BUNDLER_URL
+    const paymasterUrl = config.PAYMASTER_URL
+    const entryPointAddress = config.ENTRY_POINT_ADDRESS
+    const sponsorshipPolicyId = config.SPONSORSHIP_POLICY_ID
+    const guardianConfig = loadGuardianConfig()
+
+    console.log(`Safe Account: ${safeAccountAddress}`)
+    console.log(`Chain ID:     ${chainId}`)
+
+    // ---------------------------------------------------------------------------
+    // Step 2: Read Current Guardian Set
+    // ---------------------------------------------------------------------------
+    printSection('Current Guardians')
+
+    const gracePeriodSelector = await resolveGracePeriodSelector(nodeUrl, safeAccountAddress)
+    const srm = new SocialRecoveryModule(gracePeriodSelector)
+    const currentState = await getGuardianSetState(srm, nodeUrl, safeAccountAddress)
+
+    console.log(`Grace period: ${getGracePeriodName(gracePeriodSelector)}`)
+    currentState.guardians.forEach((guardian, i) => {
+        console.log(`Guardian ${i + 1}: ${formatGuardian(guardianConfig, guardian)}`)
+    })
+    console.log(`Threshold:  ${currentState.threshold} of ${currentState.guardians.length}`)
+
+    // The result printed with --json
+    const summary = {
+        safeAccountAddress,
+        chainId,
+        gracePeriod: getGracePeriodName(gracePeriodSelector),
+        moduleEnabled: currentState.moduleEnabled,
+        guardians: currentState.guardians.map(address => withLabel(guardianConfig, address)),
+        threshold: currentState.threshold,
+    }
+
+    if (command === 'list') {
+        return summary
+    }
+
+    // ---------------------------------------------------------------------------
+    // Step 3: Build Desired Guardian Set
+    // ---------------------------------------------------------------------------
+    printSection('Planned Changes')
+
+    const isCurrentGuardian = (address: string) =>
+        currentState.guardians.some(g => g.toLowerCase() === address.toLowerCase())
+
+    let guardians = [...currentState.guardians]
+    let threshold: number
+
+    if (command === 'remove') {
+        const guardian = parseAddressArg(args[0], 'Guardian')
+        if (!isCurrentGuardian(guardian)) {
+            throw new Error(`${guardian} is not a guardian of ${safeAccountAddress}`)
+        }
+        guardians = guardians.filter(g => g.toLowerCase() !== guardian.toLowerCase())
+        threshold = parseThresholdArg(args[1]) ??
+            Math.min(currentState.threshold, guardians.length)
+    } else if (command === 'rotate') {
+        const oldGuardian = parseAddressArg(args[0], 'Old guardian')
+        const newGuardian = parseAddressArg(args[1], 'New guardian')
+        if (!isCurrentGuardian(oldGuardian)) {
+            throw new Error(`${oldGuardian} is not a guardian of ${safeAccountAddress}`)
+        }
+        if (isCurrentGuardian(newGuardian)) {
+            throw new Error(`${newGuardian} is already a guardian of ${safeAccountAddress}`)
+        }
+        guardians = guardians.map(g => g.toLowerCase() === oldGuardian.toLowerCase() ? newGuardian : g)
+        threshold = parseThresholdArg(args[2]) ?? currentState.threshold
+    } else {
+        const newThreshold = parseThresholdArg(args[0])
+        if (newThreshold === undefined) {
+            throw new UsageError(USAGE)
+        }
+        threshold = newThreshold
+    }
+
+    // Labels from the guardian config file, where it knows the guardian
+    const desired: GuardianConfig = validateGuardianConfig({
+        threshold,
+        guardians: guardians.map(address => withLabel(guardianConfig, address)),
+    })
+
+    const plan = planGuardianSetChanges(srm, safeAccountAddress, currentState, desired)
+    const changes = {
+        ...summary,
+        plan: plan.map(({ description }) => description),
+        guardians: desired.guardians,
+        threshold: desired.threshold,
+        previous: { guardians: summary.guardians, threshold: summary.threshold },
+    }
+
+    if (plan.length === 0) {
+        console.log('✓ Guardian set already matches — nothing to do')
+        return changes
+    }
+
+    plan.forEach(({ description }, i) => console.log(`${i + 1}. ${description}`))
+    console.log(`\nResult: ${desired.threshold} of ${desired.guardians.length} guardians`)
+
+    // ---------------------------------------------------------------------------
+    // Step 4: Initialize Safe Account (Owner)
+    // ---------------------------------------------------------------------------
+    printSection('Initialize Safe Account')
+
+    // Guardian management calls are authorized by the Safe itself, so the
+    // UserOperation must come from the Safe owned by this seed phrase.
+    const network = { chainId, nodeUrl, bundlerUrl, entryPointAddress }
+    const gas: GasPayment = { mode: 'sponsored', paymasterUrl, sponsorshipPolicyId }
+    const gasFallback = getGasFallbackFromEnv(gas)
+    const wallet = createWallet(seedPhrase, network, gas)
+
+    const account = await wallet.getAccount(0)
+    const accountAddress = await account.getAddress()
+
+    if (accountAddress.toLowerCase() !== safeAccountAddress.toLowerCase()) {
+        throw new Error(
+            `Seed phrase derives ${accountAddress}, not ${safeAccountAddress}. ` +
+            `Only the Safe owner can change its guardians.`
+        )
+    }
+
+    console.log(`✓ Owner confirmed: ${accountAddress}`)
+
+    // ---------------------------------------------------------------------------
+    // Step 5: Preview and Submit Batched UserOperation
+    // ---------------------------------------------------------------------------
+    printSection('Submit UserOperation')
+
+    // Simulated and its fee estimated first; --dry-run stops after the preview
+    const { preview, hash } = await sendWithPreview(
+        account,
+        plan.map(({ transaction }) => transaction),
+        network,
+        gasFallback
+    )
+    if (!hash) {
+        account.dispose()
+        wallet.dispose()
+        return { ...changes, dryRun: true, preview }
+    }
+    console.log(`✓ Submitted: ${hash}`)
+
+    console.log('Waiting for on-chain confirmation...')
+
+    const receipt = await waitForUserOperation(hash, bundlerUrl, entryPointAddress)
+    const decoded = await decodeUserOperationReceipt(receipt, nodeUrl)
+    printDecodedReceipt(decoded)
+
+    if (!receipt.success) {
+        throw new Error(`UserOperation failed on-chain: ${decoded.revertReason ?? 'no reason given'}`)
+    }
+
+    console.log(`✓ Confirmed: ${receipt.receipt.transactionHash}`)
+
+    // ---------------------------------------------------------------------------
+    // Step 6: Verify Guardian Set
+    // ---------------------------------------------------------------------------
+    printSection('Verify Guardians')
+
+    // Check every guardian that was there before or should be there now
+    const affected = [
+        ...currentState.guardians,
+        ...desired.guardians.map(g => g.address).filter(a => !isCurrentGuardian(a)),
+    ]
+    const [guardianChecks, onChainThreshold] = await Promise.all([
+        Promise.all(affected.map(guardian => srm.isGuardian(nodeUrl, safeAccountAddress, guardian))),
+        srm.threshold(nodeUrl, safeAccountAddress),
+    ])
+
+    let matches = onChainThreshold === BigInt(desired.threshold)
+    affected.forEach((guardian, i) => {
+        const expected = desired.guardians.some(g => g.address.toLowerCase() === guardian.toLowerCase())
+        matches &&= guardianChecks[i] === expected
+        console.log(
+            `${formatGuardian(desired, guardian)}: ` +
+            `${guardianChecks[i] ? 'guardian' : 'not a guardian'} ${guardianChecks[i] === expected ? '✓' : '✗'}`
+        )
+    })
+    console.log(`Threshold:  ${onChainThreshold} ${onChainThreshold === BigInt(desired.threshold) ? '✓' : '✗'}`)
+
+    if (!matches) {
+        throw new Error('Guardian set on-chain does not match the requested change')
+    }
+
+    // A guardian config file describing the old set would undo this change
+    // the next time example 01 runs.
+    if (guardianConfig) {
+        const desiredState = {
+            moduleEnabled: true,
+            guardians: desired.guardians.map(g => g.address),
+            threshold: desired.threshold,
+        }
+        const configOutdated =
+            planGuardianSetChanges(srm, safeAccountAddress, desiredState, guardianConfig).length > 0
+        if (configOutdated) {
+            console.log(`\n⚠️  ${getGuardianConfigFilePath()} no longer matches — update it to:`)
+            console.log(JSON.stringify(desired, null, 4))
+        }
+    }
+
+    console.log('\n✓ Guardian set updated')
+
+    account.dispose()
+    wallet.dispose()
+
+    return {
+        ...changes,
+        preview,
+        userOpHash: hash,
+        transactionHash: receipt.receipt.transactionHash,
+        success: receipt.success,
+        events: decoded.events,
+    }
+}
+
+// ============================================================================
+// Run
+// ============================================================================
+
+runMain(main)
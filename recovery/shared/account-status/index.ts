@@ -0,0 +1,319 @@
+/**
+ * Account Status
+ *
+ * A read-only report of everything the examples set up on a Safe, in one
+ * place. Nothing is signed on-chain and no transaction is sent.
+ *
+ * What it reports:
+ *   - Deployment status and Safe owners (getOwners)
+ *   - Enabled Social Recovery Module and its grace period
+ *   - Guardians and guardian threshold
+ *   - Pending recovery (srm.getRecoveryRequest) and time left until executeAfter
+ *   - Paymaster token balance (getPaymasterTokenBalance), when the paymaster
+ *     token env vars are set
+ *   - Registered email/SMS recovery channels and alert subscriptions, when the
+ *     owner seed phrase and recovery service are available (SIWE-authenticated,
+ *     off-chain)
+ *
+ * Output is human-readable text, or JSON with --json (bigints as decimal strings).
+ *
+ * Libraries used:
+ *   - abstractionkit: Safe and SocialRecoveryModule state queries
+ *   - WDK: Read-only account for the paymaster token balance
+ *   - safe-recovery-service-sdk: Channel registrations and alert subscriptions
+ *
+ * Required env vars (see .env.example):
+ *   - CHAIN_ID: Chain ID (e.g., 11155111 for Sepolia)
+ *   - NODE_URL: JSON-RPC provider URL
+ *   - SAFE_ACCOUNT_ADDRESS: Safe to inspect
+ *
+ * Optional env vars:
+ *   - BUNDLER_URL, ENTRY_POINT_ADDRESS, PAYMASTER_URL, PAYMASTER_ADDRESS,
+ *     PAYMASTER_TOKEN_ADDRESS: Report the paymaster token balance
+ *   - SEED_PHRASE, RECOVERY_SERVICE_URL: Report recovery channels and alerts
+ *   - GUARDIANS_CONFIG_FILE: Guardian set file, used for labels (default: guardians.json)
+ *
+ * Run: npm run status [-- --json]
+ */
+
+import {
+    SafeAccountV0_3_0 as SafeAccount,
+    SocialRecoveryModule,
+    sendJsonRpcRequest,
+} from 'abstractionkit'
+import * as dotenv from 'dotenv'
+import { Alerts, RecoveryByCustodialGuardian, SafeRecoveryServiceSdkError } from 'safe-recovery-service-sdk'
+import { mnemonicToAccount } from 'viem/accounts'
+
+import { formatDuration, isJsonOutput, printSection, runMain } from '../../../lib/cli.js'
+import { loadConfig } from '../../../lib/config.js'
+import { getEnabledGracePeriodSelectors, getGracePeriodName } from '../../../lib/grace-period.js'
+import { formatGuardian, loadGuardianConfig } from '../../../lib/guardian-config.js'
+import { getChainTimestamp } from '../../../lib/recovery-polling.js'
+import { signOwnerMessage, signSafeMessage } from '../../../lib/signing.js'
+import { Token, formatTokenAmount, getToken } from '../../../lib/tokens.js'
+import { createReadOnlyAccount } from '../../../lib/wallet.js'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+type Channel = { channel: string; target: string }
+
+type AccountStatus = {
+    chainId: number
+    safeAccountAddress: string
+    deployed: boolean
+    owners: string[]
+    recoveryModules: {
+        gracePeriod: string
+        moduleAddress: string
+        guardians: { address: string; label?: string }[]
+        threshold: bigint
+        pendingRecovery: {
+            newOwners: string[]
+            newThreshold: bigint
+            executeAfter: bigint
+            secondsLeft: bigint
+        } | null
+    }[]
+    paymasterToken: (Token & { balance: bigint }) | null
+    recoveryChannels: Channel[] | { error: string } | null
+    alertSubscriptions: Channel[] | { error: string } | null
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/** Run an optional off-chain lookup, reporting its failure instead of throwing */
+async function tryLookup<T>(lookup: () => Promise<T>): Promise<T | { error: string }> {
+    try {
+        return await lookup()
+    } catch (error) {
+        return {
+            error: error instanceof SafeRecoveryServiceSdkError
+                ? error.stringify()
+                : error instanceof Error ? error.message : String(error),
+        }
+    }
+}
+
+function printChannels(title: string, channels: AccountStatus['recoveryChannels']) {
+    if (channels === null) {
+        console.log(`${title}: (set SEED_PHRASE and RECOVERY_SERVICE_URL to check)`)
+    } else if ('error' in channels) {
+        console.log(`${title}: ✗ ${channels.error}`)
+    } else if (channels.length === 0) {
+        console.log(`${title}: none`)
+    } else {
+        console.log(`${title}:`)
+        channels.forEach((c, i) => console.log(`  ${i + 1}. ${c.channel}: ${c.target}`))
+    }
+}
+
+// ============================================================================
+// Main Function
+// ============================================================================
+
+async function main() {
+    dotenv.config()
+
+    const config = loadConfig(
+        ['CHAIN_ID', 'NODE_URL', 'SAFE_ACCOUNT_ADDRESS'],
+        [
+            'RECOVERY_SERVICE_URL', 'SEED_PHRASE',
+            'BUNDLER_URL', 'ENTRY_POINT_ADDRESS', 'PAYMASTER_URL', 'PAYMASTER_ADDRESS', 'PAYMASTER_TOKEN_ADDRESS',
+        ]
+    )
+
+    const chainId = config.CHAIN_ID
+    const nodeUrl = config.NODE_URL
+    const safeAccountAddress = config.SAFE_ACCOUNT_ADDRESS
+    const serviceUrl = config.RECOVERY_SERVICE_URL
+    const seedPhrase = config.SEED_PHRASE
+    const guardianConfig = loadGuardianConfig()
+
+    // ---------------------------------------------------------------------------
+    // Step 1: Safe Deployment and Owners
+    // ---------------------------------------------------------------------------
+    const code = await sendJsonRpcRequest(nodeUrl, 'eth_getCode', [safeAccountAddress, 'latest'])
+    const deployed = (code as unknown as string) !== '0x'
+    const owners = deployed ? await new SafeAccount(safeAccountAddress).getOwners(nodeUrl) : []
+
+    // ---------------------------------------------------------------------------
+    // Step 2: Social Recovery Module, Guardians and Pending Recovery
+    // ---------------------------------------------------------------------------
+    // Normally at most one SRM is enabled; report every one that is.
+    const now = await getChainTimestamp(nodeUrl)
+    const selectors = deployed ? await getEnabledGracePeriodSelectors(nodeUrl, safeAccountAddress) : []
+
+    const recoveryModules = await Promise.all(selectors.map(async (selector) => {
+        const srm = new SocialRecoveryModule(selector)
+        const [guardians, threshold, request] = await Promise.all([
+            srm.getGuardians(nodeUrl, safeAccountAddress),
+            srm.threshold(nodeUrl, safeAccountAddress),
+            srm.getRecoveryRequest(nodeUrl, safeAccountAddress),
+        ])
+        return {
+            gracePeriod: getGracePeriodName(selector),
+            moduleAddress: srm.moduleAddress,
+            guardians: guardians.map(address => ({
+                address,
+                label: guardianConfig?.guardians.find(
+                    g => g.address.toLowerCase() === address.toLowerCase()
+                )?.label,
+            })),
+            threshold,
+            pendingRecovery: request.executeAfter === 0n ? null : {
+                newOwners: request.newOwners,
+                newThreshold: request.newThreshold,
+                executeAfter: request.executeAfter,
+                secondsLeft: request.executeAfter > now ? request.executeAfter - now : 0n,
+            },
+        }
+    }))
+
+    // ---------------------------------------------------------------------------
+    // Step 3: Paymaster Token Balance
+    // ---------------------------------------------------------------------------
+    const {
+        BUNDLER_URL: bundlerUrl,
+        ENTRY_POINT_ADDRESS: entryPointAddress,
+        PAYMASTER_URL: paymasterUrl,
+        PAYMASTER_ADDRESS: paymasterAddress,
+        PAYMASTER_TOKEN_ADDRESS: tokenAddress,
+    } = config
+    let paymasterToken: AccountStatus['paymasterToken'] = null
+
+    if (bundlerUrl && entryPointAddress && paymasterUrl && paymasterAddress && tokenAddress) {
+        const readOnlyAccount = createReadOnlyAccount(
+            safeAccountAddress,
+            { chainId, nodeUrl, bundlerUrl, entryPointAddress },
+            { mode: 'erc20', paymasterUrl, paymasterAddress, tokenAddress }
+        )
+        const [balance, token] = await Promise.all([
+            readOnlyAccount.getPaymasterTokenBalance(),
+            getToken(nodeUrl, tokenAddress),
+        ])
+        paymasterToken = { ...token, balance }
+    }
+
+    // ---------------------------------------------------------------------------
+    // Step 4: Recovery Channels and Alert Subscriptions (owner key required)
+    // ---------------------------------------------------------------------------
+    // Both services authenticate with SIWE: channel registrations need an
+    // EIP-1271 Safe signature, alert subscriptions a plain owner EOA signature.
+    let recoveryChannels: AccountStatus['recoveryChannels'] = null
+    let alertSubscriptions: AccountStatus['alertSubscriptions'] = null
+
+    if (seedPhrase && serviceUrl) {
+        const ownerAccount = mnemonicToAccount(seedPhrase, { accountIndex: 0 })
+
+        recoveryChannels = await tryLookup(async () => {
+            const guardianService = new RecoveryByCustodialGuardian(serviceUrl, BigInt(chainId))
+            const message = guardianService.getRegistrationsSiweStatementToSign(safeAccountAddress)
+            const signature = await signSafeMessage(safeAccountAddress, chainId, message, ownerAccount)
+            const registrations = await guardianService.getRegistrations(safeAccountAddress, message, signature)
+            return registrations.map((r: Channel) => ({ channel: r.channel, target: r.target }))
+        })
+
+        alertSubscriptions = await tryLookup(async () => {
+            const alertsService = new Alerts(serviceUrl, BigInt(chainId))
+            const message = alertsService.getSubscriptionsSiweStatementToSign(ownerAccount.address)
+            const signature = await signOwnerMessage(message, ownerAccount)
+            const subscriptions = await alertsService.getActiveSubscriptions(
+                safeAccountAddress,
+                ownerAccount.address,
+                message,
+                signature
+            )
+            return subscriptions.map((s: Channel) => ({ channel: s.channel, target: s.target }))
+        })
+    }
+
+    const status: AccountStatus = {
+        chainId,
+        safeAccountAddress,
+        deployed,
+        owners,
+        recoveryModules,
+        paymasterToken,
+        recoveryChannels,
+        alertSubscriptions,
+    }
+
+    // ---------------------------------------------------------------------------
+    // Output
+    // ---------------------------------------------------------------------------
+    // With --json, runMain prints the status object instead
+    if (isJsonOutput()) {
+        return status
+    }
+
+    printSection('Safe Account')
+
+    console.log(`Address:  ${status.safeAccountAddress}`)
+    console.log(`Chain ID: ${status.chainId}`)
+    console.log(`Deployed: ${status.deployed ? 'yes' : 'no (counterfactual)'}`)
+    if (status.deployed) {
+        console.log(`Owners:   ${status.owners.join(', ')}`)
+    }
+
+    printSection('Social Recovery')
+
+    if (status.recoveryModules.length === 0) {
+        console.log('Social Recovery Module: not enabled')
+    }
+    if (status.recoveryModules.length > 1) {
+        console.log('⚠️  More than one Social Recovery Module is enabled')
+    }
+    for (const module of status.recoveryModules) {
+        console.log(`Module:       ${module.moduleAddress}`)
+        console.log(`Grace period: ${module.gracePeriod}`)
+        console.log(`Guardians:    ${module.guardians.length === 0 ? 'none' : ''}`)
+        module.guardians.forEach((g, i) => {
+            console.log(`  ${i + 1}. ${formatGuardian(guardianConfig, g.address)}`)
+        })
+        console.log(`Threshold:    ${module.threshold} of ${module.guardians.length}`)
+
+        const pending = module.pendingRecovery
+        if (!pending) {
+            console.log('Pending recovery: none')
+        } else {
+            console.log(`Pending recovery:`)
+            console.log(`  New owners:    ${pending.newOwners.join(', ')}`)
+            console.log(`  New threshold: ${pending.newThreshold}`)
+            console.log(`  Finalizable:   ${new Date(Number(pending.executeAfter) * 1000).toISOString()}`)
+            console.log(
+                pending.secondsLeft > 0n
+                    ? `  Time left:     ${formatDuration(Number(pending.secondsLeft))}`
+                    : '  Time left:     grace period has elapsed'
+            )
+        }
+    }
+
+    printSection('Gas')
+
+    if (status.paymasterToken) {
+        const { balance, ...token } = status.paymasterToken
+        console.log(`Paymaster token: ${token.symbol} (${token.address})`)
+        console.log(`Balance:         ${formatTokenAmount(balance, token)}`)
+    } else {
+        console.log('Paymaster token: (set the PAYMASTER_* env vars to check)')
+    }
+
+    printSection('Off-Chain Services')
+
+    printChannels('Recovery channels', status.recoveryChannels)
+    printChannels('Alert subscriptions', status.alertSubscriptions)
+    console.log()
+
+    return status
+}
+
+// ============================================================================
+// Run
+// ============================================================================
+
+runMain(main)
@@ -13,8 +13,10 @@
  * What it does:
  *   1. Reads the pending recovery request from on-chain
  *   2. Initializes the Safe account via WDK
- *   3. Cancels the recovery (Safe calls SRM.cancelRecovery())
- *   4. Waits for confirmation
+ *   3. Previews the cancellation (simulation, fee) and asks to confirm
+ *      (--yes to skip, --dry-run to stop there)
+ *   4. Cancels the recovery (Safe calls SRM.cancelRecovery()) and waits for
+ *      confirmation
  *   5. Verifies the recovery was cancelled
  *
  * Libraries used:
@@ -32,41 +34,21 @@
  *
  * Optional env vars:
  *   - SPONSORSHIP_POLICY_ID: Gas sponsorship policy ID
+ *   - GRACE_PERIOD: Expected SRM grace period (default: After3Minutes; auto to detect)
  *
- * Run: npm run cancel-recovery
+ * Run: npm run cancel-recovery [-- --yes | --dry-run]
  */
 
-import WalletManagerEvmErc4337 from '@tetherto/wdk-wallet-evm-erc-4337'
-import {
-    Bundler,
-    SendUseroperationResponse,
-    SocialRecoveryModule,
-    SocialRecoveryModuleGracePeriodSelector,
-} from 'abstractionkit'
+import { SocialRecoveryModule } from 'abstractionkit'
 import * as dotenv from 'dotenv'
 
-// ============================================================================
-// Helper Functions
-// ============================================================================
-
-/**
- * Wait for a UserOperation to be included in a block
- */
-async function waitForUserOperation(
-    userOperationHash: string,
-    bundlerUrl: string,
-    entryPointAddress: string
-) {
-    const bundler = new Bundler(bundlerUrl)
-    const response = new SendUseroperationResponse(userOperationHash, bundler, entryPointAddress)
-    return response.included()
-}
-
-function printSection(title: string) {
-    console.log('\n' + '═'.repeat(60))
-    console.log(`  ${title}`)
-    console.log('═'.repeat(60))
-}
+import { printSection, runMain } from '../../../lib/cli.js'
+import { getGasFallbackFromEnv, loadConfig } from '../../../lib/config.js'
+import { getGracePeriodName, resolveGracePeriodSelector } from '../../../lib/grace-period.js'
+import { sendWithPreview } from '../../../lib/userop-preview.js'
+import { decodeUserOperationReceipt, printDecodedReceipt } from '../../../lib/userop-receipt.js'
+import { waitForUserOperation } from '../../../lib/userop.js'
+import { GasPayment, createWallet } from '../../../lib/wallet.js'
 
 // ============================================================================
 // Main Function
@@ -75,32 +57,29 @@ function printSection(title: string) {
 async function main() {
     dotenv.config()
 
-    console.log('\n' + '═'.repeat(60))
-    console.log('  Cancel Pending Recovery')
-    console.log('═'.repeat(60))
+    printSection('Cancel Pending Recovery')
 
     // ---------------------------------------------------------------------------
     // Step 1: Load Configuration
     // ---------------------------------------------------------------------------
     printSection('Configuration')
 
-    const requiredEnvVars = [
-        'SEED_PHRASE', 'SAFE_ACCOUNT_ADDRESS',
-        'CHAIN_ID', 'NODE_URL', 'BUNDLER_URL', 'PAYMASTER_URL', 'ENTRY_POINT_ADDRESS',
-    ]
-    const missing = requiredEnvVars.filter(v => !process.env[v])
-    if (missing.length > 0) {
-        throw new Error(`Missing required env vars: ${missing.join(', ')}`)
-    }
-
-    const seedPhrase = process.env.SEED_PHRASE as string
-    const safeAccountAddress = process.env.SAFE_ACCOUNT_ADDRESS as string
-    const chainId = Number(process.env.CHAIN_ID)
-    const nodeUrl = process.env.NODE_URL as string
-    const bundlerUrl = process.env.BUNDLER_URL as string
-    const paymasterUrl = process.env.PAYMASTER_URL as string
-    const entryPointAddress = process.env.ENTRY_POINT_ADDRESS as string
-    const sponsorshipPolicyId = process.env.SPONSORSHIP_POLICY_ID as string
+    const config = loadConfig(
+        [
+            'SEED_PHRASE', 'SAFE_ACCOUNT_ADDRESS',
+            'CHAIN_ID', 'NODE_URL', 'BUNDLER_URL', 'PAYMASTER_URL', 'ENTRY_POINT_ADDRESS',
+        ],
+        ['SPONSORSHIP_POLICY_ID']
+    )
+
+    const seedPhrase = config.SEED_PHRASE
+    const safeAccountAddress = config.SAFE_ACCOUNT_ADDRESS
+    const chainId = config.CHAIN_ID
+    const nodeUrl = config.NODE_URL
+    const bundlerUrl = config.BUNDLER_URL
+    const paymasterUrl = config.PAYMASTER_URL
+    const entryPointAddress = config.ENTRY_POINT_ADDRESS
+    const sponsorshipPolicyId = config.SPONSORSHIP_POLICY_ID
 
     console.log(`Safe Account: ${safeAccountAddress}`)
     console.log(`Chain ID:     ${chainId}`)
@@ -110,14 +89,18 @@ async function main() {
     // ---------------------------------------------------------------------------
     printSection('Check Pending Recovery')
 
-    // Must use the same grace period selector as the setup example (01).
-    const srm = new SocialRecoveryModule(SocialRecoveryModuleGracePeriodSelector.After3Minutes)
+    // Must use the same grace period selector as the setup example (01) —
+    // detected from the module actually enabled on the Safe.
+    const gracePeriodSelector = await resolveGracePeriodSelector(nodeUrl, safeAccountAddress)
+    const srm = new SocialRecoveryModule(gracePeriodSelector)
+
+    console.log(`Grace period: ${getGracePeriodName(gracePeriodSelector)}`)
 
     const recoveryRequest = await srm.getRecoveryRequest(nodeUrl, safeAccountAddress)
 
     if (recoveryRequest.executeAfter === 0n) {
         console.log('No pending recovery request found. Nothing to cancel.')
-        return
+        return { safeAccountAddress, chainId, cancelled: false }
     }
 
     const executeAfterDate = new Date(Number(recoveryRequest.executeAfter) * 1000)
@@ -142,16 +125,10 @@ async function main() {
     // The Safe account itself must send the cancellation, not the EOA owner.
     // WDK submits a UserOperation from the Safe, which calls cancelRecovery()
     // on the Social Recovery Module contract.
-    const wallet = new WalletManagerEvmErc4337(seedPhrase, {
-        chainId,
-        provider: nodeUrl,
-        bundlerUrl,
-        entryPointAddress,
-        safeModulesVersion: '0.3.0',
-        isSponsored: true,
-        paymasterUrl,
-        sponsorshipPolicyId,
-    })
+    const network = { chainId, nodeUrl, bundlerUrl, entryPointAddress }
+    const gas: GasPayment = { mode: 'sponsored', paymasterUrl, sponsorshipPolicyId }
+    const gasFallback = getGasFallbackFromEnv(gas)
+    const wallet = createWallet(seedPhrase, network, gas)
 
     const account = await wallet.getAccount(0)
     const accountAddress = await account.getAddress()
@@ -175,10 +152,13 @@ async function main() {
     // is cancelling its own recovery.
     const cancelTx = srm.createCancelRecoveryMetaTransaction()
 
-    console.log('Submitting cancellation...')
-
-    const result = await account.sendTransaction([cancelTx])
-    console.log(`✓ Submitted: ${result.hash}`)
+    const { preview, hash } = await sendWithPreview(account, [cancelTx], network, gasFallback)
+    if (!hash) {
+        account.dispose()
+        wallet.dispose()
+        return { safeAccountAddress, chainId, cancelled: false, dryRun: true, preview }
+    }
+    console.log(`✓ Submitted: ${hash}`)
 
     // ---------------------------------------------------------------------------
     // Step 5: Wait for Confirmation
@@ -187,10 +167,12 @@ async function main() {
 
     console.log('Waiting for on-chain confirmation...')
 
-    const receipt = await waitForUserOperation(result.hash, bundlerUrl, entryPointAddress)
+    const receipt = await waitForUserOperation(hash, bundlerUrl, entryPointAddress)
+    const decoded = await decodeUserOperationReceipt(receipt, nodeUrl)
+    printDecodedReceipt(decoded)
 
     if (!receipt.success) {
-        throw new Error('Cancellation UserOperation failed on-chain')
+        throw new Error(`Cancellation UserOperation failed on-chain: ${decoded.revertReason ?? 'no reason given'}`)
     }
 
     console.log(`✓ Confirmed: ${receipt.receipt.transactionHash}`)
@@ -201,8 +183,9 @@ async function main() {
     printSection('Verify Cancellation')
 
     const afterCancel = await srm.getRecoveryRequest(nodeUrl, safeAccountAddress)
+    const cancelled = afterCancel.executeAfter === 0n
 
-    if (afterCancel.executeAfter === 0n) {
+    if (cancelled) {
         console.log('✓ Recovery successfully cancelled')
         console.log('  The Safe remains under your control.')
     } else {
@@ -211,15 +194,26 @@ async function main() {
 
     account.dispose()
     wallet.dispose()
+
+    return {
+        safeAccountAddress,
+        chainId,
+        cancelled,
+        cancelledRecovery: {
+            newOwners: recoveryRequest.newOwners,
+            newThreshold: recoveryRequest.newThreshold,
+            executeAfter: executeAfterDate.toISOString(),
+        },
+        preview,
+        userOpHash: hash,
+        transactionHash: receipt.receipt.transactionHash,
+        success: receipt.success,
+        events: decoded.events,
+    }
 }
 
 // ============================================================================
 // Run
 // ============================================================================
 
-main()
-    .then(() => process.exit(0))
-    .catch((error) => {
-        console.error('\nError:', error instanceof Error ? error.message : error)
-        process.exit(1)
-    })
+runMain(main)
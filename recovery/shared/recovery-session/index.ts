@@ -0,0 +1,347 @@
+/**
+ * Recovery Session: status / resume / finalize
+ *
+ * The recovery flow examples save their progress to a recovery session file
+ * (see lib/recovery-session.ts). This example picks up a saved session, so a
+ * recovery using a multi-day grace period survives crashes and restarts.
+ *
+ * Commands:
+ *   status    Print the saved session alongside the on-chain recovery state
+ *   resume    Continue from the last completed step: execute, wait for the
+ *             grace period, finalize and verify
+ *   execute   Execute the recovery request and stop once it is on-chain,
+ *             without waiting for the grace period
+ *   finalize  Finalize now if the grace period has elapsed, otherwise print
+ *             the time remaining and exit with code 3 without waiting
+ *
+ * Steps that need guardian keys or OTP codes (session status SIGNING) cannot
+ * be resumed here — re-run the recovery flow example that created the session.
+ *
+ * This works for both guardian types: after the request is created, execution
+ * and finalization go through RecoveryByGuardian either way.
+ *
+ * With --relay eoa|bundler (or RECOVERY_RELAY), or for a session started that
+ * way, they are sent on-chain by a relayer instead, with the guardian
+ * signatures saved in the session (see lib/direct-recovery.ts) — the way to
+ * carry on when the recovery service is down.
+ *
+ * Required env vars (see .env.example):
+ *   - CHAIN_ID: Chain ID (e.g., 11155111 for Sepolia)
+ *   - NODE_URL: JSON-RPC provider URL
+ *   - RECOVERY_SERVICE_URL: Candide Recovery Service URL (resume / execute /
+ *     finalize, unless relayed)
+ *
+ * Optional env vars:
+ *   - SAFE_ACCOUNT_ADDRESS: Safe being recovered (--safe; prompted if not set)
+ *   - RECOVERY_SESSION_FILE: Session file (default: .recovery-sessions.json)
+ *   - RECOVERY_RELAY: eoa or bundler (--relay) to execute and finalize without
+ *     the service; eoa needs RELAYER_PRIVATE_KEY, bundler SEED_PHRASE,
+ *     BUNDLER_URL and ENTRY_POINT_ADDRESS
+ *
+ * Run: npm run recovery-session -- <status|resume|execute|finalize>
+ */
+
+import { SafeAccountV0_3_0 as SafeAccount, SocialRecoveryModule } from 'abstractionkit'
+import * as dotenv from 'dotenv'
+import { RecoveryByGuardian } from 'safe-recovery-service-sdk'
+
+import { EXIT_CODES, formatDuration, getPositionalArgs, printSection, runMain } from '../../../lib/cli.js'
+import { loadConfig } from '../../../lib/config.js'
+import {
+    RecoveryRelay,
+    describeRecoveryRelay,
+    executeRecoveryDirectly,
+    finalizeRecoveryDirectly,
+    getRecoveryRelayMode,
+    loadRecoveryRelay,
+    withRelayHint,
+} from '../../../lib/direct-recovery.js'
+import { UsageError } from '../../../lib/errors.js'
+import { parseGracePeriodSelector, resolveGracePeriodSelector } from '../../../lib/grace-period.js'
+import { getSafeAccountAddress } from '../../../lib/input.js'
+import {
+    getChainTimestamp,
+    waitForGracePeriod,
+    waitForRecoveryExecuted,
+    waitForRecoveryFinalized,
+} from '../../../lib/recovery-polling.js'
+import {
+    RecoverySession,
+    getSessionFilePath,
+    requireRecoverySession,
+    summarizeRecoverySession,
+    updateRecoverySession,
+} from '../../../lib/recovery-session.js'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const COMMANDS = ['status', 'resume', 'execute', 'finalize'] as const
+type Command = typeof COMMANDS[number]
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Finalize an EXECUTED session — through the relay if there is one — and wait
+ * until the new owners are in place. A relayed --dry-run stops at the preview.
+ */
+async function finalizeSession(
+    session: RecoverySession,
+    srm: SocialRecoveryModule,
+    nodeUrl: string,
+    relay: RecoveryRelay | undefined,
+    getRecoveryService: () => RecoveryByGuardian
+) {
+    if (session.status === 'EXECUTED' && relay) {
+        const transactionHash = await finalizeRecoveryDirectly(srm, relay, session.safeAccountAddress)
+        if (!transactionHash) {
+            return
+        }
+        updateRecoverySession(session, { status: 'FINALIZING', finalizeTransactionHash: transactionHash })
+    } else if (session.status === 'EXECUTED') {
+        const finalizationResult = await withRelayHint(() => getRecoveryService().finalizeRecoveryRequest(
+            session.recoveryRequestId as string
+        ))
+        if (!finalizationResult) {
+            throw new Error('Recovery finalization failed')
+        }
+        updateRecoverySession(session, { status: 'FINALIZING' })
+        console.log('Finalization submitted, waiting for it to land on-chain...')
+    }
+
+    const { owners, threshold } = await waitForRecoveryFinalized(srm, nodeUrl, session.safeAccountAddress, session)
+    updateRecoverySession(session, { status: 'FINALIZED' })
+
+    console.log('\nRecovery complete!')
+    console.log(`Safe Account: ${session.safeAccountAddress}`)
+    console.log(`New owners:   ${owners.join(', ')}`)
+    console.log(`Threshold:    ${threshold} of ${owners.length}`)
+}
+
+// ============================================================================
+// Main Function
+// ============================================================================
+
+async function main() {
+    dotenv.config()
+
+    const command = getPositionalArgs()[0] as Command
+    if (!COMMANDS.includes(command)) {
+        throw new UsageError(`Usage: wdk-candide recovery <${COMMANDS.join('|')}>`)
+    }
+
+    printSection(`Recovery Session: ${command}`)
+
+    // ---------------------------------------------------------------------------
+    // Step 1: Load Configuration and Session
+    // ---------------------------------------------------------------------------
+    printSection('Configuration')
+
+    const config = loadConfig(['CHAIN_ID', 'NODE_URL'], ['SAFE_ACCOUNT_ADDRESS'])
+
+    const chainId = config.CHAIN_ID
+    const nodeUrl = config.NODE_URL
+
+    const safeAccountAddress = await getSafeAccountAddress(config.SAFE_ACCOUNT_ADDRESS)
+
+    const session = requireRecoverySession(chainId, safeAccountAddress)
+
+    // The session remembers the grace period it was started with; make sure the
+    // Safe still has that module enabled.
+    const gracePeriodSelector = await resolveGracePeriodSelector(nodeUrl, safeAccountAddress)
+    if (gracePeriodSelector !== parseGracePeriodSelector(session.gracePeriod)) {
+        throw new Error(
+            `Session was started with the ${session.gracePeriod} module, ` +
+            `but a different module is now enabled on ${safeAccountAddress}`
+        )
+    }
+    const srm = new SocialRecoveryModule(gracePeriodSelector)
+
+    console.log(`Session file:  ${getSessionFilePath()}`)
+    console.log(`Safe Account:  ${session.safeAccountAddress}`)
+    console.log(`Flow:          ${session.flow}`)
+    console.log(`Grace period:  ${session.gracePeriod}`)
+    console.log(`Status:        ${session.status}`)
+
+    // ---------------------------------------------------------------------------
+    // Step 2: Session Status
+    // ---------------------------------------------------------------------------
+    printSection('Session')
+
+    console.log(`New owners:    ${session.newOwners.join(', ')}`)
+    console.log(`New threshold: ${session.newThreshold}`)
+    console.log(`Request ID:    ${session.recoveryRequestId ?? '(not created yet)'}`)
+    if (session.emoji) {
+        console.log(`Emoji:         ${session.emoji}`)
+    }
+    console.log(`Signatures:    ${session.signatures.length}`)
+    session.signatures.forEach((sig, i) => {
+        console.log(`  ${i + 1}. ${sig.signer} (${sig.submitted ? 'submitted' : 'not submitted'})`)
+    })
+    if (session.relay) {
+        console.log(`Relay:         ${session.relay} (no recovery service)`)
+    }
+    if (session.executeTransactionHash) {
+        console.log(`Execute tx:    ${session.executeTransactionHash}`)
+    }
+    if (session.finalizeTransactionHash) {
+        console.log(`Finalize tx:   ${session.finalizeTransactionHash}`)
+    }
+    console.log(`Last update:   ${session.updatedAt}`)
+
+    printSection('On-Chain State')
+
+    const [recoveryRequest, owners, now] = await Promise.all([
+        srm.getRecoveryRequest(nodeUrl, safeAccountAddress),
+        new SafeAccount(safeAccountAddress).getOwners(nodeUrl),
+        getChainTimestamp(nodeUrl),
+    ])
+
+    console.log(`Current owners: ${owners.join(', ')}`)
+    if (recoveryRequest.executeAfter === 0n) {
+        console.log('Pending recovery: none')
+    } else {
+        const secondsLeft = Number(recoveryRequest.executeAfter - now)
+        console.log(`Pending recovery: ${recoveryRequest.newOwners.join(', ')}`)
+        console.log(`Finalizable:      ${new Date(Number(recoveryRequest.executeAfter) * 1000).toISOString()}`)
+        console.log(
+            secondsLeft > 0
+                ? `Time left:        ${formatDuration(secondsLeft)}`
+                : 'Time left:        grace period has elapsed'
+        )
+    }
+
+    // The result printed with --json
+    const onChain = {
+        owners,
+        pendingRecovery: recoveryRequest.executeAfter === 0n ? null : {
+            newOwners: recoveryRequest.newOwners,
+            newThreshold: recoveryRequest.newThreshold,
+            executeAfter: new Date(Number(recoveryRequest.executeAfter) * 1000).toISOString(),
+            secondsLeft: Math.max(0, Number(recoveryRequest.executeAfter - now)),
+        },
+    }
+
+    if (command === 'status') {
+        return { ...summarizeRecoverySession(session), onChain }
+    }
+
+    // A relayed session goes on being relayed, unless --relay picks another mode.
+    // The service is only created when used, so relaying needs no RECOVERY_SERVICE_URL.
+    const relayMode = getRecoveryRelayMode() ?? session.relay
+    const relay = relayMode ? loadRecoveryRelay(relayMode) : undefined
+    if (relayMode && session.relay !== relayMode) {
+        updateRecoverySession(session, { relay: relayMode })
+    }
+    let recoveryService: RecoveryByGuardian | undefined
+    const getRecoveryService = () => recoveryService ??= new RecoveryByGuardian(
+        loadConfig(['RECOVERY_SERVICE_URL']).RECOVERY_SERVICE_URL,
+        BigInt(chainId),
+        gracePeriodSelector
+    )
+    if (relay) {
+        console.log(`\nSent by: ${describeRecoveryRelay(relay)}`)
+    }
+
+    // ---------------------------------------------------------------------------
+    // Step 3: Finalize (finalize command)
+    // ---------------------------------------------------------------------------
+    if (command === 'finalize') {
+        printSection('Finalize Recovery')
+
+        if (session.status === 'FINALIZED') {
+            console.log('Recovery already finalized — nothing to do')
+            return { ...summarizeRecoverySession(session), onChain }
+        }
+        if (session.status !== 'EXECUTED' && session.status !== 'FINALIZING') {
+            throw new Error(
+                `Cannot finalize a session with status ${session.status} — run resume instead`
+            )
+        }
+        if (session.status === 'EXECUTED' && now < recoveryRequest.executeAfter) {
+            console.log(
+                `Grace period still active — finalizable in ` +
+                `${formatDuration(Number(recoveryRequest.executeAfter - now))}`
+            )
+            process.exitCode = EXIT_CODES.notReady
+            return { ...summarizeRecoverySession(session), onChain }
+        }
+
+        await finalizeSession(session, srm, nodeUrl, relay, getRecoveryService)
+        return summarizeRecoverySession(session)
+    }
+
+    // ---------------------------------------------------------------------------
+    // Step 3: Resume From the Last Completed Step (resume / execute commands)
+    // ---------------------------------------------------------------------------
+    printSection(command === 'execute' ? 'Execute Recovery' : 'Resume Recovery')
+
+    if (session.status === 'FINALIZED') {
+        console.log('Recovery already finalized — nothing to do')
+        return { ...summarizeRecoverySession(session), onChain }
+    }
+
+    if (session.status === 'SIGNING') {
+        throw new Error(
+            'Guardian signatures are still being collected. ' +
+            `Re-run \`npm run recovery-flow-${session.flow}\` to continue.`
+        )
+    }
+
+    if (session.status === 'PENDING' && relay) {
+        const transactionHash = await executeRecoveryDirectly(srm, nodeUrl, relay, session)
+        if (!transactionHash) {
+            return summarizeRecoverySession(session)
+        }
+        updateRecoverySession(session, { status: 'EXECUTING', executeTransactionHash: transactionHash })
+    } else if (session.status === 'PENDING') {
+        console.log('Executing recovery request...')
+        await withRelayHint(() => getRecoveryService().executeRecoveryRequest(session.recoveryRequestId as string))
+        updateRecoverySession(session, { status: 'EXECUTING' })
+    }
+
+    if (session.status === 'EXECUTING' && relay) {
+        await waitForRecoveryExecuted(srm, nodeUrl, safeAccountAddress)
+        updateRecoverySession(session, { status: 'EXECUTED' })
+        console.log(`Recovery executed. Tx: ${session.executeTransactionHash}`)
+    } else if (session.status === 'EXECUTING') {
+        console.log('Waiting for execution to land on-chain...')
+        await waitForRecoveryExecuted(srm, nodeUrl, safeAccountAddress, getRecoveryService())
+
+        const executedRequest = await getRecoveryService().getExecutedRecoveryRequestForLatestNonce(
+            nodeUrl,
+            safeAccountAddress
+        )
+        updateRecoverySession(session, {
+            status: 'EXECUTED',
+            executeTransactionHash: executedRequest?.executeData.transactionHash,
+        })
+        console.log(`Recovery executed. Tx: ${session.executeTransactionHash}`)
+    }
+
+    if (command === 'execute') {
+        console.log(
+            `Finalize after the ${session.gracePeriod} grace period with ` +
+            '`npm run recovery-session -- finalize`'
+        )
+        return summarizeRecoverySession(session)
+    }
+
+    if (session.status === 'EXECUTED') {
+        console.log(`Waiting for the ${session.gracePeriod} grace period...`)
+        await waitForGracePeriod(srm, nodeUrl, safeAccountAddress)
+    }
+
+    await finalizeSession(session, srm, nodeUrl, relay, getRecoveryService)
+
+    return summarizeRecoverySession(session)
+}
+
+// ============================================================================
+// Run
+// ============================================================================
+
+runMain(main)
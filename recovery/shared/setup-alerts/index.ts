@@ -6,6 +6,12 @@
  * uses SIWE (Sign-In With Ethereum) for off-chain authentication and requires
  * no on-chain transaction.
  *
+ * Commands:
+ *   subscribe                  (default) Subscribe to email and/or SMS alerts
+ *   list                       Print the active subscriptions
+ *   unsubscribe [id|channel|target ...]
+ *                              Remove the matching subscriptions, or all of them
+ *
  * What it does:
  *   1. Check for existing alert subscriptions (uses SIWE to authenticate)
  *   2. Subscribe to email and/or SMS alerts
@@ -35,34 +41,43 @@
  *   - SAFE_ACCOUNT_ADDRESS: Safe to subscribe alerts for (prompted if not set)
  *   - USER_EMAIL: Pre-fill email (prompted if not set)
  *   - USER_PHONE: Pre-fill phone number (prompted if not set)
+ *   - RECOVERY_CHANNELS: email, sms or both (prompted if not set)
+ *   - OTP_FILE / OTP_HOOK_URL: Where to read OTP codes from (see lib/otp.ts)
+ *
+ * Flags --safe, --channels, --email, --phone, --otp-file and --otp-hook, or an
+ * inputs JSON file (--input), answer the prompts; --non-interactive fails
+ * instead of prompting (see lib/input.ts).
  *
- * Run: npm run setup-alerts
+ * Run: npm run wdk-candide -- alerts <subscribe|list|unsubscribe> [...]
+ *      (npm run setup-alerts subscribes)
  */
 
 import * as dotenv from 'dotenv'
-import * as readline from 'readline'
 
 import { Alerts, SafeRecoveryServiceSdkError } from 'safe-recovery-service-sdk'
 import { mnemonicToAccount } from 'viem/accounts'
 
+import { getPositionalArgs, printSection, runMain } from '../../../lib/cli.js'
+import { loadConfig } from '../../../lib/config.js'
+import { SerializedError, UsageError, serializeError } from '../../../lib/errors.js'
+import { getChannelChoice, getInput, getSafeAccountAddress } from '../../../lib/input.js'
+import { getOtpProvider } from '../../../lib/otp.js'
+import { signOwnerMessage } from '../../../lib/signing.js'
+
 // ============================================================================
 // Configuration
 // ============================================================================
 
-const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
+const COMMANDS = ['subscribe', 'list', 'unsubscribe'] as const
+type Command = typeof COMMANDS[number]
 
-// ============================================================================
-// Helper Functions
-// ============================================================================
+type Subscription = { id: string; channel: string; target: string }
 
-async function askQuestion(question: string): Promise<string> {
-    return new Promise((resolve) => rl.question(question, resolve))
-}
+type Activation = { channel: string; target: string; activated: boolean; error?: SerializedError }
 
-function printSection(title: string) {
-    console.log('\n' + '═'.repeat(60))
-    console.log(`  ${title}`)
-    console.log('═'.repeat(60))
+/** Subscriptions as reported with --json */
+function toSubscriptions(subscriptions: Subscription[]): Subscription[] {
+    return subscriptions.map(({ id, channel, target }) => ({ id, channel, target }))
 }
 
 // ============================================================================
@@ -72,34 +87,38 @@ function printSection(title: string) {
 async function main() {
     dotenv.config()
 
-    console.log('\n' + '═'.repeat(60))
-    console.log('  Recovery Alerts Setup')
-    console.log('═'.repeat(60))
+    const [command = 'subscribe', ...selectors] = getPositionalArgs()
+    if (!COMMANDS.includes(command as Command)) {
+        throw new UsageError(`Usage: wdk-candide alerts <${COMMANDS.join('|')}>`)
+    }
+
+    printSection('Recovery Alerts Setup')
 
     // ---------------------------------------------------------------------------
     // Step 1: Load Configuration
     // ---------------------------------------------------------------------------
     printSection('Configuration')
 
-    const requiredEnvVars = ['CHAIN_ID', 'RECOVERY_SERVICE_URL', 'SEED_PHRASE']
-    const missing = requiredEnvVars.filter(v => !process.env[v])
-    if (missing.length > 0) {
-        throw new Error(`Missing required env vars: ${missing.join(', ')}`)
-    }
+    const config = loadConfig(
+        ['CHAIN_ID', 'RECOVERY_SERVICE_URL', 'SEED_PHRASE'],
+        ['SAFE_ACCOUNT_ADDRESS', 'USER_EMAIL', 'USER_PHONE']
+    )
 
-    const chainId = Number(process.env.CHAIN_ID)
-    const serviceUrl = process.env.RECOVERY_SERVICE_URL as string
+    const chainId = config.CHAIN_ID
+    const serviceUrl = config.RECOVERY_SERVICE_URL
 
-    const safeAccountAddress = process.env.SAFE_ACCOUNT_ADDRESS
-        ? process.env.SAFE_ACCOUNT_ADDRESS
-        : (await askQuestion('Enter your Safe account address: ')).trim()
+    const safeAccountAddress = await getSafeAccountAddress(
+        config.SAFE_ACCOUNT_ADDRESS,
+        'Enter your Safe account address: '
+    )
 
     // Must be the same seed phrase used in example 01 — it derives the owner
     // address that was used to set up the Safe and register recovery channels.
-    const seedPhrase = process.env.SEED_PHRASE as string
+    const seedPhrase = config.SEED_PHRASE
 
-    const userEmailFromEnv = process.env.USER_EMAIL as string
-    const userPhoneFromEnv = process.env.USER_PHONE as string
+    const userEmailFromEnv = config.USER_EMAIL
+    const userPhoneFromEnv = config.USER_PHONE
+    const getOtp = getOtpProvider()
 
     // Derive the owner EOA from the seed phrase
     const ownerAccount = mnemonicToAccount(seedPhrase, { accountIndex: 0 })
@@ -125,7 +144,7 @@ async function main() {
     // SIWE (Sign-In With Ethereum) proves EOA ownership without an on-chain tx.
     // The Alerts service uses plain personal_sign — the signer is the owner EOA.
     const getSubsSiweMessage = alertsService.getSubscriptionsSiweStatementToSign(ownerAccount.address)
-    const getSubsSignature = await ownerAccount.signMessage({ message: getSubsSiweMessage })
+    const getSubsSignature = await signOwnerMessage(getSubsSiweMessage, ownerAccount)
 
     const existingSubscriptions = await alertsService.getActiveSubscriptions(
         safeAccountAddress,
@@ -136,7 +155,7 @@ async function main() {
 
     if (existingSubscriptions.length > 0) {
         console.log(`\nExisting subscriptions (${existingSubscriptions.length}):`)
-        existingSubscriptions.forEach((sub: { channel: string; target: string }, i: number) => {
+        existingSubscriptions.forEach((sub: Subscription, i: number) => {
             console.log(`  ${i + 1}. ${sub.channel}: ${sub.target}`)
         })
         console.log()
@@ -144,6 +163,50 @@ async function main() {
         console.log('No existing subscriptions found')
     }
 
+    // The result printed with --json
+    const summary = { safeAccountAddress, chainId, owner: ownerAccount.address }
+
+    if (command === 'list') {
+        return { ...summary, subscriptions: toSubscriptions(existingSubscriptions) }
+    }
+
+    // ---------------------------------------------------------------------------
+    // Unsubscribe (unsubscribe command)
+    // ---------------------------------------------------------------------------
+    if (command === 'unsubscribe') {
+        printSection('Unsubscribe')
+
+        const wanted = selectors.map(s => s.toLowerCase())
+        const matching = existingSubscriptions.filter((sub: Subscription) =>
+            wanted.length === 0 ||
+            [sub.id, sub.channel, sub.target].some(v => wanted.includes(String(v).toLowerCase()))
+        )
+
+        if (matching.length === 0) {
+            console.log('No matching subscriptions — nothing to do')
+            return { ...summary, unsubscribed: [] }
+        }
+
+        const unsubscribed: (Subscription & { success: boolean })[] = []
+        for (const sub of matching as Subscription[]) {
+            const unsubscribeSiweMessage =
+                alertsService.createUnsubscribeSiweStatementToSign(ownerAccount.address)
+            const unsubscribeSignature = await signOwnerMessage(unsubscribeSiweMessage, ownerAccount)
+
+            const result = await alertsService.unsubscribe(
+                sub.id,
+                ownerAccount.address,
+                unsubscribeSiweMessage,
+                unsubscribeSignature
+            )
+            console.log(result
+                ? `✓ Unsubscribed ${sub.channel}: ${sub.target}`
+                : `✗ Failed to unsubscribe ${sub.channel}: ${sub.target}`)
+            unsubscribed.push({ ...sub, success: Boolean(result) })
+        }
+        return { ...summary, unsubscribed }
+    }
+
     // ---------------------------------------------------------------------------
     // Step 4: Choose Alert Channels
     // ---------------------------------------------------------------------------
@@ -154,26 +217,31 @@ async function main() {
     console.log('  2. SMS only')
     console.log('  3. Both email AND SMS')
 
-    const choice = parseInt(await askQuestion('Enter choice (1-3): '))
+    const { email: enableEmail, sms: enableSms } = await getChannelChoice()
 
-    if (choice < 1 || choice > 3) {
-        console.log('Invalid choice')
-        rl.close()
-        return
+    let finalUserEmail = ''
+    if (enableEmail) {
+        finalUserEmail = await getInput({
+            name: 'email',
+            flag: '--email',
+            env: 'USER_EMAIL',
+            value: userEmailFromEnv,
+            question: 'Enter your email address: ',
+        })
     }
 
-    const enableEmail = choice === 1 || choice === 3
-    const enableSms = choice === 2 || choice === 3
-
-    let finalUserEmail = userEmailFromEnv
-    if (enableEmail && !finalUserEmail) {
-        finalUserEmail = await askQuestion('Enter your email address: ')
+    let finalUserPhone = ''
+    if (enableSms) {
+        finalUserPhone = await getInput({
+            name: 'phone',
+            flag: '--phone',
+            env: 'USER_PHONE',
+            value: userPhoneFromEnv,
+            question: 'Enter your phone number (+1234567890): ',
+        })
     }
 
-    let finalUserPhone = userPhoneFromEnv
-    if (enableSms && !finalUserPhone) {
-        finalUserPhone = await askQuestion('Enter your phone number (+1234567890): ')
-    }
+    const activations: Activation[] = []
 
     // ---------------------------------------------------------------------------
     // Step 5: Subscribe to Email Alerts
@@ -194,7 +262,7 @@ async function main() {
             finalUserEmail
         )
 
-        const emailSignature = await ownerAccount.signMessage({ message: emailSiweMessage })
+        const emailSignature = await signOwnerMessage(emailSiweMessage, ownerAccount)
 
         const emailSubscriptionId = await alertsService.createEmailSubscription(
             safeAccountAddress,
@@ -204,7 +272,7 @@ async function main() {
             emailSignature
         )
 
-        const otpCode = await askQuestion(`OTP sent to ${finalUserEmail} — enter code: `)
+        const otpCode = await getOtp({ channel: 'email', target: finalUserEmail })
 
         try {
             const result = await alertsService.activateSubscription(emailSubscriptionId, otpCode)
@@ -213,12 +281,19 @@ async function main() {
             } else {
                 console.log(`✗ Failed to activate email alerts`)
             }
+            activations.push({ channel: 'email', target: finalUserEmail, activated: Boolean(result) })
         } catch (error) {
             if (error instanceof SafeRecoveryServiceSdkError) {
                 console.error(`Error:`, error.stringify())
             } else {
                 console.error(`Error:`, error instanceof Error ? error.message : error)
             }
+            activations.push({
+                channel: 'email',
+                target: finalUserEmail,
+                activated: false,
+                error: serializeError(error),
+            })
         }
     }
 
@@ -237,7 +312,7 @@ async function main() {
             finalUserPhone
         )
 
-        const smsSignature = await ownerAccount.signMessage({ message: smsSiweMessage })
+        const smsSignature = await signOwnerMessage(smsSiweMessage, ownerAccount)
 
         const smsSubscriptionId = await alertsService.createSubscription(
             safeAccountAddress,
@@ -248,7 +323,7 @@ async function main() {
             smsSignature
         )
 
-        const otpCode = await askQuestion(`OTP sent to ${finalUserPhone} — enter code: `)
+        const otpCode = await getOtp({ channel: 'sms', target: finalUserPhone })
 
         try {
             const result = await alertsService.activateSubscription(smsSubscriptionId, otpCode)
@@ -257,12 +332,19 @@ async function main() {
             } else {
                 console.log(`✗ Failed to activate SMS alerts`)
             }
+            activations.push({ channel: 'sms', target: finalUserPhone, activated: Boolean(result) })
         } catch (error) {
             if (error instanceof SafeRecoveryServiceSdkError) {
                 console.error(`Error:`, error.stringify())
             } else {
                 console.error(`Error:`, error instanceof Error ? error.message : error)
             }
+            activations.push({
+                channel: 'sms',
+                target: finalUserPhone,
+                activated: false,
+                error: serializeError(error),
+            })
         }
     }
 
@@ -272,7 +354,7 @@ async function main() {
     printSection('Verify Subscriptions')
 
     const verifySiweMessage = alertsService.getSubscriptionsSiweStatementToSign(ownerAccount.address)
-    const verifySignature = await ownerAccount.signMessage({ message: verifySiweMessage })
+    const verifySignature = await signOwnerMessage(verifySiweMessage, ownerAccount)
 
     const activeSubscriptions = await alertsService.getActiveSubscriptions(
         safeAccountAddress,
@@ -282,16 +364,14 @@ async function main() {
     )
 
     console.log(`\nActive subscriptions (${activeSubscriptions.length}):`)
-    activeSubscriptions.forEach((sub: { channel: string; target: string }, i: number) => {
+    activeSubscriptions.forEach((sub: Subscription, i: number) => {
         console.log(`  ${i + 1}. ${sub.channel}: ${sub.target}`)
     })
 
     // ---------------------------------------------------------------------------
     // Done
     // ---------------------------------------------------------------------------
-    console.log('\n' + '═'.repeat(60))
-    console.log('  Done!')
-    console.log('═'.repeat(60))
+    printSection('Done!')
     console.log('\nYou will receive notifications when:')
     console.log('  - A recovery request is initiated')
     console.log('  - A recovery request is executed')
@@ -300,21 +380,11 @@ async function main() {
     console.log('  - Email/SMS recovery: npm run recovery-flow-email-sms')
     console.log('  - Personal guardian recovery: npm run recovery-flow-personal-guardian\n')
 
-    rl.close()
+    return { ...summary, activations, subscriptions: toSubscriptions(activeSubscriptions) }
 }
 
 // ============================================================================
 // Run
 // ============================================================================
 
-main()
-    .then(() => process.exit(0))
-    .catch((error) => {
-        if (error instanceof SafeRecoveryServiceSdkError) {
-            console.error('\nAlerts Service Error:', error.stringify())
-        } else {
-            console.error('\nError:', error instanceof Error ? error.message : error)
-        }
-        rl.close()
-        process.exit(1)
-    })
+runMain(main)
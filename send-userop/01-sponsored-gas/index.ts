@@ -8,59 +8,87 @@
  *   CHAIN_ID, NODE_URL, BUNDLER_URL, PAYMASTER_URL, ENTRY_POINT_ADDRESS,
  *   SPONSORSHIP_POLICY_ID
  *
- * Run: npm run send-userop-sponsored
+ * By default a no-op call to the account itself is sent. To send your own
+ * calls as one batched UserOperation, pass --calls <file> (JSON or YAML, see
+ * calls.example.json), CALLS_FILE, or one --call '<JSON>' per call; each call
+ * is validated, ABI-encoded and printed before anything is sent (see
+ * lib/transaction-batch.ts).
+ *
+ * Before submitting, the batch is simulated and its gas estimated (see
+ * lib/userop-preview.ts), then you are asked to confirm; --yes skips the
+ * question and --dry-run stops after the preview.
+ *
+ * Run: npm run send-userop-sponsored [-- --calls calls.json] [--yes | --dry-run]
  */
 
-import WalletManagerEvmErc4337 from '@tetherto/wdk-wallet-evm-erc-4337'
-import { Bundler, SendUseroperationResponse } from 'abstractionkit'
 import * as dotenv from 'dotenv'
 import { generateMnemonic, english } from 'viem/accounts'
 
-dotenv.config()
-
-const chainId = Number(process.env.CHAIN_ID)
-const nodeUrl = process.env.NODE_URL as string
-const bundlerUrl = process.env.BUNDLER_URL as string
-const paymasterUrl = process.env.PAYMASTER_URL as string
-const entryPointAddress = process.env.ENTRY_POINT_ADDRESS as string
-const sponsorshipPolicyId = process.env.SPONSORSHIP_POLICY_ID as string
-const seedPhrase = process.env.SEED_PHRASE || generateMnemonic(english) as string
-
-const wallet = new WalletManagerEvmErc4337(seedPhrase, {
-    chainId,
-    provider: nodeUrl,
-    bundlerUrl,
-    entryPointAddress,
-    safeModulesVersion: '0.3.0',
-    isSponsored: true,
-    paymasterUrl,
-    sponsorshipPolicyId,
-})
-
-const account = await wallet.getAccount(0)
-const accountAddress = await account.getAddress()
-
-console.log(`Safe Account: ${accountAddress}`)
-
-// Send a no-op transaction — replace with any contract call
-const result = await account.sendTransaction({
-    to: accountAddress,
-    value: 0n,
-    data: '0x',
-})
-
-console.log(`UserOp hash: ${result.hash}`)
-console.log('Waiting for confirmation...')
-
-const bundler = new Bundler(bundlerUrl)
-const response = new SendUseroperationResponse(result.hash, bundler, entryPointAddress)
-const receipt = await response.included()
-
-if (!receipt.success) {
-    throw new Error(`UserOperation reverted. Tx: ${receipt.receipt.transactionHash}`)
-}
+import { runMain } from '../../lib/cli.js'
+import { getGasFallbackFromEnv, getNetworkConfigFromEnv, getSponsoredGasFromEnv, loadConfig } from '../../lib/config.js'
+import { loadTransactionBatch, printTransactionBatch } from '../../lib/transaction-batch.js'
+import { sendWithPreview } from '../../lib/userop-preview.js'
+import { decodeUserOperationReceipt, printDecodedReceipt } from '../../lib/userop-receipt.js'
+import { waitForUserOperation } from '../../lib/userop.js'
+import { createWallet } from '../../lib/wallet.js'
+
+async function main() {
+    dotenv.config()
+
+    const network = getNetworkConfigFromEnv()
+    const seedPhrase = loadConfig([], ['SEED_PHRASE']).SEED_PHRASE ?? generateMnemonic(english)
+    const batch = await loadTransactionBatch()
+
+    const gas = getSponsoredGasFromEnv()
+    // Sponsored only, unless GAS_FALLBACK lists modes to try when the paymaster declines
+    const gasFallback = getGasFallbackFromEnv(gas)
+    const wallet = createWallet(seedPhrase, network, gas)
+
+    const account = await wallet.getAccount(0)
+    const accountAddress = await account.getAddress()
+
+    console.log(`Safe Account: ${accountAddress}`)
+
+    // Send the batch, or a no-op transaction if none was given
+    const calls = batch ?? [{ to: accountAddress, value: 0n, data: '0x' as const, description: 'no-op' }]
 
-console.log(`Confirmed: ${receipt.receipt.transactionHash}`)
+    console.log(`\nCalls (${calls.length}):`)
+    printTransactionBatch(calls)
+    console.log()
+
+    const { preview, hash } = await sendWithPreview(account, calls, network, gasFallback)
+    if (!hash) {
+        account.dispose()
+        wallet.dispose()
+        return { safeAccountAddress: accountAddress, chainId: network.chainId, calls, dryRun: true, preview }
+    }
+
+    console.log(`\nUserOp hash: ${hash}`)
+    console.log('Waiting for confirmation...')
+
+    const receipt = await waitForUserOperation(hash, network.bundlerUrl, network.entryPointAddress)
+    const decoded = await decodeUserOperationReceipt(receipt, network.nodeUrl)
+    printDecodedReceipt(decoded)
+
+    if (!receipt.success) {
+        throw new Error(`UserOperation reverted: ${decoded.revertReason ?? 'no reason given'}. Tx: ${receipt.receipt.transactionHash}`)
+    }
+
+    console.log(`Confirmed: ${receipt.receipt.transactionHash}`)
+
+    account.dispose()
+    wallet.dispose()
+
+    return {
+        safeAccountAddress: accountAddress,
+        chainId: network.chainId,
+        calls,
+        preview,
+        userOpHash: hash,
+        transactionHash: receipt.receipt.transactionHash,
+        success: receipt.success,
+        events: decoded.events,
+    }
+}
 
-account.dispose()
-wallet.dispose()
+runMain(main)
@@ -6,86 +6,136 @@
  *
  * Required env vars:
  *   CHAIN_ID, NODE_URL, BUNDLER_URL, PAYMASTER_URL, PAYMASTER_ADDRESS,
- *   PAYMASTER_TOKEN_ADDRESS, ENTRY_POINT_ADDRESS
+ *   PAYMASTER_TOKEN_ADDRESS (or PAYMASTER_TOKEN_ADDRESSES), ENTRY_POINT_ADDRESS
  *
- * Run: npm run send-userop-erc20
+ * With several tokens in PAYMASTER_TOKEN_ADDRESSES the fee is quoted in each
+ * and the cheapest one the account can cover is used, or the preferred one
+ * (--gas-token <address> or PAYMASTER_TOKEN_ADDRESS) when it can be covered.
+ *
+ * Balances are printed with the token's own decimals() and symbol(), read
+ * on-chain (lib/tokens.ts), so any ERC-20 the paymaster accepts works.
+ *
+ * With --non-interactive, waits for the account to be funded by polling its
+ * balance (POLL_TIMEOUT_SECONDS etc.) instead of waiting for Enter.
+ *
+ * By default a no-op call to the account itself is sent; --calls <file>,
+ * CALLS_FILE or --call '<JSON>' send your own batch instead, as in example 01.
+ * The preview shows the fee in ETH and in the paymaster token; --yes and
+ * --dry-run work as in example 01.
+ *
+ * Run: npm run send-userop-erc20 [-- --calls calls.json] [--yes | --dry-run]
  */
 
-import WalletManagerEvmErc4337 from '@tetherto/wdk-wallet-evm-erc-4337'
-import { Bundler, SendUseroperationResponse } from 'abstractionkit'
 import * as dotenv from 'dotenv'
-import * as readline from 'readline'
 import { generateMnemonic, english } from 'viem/accounts'
 
-dotenv.config()
-
-const chainId = Number(process.env.CHAIN_ID)
-const nodeUrl = process.env.NODE_URL as string
-const bundlerUrl = process.env.BUNDLER_URL as string
-const paymasterUrl = process.env.PAYMASTER_URL as string
-const paymasterAddress = process.env.PAYMASTER_ADDRESS as string
-const paymasterTokenAddress = process.env.PAYMASTER_TOKEN_ADDRESS as string
-const entryPointAddress = process.env.ENTRY_POINT_ADDRESS as string
-const seedPhrase = process.env.SEED_PHRASE || generateMnemonic(english) as string
-
-const wallet = new WalletManagerEvmErc4337(seedPhrase, {
-    chainId,
-    provider: nodeUrl,
-    bundlerUrl,
-    entryPointAddress,
-    safeModulesVersion: '0.3.0',
-    paymasterUrl,
-    paymasterAddress,
-    paymasterToken: { address: paymasterTokenAddress },
-})
-
-const account = await wallet.getAccount(0)
-const accountAddress = await account.getAddress()
-
-console.log(`Safe Account: ${accountAddress}`)
-
-// Check USDT balance — the account needs tokens before sending
-const balance = await account.getPaymasterTokenBalance()
-console.log(`USDT balance: ${Number(balance) / 1e6} USDT`)
-
-if (balance === 0n) {
-    console.log(`\nFund this account with USDT to pay for gas:`)
-    console.log(`  Faucet:  https://dashboard.candide.dev/faucet`)
-    console.log(`  Address: ${accountAddress}\n`)
-
-    const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
-    await new Promise<void>((resolve) => rl.question('Press Enter once funded...', () => { rl.close(); resolve() }))
-
-    const balanceAfter = await account.getPaymasterTokenBalance()
-    if (balanceAfter === 0n) {
-        console.log('No USDT found. Exiting.')
+import { askQuestion, closePrompt, isNonInteractive, runMain } from '../../lib/cli.js'
+import { getErc20GasFromEnv, getGasFallbackFromEnv, getNetworkConfigFromEnv, loadConfig } from '../../lib/config.js'
+import { getPollOptionsFromEnv, pollUntil } from '../../lib/poll.js'
+import { formatTokenAmount, getToken, getTokenBalance } from '../../lib/tokens.js'
+import { loadTransactionBatch, printTransactionBatch } from '../../lib/transaction-batch.js'
+import { sendWithPreview } from '../../lib/userop-preview.js'
+import { decodeUserOperationReceipt, printDecodedReceipt } from '../../lib/userop-receipt.js'
+import { waitForUserOperation } from '../../lib/userop.js'
+import { createWallet } from '../../lib/wallet.js'
+
+async function main() {
+    dotenv.config()
+
+    const network = getNetworkConfigFromEnv()
+    const seedPhrase = loadConfig([], ['SEED_PHRASE']).SEED_PHRASE ?? generateMnemonic(english)
+    const batch = await loadTransactionBatch()
+
+    const gas = getErc20GasFromEnv()
+    const gasFallback = getGasFallbackFromEnv(gas)
+    const wallet = createWallet(seedPhrase, network, gas)
+
+    const account = await wallet.getAccount(0)
+    const accountAddress = await account.getAddress()
+
+    console.log(`Safe Account: ${accountAddress}`)
+
+    // Check the gas token balances — the account needs one of them before
+    // sending (decimals and symbol come from the token contract, e.g. 6 and USDT)
+    const tokens = await Promise.all(
+        (gas.gasTokens?.candidates ?? [gas.tokenAddress]).map(address => getToken(network.nodeUrl, address as `0x${string}`))
+    )
+    const symbols = tokens.map(token => token.symbol).join(' or ')
+    const getBalances = () => Promise.all(tokens.map(token => getTokenBalance(network.nodeUrl, token, accountAddress)))
+
+    const balances = await getBalances()
+    tokens.forEach((token, i) => console.log(`${token.symbol} balance: ${formatTokenAmount(balances[i], token)}`))
+
+    if (balances.every(balance => balance === 0n)) {
+        console.log(`\nFund this account with ${symbols} to pay for gas:`)
+        console.log(`  Faucet:  https://dashboard.candide.dev/faucet`)
+        console.log(`  Address: ${accountAddress}\n`)
+
+        // Interactively, wait for Enter; otherwise poll the balances (POLL_* settings)
+        const balancesAfter = isNonInteractive()
+            ? await pollUntil(`${symbols} funding`, async () => {
+                const current = await getBalances()
+                return current.some(balance => balance > 0n) ? current : null
+            }, getPollOptionsFromEnv())
+            : await askQuestion('Press Enter once funded...').then(() => {
+                closePrompt()
+                return getBalances()
+            })
+        if (balancesAfter.every(balance => balance === 0n)) {
+            account.dispose()
+            wallet.dispose()
+            throw new Error(`No ${symbols} found in ${accountAddress}`)
+        }
+        tokens.forEach((token, i) => console.log(`Updated balance: ${formatTokenAmount(balancesAfter[i], token)}`))
+    }
+
+    // Send the batch, or a no-op transaction — gas is deducted from the token balance
+    const calls = batch ?? [{ to: accountAddress, value: 0n, data: '0x' as const, description: 'no-op' }]
+
+    console.log(`\nCalls (${calls.length}):`)
+    printTransactionBatch(calls)
+    console.log()
+
+    const { preview, hash } = await sendWithPreview(account, calls, network, gasFallback)
+    if (!hash) {
         account.dispose()
         wallet.dispose()
-        process.exit(1)
+        return { safeAccountAddress: accountAddress, chainId: network.chainId, calls, dryRun: true, preview }
     }
-    console.log(`Updated balance: ${Number(balanceAfter) / 1e6} USDT`)
-}
 
-// Send a no-op transaction — gas is deducted from the USDT balance
-const result = await account.sendTransaction({
-    to: accountAddress,
-    value: 0n,
-    data: '0x',
-})
+    console.log(`\nUserOp hash: ${hash}`)
+    console.log('Waiting for confirmation...')
 
-console.log(`UserOp hash: ${result.hash}`)
-console.log('Waiting for confirmation...')
+    const receipt = await waitForUserOperation(hash, network.bundlerUrl, network.entryPointAddress)
+    const decoded = await decodeUserOperationReceipt(receipt, network.nodeUrl)
+    printDecodedReceipt(decoded)
 
-const bundler = new Bundler(bundlerUrl)
-const response = new SendUseroperationResponse(result.hash, bundler, entryPointAddress)
-const receipt = await response.included()
+    if (!receipt.success) {
+        throw new Error(`UserOperation reverted: ${decoded.revertReason ?? 'no reason given'}. Tx: ${receipt.receipt.transactionHash}`)
+    }
 
-if (!receipt.success) {
-    throw new Error(`UserOperation reverted. Tx: ${receipt.receipt.transactionHash}`)
+    // The token the fee was paid in, when the gas fallback did not move on to another mode
+    const token = preview.tokenFee?.token ?? tokens[0]
+    const balanceAfterSend = await getTokenBalance(network.nodeUrl, token, accountAddress)
+
+    console.log(`Confirmed: ${receipt.receipt.transactionHash}`)
+    console.log(`${token.symbol} balance after: ${formatTokenAmount(balanceAfterSend, token)}`)
+
+    account.dispose()
+    wallet.dispose()
+
+    return {
+        safeAccountAddress: accountAddress,
+        chainId: network.chainId,
+        calls,
+        preview,
+        userOpHash: hash,
+        transactionHash: receipt.receipt.transactionHash,
+        success: receipt.success,
+        events: decoded.events,
+        paymasterToken: token,
+        paymasterTokenBalance: balanceAfterSend,
+    }
 }
 
-console.log(`Confirmed: ${receipt.receipt.transactionHash}`)
-console.log(`USDT balance after: ${Number(await account.getPaymasterTokenBalance()) / 1e6} USDT`)
-
-account.dispose()
-wallet.dispose()
+runMain(main)
@@ -0,0 +1,202 @@
+/**
+ * Transfer or Approve Tokens
+ *
+ * Sends the chain's native coin or any ERC-20 from the Safe, or approves a
+ * spender for an ERC-20, as one UserOperation. The token's decimals() and
+ * symbol() are read on-chain, so amounts are written the way people say
+ * them — "12.5" or "12.5 USDT" — and converted to base units exactly.
+ *
+ *   transfer <to> <amount> [--token <address|native>]
+ *   approve <spender> <amount> --token <address>
+ *
+ * The Safe's balance is checked, and the UserOperation previewed and
+ * confirmed (--yes, --dry-run), before anything is sent. Gas is paid the same
+ * two ways as examples 01 and 02: --gas sponsored (default) or --gas erc20.
+ *
+ * Libraries used:
+ *   - WDK: Safe account and UserOperation submission
+ *   - viem: ERC-20 ABI encoding and decoding
+ *   - abstractionkit: JSON-RPC reads (decimals, symbol, balance)
+ *
+ * Required env vars:
+ *   CHAIN_ID, NODE_URL, BUNDLER_URL, PAYMASTER_URL, ENTRY_POINT_ADDRESS,
+ *   SEED_PHRASE, plus SPONSORSHIP_POLICY_ID (--gas sponsored) or
+ *   PAYMASTER_ADDRESS and PAYMASTER_TOKEN_ADDRESS (--gas erc20)
+ *
+ * Run: npm run wdk-candide -- transfer <to> <amount> [--token <address>] [--gas erc20]
+ *      npm run wdk-candide -- approve <spender> <amount> --token <address>
+ */
+
+import * as dotenv from 'dotenv'
+
+import { getFlagValue, getPositionalArgs, printSection, runMain } from '../../lib/cli.js'
+import {
+    getErc20GasFromEnv,
+    getGasFallbackFromEnv,
+    getNetworkConfigFromEnv,
+    getSponsoredGasFromEnv,
+    loadConfig,
+    parseConfigValueAs,
+} from '../../lib/config.js'
+import { UsageError } from '../../lib/errors.js'
+import {
+    encodeTokenApproval,
+    encodeTokenTransfer,
+    formatTokenAmount,
+    getToken,
+    getTokenBalance,
+    parseTokenAmount,
+} from '../../lib/tokens.js'
+import { printTransactionBatch } from '../../lib/transaction-batch.js'
+import { sendWithPreview } from '../../lib/userop-preview.js'
+import { decodeUserOperationReceipt, printDecodedReceipt } from '../../lib/userop-receipt.js'
+import { waitForUserOperation } from '../../lib/userop.js'
+import { createWallet } from '../../lib/wallet.js'
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const USAGE = [
+    'Usage: wdk-candide transfer <to> <amount> [--token <address|native>] [--gas sponsored|erc20]',
+    '       wdk-candide approve <spender> <amount> --token <address> [--gas sponsored|erc20]',
+].join('\n')
+
+const ACTIONS = ['transfer', 'approve'] as const
+
+type Action = (typeof ACTIONS)[number]
+
+// ============================================================================
+// Main Function
+// ============================================================================
+
+async function main() {
+    dotenv.config()
+
+    // ---------------------------------------------------------------------------
+    // Arguments
+    // ---------------------------------------------------------------------------
+    // The amount may be split over two words: `transfer 0x... 12.5 USDT`
+    const [action, target, ...amountWords] = getPositionalArgs()
+    if (!ACTIONS.includes(action as Action) || !target || amountWords.length === 0) {
+        throw new UsageError(USAGE)
+    }
+    const counterparty = parseConfigValueAs('address', action === 'transfer' ? 'Recipient' : 'Spender', target)
+
+    const tokenFlag = getFlagValue('--token') ?? (action === 'transfer' ? 'native' : undefined)
+    if (!tokenFlag) {
+        throw new UsageError(`approve needs --token <address>\n${USAGE}`)
+    }
+    const tokenAddress = tokenFlag === 'native' ? 'native' : parseConfigValueAs('address', '--token', tokenFlag)
+
+    const gasMode = getFlagValue('--gas') ?? 'sponsored'
+    if (gasMode !== 'sponsored' && gasMode !== 'erc20') {
+        throw new UsageError(`--gas must be one of sponsored, erc20, got "${gasMode}"`)
+    }
+
+    const network = getNetworkConfigFromEnv()
+    const { SEED_PHRASE: seedPhrase } = loadConfig(['SEED_PHRASE'])
+    const gas = gasMode === 'erc20' ? getErc20GasFromEnv() : getSponsoredGasFromEnv()
+    const gasFallback = getGasFallbackFromEnv(gas)
+
+    // ---------------------------------------------------------------------------
+    // Step 1: Token and Amount
+    // ---------------------------------------------------------------------------
+    printSection(`Step 1: ${action === 'transfer' ? 'Transfer' : 'Approval'}`)
+
+    const token = await getToken(network.nodeUrl, tokenAddress)
+    const amount = parseTokenAmount(amountWords.join(' '), token)
+    if (amount === 0n && action === 'transfer') {
+        throw new Error('Amount must be greater than 0')
+    }
+    const call = action === 'transfer'
+        ? encodeTokenTransfer(token, counterparty, amount)
+        : encodeTokenApproval(token, counterparty, amount)
+
+    console.log(`Token:  ${token.symbol} (${token.address}, ${token.decimals} decimals)`)
+    console.log(`Amount: ${formatTokenAmount(amount, token)} = ${amount} base units`)
+
+    // ---------------------------------------------------------------------------
+    // Step 2: Balance Check
+    // ---------------------------------------------------------------------------
+    printSection('Step 2: Balance Check')
+
+    const wallet = createWallet(seedPhrase, network, gas)
+    const account = await wallet.getAccount(0)
+    const accountAddress = await account.getAddress()
+
+    const balance = await getTokenBalance(network.nodeUrl, token, accountAddress)
+    console.log(`Safe Account: ${accountAddress}`)
+    console.log(`Balance:      ${formatTokenAmount(balance, token)}`)
+
+    if (action === 'transfer') {
+        if (balance < amount) {
+            account.dispose()
+            wallet.dispose()
+            throw new Error(
+                `Insufficient ${token.symbol} balance: ${formatTokenAmount(balance, token)} available, ` +
+                `${formatTokenAmount(amount, token)} needed`
+            )
+        }
+        console.log('✓ Balance is sufficient')
+    }
+
+    // ---------------------------------------------------------------------------
+    // Step 3: Preview and Send
+    // ---------------------------------------------------------------------------
+    printSection('Step 3: Preview and Send')
+
+    printTransactionBatch([call])
+    console.log()
+
+    const { preview, hash } = await sendWithPreview(account, [call], network, gasFallback)
+    if (!hash) {
+        account.dispose()
+        wallet.dispose()
+        return { safeAccountAddress: accountAddress, chainId: network.chainId, action, call, dryRun: true, preview }
+    }
+
+    console.log(`\nUserOp hash: ${hash}`)
+    console.log('Waiting for confirmation...')
+
+    const receipt = await waitForUserOperation(hash, network.bundlerUrl, network.entryPointAddress)
+    const decoded = await decodeUserOperationReceipt(receipt, network.nodeUrl)
+    printDecodedReceipt(decoded)
+
+    if (!receipt.success) {
+        account.dispose()
+        wallet.dispose()
+        throw new Error(`UserOperation reverted: ${decoded.revertReason ?? 'no reason given'}. Tx: ${receipt.receipt.transactionHash}`)
+    }
+
+    const balanceAfter = await getTokenBalance(network.nodeUrl, token, accountAddress)
+
+    console.log(`✓ Confirmed: ${receipt.receipt.transactionHash}`)
+    console.log(`Balance after: ${formatTokenAmount(balanceAfter, token)}`)
+
+    account.dispose()
+    wallet.dispose()
+
+    return {
+        safeAccountAddress: accountAddress,
+        chainId: network.chainId,
+        action,
+        token,
+        [action === 'transfer' ? 'recipient' : 'spender']: counterparty,
+        amount,
+        formattedAmount: formatTokenAmount(amount, token),
+        call,
+        preview,
+        userOpHash: hash,
+        transactionHash: receipt.receipt.transactionHash,
+        success: receipt.success,
+        events: decoded.events,
+        balance: balanceAfter,
+    }
+}
+
+// ============================================================================
+// Run
+// ============================================================================
+
+runMain(main)
@@ -0,0 +1,123 @@
+/**
+ * Wait for (or Replace) a UserOperation
+ *
+ * Picks up a UserOperation by its hash — typically one a flow gave up on at
+ * its deadline (USEROP_TIMEOUT_SECONDS), which prints this command — and
+ * waits for it, reporting whether it is pending in the bundler mempool,
+ * included, reverted or dropped.
+ *
+ * With --replace a UserOperation that is still pending is re-submitted right
+ * away with its fees raised by --bump percent (default 20): the same calls and
+ * nonce, signed again by the Safe owner, so only one of the two can be
+ * included. USEROP_REPLACE_AFTER_SECONDS does the same once it has been
+ * pending that long. A sponsored UserOperation is sponsored again
+ * (PAYMASTER_URL, SPONSORSHIP_POLICY_ID); one paying gas in ERC-20 tokens
+ * cannot be replaced.
+ *
+ * Libraries used:
+ *   - abstractionkit: bundler RPC, Safe UserOperation signing, paymaster
+ *   - viem: owner key derivation from the seed phrase
+ *
+ * Required env vars:
+ *   CHAIN_ID, NODE_URL, BUNDLER_URL, ENTRY_POINT_ADDRESS, plus SEED_PHRASE
+ *   (and PAYMASTER_URL for sponsored UserOperations) to replace
+ *
+ * Run: npm run wdk-candide -- wait <userOpHash> [--replace] [--bump <percent>]
+ */
+
+import * as dotenv from 'dotenv'
+import { toHex } from 'viem'
+import { mnemonicToAccount } from 'viem/accounts'
+
+import { getFlagValue, getPositionalArgs, printSection, runMain } from '../../lib/cli.js'
+import { getNetworkConfigFromEnv, loadConfig } from '../../lib/config.js'
+import { UsageError } from '../../lib/errors.js'
+import { decodeUserOperationReceipt, printDecodedReceipt } from '../../lib/userop-receipt.js'
+import {
+    DEFAULT_FEE_BUMP_PERCENT,
+    getUserOperationStatus,
+    getWaitOptionsFromEnv,
+    replaceUserOperation,
+    waitForUserOperation,
+} from '../../lib/userop.js'
+import { GasPayment } from '../../lib/wallet.js'
+
+const USAGE = 'Usage: wdk-candide wait <userOpHash> [--replace] [--bump <percent>]'
+
+async function main() {
+    dotenv.config()
+
+    const [userOperationHash] = getPositionalArgs()
+    if (!userOperationHash || !/^0x[0-9a-fA-F]{64}$/.test(userOperationHash)) {
+        throw new UsageError(USAGE)
+    }
+    const bumpFlag = getFlagValue('--bump')
+    const bumpPercent = bumpFlag === undefined ? DEFAULT_FEE_BUMP_PERCENT : Number(bumpFlag)
+    if (!Number.isInteger(bumpPercent) || bumpPercent < 10) {
+        throw new UsageError(`--bump must be a whole percentage of at least 10, got "${bumpFlag}"\n${USAGE}`)
+    }
+
+    const network = getNetworkConfigFromEnv()
+    const waitOptions = getWaitOptionsFromEnv()
+    if (process.argv.includes('--replace')) {
+        waitOptions.replaceAfterSeconds = 0
+    }
+
+    // ---------------------------------------------------------------------------
+    // Step 1: Status
+    // ---------------------------------------------------------------------------
+    printSection('Step 1: UserOperation Status')
+
+    const { status } = await getUserOperationStatus(userOperationHash, network.bundlerUrl)
+    console.log(`UserOp hash: ${userOperationHash}`)
+    console.log(`Status:      ${status}`)
+
+    // Replacing needs the owner key and, for sponsored UserOperations, the paymaster
+    if (waitOptions.replaceAfterSeconds !== undefined && status === 'pending') {
+        const config = loadConfig(['SEED_PHRASE'], ['PAYMASTER_URL', 'SPONSORSHIP_POLICY_ID'])
+        const ownerKey = mnemonicToAccount(config.SEED_PHRASE, { accountIndex: 0 }).getHdKey().privateKey
+        if (!ownerKey) {
+            throw new Error('Could not derive the owner key from SEED_PHRASE')
+        }
+        const gas: GasPayment = config.PAYMASTER_URL
+            ? { mode: 'sponsored', paymasterUrl: config.PAYMASTER_URL, sponsorshipPolicyId: config.SPONSORSHIP_POLICY_ID }
+            : { mode: 'native' }
+
+        waitOptions.replace = (hash) => replaceUserOperation(hash, network, toHex(ownerKey), gas, bumpPercent)
+        console.log(
+            waitOptions.replaceAfterSeconds === 0
+                ? `Replacing with fees +${bumpPercent}%`
+                : `Replacing with fees +${bumpPercent}% if still pending after ${waitOptions.replaceAfterSeconds}s`
+        )
+    }
+
+    // ---------------------------------------------------------------------------
+    // Step 2: Wait
+    // ---------------------------------------------------------------------------
+    printSection('Step 2: Wait for Inclusion')
+
+    const receipt = await waitForUserOperation(userOperationHash, network.bundlerUrl, network.entryPointAddress, waitOptions)
+    const decoded = await decodeUserOperationReceipt(receipt, network.nodeUrl)
+
+    if (receipt.userOpHash !== userOperationHash) {
+        console.log(`Included as the replacement ${receipt.userOpHash}`)
+    }
+    printDecodedReceipt(decoded)
+    if (!receipt.success) {
+        throw new Error(`UserOperation reverted: ${decoded.revertReason ?? 'no reason given'}. Tx: ${receipt.receipt.transactionHash}`)
+    }
+    console.log(`✓ Confirmed: ${receipt.receipt.transactionHash}`)
+
+    return {
+        userOpHash: receipt.userOpHash,
+        replaced: receipt.userOpHash !== userOperationHash ? userOperationHash : undefined,
+        status: 'included',
+        success: receipt.success,
+        transactionHash: receipt.receipt.transactionHash,
+        blockNumber: receipt.receipt.blockNumber,
+        actualGasCost: receipt.actualGasCost,
+        events: decoded.events,
+    }
+}
+
+runMain(main)
@@ -0,0 +1,175 @@
+/**
+ * The committed cassettes (test/cassettes/*.json) replayed with
+ * startCassetteServer (lib/cassette.ts): each command must make exactly the
+ * recorded calls and exit as it did when recorded. They pin down the request
+ * sequences of WDK sending and waiting for a UserOperation, and of
+ * abstractionkit's SocialRecoveryModule (getRecoveryRequestEip712Data and the
+ * state reads) in a relayed recovery.
+ *
+ * The cassettes were recorded against the mock; RECORD_CASSETTES=1 records
+ * them again, e.g. after a dependency update changed a sequence on purpose:
+ *
+ *   RECORD_CASSETTES=1 npx tsx --test test/cassettes.test.ts
+ */
+
+import assert from 'node:assert/strict'
+import * as path from 'node:path'
+import { describe, test } from 'node:test'
+import { fileURLToPath } from 'node:url'
+
+import {
+    CASSETTE_SERVICES,
+    Cassette,
+    CassetteService,
+    createRedactor,
+    loadCassette,
+    saveCassette,
+    startCassetteServer,
+} from '../lib/cassette.js'
+import { MOCK_ENTRY_POINT, MOCK_PAYMASTER } from '../lib/mock-chain.js'
+import { MockServer } from '../lib/mock-server.js'
+import {
+    TEST_GUARDIANS,
+    TEST_GUARDIAN_KEYS,
+    TEST_RELAYER_PRIVATE_KEY,
+    TEST_SEED_PHRASE,
+    TEST_TOKEN,
+    createGuardedSafe,
+    runCommandWithEnv,
+    skipGracePeriods,
+    startMock,
+} from './helpers.js'
+
+const CASSETTE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'cassettes')
+
+const SAFE = '0x000000000000000000000000000000000000ca55'
+const OWNER = '0x14dC79964da2C08b23698B3D3cc7Ca32193d9955'
+const NEW_OWNER = '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65'
+
+/** Everything but the service URLs, the same when recording and replaying */
+const ENV = {
+    SEED_PHRASE: TEST_SEED_PHRASE,
+    ...TEST_GUARDIAN_KEYS,
+    RELAYER_PRIVATE_KEY: TEST_RELAYER_PRIVATE_KEY,
+    ENTRY_POINT_ADDRESS: MOCK_ENTRY_POINT,
+    PAYMASTER_ADDRESS: MOCK_PAYMASTER,
+    PAYMASTER_TOKEN_ADDRESS: TEST_TOKEN,
+    POLL_INTERVAL_SECONDS: '0.05',
+    POLL_MAX_INTERVAL_SECONDS: '1',
+    POLL_BACKOFF: '1',
+    USEROP_POLL_INTERVAL_SECONDS: '0.05',
+}
+
+/** Each cassette's command, and the chain it was recorded on */
+const CASSETTES: { file: string; command: string[]; setup?: (mock: MockServer) => void }[] = [
+    {
+        file: 'send-sponsored.json',
+        command: ['send', '--gas', 'sponsored', '--yes'],
+    },
+    {
+        file: 'send-sponsored-declined.json',
+        command: ['send', '--gas', 'sponsored', '--yes'],
+        setup: mock => (mock.state.paymaster.sponsor = false),
+    },
+    {
+        file: 'recovery-relay-eoa.json',
+        command: ['recovery', 'start', '--via', 'guardians', '--safe', SAFE, '--new-owners', NEW_OWNER, '--relay', 'eoa', '--yes'],
+        setup: mock => createGuardedSafe(mock, { address: SAFE, owner: OWNER, guardians: TEST_GUARDIANS, threshold: 2 }),
+    },
+]
+
+/** The env pointing a command at the cassette proxy */
+function serviceEnv(urls: Record<CassetteService, string>, cassette: Cassette): Record<string, string> {
+    return Object.fromEntries((Object.keys(CASSETTE_SERVICES) as CassetteService[]).map(service => [
+        CASSETTE_SERVICES[service],
+        cassette.services.includes(service) ? urls[service] : '',
+    ]))
+}
+
+async function record(file: string, command: string[], setup?: (mock: MockServer) => void) {
+    const mock = await startMock()
+    setup?.(mock)
+    const stopSkipping = skipGracePeriods(mock)
+    const services = Object.keys(CASSETTE_SERVICES) as CassetteService[]
+    const cassette: Cassette = {
+        version: 1,
+        recordedAt: new Date().toISOString(),
+        chainId: mock.state.chainId,
+        command,
+        services,
+        exchanges: [],
+    }
+    const upstreams = Object.fromEntries(services.map(service => [service, mock.url]))
+    const server = await startCassetteServer({
+        mode: 'record',
+        cassette,
+        upstreams,
+        redact: createRedactor({ ...ENV, ...Object.fromEntries(Object.values(CASSETTE_SERVICES).map(name => [name, mock.url])) }),
+    })
+    try {
+        const { exitCode } = await runCommandWithEnv(command, {
+            ...ENV,
+            ...serviceEnv(server.urls, cassette),
+            CHAIN_ID: String(mock.state.chainId),
+        })
+        cassette.exitCode = exitCode
+        saveCassette(file, cassette)
+    } finally {
+        stopSkipping()
+        await server.close()
+        await mock.close()
+    }
+}
+
+describe('cassette replay', () => {
+    for (const { file, command, setup } of CASSETTES) {
+        test(file, { timeout: 120_000 }, async () => {
+            const filePath = path.join(CASSETTE_DIR, file)
+            if (process.env.RECORD_CASSETTES) {
+                await record(filePath, command, setup)
+            }
+            const cassette = loadCassette(filePath)
+            assert.deepEqual(cassette.command, command, 'the cassette was recorded for another command')
+            const server = await startCassetteServer({ mode: 'replay', cassette })
+
+            try {
+                const { exitCode, stderr } = await runCommandWithEnv(cassette.command, {
+                    ...ENV,
+                    ...serviceEnv(server.urls, cassette),
+                    CHAIN_ID: String(cassette.chainId),
+                    OTP_HOOK_URL: server.otpHookUrl,
+                })
+
+                assert.deepEqual(server.mismatches, [], stderr)
+                assert.deepEqual(server.unused().map(e => `${e.service} ${e.call}`), [], stderr)
+                assert.equal(exitCode, cassette.exitCode, stderr)
+            } finally {
+                await server.close()
+            }
+        })
+    }
+})
+
+describe('createRedactor', () => {
+    test('replaces secrets, service URLs, emails and phone numbers', () => {
+        const redact = createRedactor({
+            SEED_PHRASE: TEST_SEED_PHRASE,
+            NODE_URL: 'https://rpc.example/v2/key123',
+            BUNDLER_URL: 'https://rpc.example/v2/key123/bundler',
+            SPONSORSHIP_POLICY_ID: 'policy-abcdef',
+        })
+
+        assert.equal(
+            redact(`${TEST_SEED_PHRASE} https://rpc.example/v2/key123/bundler/x policy-abcdef a@b.io +15551234567 a@b.io`),
+            '<SEED_PHRASE> <BUNDLER_URL>/x <SPONSORSHIP_POLICY_ID> user1@example.com +15550000001 user1@example.com'
+        )
+    })
+
+    test('refuses to record when a secret is too short to redact', () => {
+        assert.throws(
+            () => createRedactor({ SPONSORSHIP_POLICY_ID: 'p1', API_KEY: 'abc', NODE_URL: 'http://n' }),
+            { message: /^Not recording: SPONSORSHIP_POLICY_ID, API_KEY are shorter than 8 characters/ }
+        )
+        assert.doesNotThrow(() => createRedactor({ SPONSORSHIP_POLICY_ID: '', CHAIN_ID: '1' }))
+    })
+})
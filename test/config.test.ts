@@ -0,0 +1,170 @@
+/**
+ * loadConfig and parseConfigValueAs (lib/config.ts): value parsing, one error
+ * listing every problem, and the shell > profile > .env precedence.
+ */
+
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { after, afterEach, describe, test } from 'node:test'
+
+// Set before lib/config.ts is evaluated (so nothing here imports it
+// statically), so it counts as set in the shell; anything set later stands in
+// for a value from .env
+process.env.BUNDLER_URL = 'https://shell.example/bundler'
+const { loadConfig, parseConfigValueAs } = await import('../lib/config.js')
+
+const CHECKSUMMED = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+const PRIVATE_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+
+/** Keys a test sets, removed after it */
+const keys = new Set<string>()
+
+function setEnv(values: Record<string, string>) {
+    for (const [key, value] of Object.entries(values)) {
+        keys.add(key)
+        process.env[key] = value
+    }
+}
+
+afterEach(() => {
+    for (const key of keys) {
+        delete process.env[key]
+    }
+    keys.clear()
+})
+
+describe('parseConfigValueAs', () => {
+    test('parses each type to its typed value', () => {
+        assert.equal(parseConfigValueAs('chainId', 'Chain', '11155111'), 11155111)
+        assert.equal(parseConfigValueAs('count', 'Threshold', ' 2 '), 2)
+        assert.equal(parseConfigValueAs('url', 'Node', 'http://127.0.0.1:8545'), 'http://127.0.0.1:8545')
+        assert.equal(parseConfigValueAs('address', 'Safe', CHECKSUMMED.toLowerCase()), CHECKSUMMED)
+        assert.equal(parseConfigValueAs('privateKey', 'Key', PRIVATE_KEY), PRIVATE_KEY)
+        assert.equal(parseConfigValueAs('text', 'Policy', 'policy id'), 'policy id')
+    })
+
+    test('checksums address lists and drops duplicates', () => {
+        assert.deepEqual(
+            parseConfigValueAs('addressList', 'Owners', `${CHECKSUMMED.toLowerCase()}, ${CHECKSUMMED},`),
+            [CHECKSUMMED]
+        )
+    })
+
+    test('normalizes the whitespace of a seed phrase', () => {
+        const phrase = 'test test test test test test test test test test test junk'
+        assert.equal(parseConfigValueAs('seedPhrase', 'Seed', ` ${phrase.replaceAll(' ', '  \n')} `), phrase)
+    })
+
+    for (const [type, raw, message] of [
+        ['chainId', '0x1', /^Value must be a positive integer, got "0x1"$/],
+        ['chainId', '0', /^Value must be a positive integer/],
+        ['count', '1.5', /^Value must be a positive integer/],
+        ['url', 'ftp://example.com', /^Value must be an http\(s\) URL/],
+        ['url', 'not a url', /^Value must be a URL/],
+        ['address', '0x70997970c51812dc3A010C7d01b50e0d17dc79C8', /^Value must be a 20-byte hex address with a valid checksum/],
+        ['addressList', `${CHECKSUMMED},0x1234`, /^Value must be comma-separated addresses with valid checksums, got "0x1234"$/],
+        ['privateKey', '0x1234', /^Value must be a 32-byte hex private key with 0x prefix$/],
+        ['seedPhrase', 'test test test', /^Value must be a BIP-39 phrase of 12\/15\/18\/21\/24 words, got 3$/],
+        ['seedPhrase', 'test test test test test test test test test test test junkk', /^Value contains words outside the BIP-39 English list: junkk$/],
+        ['seedPhrase', 'test test test test test test test test test test test test', /^Value is not a valid BIP-39 phrase: the checksum does not match/],
+    ] as const) {
+        test(`rejects ${type} "${raw}"`, () => {
+            assert.throws(() => parseConfigValueAs(type, 'Value', raw), { message })
+        })
+    }
+})
+
+describe('loadConfig', () => {
+    test('returns typed values for required and optional keys', () => {
+        setEnv({ CHAIN_ID: '11155111', SAFE_ACCOUNT_ADDRESS: CHECKSUMMED.toLowerCase() })
+
+        const config = loadConfig(['CHAIN_ID'], ['SAFE_ACCOUNT_ADDRESS', 'SPONSORSHIP_POLICY_ID'])
+
+        assert.deepEqual(config, { CHAIN_ID: 11155111, SAFE_ACCOUNT_ADDRESS: CHECKSUMMED })
+    })
+
+    test('treats empty values as unset', () => {
+        setEnv({ SPONSORSHIP_POLICY_ID: '  ' })
+
+        assert.deepEqual(loadConfig([], ['SPONSORSHIP_POLICY_ID']), {})
+        assert.throws(() => loadConfig(['SPONSORSHIP_POLICY_ID']), /SPONSORSHIP_POLICY_ID is required/)
+    })
+
+    test('lists every missing and invalid key in one error', () => {
+        setEnv({ CHAIN_ID: 'sepolia', GUARDIAN_1_PRIVATE_KEY: 'not a key' })
+
+        assert.throws(() => loadConfig(['CHAIN_ID', 'NODE_URL'], ['GUARDIAN_1_PRIVATE_KEY']), {
+            message: 'Invalid configuration:\n' +
+                '  - CHAIN_ID must be a positive integer, got "sepolia"\n' +
+                '  - NODE_URL is required\n' +
+                '  - GUARDIAN_1_PRIVATE_KEY must be a 32-byte hex private key with 0x prefix',
+        })
+    })
+
+    test('reports a seed phrase with a bad checksum without repeating it', () => {
+        setEnv({ SEED_PHRASE: 'test test test test test test test test test test junk test' })
+
+        assert.throws(() => loadConfig(['SEED_PHRASE']), {
+            message: 'Invalid configuration:\n' +
+                '  - SEED_PHRASE is not a valid BIP-39 phrase: the checksum does not match, check the words and their order',
+        })
+    })
+})
+
+describe('loadConfig with a profile', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wdk-candide-test-'))
+    after(() => fs.rmSync(dir, { recursive: true, force: true }))
+    const profilesFile = path.join(dir, 'profiles.json')
+    fs.writeFileSync(profilesFile, JSON.stringify({
+        profiles: {
+            'sepolia-test': {
+                CHAIN_ID: 11155111,
+                NODE_URL: 'https://profile.example/node',
+                BUNDLER_URL: 'https://profile.example/bundler',
+                PAYMASTER_URL: '',
+            },
+            'broken': { CHAIN_ID: 'sepolia' },
+        },
+    }))
+
+    test('layers the profile over .env and under the shell', () => {
+        setEnv({
+            PROFILES_FILE: profilesFile,
+            PROFILE: 'sepolia-test',
+            NODE_URL: 'https://dotenv.example/node',
+            PAYMASTER_URL: 'https://dotenv.example/paymaster',
+        })
+
+        const config = loadConfig(['CHAIN_ID', 'NODE_URL', 'BUNDLER_URL', 'PAYMASTER_URL'])
+
+        assert.deepEqual(config, {
+            CHAIN_ID: 11155111,
+            // The profile over .env
+            NODE_URL: 'https://profile.example/node',
+            // The shell over the profile
+            BUNDLER_URL: 'https://shell.example/bundler',
+            // An empty profile value is a placeholder, .env still applies
+            PAYMASTER_URL: 'https://dotenv.example/paymaster',
+        })
+    })
+
+    test('names the profile in validation errors', () => {
+        setEnv({ PROFILES_FILE: profilesFile, PROFILE: 'broken' })
+
+        assert.throws(() => loadConfig(['CHAIN_ID']), /^Error: Invalid configuration \(profile "broken"\):\n {2}- CHAIN_ID must be/)
+    })
+
+    test('lists the available profiles for an unknown one', () => {
+        setEnv({ PROFILES_FILE: profilesFile, PROFILE: 'mainnet' })
+
+        assert.throws(() => loadConfig(['CHAIN_ID']), { message: `Unknown profile "mainnet" in ${profilesFile}. Available: sepolia-test, broken` })
+    })
+
+    test('fails when the profiles file does not exist', () => {
+        setEnv({ PROFILES_FILE: path.join(dir, 'missing.json'), PROFILE: 'sepolia-test' })
+
+        assert.throws(() => loadConfig(['CHAIN_ID']), /Profile "sepolia-test" selected, but .*missing\.json does not exist/)
+    })
+})
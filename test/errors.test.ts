@@ -0,0 +1,65 @@
+/**
+ * formatError and serializeError (lib/errors.ts): the error itself, then its
+ * chain of causes, as lines for the terminal and as --json output.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+
+import { NotReadyError, UsageError, formatError, serializeError } from '../lib/errors.js'
+
+function bundlerError() {
+    const rpcError = Object.assign(new Error('AA21 didn\'t pay prefund'), { code: -32500 })
+    const bundlerCall = new Error('bundler eth_sendUserOperation rpc call failed', { cause: rpcError })
+    return new Error('Sending the UserOperation failed', { cause: bundlerCall })
+}
+
+describe('formatError', () => {
+    test('prints the error, then each cause', () => {
+        assert.deepEqual(formatError(bundlerError()), [
+            'Error: Sending the UserOperation failed',
+            'Caused by: bundler eth_sendUserOperation rpc call failed',
+            'Caused by: AA21 didn\'t pay prefund',
+        ])
+    })
+
+    test('prints thrown strings and objects, as error or cause', () => {
+        assert.deepEqual(formatError('plain failure'), ['Error: plain failure'])
+        assert.deepEqual(formatError(new Error('outer', { cause: { code: 4001 } })), [
+            'Error: outer',
+            'Caused by: {"code":4001}',
+        ])
+    })
+})
+
+describe('serializeError', () => {
+    test('describes the error and its cause chain, outermost first', () => {
+        assert.deepEqual(serializeError(bundlerError()), {
+            name: 'Error',
+            message: 'Sending the UserOperation failed',
+            causes: [
+                { name: 'Error', message: 'bundler eth_sendUserOperation rpc call failed' },
+                { name: 'Error', message: 'AA21 didn\'t pay prefund' },
+            ],
+        })
+    })
+
+    test('keeps the class name of usage and not-ready errors, and NotReadyError details', () => {
+        assert.deepEqual(serializeError(new UsageError('Unknown command')), {
+            name: 'UsageError',
+            message: 'Unknown command',
+            causes: [],
+        })
+        const details = { userOpHash: '0x01', status: 'pending' }
+        assert.deepEqual(serializeError(new Error('wait failed', { cause: new NotReadyError('still pending', details) })), {
+            name: 'Error',
+            message: 'wait failed',
+            causes: [{ name: 'NotReadyError', message: 'still pending', details }],
+        })
+    })
+
+    test('serializes values that are not errors', () => {
+        assert.deepEqual(serializeError('plain failure'), { name: 'Error', message: 'plain failure', causes: [] })
+        assert.deepEqual(serializeError({ code: 4001 }), { name: 'Error', message: '{"code":4001}', causes: [] })
+    })
+})
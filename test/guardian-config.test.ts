@@ -0,0 +1,68 @@
+/**
+ * validateGuardianConfig (lib/guardian-config.ts): checksummed addresses, and
+ * one error listing every problem with the file.
+ */
+
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { describe, test } from 'node:test'
+import { fileURLToPath } from 'node:url'
+
+import { validateGuardianConfig } from '../lib/guardian-config.js'
+
+const EXAMPLE_FILE = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'guardians.example.json')
+
+describe('validateGuardianConfig', () => {
+    test('accepts the example file', () => {
+        const config = validateGuardianConfig(JSON.parse(fs.readFileSync(EXAMPLE_FILE, 'utf8')))
+
+        assert.equal(config.threshold, 2)
+        assert.deepEqual(config.guardians.map(({ label }) => label), ['Alice', 'Bob', 'Hardware wallet'])
+    })
+
+    test('returns the addresses checksummed', () => {
+        const config = validateGuardianConfig({
+            threshold: 1,
+            guardians: [{ address: '0x70997970c51812dc3a010c7d01b50e0d17dc79c8' }],
+        })
+
+        assert.deepEqual(config.guardians, [{ address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', label: undefined }])
+    })
+
+    test('rejects the zero address and the SRM sentinel as guardians', () => {
+        assert.throws(
+            () => validateGuardianConfig({
+                threshold: 2,
+                guardians: [
+                    { address: '0x0000000000000000000000000000000000000000', label: 'Nobody' },
+                    { address: '0x0000000000000000000000000000000000000001', label: 'Sentinel' },
+                    { address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' },
+                ],
+            }),
+            {
+                message: 'Invalid guardian config:\n' +
+                    '  - guardians[0].address 0x0000000000000000000000000000000000000000 cannot be a guardian\n' +
+                    '  - guardians[1].address 0x0000000000000000000000000000000000000001 cannot be a guardian',
+            }
+        )
+    })
+
+    test('lists every problem at once', () => {
+        assert.throws(
+            () => validateGuardianConfig({
+                threshold: 3,
+                guardians: [
+                    { address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' },
+                    { address: '0x70997970c51812dc3a010c7d01b50e0d17dc79c8' },
+                    { address: 'not an address' },
+                ],
+            }),
+            {
+                message: 'Invalid guardian config:\n' +
+                    '  - guardians[1].address 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 is listed more than once\n' +
+                    '  - guardians[2].address is not a valid address',
+            }
+        )
+    })
+})
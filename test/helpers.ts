@@ -0,0 +1,181 @@
+/**
+ * Test Helpers
+ *
+ * The flow tests run wdk-candide commands the way a user does — a child
+ * process with --json, exit code and all — against a mock started in the
+ * test process (lib/mock-server.ts), so a test can script the chain between
+ * commands and inspect it afterwards.
+ *
+ * Each command runs in a scratch directory with only the env it is given
+ * (plus PATH), so no .env, profiles.json or recovery session file of the
+ * checkout leaks into a test.
+ */
+
+import { spawn } from 'child_process'
+import * as fs from 'fs'
+import { createRequire } from 'module'
+import * as os from 'os'
+import * as path from 'path'
+import { fileURLToPath } from 'url'
+
+import { SocialRecoveryModuleGracePeriodSelector } from 'abstractionkit'
+import { Address, getAddress } from 'viem'
+
+import { GracePeriodName } from '../lib/grace-period.js'
+import { MockScenario, getMockRecoveryConfig, getMockTime, mineBlock } from '../lib/mock-chain.js'
+import { MockServer, getMockServerEnv, startMockServer } from '../lib/mock-server.js'
+
+/** The well-known test mnemonic; its Safe is funded by the "*" balances of a scenario */
+export const TEST_SEED_PHRASE = 'test test test test test test test test test test test junk'
+
+/** Fixed guardian keys (the test mnemonic's accounts 1 and 2), so runs are comparable */
+export const TEST_GUARDIAN_KEYS = {
+    GUARDIAN_1_PRIVATE_KEY: '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+    GUARDIAN_2_PRIVATE_KEY: '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a',
+}
+
+/** The addresses of TEST_GUARDIAN_KEYS */
+export const TEST_GUARDIANS = ['0x70997970C51812dc3A010C7d01b50e0d17dc79C8', '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC']
+
+/** A key for --relay eoa (the test mnemonic's account 5), and its address */
+export const TEST_RELAYER_PRIVATE_KEY = '0x8b3a350cf5c34c9194ca85829a2df0ec3153be0318b5e2d3348e872092edffba'
+export const TEST_RELAYER = '0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc'
+
+/** The USDT test token of the mock's default scenario */
+export const TEST_TOKEN = '0xd077A400968890Eacc75cdc901F0356c943e4fDb'
+
+/** A funded, sponsoring chain: the send and guardian flows succeed on it as they are */
+export const FUNDED_SCENARIO: MockScenario = {
+    balances: { '*': { native: '0.05', [TEST_TOKEN]: '100' } },
+    paymaster: { sponsor: true },
+    bundler: { inclusion: 'auto', pendingPolls: 1 },
+}
+
+/** A command's exit code and output; `Result` is the shape the test expects of its result */
+export type CommandResult<Result = unknown> = {
+    exitCode: number
+    /** The --json output: `{ ok, result }` or `{ ok: false, error }` */
+    output: { ok: boolean; result?: Result; error?: { name: string; message: string; [key: string]: unknown } }
+    /** The logs, for the assertion message when a command fails unexpectedly */
+    stderr: string
+}
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const TSX_CLI = createRequire(import.meta.url).resolve('tsx/cli')
+
+/** Scratch directories, removed when the process exits */
+const scratchDirs: string[] = []
+process.once('exit', () => scratchDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })))
+
+/** A fresh empty directory, removed when the process exits */
+export function createScratchDir(): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wdk-candide-test-'))
+    scratchDirs.push(dir)
+    return dir
+}
+
+/** Start a mock for one test; pair with `after(() => mock.close())` */
+export function startMock(scenario: MockScenario = FUNDED_SCENARIO): Promise<MockServer> {
+    return startMockServer({ scenario })
+}
+
+/**
+ * Run `wdk-candide <args> --json` against the mock, with the test seed phrase
+ * and `env` on top of the mock's env vars.
+ */
+export function runCommand<Result = unknown>(
+    mock: MockServer,
+    args: string[],
+    env: Record<string, string> = {},
+    cwd: string = createScratchDir()
+): Promise<CommandResult<Result>> {
+    return runCommandWithEnv<Result>(args, { ...getMockServerEnv(mock), ...env }, cwd)
+}
+
+/** Run `wdk-candide <args> --json` with the test seed phrase and `env` only */
+export function runCommandWithEnv<Result = unknown>(
+    args: string[],
+    env: Record<string, string>,
+    cwd: string = createScratchDir()
+): Promise<CommandResult<Result>> {
+    const child = spawn(process.execPath, [TSX_CLI, path.join(ROOT, 'cli/wdk-candide.ts'), ...args, '--json'], {
+        cwd,
+        env: {
+            PATH: process.env.PATH ?? '',
+            SEED_PHRASE: TEST_SEED_PHRASE,
+            ...env,
+        },
+        stdio: ['ignore', 'pipe', 'pipe'],
+    })
+    let stdout = ''
+    let stderr = ''
+    child.stdout.on('data', chunk => (stdout += chunk))
+    child.stderr.on('data', chunk => (stderr += chunk))
+
+    return new Promise((resolve, reject) => {
+        child.on('error', reject)
+        child.on('close', (code) => {
+            try {
+                resolve({ exitCode: code ?? 1, output: JSON.parse(stdout), stderr })
+            } catch {
+                reject(new Error(`wdk-candide ${args.join(' ')} printed no JSON (exit ${code}):\n${stdout}\n${stderr}`))
+            }
+        })
+    })
+}
+
+/** Call one of the mock's JSON-RPC methods, e.g. mock_executeRecovery */
+export async function callMock(mock: MockServer, method: string, params: unknown[] = []): Promise<unknown> {
+    const response = await fetch(mock.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+    })
+    const { result, error } = await response.json() as { result?: unknown; error?: { message: string } }
+    if (error) {
+        throw new Error(`${method}: ${error.message}`)
+    }
+    return result
+}
+
+/**
+ * Put a deployed Safe with guardians on the mock chain, as the guardian or
+ * email/SMS setup would leave it, without sending the UserOperations
+ */
+export function createGuardedSafe(mock: MockServer, options: {
+    address: string
+    owner: string
+    guardians: string[]
+    threshold: number
+    gracePeriod?: GracePeriodName
+}): Address {
+    const safe = getAddress(options.address)
+    const module = getAddress(SocialRecoveryModuleGracePeriodSelector[options.gracePeriod ?? 'After3Minutes'])
+    mock.state.safes[safe.toLowerCase()] = { owners: [getAddress(options.owner)], threshold: 1n, modules: [module] }
+    const config = getMockRecoveryConfig(mock.state, module, safe)
+    config.guardians = options.guardians.map(guardian => getAddress(guardian))
+    config.threshold = BigInt(options.threshold)
+    return safe
+}
+
+/**
+ * Move the mock's clock past every pending grace period as soon as one
+ * starts, and mine a block at that time, so a flow waiting for it carries on
+ * within a poll. Returns the
+ * function that stops it.
+ */
+export function skipGracePeriods(mock: MockServer): () => void {
+    const timer = setInterval(() => {
+        for (const configs of Object.values(mock.state.recovery)) {
+            for (const { request } of Object.values(configs)) {
+                const now = getMockTime(mock.state)
+                if (request.executeAfter > now) {
+                    // The flows read the time of the latest block
+                    mock.state.timeOffset += Number(request.executeAfter - now)
+                    mineBlock(mock.state)
+                }
+            }
+        }
+    }, 100)
+    return () => clearInterval(timer)
+}
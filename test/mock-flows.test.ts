@@ -0,0 +1,227 @@
+/**
+ * Send and guardian flows against the mock node, bundler and paymaster
+ * (lib/mock-server.ts): 01-sponsored-gas, 02-erc20-gas, guardian setup and
+ * cancel-recovery, run as `wdk-candide` commands with their exit codes and
+ * JSON results, and checked against the chain state they leave behind.
+ */
+
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+
+import { EXIT_CODES } from '../lib/cli.js'
+import { getMockBalance } from '../lib/mock-chain.js'
+import { MockServer } from '../lib/mock-server.js'
+import { GasAttempt } from '../lib/userop-preview.js'
+import {
+    FUNDED_SCENARIO,
+    TEST_GUARDIANS,
+    TEST_GUARDIAN_KEYS,
+    TEST_TOKEN,
+    callMock,
+    createScratchDir,
+    runCommand,
+    startMock,
+} from './helpers.js'
+
+const NEW_OWNER = '0x90F79bf6EB2c4f870365E785982E1f101E93b906'
+
+/** The parts of the commands' --json results the tests read */
+type SendResult = {
+    success: boolean
+    userOpHash: string
+    safeAccountAddress: string
+    preview: { gasMode: GasAttempt['mode']; fallbacks: GasAttempt[] }
+}
+type GuardiansAddResult = {
+    success: boolean
+    safeAccountAddress: string
+    threshold: number
+    guardians: { address: string }[]
+    plan: unknown[]
+}
+type CancelResult = { cancelled: boolean; cancelledRecovery?: { newOwners: string[] } }
+
+describe('send --gas sponsored', () => {
+    let mock: MockServer
+    before(async () => (mock = await startMock()))
+    after(() => mock.close())
+
+    test('is sponsored, included and succeeds', async () => {
+        const { exitCode, output, stderr } = await runCommand<SendResult>(mock, ['send', '--gas', 'sponsored', '--yes'])
+
+        assert.equal(exitCode, EXIT_CODES.success, stderr)
+        assert.equal(output.ok, true)
+        assert.equal(output.result!.success, true)
+        assert.match(output.result!.userOpHash, /^0x[0-9a-f]{64}$/)
+        assert.ok(mock.state.safes[output.result!.safeAccountAddress.toLowerCase()], 'the Safe is deployed')
+    })
+
+    test('fails with the reason when the paymaster declines', async () => {
+        await callMock(mock, 'mock_setPaymaster', [{ sponsor: false, rejectReason: 'policy budget spent' }])
+
+        const { exitCode, output } = await runCommand<SendResult>(mock, ['send', '--gas', 'sponsored', '--yes'])
+
+        assert.equal(exitCode, EXIT_CODES.failure)
+        assert.equal(output.ok, false)
+        assert.match(output.error!.message, /policy budget spent/)
+    })
+})
+
+describe('send with a sponsorship rejected at send time', () => {
+    let mock: MockServer
+    let inputFile: string
+    const send = (args: string[]) => runCommand<SendResult>(mock, ['send', '--gas', 'sponsored', '--non-interactive', '--input', inputFile, ...args], {
+        GAS_FALLBACK: 'sponsored,erc20',
+    })
+    before(async () => {
+        mock = await startMock()
+        await callMock(mock, 'mock_setPaymaster', [{ rejectAtSend: true, rejectReason: 'policy budget spent' }])
+        inputFile = path.join(createScratchDir(), 'inputs.json')
+        fs.writeFileSync(inputFile, JSON.stringify({ confirm: true }))
+    })
+    after(() => mock.close())
+
+    test('does not submit the fallback the confirmation did not cover', async () => {
+        const { exitCode, output } = await send([])
+
+        assert.equal(exitCode, EXIT_CODES.failure)
+        assert.match(output.error!.message, /^Missing confirmation of the new gas payment in non-interactive mode/)
+        assert.equal(mock.state.blocks.length, 1, 'nothing is mined')
+    })
+
+    test('submits the fallback with --yes', async () => {
+        const { exitCode, output, stderr } = await send(['--yes'])
+
+        assert.equal(exitCode, EXIT_CODES.success, stderr)
+        assert.equal(output.result!.preview.gasMode, 'erc20')
+        assert.equal(output.result!.preview.fallbacks[0].outcome, 'rejected')
+        assert.match(stderr, /was: sponsored gas, paid by the paymaster\n {2}now: ERC-20 \(.*\) gas, ~[\d.]+ USDT paid by the Safe/)
+    })
+})
+
+describe('send --gas erc20', () => {
+    let mock: MockServer
+    before(async () => (mock = await startMock()))
+    after(() => mock.close())
+
+    test('pays the fee in the token, not in ETH', async () => {
+        const { exitCode, output, stderr } = await runCommand<SendResult>(mock, ['send', '--gas', 'erc20', '--yes'])
+
+        assert.equal(exitCode, EXIT_CODES.success, stderr)
+        assert.equal(output.result!.success, true)
+        const safe = output.result!.safeAccountAddress
+        assert.ok(getMockBalance(mock.state, safe, TEST_TOKEN) < 100_000_000n, 'the token fee is charged')
+        assert.equal(getMockBalance(mock.state, safe, 'native'), 50_000_000_000_000_000n)
+    })
+
+    test('fails before sending when the Safe holds too little of the token', async () => {
+        const low = await startMock({ ...FUNDED_SCENARIO, balances: { '*': { [TEST_TOKEN]: '0.000001' } } })
+        try {
+            const { exitCode, output } = await runCommand<SendResult>(low, ['send', '--gas', 'erc20', '--yes'])
+
+            assert.equal(exitCode, EXIT_CODES.failure)
+            assert.equal(output.ok, false)
+            assert.equal(low.state.blocks.length, 1, 'nothing is mined')
+        } finally {
+            await low.close()
+        }
+    })
+})
+
+describe('guardian setup and cancel-recovery', () => {
+    let mock: MockServer
+    let safeAccountAddress: string
+    before(async () => (mock = await startMock()))
+    after(() => mock.close())
+
+    test('guardians add deploys the Safe and enables the module with 2 of 2 guardians', async () => {
+        const { exitCode, output, stderr } = await runCommand<GuardiansAddResult>(mock, ['guardians', 'add', '--yes'], TEST_GUARDIAN_KEYS)
+
+        assert.equal(exitCode, EXIT_CODES.success, stderr)
+        safeAccountAddress = output.result!.safeAccountAddress
+        assert.equal(output.result!.success, true)
+        assert.equal(output.result!.threshold, 2)
+        assert.deepEqual(output.result!.guardians.map(g => g.address), TEST_GUARDIANS)
+        const [module, ...others] = Object.keys(mock.state.recovery)
+        assert.equal(others.length, 0)
+        assert.ok(mock.state.safes[safeAccountAddress.toLowerCase()].modules.some(m => m.toLowerCase() === module))
+        assert.equal(mock.state.recovery[module][safeAccountAddress.toLowerCase()].threshold, 2n)
+    })
+
+    test('guardians add again has nothing to do', async () => {
+        const { exitCode, output } = await runCommand<GuardiansAddResult>(mock, ['guardians', 'add', '--yes'], TEST_GUARDIAN_KEYS)
+
+        assert.equal(exitCode, EXIT_CODES.success)
+        assert.deepEqual(output.result!.plan, [])
+    })
+
+    test('recovery cancel with no pending recovery cancels nothing', async () => {
+        const { exitCode, output } = await runCommand<CancelResult>(mock, ['recovery', 'cancel', '--yes'], {
+            SAFE_ACCOUNT_ADDRESS: safeAccountAddress,
+        })
+
+        assert.equal(exitCode, EXIT_CODES.success)
+        assert.equal(output.result!.cancelled, false)
+    })
+
+    test('recovery cancel cancels a pending recovery', async () => {
+        await callMock(mock, 'mock_executeRecovery', [safeAccountAddress, [NEW_OWNER], 1])
+
+        const { exitCode, output, stderr } = await runCommand<CancelResult>(mock, ['recovery', 'cancel', '--yes'], {
+            SAFE_ACCOUNT_ADDRESS: safeAccountAddress,
+        })
+
+        assert.equal(exitCode, EXIT_CODES.success, stderr)
+        assert.equal(output.result!.cancelled, true)
+        assert.deepEqual(output.result!.cancelledRecovery!.newOwners, [NEW_OWNER])
+        const [recovery] = Object.values(mock.state.recovery).map(configs => configs[safeAccountAddress.toLowerCase()])
+        assert.equal(recovery.request.executeAfter, 0n)
+    })
+})
+
+describe('transfer --gas erc20 of the gas token itself', () => {
+    let mock: MockServer
+    let safeAccountAddress: string
+    const transfer = (amount: string, env: Record<string, string> = {}) =>
+        runCommand<SendResult>(mock, ['transfer', NEW_OWNER, amount, '--token', TEST_TOKEN, '--gas', 'erc20', '--yes'], env)
+    // The recipient is funded by the scenario's "*" balances too
+    const received = (before: bigint) => getMockBalance(mock.state, NEW_OWNER, TEST_TOKEN) - before
+    before(async () => (mock = await startMock()))
+    after(() => mock.close())
+
+    test('is unaffordable when the transfer leaves too little for the fee', async () => {
+        const start = getMockBalance(mock.state, NEW_OWNER, TEST_TOKEN)
+
+        const { exitCode, output } = await transfer('100')
+
+        assert.equal(exitCode, EXIT_CODES.failure)
+        assert.match(output.error!.message, /erc20: unaffordable — 100 USDT available, ~[\d.]+ USDT needed on top of the batch's 100 USDT/)
+        assert.equal(received(start), 0n)
+    })
+
+    test('falls back to sponsored gas, then sends the whole balance', async () => {
+        const start = getMockBalance(mock.state, NEW_OWNER, TEST_TOKEN)
+
+        const { exitCode, output, stderr } = await transfer('100', { GAS_FALLBACK: 'erc20,sponsored' })
+
+        assert.equal(exitCode, EXIT_CODES.success, stderr)
+        safeAccountAddress = output.result!.safeAccountAddress
+        assert.equal(output.result!.preview.gasMode, 'sponsored')
+        assert.equal(output.result!.preview.fallbacks[0].outcome, 'unaffordable')
+        assert.equal(received(start), 100_000_000n)
+    })
+
+    test('pays the fee in the token when the transfer leaves enough', async () => {
+        await callMock(mock, 'mock_setBalance', [safeAccountAddress, TEST_TOKEN, '100000000'])
+        const start = getMockBalance(mock.state, NEW_OWNER, TEST_TOKEN)
+
+        const { exitCode, output, stderr } = await transfer('90')
+
+        assert.equal(exitCode, EXIT_CODES.success, stderr)
+        assert.equal(output.result!.preview.gasMode, 'erc20')
+        assert.equal(received(start), 90_000_000n)
+        assert.ok(getMockBalance(mock.state, safeAccountAddress, TEST_TOKEN) < 10_000_000n, 'the fee is paid from the rest')
+    })
+})
@@ -0,0 +1,58 @@
+/**
+ * pollUntil (lib/poll.ts): backoff, retry hints and the timeout.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+
+import { PollOptions, pollUntil } from '../lib/poll.js'
+
+const FAST: PollOptions = { timeoutSeconds: 1, intervalSeconds: 0.01, maxIntervalSeconds: 0.04, backoff: 2 }
+
+describe('pollUntil', () => {
+    test('returns the first non-null value', async () => {
+        let calls = 0
+        const value = await pollUntil('the third call', async () => (++calls === 3 ? 'done' : null), FAST)
+
+        assert.equal(value, 'done')
+        assert.equal(calls, 3)
+    })
+
+    test('returns falsy values other than null', async () => {
+        assert.equal(await pollUntil('zero', async () => 0, FAST), 0)
+        assert.equal(await pollUntil('false', async () => false, FAST), false)
+    })
+
+    test('backs off up to maxIntervalSeconds', async () => {
+        const times: number[] = []
+        await pollUntil('six calls', async () => (times.push(Date.now()) === 6 ? true : null), FAST)
+
+        const waits = times.slice(1).map((time, i) => time - times[i])
+        // 10, 20, 40, then capped at 40 ms (timers may fire a little late, never early)
+        for (const [i, expected] of [10, 20, 40, 40, 40].entries()) {
+            assert.ok(waits[i] >= expected - 2, `wait ${i} was ${waits[i]}ms, expected ${expected}ms`)
+        }
+        assert.ok(waits[4] < 200, `wait 4 was ${waits[4]}ms, over the 40ms cap`)
+    })
+
+    test('waits as long as a retry hint asks, within the cap', async () => {
+        let calls = 0
+        const start = Date.now()
+        await pollUntil('a hinted retry', async () => (++calls === 2 ? true : { retryAfterSeconds: 0.03 }), {
+            ...FAST,
+            intervalSeconds: 0.5,
+            maxIntervalSeconds: 0.5,
+        })
+
+        assert.ok(Date.now() - start < 400, 'the hint replaces the 0.5s interval')
+    })
+
+    test('throws once the timeout has passed', async () => {
+        let calls = 0
+        await assert.rejects(
+            pollUntil('a value', async () => (calls++, null), { ...FAST, timeoutSeconds: 0.1 }),
+            { message: 'Timed out after 0.1s waiting for a value' }
+        )
+        assert.ok(calls > 1)
+    })
+})
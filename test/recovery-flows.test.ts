@@ -0,0 +1,220 @@
+/**
+ * The recovery flows end to end against the mock chain and recovery service
+ * (lib/mock-server.ts, lib/mock-recovery-service.ts): 02-recovery-flow-personal-guardian
+ * through the service and relayed with --relay eoa, and 02-recovery-flow-email-sms,
+ * each with a failure part-way that a re-run in the same directory carries on from.
+ *
+ * The Safes start out guarded (createGuardedSafe) and grace periods are skipped
+ * on the mock's clock (skipGracePeriods). The service runs must not leave any
+ * request the mock service has no route for: that is what checks its routes
+ * against the SDK.
+ */
+
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+
+import { EXIT_CODES } from '../lib/cli.js'
+import { MOCK_CUSTODIAL_GUARDIAN } from '../lib/mock-recovery-service.js'
+import { MockServer } from '../lib/mock-server.js'
+import { RecoverySession, summarizeRecoverySession } from '../lib/recovery-session.js'
+import {
+    TEST_GUARDIANS,
+    TEST_GUARDIAN_KEYS,
+    TEST_RELAYER,
+    TEST_RELAYER_PRIVATE_KEY,
+    callMock,
+    createGuardedSafe,
+    createScratchDir,
+    runCommand,
+    skipGracePeriods,
+    startMock,
+} from './helpers.js'
+
+const OWNER = '0x14dC79964da2C08b23698B3D3cc7Ca32193d9955'
+const NEW_OWNER = '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65'
+
+/** Polls every second at most, so a skipped grace period is noticed within one */
+const FAST_POLLING = { POLL_INTERVAL_SECONDS: '0.2', POLL_MAX_INTERVAL_SECONDS: '1', POLL_TIMEOUT_SECONDS: '30' }
+
+/** The --json result of recovery start */
+type RecoveryResult = ReturnType<typeof summarizeRecoverySession>
+
+/** The recovery session a run left in `cwd` for the Safe */
+function readSession(cwd: string, safe: string): RecoverySession {
+    const sessions: Record<string, RecoverySession> = JSON.parse(fs.readFileSync(path.join(cwd, '.recovery-sessions.json'), 'utf8'))
+    const session = Object.values(sessions).find(session => session.safeAccountAddress.toLowerCase() === safe.toLowerCase())
+    assert.ok(session, `no recovery session for ${safe}`)
+    return session
+}
+
+function assertRecovered(mock: MockServer, safe: string) {
+    assert.deepEqual(mock.state.safes[safe.toLowerCase()].owners, [NEW_OWNER])
+    assert.equal(mock.state.safes[safe.toLowerCase()].threshold, 1n)
+}
+
+describe('recovery start --via guardians', () => {
+    let mock: MockServer
+    let stopSkipping: () => void
+    before(async () => {
+        mock = await startMock()
+        stopSkipping = skipGracePeriods(mock)
+    })
+    after(() => {
+        stopSkipping()
+        return mock.close()
+    })
+
+    function start(safe: string, args: string[] = [], env: Record<string, string> = {}, cwd?: string) {
+        return runCommand<RecoveryResult>(mock, ['recovery', 'start', '--via', 'guardians', '--new-owners', NEW_OWNER, '--yes', ...args], {
+            ...TEST_GUARDIAN_KEYS,
+            ...FAST_POLLING,
+            SAFE_ACCOUNT_ADDRESS: safe,
+            ...env,
+        }, cwd)
+    }
+
+    test('recovers the Safe through the recovery service', async () => {
+        const safe = createGuardedSafe(mock, { address: '0x00000000000000000000000000000000000a11ce', owner: OWNER, guardians: TEST_GUARDIANS, threshold: 2 })
+
+        const { exitCode, output, stderr } = await start(safe)
+
+        assert.equal(exitCode, EXIT_CODES.success, stderr)
+        assert.equal(output.result!.status, 'FINALIZED')
+        assert.deepEqual(output.result!.signers, TEST_GUARDIANS.map(signer => ({ signer, submitted: true })))
+        assertRecovered(mock, safe)
+        const [request] = Object.values(mock.recoveryService.recoveryRequests)
+        assert.equal(request.status, 'FINALIZED')
+        assert.deepEqual(mock.recoveryService.unrouted, [])
+    })
+
+    test('carries on with --relay eoa after the service fails to execute', async () => {
+        const safe = createGuardedSafe(mock, { address: '0x00000000000000000000000000000000000b0b00', owner: OWNER, guardians: TEST_GUARDIANS, threshold: 2 })
+        const cwd = createScratchDir()
+        await callMock(mock, 'mock_failRecoveryService', [{ operation: 'executeRecoveryRequest', status: 503, message: 'relayer down', times: 1 }])
+
+        const failed = await start(safe, [], {}, cwd)
+
+        assert.equal(failed.exitCode, EXIT_CODES.failure)
+        assert.match(failed.output.error!.message, /The recovery service call failed\. .*--relay eoa/)
+        assert.equal(readSession(cwd, safe).status, 'PENDING')
+        assert.deepEqual(mock.state.safes[safe.toLowerCase()].owners, [OWNER])
+
+        const { exitCode, output, stderr } = await start(safe, ['--relay', 'eoa'], { RELAYER_PRIVATE_KEY: TEST_RELAYER_PRIVATE_KEY }, cwd)
+
+        assert.equal(exitCode, EXIT_CODES.success, stderr)
+        assert.equal(output.result!.status, 'FINALIZED')
+        assert.equal(output.result!.relay, 'eoa')
+        assertRecovered(mock, safe)
+        assert.deepEqual(mock.recoveryService.unrouted, [])
+    })
+
+    test('recovers the Safe with --relay eoa, without the service', async () => {
+        const safe = createGuardedSafe(mock, { address: '0x00000000000000000000000000000000000ca201', owner: OWNER, guardians: TEST_GUARDIANS, threshold: 2 })
+
+        const { exitCode, output, stderr } = await start(safe, ['--relay', 'eoa'], { RELAYER_PRIVATE_KEY: TEST_RELAYER_PRIVATE_KEY, RECOVERY_SERVICE_URL: '' })
+
+        assert.equal(exitCode, EXIT_CODES.success, stderr)
+        assert.equal(output.result!.status, 'FINALIZED')
+        assert.match(output.result!.executeTransactionHash!, /^0x[0-9a-f]{64}$/)
+        assert.match(output.result!.finalizeTransactionHash!, /^0x[0-9a-f]{64}$/)
+        assertRecovered(mock, safe)
+    })
+
+    test('fails before sending when the relayer cannot pay, then resumes once it can', async () => {
+        const safe = createGuardedSafe(mock, { address: '0x00000000000000000000000000000000000da7e0', owner: OWNER, guardians: TEST_GUARDIANS, threshold: 2 })
+        const cwd = createScratchDir()
+        await callMock(mock, 'mock_setBalance', [TEST_RELAYER, 'native', '0'])
+        const blocks = mock.state.blocks.length
+
+        const failed = await start(safe, ['--relay', 'eoa'], { RELAYER_PRIVATE_KEY: TEST_RELAYER_PRIVATE_KEY }, cwd)
+
+        assert.equal(failed.exitCode, EXIT_CODES.failure)
+        assert.match(failed.output.error!.message, /Fund it, or use --relay bundler/)
+        assert.equal(readSession(cwd, safe).status, 'PENDING')
+        assert.equal(mock.state.blocks.length, blocks)
+
+        await callMock(mock, 'mock_setBalance', [TEST_RELAYER, 'native', String(10n ** 17n)])
+        const { exitCode, output, stderr } = await start(safe, ['--relay', 'eoa'], { RELAYER_PRIVATE_KEY: TEST_RELAYER_PRIVATE_KEY }, cwd)
+
+        assert.equal(exitCode, EXIT_CODES.success, stderr)
+        assert.equal(output.result!.status, 'FINALIZED')
+        assertRecovered(mock, safe)
+    })
+})
+
+describe('recovery start --via email-sms', () => {
+    let mock: MockServer
+    let stopSkipping: () => void
+    before(async () => {
+        mock = await startMock()
+        stopSkipping = skipGracePeriods(mock)
+    })
+    after(() => {
+        stopSkipping()
+        return mock.close()
+    })
+
+    /** A Safe guarded by the service, with an email channel registered */
+    function createEmailSmsSafe(address: string) {
+        const safe = createGuardedSafe(mock, { address, owner: OWNER, guardians: [MOCK_CUSTODIAL_GUARDIAN], threshold: 1 })
+        mock.recoveryService.registrations[safe.toLowerCase()] = [{ id: `registration-${address}`, channel: 'email', target: 'owner@example.com' }]
+        return safe
+    }
+
+    function start(safe: string, env: Record<string, string> = {}, cwd?: string) {
+        return runCommand<RecoveryResult>(mock, ['recovery', 'start', '--via', 'email-sms', '--new-owners', NEW_OWNER], {
+            ...FAST_POLLING,
+            SAFE_ACCOUNT_ADDRESS: safe,
+            ...env,
+        }, cwd)
+    }
+
+    test('recovers the Safe once the email OTP is verified', async () => {
+        const safe = createEmailSmsSafe('0x00000000000000000000000000000000000e3a11')
+
+        const { exitCode, output, stderr } = await start(safe)
+
+        assert.equal(exitCode, EXIT_CODES.success, stderr)
+        assert.equal(output.result!.status, 'FINALIZED')
+        assert.deepEqual(output.result!.signers, [{ signer: MOCK_CUSTODIAL_GUARDIAN, submitted: true }])
+        assert.deepEqual(mock.recoveryService.outbox.map(({ channel, target }) => ({ channel, target })), [
+            { channel: 'email', target: 'owner@example.com' },
+        ])
+        assertRecovered(mock, safe)
+        assert.deepEqual(mock.recoveryService.unrouted, [])
+    })
+
+    test('fails on a wrong OTP without a guardian signature, then recovers on a re-run', async () => {
+        const safe = createEmailSmsSafe('0x00000000000000000000000000000000000f0e00')
+        const cwd = createScratchDir()
+        fs.writeFileSync(path.join(cwd, 'otp.txt'), '000000')
+
+        const failed = await start(safe, { OTP_FILE: path.join(cwd, 'otp.txt') }, cwd)
+
+        assert.equal(failed.exitCode, EXIT_CODES.failure)
+        assert.equal(readSession(cwd, safe).signatures.length, 0)
+        assert.deepEqual(mock.state.safes[safe.toLowerCase()].owners, [OWNER])
+
+        const { exitCode, output, stderr } = await start(safe, {}, cwd)
+
+        assert.equal(exitCode, EXIT_CODES.success, stderr)
+        assert.equal(output.result!.status, 'FINALIZED')
+        assertRecovered(mock, safe)
+    })
+
+    test('fails when the service cannot send the challenge, and nothing happens on-chain', async () => {
+        const safe = createEmailSmsSafe('0x00000000000000000000000000000000000d0e00')
+        await callMock(mock, 'mock_failRecoveryService', [{
+            operation: 'requestCustodialGuardianSignatureChallenge', status: 503, message: 'email provider down', times: 1,
+        }])
+
+        const { exitCode, output } = await start(safe)
+
+        assert.equal(exitCode, EXIT_CODES.failure)
+        assert.equal(output.ok, false)
+        assert.deepEqual(mock.state.safes[safe.toLowerCase()].owners, [OWNER])
+        assert.deepEqual(mock.recoveryService.unrouted, [])
+    })
+})
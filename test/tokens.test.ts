@@ -0,0 +1,86 @@
+/**
+ * Token amounts and a batch's own spending of a token (lib/tokens.ts).
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { maxUint256 } from 'viem'
+
+import {
+    NATIVE_TOKEN,
+    Token,
+    describeTokenShortfall,
+    encodeTokenApproval,
+    encodeTokenTransfer,
+    formatTokenAmount,
+    getTokenOutflow,
+    parseTokenAmount,
+} from '../lib/tokens.js'
+import { TEST_TOKEN } from './helpers.js'
+
+const USDT: Token = { address: TEST_TOKEN, symbol: 'USDT', decimals: 6 }
+const OTHER: Token = { address: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238', symbol: 'USDC', decimals: 6 }
+const RECIPIENT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+const SPENDER = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC'
+
+describe('parseTokenAmount and formatTokenAmount', () => {
+    test('convert between human amounts and base units without rounding', () => {
+        assert.equal(parseTokenAmount('12.5 USDT', USDT), 12_500_000n)
+        assert.equal(parseTokenAmount('.000001', USDT), 1n)
+        assert.equal(formatTokenAmount(12_500_000n, USDT), '12.5 USDT')
+    })
+
+    test('reject other symbols and more digits than the token has', () => {
+        assert.throws(() => parseTokenAmount('1 USDC', USDT), /the token is USDT, not USDC/)
+        assert.throws(() => parseTokenAmount('0.0000001', USDT), /USDT has 6 decimals, got 7 digits/)
+    })
+})
+
+describe('getTokenOutflow', () => {
+    test('adds up the transfers of the token, and nothing else', () => {
+        const calls = [
+            encodeTokenTransfer(USDT, RECIPIENT, 40_000_000n),
+            encodeTokenTransfer(OTHER, RECIPIENT, 5_000_000n),
+            encodeTokenTransfer(NATIVE_TOKEN, RECIPIENT, 10n ** 15n),
+            { to: TEST_TOKEN, value: 0n, data: '0x313ce567' as const },
+        ]
+
+        assert.equal(getTokenOutflow(USDT, calls), 40_000_000n)
+        assert.equal(getTokenOutflow(OTHER, calls), 5_000_000n)
+    })
+
+    test('counts an approval only when the batch then calls the spender', () => {
+        const used = [encodeTokenApproval(USDT, SPENDER, 10_000_000n), { to: SPENDER, value: 0n, data: '0x' as const }]
+        const unused = [
+            { to: SPENDER, value: 0n, data: '0x' as const },
+            encodeTokenApproval(USDT, SPENDER, maxUint256),
+            encodeTokenApproval(USDT, RECIPIENT, 10_000_000n),
+        ]
+
+        assert.equal(getTokenOutflow(USDT, used), 10_000_000n)
+        assert.equal(getTokenOutflow(USDT, unused), 0n)
+    })
+
+    test('is the calls\' value for the native coin', () => {
+        const calls = [
+            encodeTokenTransfer(NATIVE_TOKEN, RECIPIENT, 10n ** 15n),
+            { ...encodeTokenTransfer(USDT, RECIPIENT, 1n), value: 2n },
+        ]
+
+        assert.equal(getTokenOutflow(NATIVE_TOKEN, calls), 10n ** 15n + 2n)
+    })
+
+    test('is 0 for a batch that does not touch the token', () => {
+        assert.equal(getTokenOutflow(USDT, [encodeTokenTransfer(OTHER, RECIPIENT, 1n)]), 0n)
+    })
+})
+
+describe('describeTokenShortfall', () => {
+    test('mentions the batch\'s own spending only when there is some', () => {
+        assert.equal(describeTokenShortfall(USDT, 1_000_000n, 1_200_000n, 0n), '1 USDT available, ~1.2 USDT needed')
+        assert.equal(
+            describeTokenShortfall(USDT, 100_000_000n, 1_200_000n, 99_500_000n),
+            '100 USDT available, ~1.2 USDT needed on top of the batch\'s 99.5 USDT'
+        )
+    })
+})
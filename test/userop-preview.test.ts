@@ -0,0 +1,66 @@
+/**
+ * Bundler error handling in lib/userop-preview.ts: the AA code hints, and
+ * which errors count as the paymaster turning a UserOperation down.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { AbstractionKitError } from 'abstractionkit'
+import { RpcRequestError } from 'viem'
+
+import { describeBundlerError, isPaymasterRejection } from '../lib/userop-preview.js'
+
+/** A bundler's JSON-RPC error as viem (and so WDK) surfaces it */
+function rpcError(code: number, message: string) {
+    return new RpcRequestError({ body: { method: 'eth_estimateUserOperationGas' }, error: { code, message }, url: 'http://127.0.0.1:8545' })
+}
+
+/** How previewUserOperation wraps a failed gas estimate */
+function gasEstimationFailed(error: Error) {
+    return new Error(`Gas estimation failed: ${describeBundlerError(error)}`, { cause: error })
+}
+
+describe('describeBundlerError', () => {
+    test('appends the hint for a known AA code', () => {
+        assert.equal(
+            describeBundlerError(new Error('AA25 invalid account nonce')),
+            'AA25 invalid account nonce — invalid nonce — another UserOperation from this Safe may still be pending'
+        )
+    })
+
+    test('leaves other messages as they are', () => {
+        assert.equal(describeBundlerError(new Error('AA99 unheard of')), 'AA99 unheard of')
+        assert.equal(describeBundlerError('timeout'), 'timeout')
+    })
+})
+
+describe('isPaymasterRejection', () => {
+    test('is true for AA3x codes, also below a wrapper', () => {
+        assert.equal(isPaymasterRejection(new Error('AA33 reverted: sponsorship policy exhausted')), true)
+        assert.equal(isPaymasterRejection(gasEstimationFailed(rpcError(-32602, 'AA31 paymaster deposit too low'))), true)
+    })
+
+    test('is true for the paymaster JSON-RPC error codes', () => {
+        assert.equal(isPaymasterRejection(rpcError(-32501, 'rejected by the paymaster')), true)
+        assert.equal(isPaymasterRejection(gasEstimationFailed(rpcError(-32504, 'paymaster throttled'))), true)
+    })
+
+    test('is true for abstractionkit\'s paymaster errors', () => {
+        assert.equal(isPaymasterRejection(new AbstractionKitError('PAYMASTER_ERROR', 'pm_sponsorUserOperation failed')), true)
+        assert.equal(isPaymasterRejection(new AbstractionKitError('BUNDLER_ERROR', 'estimate failed', {
+            errno: -32501,
+        })), true)
+    })
+
+    test('is false for an AA21 prefund failure, whose hint suggests a paymaster', () => {
+        const error = gasEstimationFailed(rpcError(-32500, 'AA21 didn\'t pay prefund'))
+
+        assert.match(error.message, /use a paymaster/)
+        assert.equal(isPaymasterRejection(error), false)
+    })
+
+    test('is false for other errors that mention a paymaster or sponsorship', () => {
+        assert.equal(isPaymasterRejection(new Error('PAYMASTER_URL is required')), false)
+        assert.equal(isPaymasterRejection(rpcError(-32602, 'invalid sponsorship policy id format')), false)
+    })
+})
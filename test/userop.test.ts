@@ -0,0 +1,146 @@
+/**
+ * waitForUserOperation (lib/userop.ts) against a scripted bundler: included,
+ * reverted, dropped, still pending at the deadline, and replaced.
+ */
+
+import assert from 'node:assert/strict'
+import * as http from 'node:http'
+import { AddressInfo } from 'node:net'
+import { after, before, beforeEach, describe, mock, test } from 'node:test'
+
+import { NotReadyError } from '../lib/errors.js'
+import { MOCK_ENTRY_POINT } from '../lib/mock-chain.js'
+import { UserOperationPendingError, WaitOptions, waitForUserOperation } from '../lib/userop.js'
+
+const HASH = `0x${'11'.repeat(32)}`
+const REPLACEMENT = `0x${'22'.repeat(32)}`
+
+const FAST: WaitOptions = { timeoutSeconds: 1, intervalSeconds: 0.01, reportEverySeconds: 60 }
+
+/** What the bundler knows about a hash, per call: 'included' / 'reverted' once in a block */
+type Answer = 'pending' | 'unknown' | 'included' | 'reverted'
+
+let answer: (hash: string, poll: number) => Answer
+let polls: Record<string, number>
+
+function receipt(hash: string, success: boolean) {
+    return {
+        userOpHash: hash,
+        entryPoint: MOCK_ENTRY_POINT,
+        sender: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        nonce: '0x0',
+        actualGasCost: '0x5208',
+        actualGasUsed: '0x5208',
+        success,
+        logs: [],
+        receipt: {
+            transactionHash: `0x${'33'.repeat(32)}`,
+            blockNumber: '0x7',
+            cumulativeGasUsed: '0x5208',
+            gasUsed: '0x5208',
+            transactionIndex: '0x0',
+            logs: [],
+        },
+    }
+}
+
+function respond(method: string, [hash]: string[]) {
+    if (method === 'eth_getUserOperationReceipt') {
+        polls[hash] = (polls[hash] ?? 0) + 1
+        const state = answer(hash, polls[hash])
+        return state === 'included' || state === 'reverted' ? receipt(hash, state === 'included') : null
+    }
+    return answer(hash, polls[hash] ?? 0) === 'pending' ? { userOperation: {}, entryPoint: MOCK_ENTRY_POINT } : null
+}
+
+let server: http.Server
+let bundlerUrl: string
+
+before(async () => {
+    server = http.createServer((request, response) => {
+        let body = ''
+        request.on('data', chunk => (body += chunk))
+        request.on('end', () => {
+            const { id, method, params } = JSON.parse(body)
+            response.writeHead(200, { 'Content-Type': 'application/json' })
+            response.end(JSON.stringify({ jsonrpc: '2.0', id, result: respond(method, params) }))
+        })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    bundlerUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+after(() => server.close())
+
+beforeEach(() => {
+    polls = {}
+    mock.method(console, 'log', () => {})
+})
+
+describe('waitForUserOperation', () => {
+    test('returns the receipt once the UserOperation is included', async () => {
+        answer = (_, poll) => (poll < 3 ? 'pending' : 'included')
+
+        const result = await waitForUserOperation(HASH, bundlerUrl, MOCK_ENTRY_POINT, FAST)
+
+        assert.equal(result.success, true)
+        assert.equal(result.userOpHash, HASH)
+        assert.equal(result.receipt.blockNumber, 7n)
+        assert.equal(polls[HASH], 3)
+    })
+
+    test('returns a reverted UserOperation\'s receipt too', async () => {
+        answer = () => 'reverted'
+
+        const result = await waitForUserOperation(HASH, bundlerUrl, MOCK_ENTRY_POINT, FAST)
+
+        assert.equal(result.success, false)
+    })
+
+    test('tolerates a lagging mempool before calling a UserOperation dropped', async () => {
+        answer = (_, poll) => (poll < 3 ? 'unknown' : 'included')
+
+        const result = await waitForUserOperation(HASH, bundlerUrl, MOCK_ENTRY_POINT, FAST)
+
+        assert.equal(result.success, true)
+    })
+
+    test('fails once the bundler no longer has it and it is not in a block', async () => {
+        answer = (_, poll) => (poll < 2 ? 'pending' : 'unknown')
+
+        await assert.rejects(waitForUserOperation(HASH, bundlerUrl, MOCK_ENTRY_POINT, FAST), {
+            message: new RegExp(`^UserOperation ${HASH} was dropped: .*nothing was executed`),
+        })
+        // One pending poll, then three misses
+        assert.equal(polls[HASH], 4)
+    })
+
+    test('stops at the deadline with a not-ready error carrying the hash', async () => {
+        answer = () => 'pending'
+
+        const error = await waitForUserOperation(HASH, bundlerUrl, MOCK_ENTRY_POINT, { ...FAST, timeoutSeconds: 0.1 })
+            .then(() => assert.fail('resolved'), error => error)
+
+        assert.ok(error instanceof UserOperationPendingError)
+        assert.ok(error instanceof NotReadyError)
+        assert.equal(error.userOperationHash, HASH)
+        assert.deepEqual(error.details, { userOpHash: HASH, status: 'pending', replaced: [] })
+        assert.match(error.message, new RegExp(`wdk-candide -- wait ${HASH} --replace`))
+    })
+
+    test('replaces a UserOperation pending too long and returns whichever is included', async () => {
+        answer = hash => (hash === REPLACEMENT ? 'included' : 'pending')
+        const replaced: string[] = []
+
+        const result = await waitForUserOperation(HASH, bundlerUrl, MOCK_ENTRY_POINT, {
+            ...FAST,
+            replaceAfterSeconds: 0.02,
+            replace: async (hash) => (replaced.push(hash), REPLACEMENT),
+        })
+
+        assert.deepEqual(replaced, [HASH])
+        assert.equal(result.userOpHash, REPLACEMENT)
+        // The original is still checked after the replacement is sent
+        assert.ok(polls[HASH] > 1)
+    })
+})